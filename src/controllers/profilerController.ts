@@ -1,11 +1,18 @@
 import * as vscode from 'vscode';
 import { ProfilerService } from '../services/profilerService';
 import { TemplateService } from '../services/templateService';
+import { ViewService } from '../services/viewService';
+import { FilterService } from '../services/filterService';
+import { MemoryEventStore } from '../services/eventStore';
 import { ConnectionManager } from '../services/connectionManager';
+import { describeAuthentication, getAuthenticationOption, toAuthenticationType } from '../services/authentication';
 import { ProfilerPanel } from '../panels/profilerPanel';
-import { ConnectionInfo, SessionState } from '../models/profilerTypes';
-import { ConnectionTreeProvider, ConnectionTreeItem } from '../views/connectionTreeProvider';
+import { TemplateBuilderPanel } from '../panels/templateBuilderPanel';
+import { CaptureOptions, CaptureTarget, ConnectionInfo, PlanCapture, ProfilerSessionTemplate, ServerEventSessionInfo, SessionState } from '../models/profilerTypes';
+import { ConnectionTreeProvider, ConnectionTreeItem, ConnectionGroupTreeItem, ServerSessionTreeItem } from '../views/connectionTreeProvider';
 import { SessionTreeProvider } from '../views/sessionTreeProvider';
+import { XelEditorProvider } from '../editors/xelEditorProvider';
+import { CaptureEditorProvider } from '../editors/captureEditorProvider';
 
 /**
  * Main controller for profiler extension commands
@@ -13,16 +20,20 @@ import { SessionTreeProvider } from '../views/sessionTreeProvider';
 export class ProfilerController {
     private profilerService: ProfilerService;
     private templateService: TemplateService;
+    private viewService: ViewService;
+    private filterService: FilterService;
     private connectionManager: ConnectionManager;
     private panels: Map<string, ProfilerPanel> = new Map();
     private connectionTreeProvider: ConnectionTreeProvider;
     private sessionTreeProvider: SessionTreeProvider;
 
     constructor(private context: vscode.ExtensionContext) {
-        this.profilerService = new ProfilerService();
+        this.profilerService = new ProfilerService(context.globalStorageUri);
         this.templateService = new TemplateService(context);
+        this.viewService = new ViewService(context);
+        this.filterService = new FilterService(context);
         this.connectionManager = new ConnectionManager(context);
-        this.connectionTreeProvider = new ConnectionTreeProvider(this.connectionManager);
+        this.connectionTreeProvider = new ConnectionTreeProvider(this.connectionManager, this.profilerService);
         this.sessionTreeProvider = new SessionTreeProvider(this.profilerService);
     }
 
@@ -34,14 +45,24 @@ export class ProfilerController {
             // Initialize services
             await this.profilerService.initialize();
             await this.templateService.loadTemplates();
+            this.templateService.watchForChanges();
+            await this.viewService.loadViews();
+            this.viewService.watchForChanges();
+            this.filterService.loadFilters();
+            this.filterService.watchForChanges();
             await this.connectionManager.initialize();
 
             // Register tree views
             this.registerTreeViews();
 
+            // Register custom editors
+            this.registerEditors();
+
             // Register commands
             this.registerCommands();
 
+            this.watchConnectionStatus();
+
             console.log('Profiler controller activated');
 
         } catch (error: any) {
@@ -58,7 +79,9 @@ export class ProfilerController {
         // Register connections tree view
         const connectionTree = vscode.window.createTreeView('mssql-profiler-connections', {
             treeDataProvider: this.connectionTreeProvider,
-            showCollapseAll: false
+            dragAndDropController: this.connectionTreeProvider,
+            canSelectMany: true,
+            showCollapseAll: true
         });
 
         this.context.subscriptions.push(connectionTree);
@@ -81,6 +104,42 @@ export class ProfilerController {
         });
     }
 
+    /**
+     * Refresh the session tree as sessions lose and regain their connections, and offer to
+     * reconnect by hand once automatic reconnecting gives up
+     */
+    private watchConnectionStatus(): void {
+        this.context.subscriptions.push(
+            this.profilerService.onDidChangeConnectionStatus(async session => {
+                this.sessionTreeProvider.refresh();
+
+                // maxAttempts is only set when automatic reconnecting gave up; manual reconnects report their own errors
+                const status = session.connectionStatus;
+                if (status?.health !== 'disconnected' || !status.maxAttempts) {
+                    return;
+                }
+
+                const action = await vscode.window.showWarningMessage(
+                    `Session '${session.name}' lost its connection and could not reconnect after ${status.maxAttempts} attempts: ${status.error || 'Unknown error'}`,
+                    'Reconnect'
+                );
+                if (action === 'Reconnect') {
+                    await this.reconnectCommand(session.name);
+                }
+            })
+        );
+    }
+
+    /**
+     * Register custom editors for capture files
+     */
+    private registerEditors(): void {
+        this.context.subscriptions.push(
+            XelEditorProvider.register(this.context, this.profilerService, this.viewService, this.filterService),
+            CaptureEditorProvider.register(this.context, this.profilerService, this.viewService, this.filterService)
+        );
+    }
+
     /**
      * Register all profiler commands
      */
@@ -92,6 +151,27 @@ export class ProfilerController {
             })
         );
 
+        // Attach to Existing Session command
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.attachToSession', async () => {
+                await this.attachToSessionCommand();
+            })
+        );
+
+        // New Session Template command
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.newTemplate', async () => {
+                await this.newTemplateCommand();
+            })
+        );
+
+        // Open XEL File command
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.openXelFile', async () => {
+                await this.openXelFileCommand();
+            })
+        );
+
         // Start Profiling command
         this.context.subscriptions.push(
             vscode.commands.registerCommand('mssql-profiler.startProfiling', async (sessionName: string) => {
@@ -141,6 +221,14 @@ export class ProfilerController {
             })
         );
 
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.importConnections', async () => {
+                if (await this.connectionManager.importConnections()) {
+                    this.connectionTreeProvider.refresh();
+                }
+            })
+        );
+
         this.context.subscriptions.push(
             vscode.commands.registerCommand('mssql-profiler.deleteConnection', async (item: ConnectionTreeItem) => {
                 const confirm = await vscode.window.showWarningMessage(
@@ -163,6 +251,59 @@ export class ProfilerController {
             })
         );
 
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.moveConnection', async (item: ConnectionTreeItem) => {
+                if (await this.connectionManager.moveProfileToGroup(item.id)) {
+                    this.connectionTreeProvider.refresh();
+                }
+            })
+        );
+
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.addConnectionGroup', async (item?: ConnectionGroupTreeItem) => {
+                if (await this.connectionManager.addConnectionGroup(item?.group.name)) {
+                    this.connectionTreeProvider.refresh();
+                }
+            })
+        );
+
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.renameConnectionGroup', async (item: ConnectionGroupTreeItem) => {
+                if (await this.connectionManager.renameConnectionGroup(item.group.name)) {
+                    this.connectionTreeProvider.refresh();
+                }
+            })
+        );
+
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.setConnectionGroupColor', async (item: ConnectionGroupTreeItem) => {
+                if (await this.connectionManager.setConnectionGroupColor(item.group.name)) {
+                    this.connectionTreeProvider.refresh();
+                }
+            })
+        );
+
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.deleteConnectionGroup', async (item: ConnectionGroupTreeItem) => {
+                if (await this.connectionManager.deleteConnectionGroup(item.group.name)) {
+                    this.connectionTreeProvider.refresh();
+                }
+            })
+        );
+
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('mssql-profiler.attachToServerSession', async (item: ServerSessionTreeItem) => {
+                try {
+                    const connection = await this.connectionManager.getProfileConnection(item.profile);
+                    await this.attachToServerSession(connection, item.serverSession);
+                } catch (error: any) {
+                    const message = error?.message || 'Unknown error';
+                    vscode.window.showErrorMessage(`Failed to attach to session: ${message}`);
+                    console.error('Attach to session error:', error);
+                }
+            })
+        );
+
         this.context.subscriptions.push(
             vscode.commands.registerCommand('mssql-profiler.startFromConnection', async (item: ConnectionTreeItem) => {
                 // Get the connection profile
@@ -195,7 +336,7 @@ export class ProfilerController {
         const items: vscode.QuickPickItem[] = profiles.map(profile => ({
             label: profile.name,
             description: `${profile.serverName} - ${profile.databaseName}`,
-            detail: profile.authenticationType === 'Integrated' ? 'Windows Auth' : `User: ${profile.userName}`
+            detail: describeAuthentication(profile)
         }));
 
         const selected = await vscode.window.showQuickPick(items, {
@@ -232,39 +373,21 @@ export class ProfilerController {
 
     /**
      * Handle New Profiler command
+     * The template builder passes its template and connection to skip those prompts
      */
-    private async newProfilerCommand(): Promise<void> {
+    private async newProfilerCommand(selectedTemplate?: ProfilerSessionTemplate, selectedConnection?: ConnectionInfo): Promise<void> {
         try {
             // Get connection using connection manager (tries vscode-mssql first, then saved profiles, then manual entry)
-            const connection = await this.connectionManager.getConnection();
+            const connection = selectedConnection || await this.connectionManager.getConnection();
 
             if (!connection) {
                 return; // User cancelled
             }
 
-            // Get templates
-            const templates = this.templateService.getTemplates();
-
-            if (templates.length === 0) {
-                vscode.window.showErrorMessage('No profiler templates available');
-                return;
-            }
-
             // Show template selection
-            const templateNames = templates.map(t => t.name);
-            const selectedTemplateName = await vscode.window.showQuickPick(templateNames, {
-                placeHolder: 'Select a session template',
-                ignoreFocusOut: true
-            });
-
-            if (!selectedTemplateName) {
-                return; // User cancelled
-            }
-
-            const template = this.templateService.getTemplateByName(selectedTemplateName);
+            const template = selectedTemplate || await this.pickTemplate();
             if (!template) {
-                vscode.window.showErrorMessage('Template not found');
-                return;
+                return; // User cancelled or no templates
             }
 
             // Prompt for session name
@@ -286,6 +409,15 @@ export class ProfilerController {
                 return; // User cancelled
             }
 
+            const captureOptions = await this.pickCaptureOptions(connection, sessionName, template);
+            if (!captureOptions) {
+                return; // User cancelled
+            }
+
+            if (!await this.checkBlockedProcessThreshold(connection, template)) {
+                return; // User cancelled
+            }
+
             // Create the session with progress tracking
             let session: any;
             let connectionFailed = false;
@@ -302,7 +434,8 @@ export class ProfilerController {
                     session = await this.profilerService.createSession(
                         connection,
                         sessionName,
-                        template
+                        template,
+                        captureOptions
                     );
                 } catch (error: any) {
                     connectionFailed = true;
@@ -316,6 +449,12 @@ export class ProfilerController {
                         template,
                         state: SessionState.Stopped,
                         events: [],
+                        store: new MemoryEventStore(),
+                        captureOptions,
+                        databaseLookup: new Map<number, string>(),
+                        tracksEventSequence: false,
+                        lastEventSequence: 0,
+                        missedEventCount: 0,
                         createdAt: new Date()
                     };
                 }
@@ -326,7 +465,9 @@ export class ProfilerController {
                 const panel = ProfilerPanel.createOrShow(
                     this.context.extensionUri,
                     session,
-                    this.profilerService
+                    this.profilerService,
+                    this.viewService,
+                    this.filterService
                 );
 
                 this.panels.set(sessionName, panel);
@@ -342,7 +483,7 @@ export class ProfilerController {
 
                     if (action === 'Retry Connection') {
                         try {
-                            await this.profilerService.createSession(connection, sessionName, template);
+                            await this.profilerService.createSession(connection, sessionName, template, captureOptions);
                             vscode.window.showInformationMessage(`Connected successfully to '${sessionName}'`);
 
                             // Auto-start if configured
@@ -385,43 +526,162 @@ export class ProfilerController {
     }
 
     /**
-     * Start profiling with an existing connection profile (from tree view)
+     * Handle Attach to Existing Session command - watch a server session without creating or dropping it
      */
-    private async startProfilingWithConnection(profile: any): Promise<void> {
+    private async attachToSessionCommand(): Promise<void> {
         try {
-            // Convert profile to ConnectionInfo
-            const connection: ConnectionInfo = {
-                ownerUri: profile.id,
-                serverName: profile.serverName,
-                databaseName: profile.databaseName,
-                userName: profile.userName || '',
-                password: await this.connectionManager.getPassword(profile.id),
-                authenticationType: profile.authenticationType,
-                isAzure: profile.isAzure
-            };
-
-            // Get templates
-            const templates = this.templateService.getTemplates();
-            if (templates.length === 0) {
-                vscode.window.showErrorMessage('No profiler templates available');
+            const connection = await this.connectionManager.getConnection();
+
+            if (!connection) {
+                return; // User cancelled
+            }
+
+            const serverSessions = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Loading event sessions...',
+                cancellable: false
+            }, () => this.profilerService.listServerSessions(connection));
+
+            // Only sessions with a target we can read from are useful
+            const readableSessions = serverSessions.filter(s =>
+                s.targets.includes('ring_buffer') || s.targets.includes('event_file')
+            );
+
+            if (readableSessions.length === 0) {
+                vscode.window.showInformationMessage('No event sessions with a ring_buffer or event_file target found on this server');
                 return;
             }
 
-            // Show template selection
-            const templateNames = templates.map(t => t.name);
-            const selectedTemplateName = await vscode.window.showQuickPick(templateNames, {
-                placeHolder: 'Select a session template',
+            const items: Array<vscode.QuickPickItem & { serverSession: ServerEventSessionInfo }> = readableSessions.map(s => ({
+                label: s.name,
+                description: `${s.isRunning ? 'Running' : 'Stopped'} - ${s.targets.join(', ')}`,
+                detail: s.eventFilePath,
+                serverSession: s
+            }));
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Select an event session to attach to',
+                ignoreFocusOut: true
+            });
+
+            if (!selected) {
+                return; // User cancelled
+            }
+
+            await this.attachToServerSession(connection, selected.serverSession);
+
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to attach to session: ${message}`);
+            console.error('Attach to session error:', error);
+        }
+    }
+
+    /**
+     * Open a profiler panel reading the events of a server session, asking which target to read when it has both
+     */
+    private async attachToServerSession(connection: ConnectionInfo, serverSession: ServerEventSessionInfo): Promise<void> {
+        let target = serverSession.targets.includes('event_file') ? CaptureTarget.EventFile : CaptureTarget.RingBuffer;
+
+        if (serverSession.targets.includes('event_file') && serverSession.targets.includes('ring_buffer')) {
+            const targetChoice = await vscode.window.showQuickPick(['Event File', 'Ring Buffer'], {
+                placeHolder: 'Which target should events be read from?',
                 ignoreFocusOut: true
             });
 
-            if (!selectedTemplateName) {
+            if (!targetChoice) {
+                return; // User cancelled
+            }
+            target = targetChoice === 'Ring Buffer' ? CaptureTarget.RingBuffer : CaptureTarget.EventFile;
+        }
+
+        if (!serverSession.isRunning && target === CaptureTarget.RingBuffer) {
+            vscode.window.showWarningMessage(`Session '${serverSession.name}' is stopped; its ring buffer has no events until it is started on the server`);
+        }
+
+        const session = await this.profilerService.attachSession(connection, serverSession, target);
+
+        const panel = ProfilerPanel.createOrShow(
+            this.context.extensionUri,
+            session,
+            this.profilerService,
+            this.viewService,
+            this.filterService
+        );
+
+        this.panels.set(session.name, panel);
+
+        // Auto-start reading if configured (the server session itself is left untouched)
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const autoStart = config.get<boolean>('autoStartSession', true);
+
+        if (autoStart) {
+            await this.profilerService.startSession(session.name);
+            panel.updateSessionState();
+        }
+    }
+
+    /**
+     * Handle Open XEL File command - show an .xel capture without a SQL Server connection
+     */
+    private async openXelFileCommand(): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Open',
+            filters: {
+                'XEvent Files': ['xel']
+            }
+        });
+
+        if (!uris || uris.length === 0) {
+            return; // User cancelled
+        }
+
+        try {
+            await vscode.commands.executeCommand('vscode.openWith', uris[0], XelEditorProvider.viewType);
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to open XEL file: ${message}`);
+            console.error('Open XEL file error:', error);
+        }
+    }
+
+    /**
+     * Handle New Session Template command: open the template builder for a connection
+     */
+    private async newTemplateCommand(): Promise<void> {
+        try {
+            const connection = await this.connectionManager.getConnection();
+            if (!connection) {
                 return; // User cancelled
             }
 
-            const template = this.templateService.getTemplateByName(selectedTemplateName);
+            TemplateBuilderPanel.createOrShow(
+                this.context.extensionUri,
+                connection,
+                this.profilerService,
+                this.templateService,
+                (template, builderConnection) => this.newProfilerCommand(template, builderConnection)
+            );
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to open template builder: ${message}`);
+            console.error('Template builder error:', error);
+        }
+    }
+
+    /**
+     * Start profiling with an existing connection profile (from tree view)
+     */
+    private async startProfilingWithConnection(profile: any): Promise<void> {
+        try {
+            // Convert profile to ConnectionInfo
+            const connection = await this.connectionManager.getProfileConnection(profile);
+
+            // Show template selection
+            const template = await this.pickTemplate();
             if (!template) {
-                vscode.window.showErrorMessage('Template not found');
-                return;
+                return; // User cancelled or no templates
             }
 
             // Prompt for session name
@@ -443,6 +703,15 @@ export class ProfilerController {
                 return; // User cancelled
             }
 
+            const captureOptions = await this.pickCaptureOptions(connection, sessionName, template);
+            if (!captureOptions) {
+                return; // User cancelled
+            }
+
+            if (!await this.checkBlockedProcessThreshold(connection, template)) {
+                return; // User cancelled
+            }
+
             // Create the session with progress tracking
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
@@ -454,7 +723,8 @@ export class ProfilerController {
                 const session = await this.profilerService.createSession(
                     connection,
                     sessionName,
-                    template
+                    template,
+                    captureOptions
                 );
 
                 progress.report({ message: 'Opening profiler panel...' });
@@ -462,7 +732,9 @@ export class ProfilerController {
                 const panel = ProfilerPanel.createOrShow(
                     this.context.extensionUri,
                     session,
-                    this.profilerService
+                    this.profilerService,
+                    this.viewService,
+                    this.filterService
                 );
 
                 this.panels.set(sessionName, panel);
@@ -485,6 +757,213 @@ export class ProfilerController {
         }
     }
 
+    /**
+     * Prompt for a session template, showing where custom templates come from
+     */
+    private async pickTemplate(): Promise<ProfilerSessionTemplate | undefined> {
+        const templates = this.templateService.getTemplates();
+        if (templates.length === 0) {
+            vscode.window.showErrorMessage('No profiler templates available');
+            return undefined;
+        }
+
+        const items = templates.map(template => ({
+            label: template.name,
+            // Templates with the same name from different sources are all listed, so always say where each comes from
+            description: template.source,
+            detail: template.description,
+            template
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a session template',
+            ignoreFocusOut: true
+        });
+
+        return selected?.template;
+    }
+
+    /**
+     * Offer to enable the blocked process threshold when a template captures blocked_process_report
+     * while it is 0, since no reports are raised then
+     * Returns false when the user cancels
+     */
+    private async checkBlockedProcessThreshold(connection: ConnectionInfo, template: ProfilerSessionTemplate): Promise<boolean> {
+        // The threshold can't be changed on Azure SQL Database
+        if (connection.isAzure || !/\bblocked_process_report\b/i.test(template.createStatement)) {
+            return true;
+        }
+
+        let threshold: number;
+        try {
+            threshold = await this.profilerService.getBlockedProcessThreshold(connection);
+        } catch (error) {
+            // Connection problems are reported when the session is created
+            console.error('Error reading blocked process threshold:', error);
+            return true;
+        }
+        if (threshold > 0) {
+            return true;
+        }
+
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const seconds = config.get<number>('blockedProcessThreshold', 5);
+        const setThreshold = `Set to ${seconds} Seconds`;
+
+        const action = await vscode.window.showWarningMessage(
+            `The server's 'blocked process threshold' is 0, so no blocked_process_report events are raised. Set it to ${seconds} seconds with sp_configure?`,
+            { modal: true },
+            setThreshold,
+            'Continue Without'
+        );
+
+        if (action === setThreshold) {
+            try {
+                await this.profilerService.setBlockedProcessThreshold(connection, seconds);
+                vscode.window.showInformationMessage(`Blocked process threshold set to ${seconds} seconds`);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to set blocked process threshold: ${error?.message || 'Unknown error'}`);
+            }
+        }
+
+        return action !== undefined;
+    }
+
+    /**
+     * Prompt for the capture target and execution plan capture of a new session
+     */
+    private async pickCaptureOptions(
+        connection: ConnectionInfo,
+        sessionName: string,
+        template: ProfilerSessionTemplate
+    ): Promise<CaptureOptions | undefined> {
+        const captureOptions = await this.pickCaptureTarget(connection, sessionName, template);
+        if (!captureOptions) {
+            return undefined;
+        }
+
+        const planCapture = await this.pickPlanCapture(template);
+        if (!planCapture) {
+            return undefined;
+        }
+
+        return { ...captureOptions, planCapture };
+    }
+
+    /**
+     * Prompt for capturing actual execution plans when the template captures statements or batches
+     * and no plan event yet
+     */
+    private async pickPlanCapture(template: ProfilerSessionTemplate): Promise<PlanCapture | undefined> {
+        const statement = template.createStatement;
+        if (!/\b(sql_statement_completed|sp_statement_completed|sql_batch_completed|rpc_completed)\b/i.test(statement) ||
+            /\b(query_post_execution_showplan|query_plan_profile)\b/i.test(statement)) {
+            return PlanCapture.None;
+        }
+
+        const planItems: Array<vscode.QuickPickItem & { planCapture: PlanCapture }> = [
+            {
+                label: 'No Execution Plans',
+                planCapture: PlanCapture.None
+            },
+            {
+                label: 'Every Statement',
+                description: 'query_post_execution_showplan',
+                detail: 'Captures the actual plan of every statement; adds significant overhead, avoid on busy production servers',
+                planCapture: PlanCapture.PostExecution
+            },
+            {
+                label: 'Profiled Statements',
+                description: 'query_plan_profile',
+                detail: 'Captures the actual plan of statements run with OPTION (USE HINT (\'QUERY_PLAN_PROFILE\')); SQL Server 2017 CU14 or later',
+                planCapture: PlanCapture.PlanProfile
+            }
+        ];
+
+        const selected = await vscode.window.showQuickPick(planItems, {
+            placeHolder: 'Capture actual execution plans?',
+            ignoreFocusOut: true
+        });
+
+        return selected?.planCapture;
+    }
+
+    /**
+     * Prompt for the capture target (ring buffer or event file) of a new session
+     */
+    private async pickCaptureTarget(
+        connection: ConnectionInfo,
+        sessionName: string,
+        template: ProfilerSessionTemplate
+    ): Promise<CaptureOptions | undefined> {
+        // Templates that define their own event_file target are read from it as-is
+        if (/ADD\s+TARGET\s+package0\.event_file/i.test(template.createStatement)) {
+            return { target: CaptureTarget.EventFile };
+        }
+
+        const targetItems: Array<vscode.QuickPickItem & { target: CaptureTarget }> = [
+            {
+                label: 'Ring Buffer',
+                description: 'In memory, up to 4 MB',
+                detail: 'Fast and needs no disk space, but drops events on busy servers',
+                target: CaptureTarget.RingBuffer
+            },
+            {
+                label: 'Event File',
+                description: 'Lossless capture to .xel files',
+                detail: 'Adds a package0.event_file target; the session keeps capturing while VS Code is closed',
+                target: CaptureTarget.EventFile
+            }
+        ];
+
+        const selectedTarget = await vscode.window.showQuickPick(targetItems, {
+            placeHolder: 'Select the capture target',
+            ignoreFocusOut: true
+        });
+
+        if (!selectedTarget) {
+            return undefined;
+        }
+
+        if (selectedTarget.target === CaptureTarget.RingBuffer) {
+            return { target: CaptureTarget.RingBuffer };
+        }
+
+        // Azure SQL Database can only write event files to blob storage
+        const eventFilePath = await vscode.window.showInputBox({
+            prompt: connection.isAzure
+                ? 'Enter the blob storage URL for the event file (a database scoped credential for the container is required)'
+                : 'Enter the event file path on the server (a file name alone is written to the SQL Server log directory)',
+            placeHolder: connection.isAzure
+                ? 'https://account.blob.core.windows.net/container/session'
+                : sessionName,
+            value: connection.isAzure ? undefined : sessionName,
+            ignoreFocusOut: true,
+            validateInput: (value) => {
+                if (!value || value.trim().length === 0) {
+                    return 'Event file path cannot be empty';
+                }
+                if (connection.isAzure && !/^https:\/\//i.test(value)) {
+                    return 'Azure SQL Database event files must be stored in blob storage (https://...)';
+                }
+                return null;
+            }
+        });
+
+        if (!eventFilePath) {
+            return undefined;
+        }
+
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+
+        return {
+            target: CaptureTarget.EventFile,
+            eventFilePath: eventFilePath.trim(),
+            maxFileSizeMb: config.get<number>('eventFile.maxFileSizeMb', 100),
+            maxRolloverFiles: config.get<number>('eventFile.maxRolloverFiles', 5)
+        };
+    }
+
     /**
      * Handle Start Profiling command
      */
@@ -584,10 +1063,15 @@ export class ProfilerController {
                 p.databaseName === session.connection.databaseName
             );
 
-            // Offer different options based on whether profile exists
-            const actions = matchingProfile
-                ? ['Edit Connection Profile', 'Change Connection', 'Update Password', 'Cancel']
-                : ['Change Connection', 'Update Password', 'Cancel'];
+            // Offer different options based on whether profile exists and the connection uses a password, secret or token
+            const authentication = getAuthenticationOption(session.connection.authenticationType);
+            const updateSecret = authentication.secretLabel && `Update ${authentication.secretLabel}`;
+            const actions = [
+                ...(matchingProfile ? ['Edit Connection Profile'] : []),
+                'Change Connection',
+                ...(updateSecret ? [updateSecret] : []),
+                'Cancel'
+            ];
 
             const action = await vscode.window.showErrorMessage(
                 `Failed to reconnect: ${message}`,
@@ -616,8 +1100,11 @@ export class ProfilerController {
                         session.connection.databaseName = updatedProfile.databaseName;
                         session.connection.userName = updatedProfile.userName || '';
                         session.connection.password = password;
-                        session.connection.authenticationType = updatedProfile.authenticationType;
+                        session.connection.authenticationType = toAuthenticationType(updatedProfile.authenticationType);
+                        session.connection.clientId = updatedProfile.clientId;
+                        session.connection.tenantId = updatedProfile.tenantId;
                         session.connection.isAzure = updatedProfile.isAzure;
+                        session.connection.options = updatedProfile.options;
 
                         await this.reconnectCommand(sessionName);
                     }
@@ -638,14 +1125,14 @@ export class ProfilerController {
                         await this.reconnectCommand(sessionName);
                     }
                 }
-            } else if (action === 'Update Password') {
-                // Just prompt for new password
+            } else if (updateSecret && action === updateSecret) {
+                // Just prompt for new password, client secret or access token
                 const newPassword = await vscode.window.showInputBox({
-                    prompt: 'Enter password',
+                    prompt: authentication.secretPrompt,
                     password: true,
                     validateInput: (value) => {
                         if (!value || value.trim().length === 0) {
-                            return 'Password cannot be empty';
+                            return `${authentication.secretLabel} cannot be empty`;
                         }
                         return null;
                     }
@@ -660,7 +1147,7 @@ export class ProfilerController {
                     }
 
                     const retry = await vscode.window.showInformationMessage(
-                        'Password updated. Reconnect now?',
+                        `${authentication.secretLabel} updated. Reconnect now?`,
                         'Reconnect',
                         'Cancel'
                     );
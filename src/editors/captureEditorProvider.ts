@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { ProfilerCaptureFile } from '../models/profilerTypes';
+import { ProfilerPanel } from '../panels/profilerPanel';
+import { ProfilerService } from '../services/profilerService';
+import { ViewService } from '../services/viewService';
+import { FilterService } from '../services/filterService';
+import { CaptureFileService } from '../services/captureFileService';
+
+/**
+ * Document holding a saved profiler capture
+ */
+class CaptureDocument implements vscode.CustomDocument {
+    constructor(
+        public readonly uri: vscode.Uri,
+        public readonly capture: ProfilerCaptureFile
+    ) {}
+
+    public dispose(): void {
+        // Nothing to release; the capture is only held in memory
+    }
+}
+
+/**
+ * Read-only custom editor that reopens .sqlprofile captures in the profiler panel
+ */
+export class CaptureEditorProvider implements vscode.CustomReadonlyEditorProvider<CaptureDocument> {
+    public static readonly viewType = 'mssql-profiler.captureViewer';
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private profilerService: ProfilerService,
+        private viewService: ViewService,
+        private filterService: FilterService
+    ) {}
+
+    /**
+     * Register the provider for *.sqlprofile files
+     */
+    public static register(
+        context: vscode.ExtensionContext,
+        profilerService: ProfilerService,
+        viewService: ViewService,
+        filterService: FilterService
+    ): vscode.Disposable {
+        return vscode.window.registerCustomEditorProvider(
+            CaptureEditorProvider.viewType,
+            new CaptureEditorProvider(context, profilerService, viewService, filterService),
+            {
+                webviewOptions: { retainContextWhenHidden: true },
+                supportsMultipleEditorsPerDocument: false
+            }
+        );
+    }
+
+    public async openCustomDocument(uri: vscode.Uri): Promise<CaptureDocument> {
+        const content = await vscode.workspace.fs.readFile(uri);
+        const capture = CaptureFileService.parse(Buffer.from(content).toString('utf8'));
+        return new CaptureDocument(uri, capture);
+    }
+
+    public async resolveCustomEditor(document: CaptureDocument, webviewPanel: vscode.WebviewPanel): Promise<void> {
+        const session = CaptureFileService.toSession(document.capture, document.uri.toString());
+        ProfilerPanel.createForEditor(webviewPanel, this.context.extensionUri, session, this.profilerService, this.viewService, this.filterService);
+    }
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProfilerEvent, CaptureTarget } from '../models/profilerTypes';
+import { XelFileReader } from '../parsers/xelFileReader';
+import { ProfilerPanel } from '../panels/profilerPanel';
+import { ProfilerService } from '../services/profilerService';
+import { ViewService } from '../services/viewService';
+import { FilterService } from '../services/filterService';
+import { CaptureFileService } from '../services/captureFileService';
+
+/**
+ * Document holding the events decoded from an .xel file
+ */
+class XelDocument implements vscode.CustomDocument {
+    constructor(
+        public readonly uri: vscode.Uri,
+        public readonly events: ProfilerEvent[]
+    ) {}
+
+    public dispose(): void {
+        // Nothing to release; events are only held in memory
+    }
+}
+
+/**
+ * Read-only custom editor that shows .xel files in the profiler grid without a SQL Server connection
+ */
+export class XelEditorProvider implements vscode.CustomReadonlyEditorProvider<XelDocument> {
+    public static readonly viewType = 'mssql-profiler.xelViewer';
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private profilerService: ProfilerService,
+        private viewService: ViewService,
+        private filterService: FilterService
+    ) {}
+
+    /**
+     * Register the provider for *.xel files
+     */
+    public static register(
+        context: vscode.ExtensionContext,
+        profilerService: ProfilerService,
+        viewService: ViewService,
+        filterService: FilterService
+    ): vscode.Disposable {
+        return vscode.window.registerCustomEditorProvider(
+            XelEditorProvider.viewType,
+            new XelEditorProvider(context, profilerService, viewService, filterService),
+            {
+                webviewOptions: { retainContextWhenHidden: true },
+                supportsMultipleEditorsPerDocument: false
+            }
+        );
+    }
+
+    public async openCustomDocument(uri: vscode.Uri): Promise<XelDocument> {
+        const data = await vscode.workspace.fs.readFile(uri);
+
+        try {
+            const result = XelFileReader.read(data);
+
+            if (result.skippedBuffers > 0) {
+                vscode.window.showWarningMessage(
+                    `${result.skippedBuffers} damaged buffer(s) in ${path.basename(uri.fsPath)} were skipped`
+                );
+            }
+
+            return new XelDocument(uri, result.events);
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            throw new Error(`Failed to read XEL file: ${message}`);
+        }
+    }
+
+    public async resolveCustomEditor(document: XelDocument, webviewPanel: vscode.WebviewPanel): Promise<void> {
+        const fileName = path.basename(document.uri.fsPath);
+
+        const session = CaptureFileService.createReadOnlySession(document.uri.toString(), fileName, document.events);
+        session.captureOptions = { target: CaptureTarget.EventFile, eventFilePath: document.uri.fsPath };
+
+        ProfilerPanel.createForEditor(webviewPanel, this.context.extensionUri, session, this.profilerService, this.viewService, this.filterService);
+    }
+}
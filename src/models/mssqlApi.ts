@@ -71,7 +71,7 @@ export namespace mssql {
         user?: string;
         password?: string;
         authenticationType: string;
-        encrypt?: boolean;
+        encrypt?: boolean | string;
         trustServerCertificate?: boolean;
         port?: number;
         applicationName?: string;
@@ -3,16 +3,218 @@
  * Based on Azure Data Studio azdata.d.ts ProfilerProvider interface
  */
 
+/**
+ * Where a session template was loaded from
+ */
+export enum TemplateSource {
+    BuiltIn = 'built-in',
+    Workspace = 'workspace',
+    Settings = 'settings'
+}
+
 /**
  * Profiler session template containing the XEvent session definition
  */
 export interface ProfilerSessionTemplate {
     /** Template name (e.g., "Standard", "TSQL", "Standard_Azure") */
     name: string;
+    /** Optional description shown when picking a template */
+    description?: string;
     /** Default view for the template */
     defaultView: string;
     /** T-SQL CREATE EVENT SESSION statement */
     createStatement: string;
+    /** Where the template was loaded from */
+    source?: TemplateSource;
+}
+
+/**
+ * How a grid column displays its value
+ */
+export enum ColumnFormat {
+    /** Value as captured */
+    Text = 'text',
+    /** Number with thousands separators */
+    Number = 'number',
+    /** Microseconds shown as milliseconds */
+    Duration = 'duration',
+    /** Date and time in the local time zone */
+    Timestamp = 'timestamp'
+}
+
+/**
+ * Column of a profiler view
+ */
+export interface ProfilerViewColumn {
+    /** Event value key; "name" and "timestamp" refer to the event class and start time */
+    key: string;
+    /** Header text (defaults to the key) */
+    label?: string;
+    /** Width in pixels */
+    width?: number;
+    /** Display format (defaults to text) */
+    format?: ColumnFormat;
+    /** Keys used when the event has no value for key (e.g., statement when there is no batch_text) */
+    fallbackKeys?: string[];
+}
+
+/**
+ * Named column layout for the event grid, selected by a template's defaultView
+ */
+export interface ProfilerView {
+    /** View name (e.g., "Standard View", "TSQL View") */
+    name: string;
+    /** Columns in display order */
+    columns: ProfilerViewColumn[];
+}
+
+/**
+ * Filters and sort order applied to a session's events in the grid
+ */
+export interface EventQuery {
+    /** Event names to show; empty shows every event */
+    eventTypes: string[];
+    /** Databases to show; empty shows every database */
+    databases: string[];
+    /** Text matched against the event name, timestamp and every value */
+    textSearch: string;
+    /** Filter expression (e.g. "duration > 500ms AND client_app_name LIKE 'MyApp%'") */
+    expression?: string;
+    /** Query fingerprint to show the events of (see Top Queries) */
+    fingerprint?: string;
+    /** Time range to show the events of, in ms since the epoch; end is exclusive */
+    timeRange?: {
+        start: number;
+        end: number;
+    };
+    /** Column to sort by; events are shown in capture order when not set */
+    sort?: {
+        column: ProfilerViewColumn;
+        direction: 'asc' | 'desc';
+    };
+    /** Show events as activity trees (attach_activity_id) instead of a flat list; sort is ignored */
+    groupByActivity?: boolean;
+}
+
+/**
+ * Position of a grid row in its activity tree
+ */
+export interface ActivityTreeRow {
+    /** Store position of the row's event, used to expand and collapse it */
+    id: number;
+    /** 0 for the batch or RPC of an activity, 1 for its statements, and so on */
+    depth: number;
+    /** Number of events nested under the row, shown or not */
+    descendants: number;
+    collapsed: boolean;
+}
+
+/**
+ * Aggregate of one metric over the events of a query
+ */
+export interface QueryMetricStats {
+    total: number;
+    avg: number;
+    max: number;
+    p95: number;
+}
+
+/**
+ * Events grouped by query fingerprint, for the Top Queries view
+ */
+export interface QueryStats {
+    /** Fingerprint shared by the events of the query */
+    fingerprint: string;
+    /** Query text with literals and parameter values replaced by ?, or the query_hash when the events have no text */
+    text: string;
+    count: number;
+    /** Stats per metric (duration, cpu_time, logical_reads, writes); missing when no event has the metric */
+    metrics: { [metric: string]: QueryMetricStats };
+}
+
+/**
+ * Events captured during one interval of the timeline
+ */
+export interface TimelineBucket {
+    /** Start of the interval, in ms since the epoch */
+    time: number;
+    /** Number of events per event class */
+    counts: { [eventName: string]: number };
+}
+
+/**
+ * Duration and CPU time of an event (or the highest of an event class in a second, when sampled)
+ */
+export interface TimelinePoint {
+    time: number;
+    eventName: string;
+    duration?: number;
+    cpuTime?: number;
+}
+
+/**
+ * Activity over time of the events matching the grid's filters
+ */
+export interface TimelineData {
+    /** Length of each bucket in seconds */
+    bucketSeconds: number;
+    buckets: TimelineBucket[];
+    points: TimelinePoint[];
+    /** True when there were too many events to plot each one and points hold per-second maximums */
+    sampled: boolean;
+    eventNames: string[];
+}
+
+/**
+ * Process in a blocking chain, with the processes waiting on it
+ */
+export interface BlockingNode {
+    spid: string;
+    status?: string;
+    /** Resource the process waits for; undefined for head blockers */
+    waitResource?: string;
+    /** Time the process has been waiting, in ms */
+    waitTime?: number;
+    lockMode?: string;
+    databaseName?: string;
+    loginName?: string;
+    hostName?: string;
+    clientApp?: string;
+    transactionName?: string;
+    /** Last batch sent by the client */
+    sql: string;
+    blocked: BlockingNode[];
+}
+
+/**
+ * Blocking chains reported by one pass of the blocked process monitor
+ */
+export interface BlockingSnapshot {
+    /** Timestamp of the pass's first blocked_process_report event */
+    timestamp: string;
+    /** Head blockers: processes blocking others without being blocked themselves */
+    heads: BlockingNode[];
+    blockedCount: number;
+    /** Longest wait of a blocked process, in ms */
+    maxWaitTime: number;
+}
+
+/**
+ * Filter expression saved under a name in the mssql-profiler.savedFilters setting
+ */
+export interface SavedFilter {
+    name: string;
+    expression: string;
+}
+
+/**
+ * Column layout of a profiler panel, remembered per template
+ */
+export interface ColumnLayout {
+    /** Selected view */
+    viewName: string;
+    /** Columns customized with the column chooser (the view's columns when not set) */
+    columns?: ProfilerViewColumn[];
 }
 
 /**
@@ -25,6 +227,35 @@ export interface ProfilerEvent {
     timestamp: string;
     /** Event field values (TextData, Duration, CPU, Reads, etc.) */
     values: { [key: string]: any };
+    /** XEvent package that raised the event (e.g., "sqlserver") */
+    package?: string;
+    /** XEvent type name of each field in values (e.g., "uint64", "guid", "xml") */
+    fieldTypes?: { [key: string]: string };
+}
+
+/**
+ * Storage for the events captured by a session
+ * Positions are zero-based in capture order and never change until the store is cleared
+ */
+export interface EventStore {
+    /** Number of events in the store */
+    readonly count: number;
+    /** Append events after the last stored event */
+    append(events: ProfilerEvent[]): Promise<void>;
+    /** Read count events starting at a position */
+    read(start: number, count: number): Promise<ProfilerEvent[]>;
+    /** Read the events at the given positions, in the order given */
+    readPositions(positions: number[]): Promise<ProfilerEvent[]>;
+    /** Call callback for every stored event in capture order */
+    scan(callback: (event: ProfilerEvent, position: number) => void): Promise<void>;
+    /** Every field key seen in the stored events */
+    getFieldKeys(): string[];
+    /** Every event name seen in the stored events */
+    getEventNames(): string[];
+    /** Remove every event */
+    clear(): Promise<void>;
+    /** Release the store and any files behind it */
+    dispose(): Promise<void>;
 }
 
 /**
@@ -125,12 +356,245 @@ export interface ConnectionInfo {
     databaseName: string;
     /** User name */
     userName: string;
-    /** Password */
+    /** Password, or the client secret or access token of Microsoft Entra ID authentication */
     password: string;
     /** Authentication type */
-    authenticationType: 'SqlLogin' | 'Integrated';
+    authenticationType: AuthenticationType;
+    /** Application (client) ID of a service principal or user-assigned managed identity */
+    clientId?: string;
+    /** Directory (tenant) ID of a service principal */
+    tenantId?: string;
     /** Whether this is an Azure SQL connection */
     isAzure: boolean;
+    /** Instance, port, encryption and timeout settings; defaults are used for those not set */
+    options?: ConnectionOptions;
+}
+
+/**
+ * Connection settings beyond the server, database and credentials
+ */
+export interface ConnectionOptions {
+    /** Named instance, found through the SQL Server Browser service; also read from SERVER\INSTANCE */
+    instanceName?: string;
+    /** TCP port; also read from SERVER,PORT. Takes precedence over the instance name */
+    port?: number;
+    /**
+     * optional: encrypt only when the server requires it; mandatory: always encrypt;
+     * strict: TDS 8.0, encrypted before login. Defaults to mandatory for Azure SQL and Entra ID, optional otherwise
+     */
+    encrypt?: EncryptMode;
+    /** Accept the server certificate without validating it; defaults to true except for Azure SQL and Entra ID */
+    trustServerCertificate?: boolean;
+    /** Name expected in the server certificate when it differs from the server name */
+    hostNameInCertificate?: string;
+    /** Seconds to wait for the connection to open */
+    connectTimeout?: number;
+    /** Seconds to wait for a query; 0 waits indefinitely */
+    requestTimeout?: number;
+    /** Application name reported to the server (program_name, client_app_name) */
+    applicationName?: string;
+}
+
+export type EncryptMode = 'optional' | 'mandatory' | 'strict';
+
+/**
+ * How a connection signs in: SQL Server login, Windows (NTLM), or Microsoft Entra ID with a service principal
+ * secret, a managed identity, an access token or the default Azure credential chain
+ */
+export type AuthenticationType =
+    | 'SqlLogin'
+    | 'Integrated'
+    | 'AzureServicePrincipal'
+    | 'AzureManagedIdentity'
+    | 'AzureAccessToken'
+    | 'AzureDefault';
+
+/**
+ * XEvent target that events are read from
+ */
+export enum CaptureTarget {
+    /** In-memory package0.ring_buffer target (capped by MAX_MEMORY, may drop events) */
+    RingBuffer = 'ring_buffer',
+    /** package0.event_file target tailed through sys.fn_xe_file_target_read_file */
+    EventFile = 'event_file'
+}
+
+/**
+ * Event added to a session to capture actual execution plans
+ */
+export enum PlanCapture {
+    None = 'none',
+    /** Actual plan of every statement; high overhead */
+    PostExecution = 'query_post_execution_showplan',
+    /** Actual plan of statements run with the QUERY_PLAN_PROFILE query hint; lightweight profiling */
+    PlanProfile = 'query_plan_profile'
+}
+
+/**
+ * Capture options chosen when a session is created from a template
+ */
+export interface CaptureOptions {
+    /** Target that events are read from */
+    target: CaptureTarget;
+    /** event_file path on the server (or blob URL on Azure), without the .xel extension */
+    eventFilePath?: string;
+    /** Maximum size of each event file in MB */
+    maxFileSizeMb?: number;
+    /** Number of event files kept before the oldest is removed */
+    maxRolloverFiles?: number;
+    /** Plan event added to the template's events (none when not set) */
+    planCapture?: PlanCapture;
+}
+
+/**
+ * Position in the event_file target up to which events have been read
+ */
+export interface EventFileWatermark {
+    /** Full path of the last file read */
+    fileName: string;
+    /** Offset of the last buffer read within that file */
+    fileOffset: number;
+}
+
+/**
+ * Latest event timestamp read from a ring buffer that does not collect event_sequence
+ */
+export interface TimestampWatermark {
+    /** Timestamp of the latest event read */
+    timestamp: string;
+    /** Number of events read with exactly that timestamp, by event content */
+    seenAtTimestamp: { [eventKey: string]: number };
+}
+
+/**
+ * Event session defined on the server (sys.server_event_sessions / sys.database_event_sessions)
+ */
+export interface ServerEventSessionInfo {
+    /** Session name */
+    name: string;
+    /** Whether the session is currently running */
+    isRunning: boolean;
+    /** Target names (e.g., "ring_buffer", "event_file") */
+    targets: string[];
+    /** Configured event_file filename, if the session has an event_file target */
+    eventFilePath?: string;
+    /** Whether every event in the session collects package0.event_sequence */
+    tracksEventSequence: boolean;
+}
+
+/**
+ * Database listed under a server in the Connections view
+ */
+export interface ServerDatabaseInfo {
+    name: string;
+    /** state_desc, e.g. ONLINE or OFFLINE */
+    state: string;
+}
+
+/**
+ * XEvent object (event, action, target or predicate source) from sys.dm_xe_objects
+ */
+export interface XEventObjectInfo {
+    /** Package name (e.g., "sqlserver", "package0") */
+    package: string;
+    /** Object name */
+    name: string;
+    /** Description from the catalog */
+    description: string;
+    /** Data type of actions and predicate sources (e.g., "unicode_string", "uint32") */
+    typeName?: string;
+}
+
+/**
+ * Data column of an XEvent event from sys.dm_xe_object_columns
+ */
+export interface XEventFieldInfo {
+    /** Column name (e.g., "duration") */
+    name: string;
+    /** Data type (e.g., "uint64", "unicode_string") */
+    typeName: string;
+    /** Description from the catalog */
+    description: string;
+}
+
+/**
+ * XEvent event with the data columns it produces
+ */
+export interface XEventEventInfo extends XEventObjectInfo {
+    fields: XEventFieldInfo[];
+}
+
+/**
+ * Extended Events catalog of a server, used by the template builder
+ */
+export interface XEventCatalog {
+    packages: { name: string; description: string }[];
+    events: XEventEventInfo[];
+    actions: XEventObjectInfo[];
+    targets: XEventObjectInfo[];
+    predicateSources: XEventObjectInfo[];
+}
+
+/**
+ * Comparison used in a template builder predicate
+ */
+export type PredicateOperator = '=' | '<>' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'NOT LIKE';
+
+/**
+ * Single predicate clause; all clauses of a template are combined with AND
+ */
+export interface TemplatePredicate {
+    /** Event field (e.g., "duration") or package-qualified predicate source (e.g., "sqlserver.database_name") */
+    field: string;
+    operator: PredicateOperator;
+    value: string;
+}
+
+/**
+ * Session definition edited in the template builder and turned into a CREATE EVENT SESSION statement
+ */
+export interface TemplateDefinition {
+    name: string;
+    description?: string;
+    defaultView: string;
+    /** Package-qualified event names (e.g., "sqlserver.rpc_completed") */
+    events: string[];
+    /** Package-qualified action names collected for every event */
+    actions: string[];
+    predicates: TemplatePredicate[];
+    /** Add a package0.ring_buffer target */
+    ringBuffer: boolean;
+    /** Add a package0.event_file target */
+    eventFile?: {
+        fileName: string;
+        maxFileSizeMb: number;
+        maxRolloverFiles: number;
+    };
+    options: {
+        maxMemoryKb: number;
+        eventRetentionMode: 'ALLOW_SINGLE_EVENT_LOSS' | 'ALLOW_MULTIPLE_EVENT_LOSS' | 'NO_EVENT_LOSS';
+        maxDispatchLatencySeconds: number;
+        trackCausality: boolean;
+    };
+}
+
+/**
+ * Condition of a server filter, added to the WHERE clause of the session's events
+ */
+export interface ServerFilterClause {
+    /** XEvent predicate (e.g. "[sqlserver].[database_name]=N'Sales'") */
+    predicate: string;
+    /** Event data column the predicate reads; events that don't produce it are not filtered by this clause */
+    eventField?: string;
+}
+
+/**
+ * Grid filters translated into an XEvent predicate
+ */
+export interface ServerFilter {
+    clauses: ServerFilterClause[];
+    /** Grid filters that could not be translated and still only apply in the grid */
+    skipped: string[];
 }
 
 /**
@@ -144,6 +608,27 @@ export enum SessionState {
     Paused = 'paused'
 }
 
+/**
+ * Health of a live session's connection
+ * reconnecting while the lost connection is retried with backoff; disconnected once retrying gave up
+ */
+export type ConnectionHealth = 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * Connection health of a live session, shown in the panel and the session tree
+ */
+export interface ConnectionStatus {
+    health: ConnectionHealth;
+    /** Automatic reconnect attempt being waited for, from 1; undefined when not reconnecting automatically */
+    attempt?: number;
+    /** Number of attempts made before giving up */
+    maxAttempts?: number;
+    /** When the next attempt is made, in ms since the epoch */
+    nextAttemptAt?: number;
+    /** Why the connection was lost or the last attempt failed */
+    error?: string;
+}
+
 /**
  * Active profiler session tracking
  */
@@ -158,10 +643,36 @@ export interface ProfilerSession {
     template: ProfilerSessionTemplate;
     /** Current state */
     state: SessionState;
-    /** Captured events */
+    /** True when watching an existing server session; it is never created, altered or dropped */
+    attached?: boolean;
+    /** True for captures loaded from a file; live session controls are disabled */
+    readOnly?: boolean;
+    /** Most recent events (up to mssql-profiler.maxEvents), kept in memory */
     events: ProfilerEvent[];
+    /** Every event captured by the session */
+    store: EventStore;
+    /** Target options used to create the session */
+    captureOptions: CaptureOptions;
+    /** Wildcard path of the session's .xel files, resolved once the session has started */
+    eventFilePattern?: string;
+    /** Read position in the event_file target */
+    eventFileWatermark?: EventFileWatermark;
     /** Database ID to name lookup map */
     databaseLookup: Map<number, string>;
+    /** Whether every event of the session collects package0.event_sequence, enabling incremental reads */
+    tracksEventSequence: boolean;
+    /** Highest event_sequence value received so far (high-water mark) */
+    lastEventSequence: number;
+    /** Read position in a ring buffer without event_sequence */
+    timestampWatermark?: TimestampWatermark;
+    /** Dropped event count last reported by the ring buffer target */
+    ringBufferDroppedCount?: number;
+    /** Server filter applied to the session's events, if any */
+    serverFilter?: ServerFilter;
+    /** Number of events detected as missing, from gaps in event_sequence or the ring buffer's dropped count */
+    missedEventCount: number;
+    /** Health of the connection; undefined until it is first lost */
+    connectionStatus?: ConnectionStatus;
     /** When the session was created */
     createdAt: Date;
     /** When the session was started */
@@ -169,3 +680,40 @@ export interface ProfilerSession {
     /** When the session was stopped */
     stoppedAt?: Date;
 }
+
+/**
+ * Saved profiler capture (.sqlprofile file)
+ */
+export interface ProfilerCaptureFile {
+    /** Capture format version */
+    version: number;
+    /** Session metadata at the time the capture was saved */
+    session: {
+        /** Session name */
+        name: string;
+        /** Template used */
+        template: ProfilerSessionTemplate;
+        /** Connection the events were captured from (never includes the password) */
+        connection: {
+            serverName: string;
+            databaseName: string;
+            userName?: string;
+            authenticationType: string;
+            isAzure: boolean;
+        };
+        /** When the session was created (ISO 8601) */
+        createdAt: string;
+        /** When the session was started (ISO 8601) */
+        startedAt?: string;
+        /** When the session was stopped (ISO 8601) */
+        stoppedAt?: string;
+        /** Database ID to name lookup as [id, name] pairs */
+        databases: Array<[number, string]>;
+        /** Whether events were lost during the capture */
+        eventsLost: boolean;
+        /** Number of events detected as missing from event_sequence gaps */
+        missedEventCount: number;
+    };
+    /** Captured events */
+    events: ProfilerEvent[];
+}
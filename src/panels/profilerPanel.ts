@@ -1,7 +1,25 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
-import { ProfilerSession, SessionState } from '../models/profilerTypes';
+import { EventQuery, ProfilerEvent, ProfilerSession, SavedFilter, ServerFilter, SessionState } from '../models/profilerTypes';
 import { ProfilerService } from '../services/profilerService';
+import { CAPTURE_FILE_EXTENSION, CaptureFileService } from '../services/captureFileService';
+import { ViewService } from '../services/viewService';
+import { FilterService } from '../services/filterService';
+import { EventView } from '../services/eventView';
+import { buildServerFilter } from '../services/serverFilter';
+import { buildTopQueries } from '../services/topQueries';
+import { buildBlockingSnapshots } from '../services/blockingChains';
+import { Timeline } from '../services/timeline';
+import { ActivityTree } from '../services/activityTree';
+import { toXdl } from '../parsers/deadlockParser';
+import { findPlanEvent, getShowplanXml } from '../services/planCorrelation';
+
+/** Most queries sent to the Top Queries view */
+const MAX_TOP_QUERIES = 1000;
+
+/** Most blocked process monitor passes sent to the Blocking view; the latest are kept */
+const MAX_BLOCKING_SNAPSHOTS = 1000;
 
 /**
  * Profiler webview panel for displaying profiling events using React
@@ -14,7 +32,24 @@ export class ProfilerPanel {
     private _disposables: vscode.Disposable[] = [];
     private _session: ProfilerSession;
     private _profilerService: ProfilerService;
+    private _viewService: ViewService;
+    private _filterService: FilterService;
     private _updateInterval: NodeJS.Timeout | undefined;
+    /** Rows shown by the grid, read from the session's event store page by page */
+    private _view: EventView;
+    private _query: EventQuery = { eventTypes: [], databases: [], textSearch: '' };
+    /** Incremented whenever row indexes change meaning, so the webview drops pages read before */
+    private _rowsVersion = 0;
+    /** Store count when rows were last reported to the webview */
+    private _sentEventCount = 0;
+    private _sentMissedEventCount = 0;
+    private _updating = false;
+    /** Activity chart data, kept only while the webview shows the timeline */
+    private _timeline: Timeline | undefined;
+    /** Filters the timeline was built for */
+    private _timelineQuery = '';
+    /** Rows grouped by activity, kept only while the grid shows them as trees */
+    private _activityTree: ActivityTree | undefined;
 
     /**
      * Create or show profiler panel
@@ -22,7 +57,9 @@ export class ProfilerPanel {
     public static createOrShow(
         extensionUri: vscode.Uri,
         session: ProfilerSession,
-        profilerService: ProfilerService
+        profilerService: ProfilerService,
+        viewService: ViewService,
+        filterService: FilterService
     ): ProfilerPanel {
         const column = vscode.window.activeTextEditor?.viewColumn || vscode.ViewColumn.One;
 
@@ -39,32 +76,62 @@ export class ProfilerPanel {
             `Profiler: ${session.name}`,
             column,
             {
-                enableScripts: true,
-                retainContextWhenHidden: true,
-                localResourceRoots: [
-                    vscode.Uri.joinPath(extensionUri, 'out'),
-                    vscode.Uri.joinPath(extensionUri, 'out', 'webview'),
-                    vscode.Uri.joinPath(extensionUri, 'node_modules', '@vscode', 'codicons', 'dist')
-                ]
+                ...ProfilerPanel.getWebviewOptions(extensionUri),
+                retainContextWhenHidden: true
             }
         );
 
-        const profilerPanel = new ProfilerPanel(panel, extensionUri, session, profilerService);
+        const profilerPanel = new ProfilerPanel(panel, extensionUri, session, profilerService, viewService, filterService);
         ProfilerPanel.currentPanels.set(session.name, profilerPanel);
 
         return profilerPanel;
     }
 
+    /**
+     * Create a profiler panel inside a webview panel owned by a custom editor
+     * Used for read-only captures opened from files
+     */
+    public static createForEditor(
+        webviewPanel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        session: ProfilerSession,
+        profilerService: ProfilerService,
+        viewService: ViewService,
+        filterService: FilterService
+    ): ProfilerPanel {
+        webviewPanel.webview.options = ProfilerPanel.getWebviewOptions(extensionUri);
+        return new ProfilerPanel(webviewPanel, extensionUri, session, profilerService, viewService, filterService);
+    }
+
+    /**
+     * Webview options shared by every profiler panel
+     */
+    private static getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+        return {
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(extensionUri, 'out'),
+                vscode.Uri.joinPath(extensionUri, 'out', 'webview'),
+                vscode.Uri.joinPath(extensionUri, 'node_modules', '@vscode', 'codicons', 'dist')
+            ]
+        };
+    }
+
     private constructor(
         panel: vscode.WebviewPanel,
         extensionUri: vscode.Uri,
         session: ProfilerSession,
-        profilerService: ProfilerService
+        profilerService: ProfilerService,
+        viewService: ViewService,
+        filterService: FilterService
     ) {
         this._panel = panel;
         this._extensionUri = extensionUri;
         this._session = session;
         this._profilerService = profilerService;
+        this._viewService = viewService;
+        this._filterService = filterService;
+        this._view = new EventView(session.store);
 
         // Set the webview's initial html content
         this._update();
@@ -97,16 +164,83 @@ export class ProfilerPanel {
                     case 'reconnect':
                         this.handleReconnect();
                         break;
+                    case 'getRows':
+                        this.handleGetRows(message.start, message.count);
+                        break;
+                    case 'query':
+                        this.handleQuery(message.query);
+                        break;
+                    case 'toggleActivity':
+                        this.handleToggleActivity(message.id);
+                        break;
+                    case 'saveFilter':
+                        this.handleSaveFilter(message.expression, message.name);
+                        break;
+                    case 'deleteFilter':
+                        this.handleDeleteFilter(message.name);
+                        break;
+                    case 'showTimeline':
+                        this.handleShowTimeline(message.visible);
+                        break;
+                    case 'getTopQueries':
+                        this.handleGetTopQueries();
+                        break;
+                    case 'getBlocking':
+                        this.handleGetBlocking();
+                        break;
+                    case 'applyServerFilter':
+                        this.handleApplyServerFilter();
+                        break;
+                    case 'saveDeadlock':
+                        this.handleSaveDeadlock(message.xml);
+                        break;
+                    case 'getPlan':
+                        this.handleGetPlan(message.event, message.position, message.requestId);
+                        break;
+                    case 'savePlan':
+                        this.handleSavePlan(message.xml);
+                        break;
+                    case 'layoutChanged':
+                        this._viewService.saveLayout(this._session.template.name, message.layout);
+                        break;
                 }
             },
             null,
             this._disposables
         );
 
-        // Start periodic updates
-        this._updateInterval = setInterval(() => {
-            this.sendEventsUpdate();
-        }, 1000);
+        // Send edited views to the grid
+        this._viewService.onDidChangeViews(() => {
+            this._panel.webview.postMessage({
+                type: 'viewsUpdated',
+                views: this._viewService.getViews()
+            });
+        }, null, this._disposables);
+
+        // Show when the session's connection is lost and being retried
+        this._profilerService.onDidChangeConnectionStatus(session => {
+            if (session === this._session) {
+                this._panel.webview.postMessage({
+                    type: 'connectionStatus',
+                    status: session.connectionStatus
+                });
+            }
+        }, null, this._disposables);
+
+        // Send edited saved filters to the filter bar
+        this._filterService.onDidChangeFilters(() => {
+            this._panel.webview.postMessage({
+                type: 'savedFiltersUpdated',
+                savedFilters: this._filterService.getFilters()
+            });
+        }, null, this._disposables);
+
+        // Start periodic updates (captures loaded from files never change)
+        if (!this._session.readOnly) {
+            this._updateInterval = setInterval(() => {
+                this.sendEventsUpdate();
+            }, 1000);
+        }
     }
 
     /**
@@ -120,23 +254,56 @@ export class ProfilerPanel {
      * Handle webview ready event
      */
     private handleReady(): void {
-        // Send initial data to React app
-        const config = vscode.workspace.getConfiguration('mssql-profiler');
-        const maxEvents = config.get<number>('maxEvents', 1000);
-
         // Convert Map to array for serialization
         const databases = Array.from(this._session.databaseLookup.values()).sort();
 
+        this._sentEventCount = this._session.store.count;
+        this._sentMissedEventCount = this._session.missedEventCount;
+
         this._panel.webview.postMessage({
             type: 'init',
             sessionName: this._session.name,
             sessionState: this._session.state,
-            events: this._session.events,
-            maxEvents,
-            databases
+            connectionStatus: this._session.connectionStatus,
+            readOnly: !!this._session.readOnly,
+            canAlterSession: !this._session.readOnly && !this._session.attached,
+            serverFilter: this._session.serverFilter,
+            captureInfo: this._session.readOnly ? this.getCaptureInfo() : undefined,
+            rowCount: this.rowCount,
+            eventCount: this._session.store.count,
+            rowsVersion: this._rowsVersion,
+            fieldKeys: this._session.store.getFieldKeys(),
+            eventTypes: this._session.store.getEventNames(),
+            missedEvents: this._session.missedEventCount,
+            databases,
+            views: this._viewService.getViews(),
+            savedFilters: this._filterService.getFilters(),
+            defaultView: this._viewService.resolveView(this._session.template.defaultView)?.name,
+            layout: this._viewService.getLayout(this._session.template.name)
         });
     }
 
+    /**
+     * Describe where a read-only capture came from, for display in the panel header
+     */
+    private getCaptureInfo(): string {
+        const parts: string[] = [];
+        const connection = this._session.connection;
+
+        if (connection.serverName) {
+            parts.push(connection.databaseName ? `${connection.serverName}/${connection.databaseName}` : connection.serverName);
+        }
+        if (this._session.template.createStatement) {
+            parts.push(`Template: ${this._session.template.name}`);
+        }
+        if (this._session.startedAt) {
+            const stoppedAt = this._session.stoppedAt ? ` - ${this._session.stoppedAt.toLocaleString()}` : '';
+            parts.push(`${this._session.startedAt.toLocaleString()}${stoppedAt}`);
+        }
+
+        return parts.join(' | ');
+    }
+
     /**
      * Handle start command from webview
      */
@@ -171,13 +338,276 @@ export class ProfilerPanel {
     }
 
     /**
-     * Handle clear events command
+     * Send a page of rows requested by the grid
      */
-    private handleClear(): void {
-        this._session.events = [];
+    private async handleGetRows(start: number, count: number): Promise<void> {
+        const rowsVersion = this._rowsVersion;
+
+        try {
+            if (this._activityTree) {
+                const { events, rows } = await this._activityTree.getRows(start, count);
+                const positions = rows.map(row => row.id);
+                this._panel.webview.postMessage({ type: 'rows', start, events, positions, tree: rows, rowsVersion });
+            } else {
+                const [events, positions] = await Promise.all([this._view.getRows(start, count), this._view.getPositions(start, count)]);
+                this._panel.webview.postMessage({ type: 'rows', start, events, positions, rowsVersion });
+            }
+        } catch (error: any) {
+            console.error('Failed to read events from the event store:', error);
+        }
+    }
+
+    /**
+     * Apply the grid's filters and sort order to every captured event
+     */
+    private async handleQuery(query: EventQuery): Promise<void> {
+        this._query = query;
+
+        try {
+            await this._view.setQuery(query);
+            if (query.groupByActivity) {
+                this._activityTree = this._activityTree || new ActivityTree(this._session.store);
+                await this._activityTree.setQuery(query);
+            } else {
+                this._activityTree = undefined;
+            }
+            this.postRowsChanged(true);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to filter events: ${error?.message || 'Unknown error'}`);
+            return;
+        }
+
+        await this.updateTimeline();
+    }
+
+    /**
+     * Expand or collapse the events nested under a row of the activity trees
+     */
+    private async handleToggleActivity(id: number): Promise<void> {
+        if (!this._activityTree) {
+            return;
+        }
+
+        try {
+            await this._activityTree.toggle(id);
+            this.postRowsChanged(true);
+        } catch (error) {
+            console.error('Error expanding an activity:', error);
+        }
+    }
+
+    /**
+     * Start or stop keeping the timeline up to date
+     */
+    private async handleShowTimeline(visible: boolean): Promise<void> {
+        this._timeline = visible ? new Timeline(this._session.store) : undefined;
+        this._timelineQuery = '';
+        await this.updateTimeline();
+    }
+
+    /**
+     * Add new events to the timeline, or rebuild it when the filters changed, and send it when it changed
+     */
+    private async updateTimeline(force = false): Promise<void> {
+        const timeline = this._timeline;
+        if (!timeline) {
+            return;
+        }
+
+        // The time range is chosen on the timeline itself, so it never narrows it
+        const query: EventQuery = { ...this._query, timeRange: undefined, sort: undefined };
+        const queryKey = JSON.stringify(query);
+
+        try {
+            const count = timeline.count;
+            if (queryKey !== this._timelineQuery) {
+                this._timelineQuery = queryKey;
+                await timeline.setQuery(query);
+            } else {
+                await timeline.update();
+                if (timeline.count === count && !force) {
+                    return;
+                }
+            }
+
+            this._panel.webview.postMessage({ type: 'timeline', data: timeline.getData() });
+        } catch (error) {
+            console.error('Error updating the timeline:', error);
+        }
+    }
+
+    /**
+     * Send the queries of the events matching the grid's filters, grouped by fingerprint
+     */
+    private async handleGetTopQueries(): Promise<void> {
+        try {
+            // Aggregate every query the filters match, not just the one being drilled into
+            const view = new EventView(this._session.store);
+            await view.setQuery({ ...this._query, fingerprint: undefined, sort: undefined });
+            const queries = await buildTopQueries(view);
+
+            this._panel.webview.postMessage({
+                type: 'topQueries',
+                queries: queries.slice(0, MAX_TOP_QUERIES),
+                totalQueries: queries.length
+            });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to aggregate queries: ${error?.message || 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Rebuild the blocking chains from the blocked_process_report events matching the filters
+     */
+    private async handleGetBlocking(): Promise<void> {
+        try {
+            const view = new EventView(this._session.store);
+            await view.setQuery({ ...this._query, fingerprint: undefined, sort: undefined });
+            const snapshots = await buildBlockingSnapshots(view);
+
+            this._panel.webview.postMessage({
+                type: 'blocking',
+                snapshots: snapshots.slice(-MAX_BLOCKING_SNAPSHOTS),
+                totalSnapshots: snapshots.length
+            });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to build blocking chains: ${error?.message || 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Save the current filter expression under a name chosen by the user
+     */
+    private async handleSaveFilter(expression: string, currentName: string | undefined): Promise<void> {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name of the saved filter',
+            value: currentName || '',
+            validateInput: value => value.trim() ? undefined : 'Enter a name'
+        });
+        if (!name) {
+            return;
+        }
+
+        const filter: SavedFilter = { name: name.trim(), expression };
+        const exists = this._filterService.getFilters().some(f => f.name === filter.name);
+        if (exists && filter.name !== currentName) {
+            const replace = await vscode.window.showWarningMessage(
+                `A saved filter named '${filter.name}' already exists. Replace it?`,
+                { modal: true },
+                'Replace'
+            );
+            if (replace !== 'Replace') {
+                return;
+            }
+        }
+
+        try {
+            await this._filterService.saveFilter(filter);
+            vscode.window.showInformationMessage(`Filter '${filter.name}' saved`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to save filter: ${error?.message || 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Remove a saved filter after confirmation
+     */
+    private async handleDeleteFilter(name: string): Promise<void> {
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete the saved filter '${name}'?`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') {
+            return;
+        }
+
+        try {
+            await this._filterService.deleteFilter(name);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to delete filter: ${error?.message || 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Push the grid's current filters down into the session's event predicates after confirmation
+     */
+    private async handleApplyServerFilter(): Promise<void> {
+        const filter = buildServerFilter(this._query);
+        const active = this._session.serverFilter;
+
+        if (filter.clauses.length === 0) {
+            const reason = filter.skipped.length > 0
+                ? `None of the current filters can be applied on the server:\n${filter.skipped.join('\n')}`
+                : 'There are no filters to apply on the server.';
+
+            if (!active) {
+                vscode.window.showInformationMessage(reason, { modal: true });
+                return;
+            }
+
+            const remove = await vscode.window.showWarningMessage(
+                `${reason}\n\nRemove the server filter from '${this._session.name}'?`,
+                { modal: true },
+                'Remove'
+            );
+            if (remove !== 'Remove') {
+                return;
+            }
+            await this.setServerFilter(undefined);
+            return;
+        }
+
+        const predicate = filter.clauses.map(clause => clause.predicate).join('\nAND ');
+        const skipped = filter.skipped.length > 0
+            ? `\n\nOnly applied in the grid:\n${filter.skipped.join('\n')}`
+            : '';
+        const confirm = await vscode.window.showWarningMessage(
+            `Alter '${this._session.name}' so the server only captures events where:\n${predicate}${skipped}\n\nEvents the predicate excludes are never captured.`,
+            { modal: true },
+            'Apply'
+        );
+        if (confirm !== 'Apply') {
+            return;
+        }
+
+        await this.setServerFilter(filter);
+    }
+
+    /**
+     * Alter the session's predicates and tell the webview which server filter is active
+     */
+    private async setServerFilter(filter: ServerFilter | undefined): Promise<void> {
+        try {
+            await this._profilerService.applyServerFilter(this._session.name, filter);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(error?.message || 'Unknown error');
+        }
+
         this._panel.webview.postMessage({
-            type: 'clear'
+            type: 'serverFilterChanged',
+            serverFilter: this._session.serverFilter
         });
+    }
+
+    /**
+     * Handle clear events command
+     */
+    private async handleClear(): Promise<void> {
+        try {
+            await this._session.store.clear();
+            await this._view.reset();
+            await this._timeline?.reset();
+            await this._activityTree?.reset();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to clear events: ${error?.message || 'Unknown error'}`);
+            return;
+        }
+
+        this._session.events = [];
+        this._sentEventCount = 0;
+        this.postRowsChanged(true);
+        await this.updateTimeline(true);
         vscode.window.showInformationMessage('Events cleared');
     }
 
@@ -201,21 +631,26 @@ export class ProfilerPanel {
                 defaultUri: vscode.Uri.file(`${this._session.name}_events.json`),
                 filters: {
                     'JSON': ['json'],
-                    'CSV': ['csv']
+                    'CSV': ['csv'],
+                    'Profiler Capture': [CAPTURE_FILE_EXTENSION]
                 }
             });
 
             if (uri) {
                 const extension = uri.fsPath.split('.').pop()?.toLowerCase();
-                let content: string;
 
                 if (extension === 'csv') {
-                    content = this.exportToCsv();
+                    const columns = ['name', 'timestamp', ...this._session.store.getFieldKeys().filter(key => key !== 'name' && key !== 'timestamp')];
+                    const header = columns.map(col => `"${col}"`).join(',');
+                    await this.writeEvents(uri.fsPath, `${header}\n`, '\n', '', event => toCsvRow(event, columns));
+                } else if (extension === CAPTURE_FILE_EXTENSION) {
+                    const { prefix, suffix } = CaptureFileService.serializeEnvelope(this._session);
+                    await this.writeEvents(uri.fsPath, prefix, ',', suffix, event => JSON.stringify(event));
                 } else {
-                    content = JSON.stringify(this._session.events, null, 2);
+                    // Same layout as JSON.stringify(events, null, 2)
+                    await this.writeEvents(uri.fsPath, '[\n', ',\n', '\n]', event => `  ${JSON.stringify(event, null, 2).replace(/\n/g, '\n  ')}`);
                 }
 
-                await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
                 vscode.window.showInformationMessage(`Events exported to ${uri.fsPath}`);
             }
         } catch (error: any) {
@@ -224,50 +659,166 @@ export class ProfilerPanel {
     }
 
     /**
-     * Export events to CSV format
+     * Save a deadlock graph as an .xdl file that SSMS can open
      */
-    private exportToCsv(): string {
-        if (this._session.events.length === 0) {
-            return '';
-        }
+    private async handleSaveDeadlock(xml: string): Promise<void> {
+        try {
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(`${this._session.name}_deadlock.xdl`),
+                filters: {
+                    'Deadlock Graph': ['xdl']
+                }
+            });
 
-        // Get all unique column names
-        const columnSet = new Set<string>(['name', 'timestamp']);
-        for (const event of this._session.events) {
-            for (const key of Object.keys(event.values)) {
-                columnSet.add(key);
+            if (uri) {
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(toXdl(xml), 'utf8'));
+                vscode.window.showInformationMessage(`Deadlock graph saved to ${uri.fsPath}`);
             }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to save deadlock graph: ${error?.message || 'Unknown error'}`);
         }
-        const columns = Array.from(columnSet);
+    }
 
-        // Create CSV header
-        const header = columns.map(col => `"${col}"`).join(',');
+    /**
+     * Find the execution plan captured for a statement event
+     */
+    private async handleGetPlan(event: ProfilerEvent, position: number, requestId: number): Promise<void> {
+        let xml: string | undefined;
+        try {
+            const planEvent = await findPlanEvent(this._session.store, event, position);
+            xml = planEvent ? getShowplanXml(planEvent) : undefined;
+        } catch (error) {
+            console.error('Error finding execution plan:', error);
+        }
+
+        this._panel.webview.postMessage({ type: 'plan', requestId, xml });
+    }
 
-        // Create CSV rows
-        const rows = this._session.events.map(event => {
-            return columns.map(col => {
-                if (col === 'name') return `"${event.name}"`;
-                if (col === 'timestamp') return `"${event.timestamp}"`;
-                const value = event.values[col] || '';
-                return `"${String(value).replace(/"/g, '""')}"`;
-            }).join(',');
+    /**
+     * Save an execution plan as a .sqlplan file that SSMS can open
+     */
+    private async handleSavePlan(xml: string): Promise<void> {
+        try {
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(`${this._session.name}_plan.sqlplan`),
+                filters: {
+                    'Execution Plan': ['sqlplan']
+                }
+            });
+
+            if (uri) {
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(xml, 'utf8'));
+                vscode.window.showInformationMessage(`Execution plan saved to ${uri.fsPath}`);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to save execution plan: ${error?.message || 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Stream every stored event to a file, so exporting never holds the whole capture in memory
+     */
+    private async writeEvents(
+        filePath: string,
+        prefix: string,
+        separator: string,
+        suffix: string,
+        serialize: (event: ProfilerEvent) => string
+    ): Promise<void> {
+        const stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+        const finished = new Promise<void>((resolve, reject) => {
+            stream.on('finish', resolve);
+            stream.on('error', reject);
         });
 
-        return [header, ...rows].join('\n');
+        const write = async () => {
+            stream.write(prefix);
+            let first = true;
+            await this._session.store.scan(event => {
+                stream.write(first ? serialize(event) : separator + serialize(event));
+                first = false;
+            });
+            stream.end(suffix);
+        };
+
+        try {
+            await Promise.all([write(), finished]);
+        } catch (error) {
+            stream.destroy();
+            throw error;
+        }
     }
 
     /**
-     * Send events update to webview
+     * Match newly captured events against the grid's query and report the new row count
      */
-    private sendEventsUpdate(): void {
+    private async sendEventsUpdate(): Promise<void> {
+        if (this._updating) {
+            return;
+        }
+
         const updatedSession = this._profilerService.getSession(this._session.name);
-        if (updatedSession) {
+        if (updatedSession && updatedSession !== this._session) {
+            const storeChanged = updatedSession.store !== this._session.store;
             this._session = updatedSession;
+            if (storeChanged) {
+                // The session was recreated (e.g. after a failed connection was retried)
+                this._view = new EventView(updatedSession.store);
+                if (this._timeline) {
+                    this._timeline = new Timeline(updatedSession.store);
+                    this._timelineQuery = '';
+                }
+                this._activityTree = undefined;
+                await this.handleQuery(this._query);
+            }
+        }
+
+        const eventCount = this._session.store.count;
+        if (eventCount === this._sentEventCount && this._session.missedEventCount === this._sentMissedEventCount) {
+            return;
+        }
+
+        this._updating = true;
+        try {
+            await this._view.update();
+            await this._activityTree?.update();
+            this._sentEventCount = eventCount;
+            this._sentMissedEventCount = this._session.missedEventCount;
+
+            // Appended rows only extend a capture-ordered grid; sorted rows and activity trees can change anywhere
+            this.postRowsChanged(this._view.isSorted || !!this._activityTree);
+            await this.updateTimeline();
+        } catch (error) {
+            console.error('Error updating event rows:', error);
+        } finally {
+            this._updating = false;
+        }
+    }
+
+    /**
+     * Number of grid rows, as a flat list or as activity trees
+     */
+    private get rowCount(): number {
+        return this._activityTree ? this._activityTree.count : this._view.count;
+    }
+
+    /**
+     * Tell the grid how many rows there are; reset means previously read pages are stale
+     */
+    private postRowsChanged(reset: boolean): void {
+        if (reset) {
+            this._rowsVersion++;
         }
 
         this._panel.webview.postMessage({
-            type: 'eventsUpdated',
-            events: this._session.events
+            type: 'rowsChanged',
+            reset,
+            rowsVersion: this._rowsVersion,
+            rowCount: this.rowCount,
+            eventCount: this._session.store.count,
+            fieldKeys: this._session.store.getFieldKeys(),
+            eventTypes: this._session.store.getEventNames(),
+            missedEvents: this._session.missedEventCount
         });
     }
 
@@ -290,7 +841,9 @@ export class ProfilerPanel {
      * Dispose of the panel
      */
     public dispose(): void {
-        ProfilerPanel.currentPanels.delete(this._session.name);
+        if (ProfilerPanel.currentPanels.get(this._session.name) === this) {
+            ProfilerPanel.currentPanels.delete(this._session.name);
+        }
 
         if (this._updateInterval) {
             clearInterval(this._updateInterval);
@@ -366,3 +919,19 @@ export class ProfilerPanel {
         return text;
     }
 }
+
+/**
+ * CSV row of an event with a quoted value for each column
+ */
+function toCsvRow(event: ProfilerEvent, columns: string[]): string {
+    return columns.map(col => {
+        if (col === 'name') {
+            return `"${event.name}"`;
+        }
+        if (col === 'timestamp') {
+            return `"${event.timestamp}"`;
+        }
+        const value = event.values[col] || '';
+        return `"${String(value).replace(/"/g, '""')}"`;
+    }).join(',');
+}
@@ -0,0 +1,348 @@
+import * as vscode from 'vscode';
+import {
+    ConnectionInfo,
+    ProfilerSessionTemplate,
+    TemplateDefinition,
+    TemplateSource,
+    XEventCatalog
+} from '../models/profilerTypes';
+import { ProfilerService } from '../services/profilerService';
+import { TemplateService } from '../services/templateService';
+
+/**
+ * Called when the user chooses to start a session with the template being built
+ */
+export type UseTemplateHandler = (template: ProfilerSessionTemplate, connection: ConnectionInfo) => Promise<void>;
+
+/** Actions selected for a new definition when the server offers them */
+const DEFAULT_ACTIONS = [
+    'package0.event_sequence',
+    'sqlserver.client_app_name',
+    'sqlserver.client_pid',
+    'sqlserver.database_id',
+    'sqlserver.database_name',
+    'sqlserver.nt_username',
+    'sqlserver.server_principal_name',
+    'sqlserver.session_id'
+];
+
+/** Events selected for a new definition when the server offers them */
+const DEFAULT_EVENTS = ['sqlserver.rpc_completed', 'sqlserver.sql_batch_completed'];
+
+/**
+ * Webview panel for building session templates from the server's XEvent catalog
+ */
+export class TemplateBuilderPanel {
+    public static currentPanels: Map<string, TemplateBuilderPanel> = new Map();
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _extensionUri: vscode.Uri;
+    private _disposables: vscode.Disposable[] = [];
+    private _catalog: XEventCatalog | undefined;
+
+    /**
+     * Create or show the template builder for a connection
+     */
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        connection: ConnectionInfo,
+        profilerService: ProfilerService,
+        templateService: TemplateService,
+        onUseTemplate: UseTemplateHandler
+    ): TemplateBuilderPanel {
+        const column = vscode.window.activeTextEditor?.viewColumn || vscode.ViewColumn.One;
+
+        const existingPanel = TemplateBuilderPanel.currentPanels.get(connection.ownerUri);
+        if (existingPanel) {
+            existingPanel._panel.reveal(column);
+            return existingPanel;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'sqlProfilerTemplateBuilder',
+            `Template Builder: ${connection.serverName}`,
+            column,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [
+                    vscode.Uri.joinPath(extensionUri, 'out', 'webview'),
+                    vscode.Uri.joinPath(extensionUri, 'node_modules', '@vscode', 'codicons', 'dist')
+                ]
+            }
+        );
+
+        const builderPanel = new TemplateBuilderPanel(panel, extensionUri, connection, profilerService, templateService, onUseTemplate);
+        TemplateBuilderPanel.currentPanels.set(connection.ownerUri, builderPanel);
+
+        return builderPanel;
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        private readonly _connection: ConnectionInfo,
+        private readonly _profilerService: ProfilerService,
+        private readonly _templateService: TemplateService,
+        private readonly _onUseTemplate: UseTemplateHandler
+    ) {
+        this._panel = panel;
+        this._extensionUri = extensionUri;
+
+        this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            message => {
+                switch (message.type) {
+                    case 'ready':
+                        this.handleReady();
+                        break;
+                    case 'update':
+                        this.handleUpdate(message.definition);
+                        break;
+                    case 'save':
+                        this.handleSave(message.definition);
+                        break;
+                    case 'use':
+                        this.handleUse(message.definition);
+                        break;
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    /**
+     * Load the catalog from the server and send it with a starting definition
+     */
+    private async handleReady(): Promise<void> {
+        this._panel.webview.postMessage({
+            type: 'init',
+            serverName: this._connection.serverName,
+            isAzure: this._connection.isAzure
+        });
+
+        try {
+            this._catalog = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'Loading Extended Events catalog...'
+            }, () => this._profilerService.getXEventCatalog(this._connection));
+
+            this._panel.webview.postMessage({
+                type: 'catalog',
+                catalog: this._catalog,
+                definition: this.getDefaultDefinition(this._catalog)
+            });
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            this._panel.webview.postMessage({ type: 'catalogError', message });
+            vscode.window.showErrorMessage(`Failed to load Extended Events catalog: ${message}`);
+        }
+    }
+
+    /**
+     * Send the generated statement and validation problems for the current definition
+     */
+    private handleUpdate(definition: TemplateDefinition): void {
+        if (!this._catalog) {
+            return;
+        }
+
+        const errors = this._templateService.validateDefinition(definition, this._catalog, this._connection.isAzure);
+        const template = this._templateService.buildTemplate(definition, this._catalog, this._connection.isAzure);
+
+        this._panel.webview.postMessage({
+            type: 'preview',
+            createStatement: template.createStatement,
+            errors
+        });
+    }
+
+    /**
+     * Save the template to the workspace or user settings
+     */
+    private async handleSave(definition: TemplateDefinition): Promise<void> {
+        const template = this.buildValidTemplate(definition);
+        if (!template) {
+            return;
+        }
+
+        try {
+            const locations: Array<vscode.QuickPickItem & { source: TemplateSource }> = [];
+            if (vscode.workspace.workspaceFolders?.length) {
+                locations.push({
+                    label: 'Workspace',
+                    description: '.vscode/profiler-templates',
+                    detail: 'Share the template with everyone who opens this workspace',
+                    source: TemplateSource.Workspace
+                });
+            }
+            locations.push({
+                label: 'User Settings',
+                description: 'mssql-profiler.templates',
+                detail: 'Available in every workspace on this machine',
+                source: TemplateSource.Settings
+            });
+
+            const location = await vscode.window.showQuickPick(locations, {
+                placeHolder: `Where should '${template.name}' be saved?`,
+                ignoreFocusOut: true
+            });
+            if (!location) {
+                return;
+            }
+
+            const existing = this._templateService.getTemplateByName(template.name, location.source);
+            if (existing) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Template '${template.name}' already exists. Replace it?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (confirm !== 'Replace') {
+                    return;
+                }
+            }
+
+            if (location.source === TemplateSource.Workspace) {
+                const folder = vscode.workspace.workspaceFolders!.length === 1
+                    ? vscode.workspace.workspaceFolders![0]
+                    : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder for the template' });
+                if (!folder) {
+                    return;
+                }
+
+                const uri = await this._templateService.saveWorkspaceTemplate(template, folder);
+                vscode.window.showInformationMessage(`Template '${template.name}' saved to ${vscode.workspace.asRelativePath(uri)}`);
+            } else {
+                await this._templateService.saveSettingsTemplate(template);
+                vscode.window.showInformationMessage(`Template '${template.name}' saved to user settings`);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to save template: ${error?.message || 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Start a profiler session with the template without saving it
+     */
+    private async handleUse(definition: TemplateDefinition): Promise<void> {
+        const template = this.buildValidTemplate(definition);
+        if (!template) {
+            return;
+        }
+
+        await this._onUseTemplate(template, this._connection);
+    }
+
+    /**
+     * Build the template, reporting validation problems instead when there are any
+     */
+    private buildValidTemplate(definition: TemplateDefinition): ProfilerSessionTemplate | undefined {
+        if (!this._catalog) {
+            vscode.window.showErrorMessage('The Extended Events catalog has not been loaded');
+            return undefined;
+        }
+
+        const errors = this._templateService.validateDefinition(definition, this._catalog, this._connection.isAzure);
+        if (errors.length > 0) {
+            vscode.window.showErrorMessage(`Template is not valid: ${errors.join('; ')}`);
+            return undefined;
+        }
+
+        return this._templateService.buildTemplate(definition, this._catalog, this._connection.isAzure);
+    }
+
+    /**
+     * Starting point for a new template, limited to what the server offers
+     */
+    private getDefaultDefinition(catalog: XEventCatalog): TemplateDefinition {
+        const eventNames = new Set(catalog.events.map(e => `${e.package}.${e.name}`));
+        const actionNames = new Set(catalog.actions.map(a => `${a.package}.${a.name}`));
+
+        return {
+            name: '',
+            description: '',
+            defaultView: 'Standard View',
+            events: DEFAULT_EVENTS.filter(name => eventNames.has(name)),
+            actions: DEFAULT_ACTIONS.filter(name => actionNames.has(name)),
+            predicates: [],
+            ringBuffer: true,
+            options: {
+                maxMemoryKb: 4096,
+                eventRetentionMode: 'ALLOW_SINGLE_EVENT_LOSS',
+                maxDispatchLatencySeconds: 5,
+                trackCausality: true
+            }
+        };
+    }
+
+    /**
+     * Dispose of the panel
+     */
+    public dispose(): void {
+        if (TemplateBuilderPanel.currentPanels.get(this._connection.ownerUri) === this) {
+            TemplateBuilderPanel.currentPanels.delete(this._connection.ownerUri);
+        }
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    /**
+     * Get HTML content for the template builder webview
+     */
+    private _getHtmlForWebview(webview: vscode.Webview): string {
+        const scriptUri = webview.asWebviewUri(
+            vscode.Uri.joinPath(this._extensionUri, 'out', 'webview', 'templateBuilder.js')
+        );
+
+        const codiconFontUri = webview.asWebviewUri(
+            vscode.Uri.joinPath(this._extensionUri, 'node_modules', '@vscode', 'codicons', 'dist', 'codicon.ttf')
+        );
+
+        const nonce = this.getNonce();
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+    <style>
+        @font-face {
+            font-family: "codicon";
+            font-display: block;
+            src: url("${codiconFontUri}") format("truetype");
+        }
+    </style>
+    <title>Session Template Builder</title>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Generate a nonce for CSP
+     */
+    private getNonce(): string {
+        let text = '';
+        const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+        for (let i = 0; i < 32; i++) {
+            text += possible.charAt(Math.floor(Math.random() * possible.length));
+        }
+        return text;
+    }
+}
@@ -0,0 +1,110 @@
+import { XmlStreamParser } from './xmlStreamParser';
+import { ProfilerEvent } from '../models/profilerTypes';
+
+/**
+ * Blocked or blocking process of a blocked process report
+ */
+export interface BlockedProcess {
+    spid: string;
+    /** Execution context; above 0 for parallel worker threads */
+    ecid?: string;
+    status?: string;
+    waitResource?: string;
+    /** Time the process has been waiting, in ms */
+    waitTime?: number;
+    lockMode?: string;
+    transactionName?: string;
+    isolationLevel?: string;
+    loginName?: string;
+    hostName?: string;
+    clientApp?: string;
+    databaseName?: string;
+    /** Last batch sent by the client */
+    inputBuffer: string;
+}
+
+/**
+ * Process blocked for longer than the blocked process threshold, and the process blocking it
+ */
+export interface BlockedProcessReport {
+    /** Pass of the blocked process monitor that raised the report; reports of the same pass share it */
+    monitorLoop?: string;
+    blocked?: BlockedProcess;
+    blocking?: BlockedProcess;
+}
+
+/** Event field holding the report */
+const BLOCKED_PROCESS_FIELD = 'blocked_process';
+
+/**
+ * Report XML of a blocked_process_report event, if any
+ */
+export function getBlockedProcessReport(event: ProfilerEvent): string | undefined {
+    const value = event.values[BLOCKED_PROCESS_FIELD];
+    if (typeof value === 'string' && /^\s*<blocked-process-report[\s>]/.test(value)) {
+        return value.trim();
+    }
+    return undefined;
+}
+
+/**
+ * Parse the XML reported by blocked_process_report
+ */
+export function parseBlockedProcessReport(xml: string): BlockedProcessReport {
+    const report: BlockedProcessReport = {};
+    let side: 'blocked' | 'blocking' | undefined;
+    let process: BlockedProcess | undefined;
+    let text: string | undefined;
+
+    const parser = new XmlStreamParser({
+        onOpenTag: (name, attributes) => {
+            if (name === 'blocked-process-report') {
+                report.monitorLoop = attributes['monitorLoop'];
+            } else if (name === 'blocked-process') {
+                side = 'blocked';
+            } else if (name === 'blocking-process') {
+                side = 'blocking';
+            } else if (name === 'process' && side && !report[side]) {
+                const waitTime = parseInt(attributes['waittime'], 10);
+                process = {
+                    spid: attributes['spid'] || '',
+                    ecid: attributes['ecid'],
+                    status: attributes['status'],
+                    waitResource: attributes['waitresource'] || undefined,
+                    waitTime: isNaN(waitTime) ? undefined : waitTime,
+                    lockMode: attributes['lockMode'],
+                    transactionName: attributes['transactionname'],
+                    isolationLevel: attributes['isolationlevel'],
+                    loginName: attributes['loginname'],
+                    hostName: attributes['hostname'],
+                    clientApp: attributes['clientapp'],
+                    databaseName: attributes['currentdbname'],
+                    inputBuffer: ''
+                };
+                report[side] = process;
+            } else if (name === 'inputbuf' && process) {
+                text = '';
+            }
+        },
+        onCloseTag: (name) => {
+            if (name === 'inputbuf' && process && text !== undefined) {
+                process.inputBuffer = text.trim();
+                text = undefined;
+            } else if (name === 'process') {
+                process = undefined;
+            } else if (name === 'blocked-process' || name === 'blocking-process') {
+                side = undefined;
+            }
+        },
+        onText: (chunk) => {
+            if (text !== undefined) {
+                text += chunk;
+            }
+        }
+    });
+
+    parser.write(xml);
+    parser.end();
+
+    return report;
+}
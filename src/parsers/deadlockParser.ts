@@ -0,0 +1,185 @@
+import { XmlStreamParser, encodeXmlEntities } from './xmlStreamParser';
+import { ProfilerEvent } from '../models/profilerTypes';
+
+/**
+ * Session taking part in a deadlock
+ */
+export interface DeadlockProcess {
+    id: string;
+    spid?: string;
+    isVictim: boolean;
+    /** Lock mode the process was waiting for */
+    lockMode?: string;
+    waitResource?: string;
+    waitTime?: string;
+    transactionName?: string;
+    isolationLevel?: string;
+    loginName?: string;
+    hostName?: string;
+    clientApp?: string;
+    databaseName?: string;
+    logUsed?: string;
+    /** SQL of each frame of the execution stack, innermost first */
+    statements: string[];
+    /** Last batch sent by the client */
+    inputBuffer: string;
+}
+
+/**
+ * Lock held (owner) or requested (waiter) by a process
+ */
+export interface DeadlockLockRequest {
+    processId: string;
+    mode?: string;
+    requestType?: string;
+}
+
+/**
+ * Resource the processes are deadlocked on
+ */
+export interface DeadlockResource {
+    id: string;
+    /** Element name of the resource (keylock, pagelock, objectlock, exchangeEvent, ...) */
+    type: string;
+    objectName?: string;
+    indexName?: string;
+    mode?: string;
+    owners: DeadlockLockRequest[];
+    waiters: DeadlockLockRequest[];
+}
+
+/**
+ * Processes and resources of a deadlock graph
+ */
+export interface DeadlockGraph {
+    /** Process ids chosen as deadlock victims */
+    victims: string[];
+    processes: DeadlockProcess[];
+    resources: DeadlockResource[];
+}
+
+/** Event fields holding a deadlock graph */
+const DEADLOCK_REPORT_FIELDS = ['xml_report', 'deadlock_graph'];
+
+/**
+ * Deadlock graph XML of an xml_deadlock_report (or database_xml_deadlock_report) event, if any
+ */
+export function getDeadlockReport(event: ProfilerEvent): string | undefined {
+    for (const field of DEADLOCK_REPORT_FIELDS) {
+        const value = event.values[field];
+        if (typeof value === 'string' && /^\s*<deadlock[\s>-]/.test(value)) {
+            return value.trim();
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse the deadlock graph XML reported by xml_deadlock_report (also accepts .xdl documents)
+ */
+export function parseDeadlockGraph(xml: string): DeadlockGraph {
+    const graph: DeadlockGraph = { victims: [], processes: [], resources: [] };
+    const path: string[] = [];
+    let process: DeadlockProcess | undefined;
+    let resource: DeadlockResource | undefined;
+    let text: string | undefined;
+
+    const parser = new XmlStreamParser({
+        onOpenTag: (name, attributes) => {
+            const parent = path[path.length - 1];
+            path.push(name);
+
+            if (name === 'deadlock' && attributes['victim']) {
+                graph.victims.push(attributes['victim']);
+            } else if (name === 'victimProcess' && attributes['id'] && !graph.victims.includes(attributes['id'])) {
+                graph.victims.push(attributes['id']);
+            } else if (name === 'process' && parent === 'process-list') {
+                process = {
+                    id: attributes['id'] || '',
+                    spid: attributes['spid'],
+                    isVictim: false,
+                    lockMode: attributes['lockMode'],
+                    waitResource: attributes['waitresource'],
+                    waitTime: attributes['waittime'],
+                    transactionName: attributes['transactionname'],
+                    isolationLevel: attributes['isolationlevel'],
+                    loginName: attributes['loginname'],
+                    hostName: attributes['hostname'],
+                    clientApp: attributes['clientapp'],
+                    databaseName: attributes['currentdbname'] || attributes['currentdb'],
+                    logUsed: attributes['logused'],
+                    statements: [],
+                    inputBuffer: ''
+                };
+                graph.processes.push(process);
+            } else if (parent === 'resource-list') {
+                resource = {
+                    id: attributes['id'] || '',
+                    type: name,
+                    objectName: attributes['objectname'],
+                    indexName: attributes['indexname'],
+                    mode: attributes['mode'],
+                    owners: [],
+                    waiters: []
+                };
+                graph.resources.push(resource);
+            } else if (name === 'owner' && resource && attributes['id']) {
+                resource.owners.push({ processId: attributes['id'], mode: attributes['mode'] });
+            } else if (name === 'waiter' && resource && attributes['id']) {
+                resource.waiters.push({ processId: attributes['id'], mode: attributes['mode'], requestType: attributes['requestType'] });
+            } else if ((name === 'frame' || name === 'inputbuf') && process) {
+                text = '';
+            }
+        },
+        onCloseTag: (name) => {
+            path.pop();
+
+            if (name === 'frame' && process && text !== undefined) {
+                if (text.trim()) {
+                    process.statements.push(text.trim());
+                }
+                text = undefined;
+            } else if (name === 'inputbuf' && process && text !== undefined) {
+                process.inputBuffer = text.trim();
+                text = undefined;
+            } else if (name === 'process' && path[path.length - 1] === 'process-list') {
+                process = undefined;
+            } else if (path[path.length - 1] === 'resource-list') {
+                resource = undefined;
+            }
+        },
+        onText: (chunk) => {
+            if (text !== undefined) {
+                text += chunk;
+            }
+        }
+    });
+
+    parser.write(xml);
+    parser.end();
+
+    for (const deadlockProcess of graph.processes) {
+        deadlockProcess.isVictim = graph.victims.includes(deadlockProcess.id);
+    }
+
+    return graph;
+}
+
+/**
+ * Deadlock graph document that SSMS opens as an .xdl file
+ * xml_deadlock_report reports a single <deadlock>; .xdl files hold a <deadlock-list> whose
+ * deadlocks name their victim in a victim attribute
+ */
+export function toXdl(xml: string): string {
+    const report = xml.trim();
+    if (report.startsWith('<deadlock-list')) {
+        return report;
+    }
+
+    const victim = parseDeadlockGraph(report).victims[0];
+    const deadlock = victim && !/^<deadlock[^>]*\svictim=/.test(report)
+        ? report.replace(/^<deadlock/, `<deadlock victim="${encodeXmlEntities(victim)}"`)
+        : report;
+
+    return `<deadlock-list>\n${deadlock}\n</deadlock-list>\n`;
+}
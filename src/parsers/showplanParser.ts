@@ -0,0 +1,171 @@
+import { XmlStreamParser } from './xmlStreamParser';
+
+/**
+ * Operator (RelOp) of an execution plan
+ */
+export interface PlanOperator {
+    nodeId: string;
+    physicalOp: string;
+    logicalOp: string;
+    /** Table or index the operator reads or writes, as schema.table.index */
+    object?: string;
+    /** Estimated rows per execution */
+    estimatedRows?: number;
+    /** Rows returned over every execution and thread; undefined in estimated plans */
+    actualRows?: number;
+    actualExecutions?: number;
+    /** Estimated cost of the operator and its inputs */
+    subtreeCost: number;
+    /** Share of the statement's estimated cost spent in this operator alone, 0 to 100 */
+    costPercent: number;
+    warnings: string[];
+    children: PlanOperator[];
+}
+
+/**
+ * Statement of an execution plan with its operator tree
+ */
+export interface PlanStatement {
+    text: string;
+    statementType?: string;
+    subtreeCost?: number;
+    /** Plan-wide warnings, e.g. memory grant and conversion warnings */
+    warnings: string[];
+    root?: PlanOperator;
+}
+
+/**
+ * Execution plan of a showplan XML document
+ */
+export interface ExecutionPlan {
+    statements: PlanStatement[];
+}
+
+/** Warnings elements and attributes with a fixed text */
+const WARNING_TEXT = new Map<string, string>([
+    ['ColumnsWithNoStatistics', 'Columns with no statistics'],
+    ['NoJoinPredicate', 'No join predicate'],
+    ['SpatialGuess', 'Spatial guess'],
+    ['UnmatchedIndexes', 'Unmatched filtered indexes'],
+    ['FullUpdateForOnlineIndexBuild', 'Full update for online index build'],
+    ['HashSpillDetails', 'Hash spill'],
+    ['SortSpillDetails', 'Sort spill'],
+    ['ExchangeSpillDetails', 'Exchange spill'],
+    ['SpillOccurred', 'Spill occurred']
+]);
+
+/**
+ * Parse a showplan XML document (query_post_execution_showplan, query_plan_profile or .sqlplan)
+ */
+export function parseShowplan(xml: string): ExecutionPlan {
+    const plan: ExecutionPlan = { statements: [] };
+    const path: string[] = [];
+    const operators: PlanOperator[] = [];
+    let statement: PlanStatement | undefined;
+    /** Statement or operator whose Warnings element is open */
+    let warningsOwner: { warnings: string[] } | undefined;
+
+    const parser = new XmlStreamParser({
+        onOpenTag: (name, attributes) => {
+            const parent = path[path.length - 1];
+            path.push(name);
+            const operator = operators[operators.length - 1];
+
+            if (name.startsWith('Stmt') && attributes['StatementText'] !== undefined) {
+                statement = {
+                    text: attributes['StatementText'].trim(),
+                    statementType: attributes['StatementType'],
+                    subtreeCost: toNumber(attributes['StatementSubTreeCost']),
+                    warnings: []
+                };
+                plan.statements.push(statement);
+            } else if (name === 'RelOp') {
+                const relOp: PlanOperator = {
+                    nodeId: attributes['NodeId'] || '',
+                    physicalOp: attributes['PhysicalOp'] || '',
+                    logicalOp: attributes['LogicalOp'] || '',
+                    estimatedRows: toNumber(attributes['EstimateRows']),
+                    subtreeCost: toNumber(attributes['EstimatedTotalSubtreeCost']) || 0,
+                    costPercent: 0,
+                    warnings: [],
+                    children: []
+                };
+                if (operator) {
+                    operator.children.push(relOp);
+                } else if (statement && !statement.root) {
+                    statement.root = relOp;
+                }
+                operators.push(relOp);
+            } else if (name === 'Object' && operator && operator.object === undefined) {
+                operator.object = [attributes['Schema'], attributes['Table'], attributes['Index']]
+                    .filter(Boolean)
+                    .map(part => part.replace(/^\[|\]$/g, ''))
+                    .join('.');
+            } else if (name === 'RunTimeCountersPerThread' && operator && path[path.length - 3] === 'RelOp') {
+                operator.actualRows = (operator.actualRows || 0) + (toNumber(attributes['ActualRows']) || 0);
+                operator.actualExecutions = (operator.actualExecutions || 0) + (toNumber(attributes['ActualExecutions']) || 0);
+            } else if (name === 'Warnings' && (parent === 'RelOp' || parent === 'QueryPlan')) {
+                warningsOwner = parent === 'RelOp' ? operator : statement;
+                for (const [attribute, value] of Object.entries(attributes)) {
+                    if (value === 'true' || value === '1') {
+                        warningsOwner?.warnings.push(WARNING_TEXT.get(attribute) || attribute);
+                    }
+                }
+            } else if (parent === 'Warnings' && warningsOwner) {
+                warningsOwner.warnings.push(describeWarning(name, attributes));
+            }
+        },
+        onCloseTag: (name) => {
+            path.pop();
+
+            if (name === 'RelOp') {
+                operators.pop();
+            } else if (name === 'Warnings') {
+                warningsOwner = undefined;
+            }
+        }
+    });
+
+    parser.write(xml);
+    parser.end();
+
+    for (const planStatement of plan.statements) {
+        if (planStatement.root) {
+            setCostPercent(planStatement.root, planStatement.subtreeCost || planStatement.root.subtreeCost);
+        }
+    }
+
+    return plan;
+}
+
+function describeWarning(name: string, attributes: { [name: string]: string }): string {
+    switch (name) {
+        case 'SpillToTempDb':
+            return `Spill to tempdb${attributes['SpillLevel'] ? ` (level ${attributes['SpillLevel']})` : ''}`;
+        case 'PlanAffectingConvert':
+            return `Type conversion in ${attributes['Expression'] || 'expression'} may affect ${attributes['ConvertIssue'] || 'the plan'}`;
+        case 'MemoryGrantWarning':
+            return `Memory grant: ${attributes['GrantWarningKind'] || 'warning'}`;
+        case 'WaitWarning':
+            return `Wait: ${attributes['WaitType'] || ''} ${attributes['WaitTime'] ? `${attributes['WaitTime']} ms` : ''}`.trim();
+        default:
+            return WARNING_TEXT.get(name) || name.replace(/([a-z])([A-Z])/g, '$1 $2');
+    }
+}
+
+/**
+ * Cost of each operator alone: its subtree cost minus that of its inputs
+ */
+function setCostPercent(operator: PlanOperator, totalCost: number): void {
+    const inputsCost = operator.children.reduce((sum, child) => sum + child.subtreeCost, 0);
+    operator.costPercent = totalCost > 0 ? Math.max(0, operator.subtreeCost - inputsCost) / totalCost * 100 : 0;
+    operator.children.forEach(child => setCostPercent(child, totalCost));
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const numeric = parseFloat(value);
+    return isNaN(numeric) ? undefined : numeric;
+}
@@ -0,0 +1,558 @@
+import { ProfilerEvent } from '../models/profilerTypes';
+
+/**
+ * Reader for the Extended Events binary file format (.xel)
+ *
+ * An .xel file is made of 512-byte aligned blocks:
+ *
+ *   File header       first block; signature, format version and the length of the metadata
+ *   Metadata          packages, types, maps, events (with their columns) and actions used by the session
+ *   Event buffers     one per flush of the session's memory buffers; each holds a header and packed events
+ *
+ * The metadata makes the file self-describing: every event and action in the buffers is decoded
+ * with the column and type definitions it references, so no SQL Server connection is needed.
+ * All integers are little-endian and all names are UTF-16LE strings prefixed with a uint16 character count.
+ */
+
+/** Size of the blocks that file sections are aligned to */
+const BLOCK_SIZE = 512;
+
+/** Signature in the first four bytes of every .xel file */
+const FILE_SIGNATURE = 0x004C0045;
+
+/** Size of the header at the start of each event buffer */
+const BUFFER_HEADER_SIZE = 32;
+
+/** Size of the fixed part of each event record */
+const EVENT_HEADER_SIZE = 16;
+
+/** Metadata record kinds */
+enum MetadataRecord {
+    Package = 1,
+    Type = 2,
+    Map = 3,
+    Event = 4,
+    Action = 5
+}
+
+/** Fixed sizes of the XEvent scalar types; types not listed here are variable-length */
+const FIXED_TYPE_SIZES = new Map<string, number>([
+    ['boolean', 1],
+    ['int8', 1],
+    ['uint8', 1],
+    ['int16', 2],
+    ['uint16', 2],
+    ['int32', 4],
+    ['uint32', 4],
+    ['int64', 8],
+    ['uint64', 8],
+    ['float32', 4],
+    ['float64', 8],
+    ['guid', 16],
+    ['activity_id', 20],
+    ['activity_id_xfer', 20],
+    ['filetime', 8],
+    ['ptr', 8]
+]);
+
+const UTF16_DECODER = new TextDecoder('utf-16le');
+const ANSI_DECODER = new TextDecoder('windows-1252');
+
+interface XelTypeDefinition {
+    name: string;
+    /** Fixed size in bytes, or 0 for variable-length types */
+    size: number;
+    /** Name of the map the value is a key into, for map types */
+    map?: string;
+}
+
+interface XelColumnDefinition {
+    name: string;
+    type: XelTypeDefinition;
+}
+
+interface XelEventDefinition {
+    name: string;
+    packageName: string;
+    /** Data columns in ordinal order */
+    columns: XelColumnDefinition[];
+}
+
+interface XelActionDefinition {
+    name: string;
+    type: XelTypeDefinition;
+}
+
+/**
+ * Session metadata read from the start of the file
+ */
+interface XelMetadata {
+    packages: Map<number, string>;
+    types: Map<string, XelTypeDefinition>;
+    maps: Map<string, Map<number, string>>;
+    events: Map<string, XelEventDefinition>;
+    actions: Map<string, XelActionDefinition>;
+}
+
+/**
+ * Result of reading an .xel file
+ */
+export interface XelReadResult {
+    /** Decoded events in file order */
+    events: ProfilerEvent[];
+    /** Format version from the file header */
+    formatVersion: number;
+    /** Number of event buffers that could not be decoded and were skipped */
+    skippedBuffers: number;
+}
+
+/**
+ * Bounds-checked little-endian reader over a byte array
+ */
+class BinaryReader {
+    private view: DataView;
+    public position = 0;
+
+    constructor(bytes: Uint8Array, start = 0, end = bytes.length) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset + start, end - start);
+    }
+
+    public get length(): number {
+        return this.view.byteLength;
+    }
+
+    public get remaining(): number {
+        return this.view.byteLength - this.position;
+    }
+
+    private ensure(count: number): void {
+        if (this.position + count > this.view.byteLength) {
+            throw new Error(`Unexpected end of data at offset ${this.position} (needed ${count} bytes)`);
+        }
+    }
+
+    public skip(count: number): void {
+        this.ensure(count);
+        this.position += count;
+    }
+
+    public uint8(): number {
+        this.ensure(1);
+        return this.view.getUint8(this.position++);
+    }
+
+    public uint16(): number {
+        this.ensure(2);
+        const value = this.view.getUint16(this.position, true);
+        this.position += 2;
+        return value;
+    }
+
+    public uint32(): number {
+        this.ensure(4);
+        const value = this.view.getUint32(this.position, true);
+        this.position += 4;
+        return value;
+    }
+
+    public bytesAt(count: number): Uint8Array {
+        this.ensure(count);
+        // The view's byteOffset is relative to the whole ArrayBuffer, not to the array it was created from
+        const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.position, count);
+        this.position += count;
+        return bytes;
+    }
+
+    /**
+     * Read a UTF-16LE string prefixed with its uint16 character count
+     */
+    public name(): string {
+        const length = this.uint16();
+        return decodeUtf16(this.bytesAt(length * 2));
+    }
+}
+
+/**
+ * Decode UTF-16LE bytes, dropping a trailing NUL terminator
+ */
+function decodeUtf16(bytes: Uint8Array): string {
+    return UTF16_DECODER.decode(bytes).replace(/\0+$/, '');
+}
+
+/**
+ * Decode single-byte (ANSI) bytes, dropping a trailing NUL terminator
+ */
+function decodeAnsi(bytes: Uint8Array): string {
+    return ANSI_DECODER.decode(bytes).replace(/\0+$/, '');
+}
+
+function toHex(bytes: Uint8Array): string {
+    let hex = '';
+    for (const byte of bytes) {
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex.toUpperCase();
+}
+
+/**
+ * Format 16 bytes as a GUID string (first three groups are little-endian)
+ */
+function formatGuid(bytes: Uint8Array): string {
+    const hex = (indexes: number[]) => indexes.map(i => bytes[i].toString(16).padStart(2, '0')).join('');
+    return [
+        hex([3, 2, 1, 0]),
+        hex([5, 4]),
+        hex([7, 6]),
+        hex([8, 9]),
+        hex([10, 11, 12, 13, 14, 15])
+    ].join('-').toUpperCase();
+}
+
+/**
+ * Convert a Windows FILETIME (100ns ticks since 1601-01-01 UTC) to an ISO 8601 string
+ */
+function fileTimeToIso(low: number, high: number): string {
+    const ticks = BigInt(high) * BigInt(0x100000000) + BigInt(low);
+    const unixMs = Number(ticks / BigInt(10000)) - 11644473600000;
+    const fraction = Number(ticks % BigInt(10000000)).toString().padStart(7, '0');
+    return new Date(unixMs).toISOString().replace(/\.\d{3}Z$/, `.${fraction}Z`);
+}
+
+/**
+ * Reader for .xel files
+ */
+export class XelFileReader {
+    /**
+     * Decode a complete .xel file
+     */
+    public static read(data: Uint8Array): XelReadResult {
+        const reader = new BinaryReader(data);
+
+        if (reader.length < BLOCK_SIZE) {
+            throw new Error('File is too small to be an .xel file');
+        }
+
+        // File header
+        const signature = reader.uint32();
+        if (signature !== FILE_SIGNATURE) {
+            throw new Error('Not an Extended Events (.xel) file: signature mismatch');
+        }
+        const formatVersion = reader.uint16();
+        reader.skip(2);
+        const metadataLength = reader.uint32();
+
+        const metadataEnd = BLOCK_SIZE + metadataLength;
+        if (metadataEnd > data.length) {
+            throw new Error('Metadata section extends past the end of the file');
+        }
+
+        const metadata = XelFileReader.readMetadata(new BinaryReader(data, BLOCK_SIZE, metadataEnd));
+
+        // Event buffers start at the first block boundary after the metadata
+        const events: ProfilerEvent[] = [];
+        let skippedBuffers = 0;
+        let offset = Math.ceil(metadataEnd / BLOCK_SIZE) * BLOCK_SIZE;
+
+        while (offset + BUFFER_HEADER_SIZE <= data.length) {
+            const header = new BinaryReader(data, offset, offset + BUFFER_HEADER_SIZE);
+            const bufferSize = header.uint32();
+            const eventCount = header.uint32();
+
+            if (bufferSize === 0) {
+                // Zero-filled tail of a partially written file
+                break;
+            }
+
+            if (bufferSize < BUFFER_HEADER_SIZE) {
+                // Too small to hold its own header; the next buffer starts at the next block
+                console.error(`Skipping .xel buffer with invalid size ${bufferSize} at offset ${offset}`);
+                skippedBuffers++;
+                offset += BLOCK_SIZE;
+                continue;
+            }
+
+            const bufferEnd = Math.min(offset + bufferSize, data.length);
+
+            try {
+                // Events are only kept once their whole buffer decoded, so a damaged buffer adds no partial events
+                const bufferEvents: ProfilerEvent[] = [];
+                const buffer = new BinaryReader(data, offset + BUFFER_HEADER_SIZE, bufferEnd);
+                for (let i = 0; i < eventCount && buffer.remaining >= EVENT_HEADER_SIZE; i++) {
+                    const event = XelFileReader.readEvent(buffer, metadata);
+                    if (event) {
+                        bufferEvents.push(event);
+                    }
+                }
+                for (const event of bufferEvents) {
+                    events.push(event);
+                }
+            } catch (error) {
+                // A damaged buffer should not prevent reading the rest of the file
+                console.error(`Skipping unreadable .xel buffer at offset ${offset}:`, error);
+                skippedBuffers++;
+            }
+
+            offset += Math.ceil(bufferSize / BLOCK_SIZE) * BLOCK_SIZE;
+        }
+
+        return { events, formatVersion, skippedBuffers };
+    }
+
+    /**
+     * Read the package, type, map, event and action definitions
+     */
+    private static readMetadata(reader: BinaryReader): XelMetadata {
+        const metadata: XelMetadata = {
+            packages: new Map(),
+            types: new Map(),
+            maps: new Map(),
+            events: new Map(),
+            actions: new Map()
+        };
+
+        const typeKey = (packageIndex: number, id: number) => `${packageIndex}:${id}`;
+        const lookupType = (packageIndex: number, id: number): XelTypeDefinition =>
+            metadata.types.get(typeKey(packageIndex, id)) ?? { name: 'binary_data', size: 0 };
+
+        while (reader.remaining >= 4) {
+            const recordType = reader.uint16();
+            const recordLength = reader.uint16();
+            const recordEnd = reader.position + recordLength;
+            if (recordEnd > reader.length) {
+                throw new Error(`Metadata record at offset ${reader.position - 4} extends past the metadata section`);
+            }
+
+            switch (recordType) {
+                case MetadataRecord.Package: {
+                    const packageIndex = reader.uint16();
+                    reader.skip(16); // package GUID
+                    metadata.packages.set(packageIndex, reader.name());
+                    break;
+                }
+
+                case MetadataRecord.Type: {
+                    const packageIndex = reader.uint16();
+                    const typeId = reader.uint16();
+                    const size = reader.uint16();
+                    const name = reader.name();
+                    metadata.types.set(typeKey(packageIndex, typeId), {
+                        name,
+                        size: FIXED_TYPE_SIZES.get(name) ?? size
+                    });
+                    break;
+                }
+
+                case MetadataRecord.Map: {
+                    const packageIndex = reader.uint16();
+                    const mapId = reader.uint16();
+                    const name = reader.name();
+                    const entryCount = reader.uint32();
+                    const entries = new Map<number, string>();
+                    for (let i = 0; i < entryCount; i++) {
+                        const key = reader.uint32();
+                        entries.set(key, reader.name());
+                    }
+                    metadata.maps.set(name, entries);
+                    // Map types are 4-byte keys into the map
+                    metadata.types.set(typeKey(packageIndex, mapId), { name, size: 4, map: name });
+                    break;
+                }
+
+                case MetadataRecord.Event: {
+                    const packageIndex = reader.uint16();
+                    const eventId = reader.uint16();
+                    const name = reader.name();
+                    const columnCount = reader.uint16();
+                    const columns: XelColumnDefinition[] = [];
+                    for (let i = 0; i < columnCount; i++) {
+                        const typePackage = reader.uint16();
+                        const typeId = reader.uint16();
+                        columns.push({ name: reader.name(), type: lookupType(typePackage, typeId) });
+                    }
+                    metadata.events.set(typeKey(packageIndex, eventId), {
+                        name,
+                        packageName: metadata.packages.get(packageIndex) ?? '',
+                        columns
+                    });
+                    break;
+                }
+
+                case MetadataRecord.Action: {
+                    const packageIndex = reader.uint16();
+                    const actionId = reader.uint16();
+                    const typePackage = reader.uint16();
+                    const typeId = reader.uint16();
+                    metadata.actions.set(typeKey(packageIndex, actionId), {
+                        name: reader.name(),
+                        type: lookupType(typePackage, typeId)
+                    });
+                    break;
+                }
+
+                default:
+                    // Unknown record kinds are skipped using their length
+                    break;
+            }
+
+            reader.position = recordEnd;
+        }
+
+        return metadata;
+    }
+
+    /**
+     * Read one event record
+     *
+     *   uint16 size, uint16 packageIndex, uint16 eventId, uint16 actionCount, uint64 FILETIME timestamp,
+     *   fixed-size columns in ordinal order, then variable-length columns (uint32 length + bytes),
+     *   then actions (uint16 packageIndex, uint16 actionId, uint32 length + bytes)
+     */
+    private static readEvent(buffer: BinaryReader, metadata: XelMetadata): ProfilerEvent | undefined {
+        const start = buffer.position;
+        const size = buffer.uint16();
+        const packageIndex = buffer.uint16();
+        const eventId = buffer.uint16();
+        const actionCount = buffer.uint16();
+        const timestampLow = buffer.uint32();
+        const timestampHigh = buffer.uint32();
+
+        if (size < EVENT_HEADER_SIZE) {
+            throw new Error(`Invalid event size ${size}`);
+        }
+
+        const definition = metadata.events.get(`${packageIndex}:${eventId}`);
+        if (!definition) {
+            // Unknown event; skip over it
+            buffer.position = start + size;
+            return undefined;
+        }
+
+        const event: ProfilerEvent = {
+            name: definition.name,
+            timestamp: fileTimeToIso(timestampLow, timestampHigh),
+            values: {},
+            fieldTypes: {},
+            package: definition.packageName
+        };
+
+        const fixedColumns = definition.columns.filter(c => c.type.size > 0);
+        const variableColumns = definition.columns.filter(c => c.type.size === 0);
+
+        for (const column of fixedColumns) {
+            XelFileReader.setValue(event, column.name, column.type, buffer.bytesAt(column.type.size), metadata);
+        }
+
+        for (const column of variableColumns) {
+            const length = buffer.uint32();
+            XelFileReader.setValue(event, column.name, column.type, buffer.bytesAt(length), metadata);
+        }
+
+        for (let i = 0; i < actionCount; i++) {
+            const actionPackage = buffer.uint16();
+            const actionId = buffer.uint16();
+            const length = buffer.uint32();
+            const bytes = buffer.bytesAt(length);
+            const action = metadata.actions.get(`${actionPackage}:${actionId}`);
+            if (action) {
+                XelFileReader.setValue(event, action.name, action.type, bytes, metadata);
+            }
+        }
+
+        // Records are padded to their declared size
+        buffer.position = start + size;
+
+        return event;
+    }
+
+    /**
+     * Decode a column or action value and store it on the event the same way XEventParser does,
+     * so events read from .xel files and from a live session filter and group alike
+     */
+    private static setValue(
+        event: ProfilerEvent,
+        name: string,
+        type: XelTypeDefinition,
+        bytes: Uint8Array,
+        metadata: XelMetadata
+    ): void {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        let value: any;
+
+        switch (type.name) {
+            case 'boolean':
+                value = bytes.length > 0 && bytes[0] !== 0;
+                break;
+            case 'int8':
+                value = view.getInt8(0);
+                break;
+            case 'uint8':
+                value = view.getUint8(0);
+                break;
+            case 'int16':
+                value = view.getInt16(0, true);
+                break;
+            case 'uint16':
+                value = view.getUint16(0, true);
+                break;
+            case 'int32':
+                value = view.getInt32(0, true);
+                break;
+            case 'uint32':
+                value = view.getUint32(0, true);
+                break;
+            case 'int64':
+                value = view.getBigInt64(0, true).toString();
+                break;
+            case 'uint64':
+                value = view.getBigUint64(0, true).toString();
+                break;
+            case 'float32':
+                value = view.getFloat32(0, true);
+                break;
+            case 'float64':
+                value = view.getFloat64(0, true);
+                break;
+            case 'guid':
+                value = formatGuid(bytes);
+                break;
+            case 'activity_id':
+            case 'activity_id_xfer':
+                // GUID followed by a uint32 sequence number, displayed as GUID-sequence
+                value = `${formatGuid(bytes.subarray(0, 16))}-${view.getUint32(16, true)}`;
+                break;
+            case 'filetime':
+                value = fileTimeToIso(view.getUint32(0, true), view.getUint32(4, true));
+                break;
+            case 'ptr':
+                value = `0x${view.getBigUint64(0, true).toString(16).toUpperCase().padStart(16, '0')}`;
+                break;
+            case 'unicode_string':
+                value = decodeUtf16(bytes).replace(/\s+$/, '');
+                break;
+            case 'xml':
+                value = decodeUtf16(bytes).trim();
+                break;
+            case 'ansi_string':
+                value = decodeAnsi(bytes).replace(/\s+$/, '');
+                break;
+            default:
+                if (type.map) {
+                    // Map keys are text in event XML, so keep them as the same decimal string
+                    const key = view.getUint32(0, true);
+                    value = String(key);
+                    const text = metadata.maps.get(type.map)?.get(key);
+                    if (text !== undefined) {
+                        event.values[`${name}_text`] = text;
+                    }
+                } else {
+                    value = `0x${toHex(bytes)}`;
+                }
+                break;
+        }
+
+        event.values[name] = value;
+        if (event.fieldTypes) {
+            event.fieldTypes[name] = type.map ? type.map : type.name;
+        }
+    }
+}
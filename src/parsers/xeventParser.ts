@@ -0,0 +1,291 @@
+import { XmlStreamParser, decodeXmlEntities, encodeXmlEntities } from './xmlStreamParser';
+import { ProfilerEvent } from '../models/profilerTypes';
+
+/**
+ * Attributes reported on the root element of a ring buffer target
+ */
+export interface RingBufferTargetInfo {
+    /** Whether the target output was truncated to fit MAX_MEMORY */
+    truncated: boolean;
+    /** Total number of events processed by the target */
+    totalEventsProcessed: number;
+    /** Number of events contained in this snapshot */
+    eventCount: number;
+    /** Number of events dropped by the target */
+    droppedCount: number;
+    /** Memory used by the target in bytes */
+    memoryUsed: number;
+}
+
+/**
+ * Result of parsing an XEvent XML document
+ */
+export interface XEventParseResult {
+    /** Parsed events in document order */
+    events: ProfilerEvent[];
+    /** Ring buffer header attributes (only present for ring_buffer target data) */
+    target?: RingBufferTargetInfo;
+}
+
+/** XEvent types that fit in a JavaScript number without losing precision */
+const NUMERIC_TYPES = new Set([
+    'int8', 'int16', 'int32', 'uint8', 'uint16', 'uint32', 'float32', 'float64'
+]);
+
+/** XEvent types that are kept as decimal strings to avoid losing precision */
+const INT64_TYPES = new Set(['int64', 'uint64']);
+
+/**
+ * Field being collected while the parser is inside a <data> or <action> element
+ */
+interface PendingField {
+    name: string;
+    type: string;
+    value: string;
+    text?: string;
+    /** Depth of the <value> element while it is open, used to capture nested XML */
+    valueDepth?: number;
+    /** Whether the last nested element serialized into the value was self-closing */
+    lastTagSelfClosing?: boolean;
+    /** Whether any child element was found inside <value> */
+    hasMarkup: boolean;
+}
+
+/**
+ * Streaming parser for Extended Events XML
+ *
+ * Understands both ring_buffer target documents (<RingBufferTarget><event/>...</RingBufferTarget>)
+ * and individual event_data documents returned by sys.fn_xe_file_target_read_file.
+ */
+export class XEventParser {
+    private parser: XmlStreamParser;
+    private events: ProfilerEvent[] = [];
+    private target: RingBufferTargetInfo | undefined;
+
+    private currentEvent: ProfilerEvent | undefined;
+    private currentField: PendingField | undefined;
+    private currentElement: string | undefined;
+    private depth = 0;
+
+    constructor(private onEvent?: (event: ProfilerEvent) => void) {
+        this.parser = new XmlStreamParser({
+            onOpenTag: (name, attributes, selfClosing) => this.handleOpenTag(name, attributes, selfClosing),
+            onCloseTag: (name) => this.handleCloseTag(name),
+            onText: (text) => this.handleText(text)
+        });
+    }
+
+    /**
+     * Parse a complete XEvent XML document
+     */
+    public static parse(xml: string): XEventParseResult {
+        const parser = new XEventParser();
+        parser.write(xml);
+        return parser.end();
+    }
+
+    /**
+     * Feed the next chunk of XML to the parser
+     */
+    public write(chunk: string): void {
+        this.parser.write(chunk);
+    }
+
+    /**
+     * Finish parsing and return everything that was collected
+     */
+    public end(): XEventParseResult {
+        this.parser.end();
+        return {
+            events: this.events,
+            target: this.target
+        };
+    }
+
+    private handleOpenTag(name: string, attributes: { [name: string]: string }, selfClosing: boolean): void {
+        this.depth++;
+
+        const field = this.currentField;
+        if (field && field.valueDepth !== undefined) {
+            // Nested markup inside <value> is kept verbatim as a sub-document
+            field.hasMarkup = true;
+            field.lastTagSelfClosing = selfClosing;
+            field.value += this.serializeOpenTag(name, attributes, selfClosing);
+            return;
+        }
+
+        switch (name) {
+            case 'RingBufferTarget':
+                this.target = {
+                    truncated: attributes['truncated'] === '1',
+                    totalEventsProcessed: parseInt(attributes['totalEventsProcessed'] || '0', 10),
+                    eventCount: parseInt(attributes['eventCount'] || '0', 10),
+                    droppedCount: parseInt(attributes['droppedCount'] || '0', 10),
+                    memoryUsed: parseInt(attributes['memoryUsed'] || '0', 10)
+                };
+                break;
+
+            case 'event':
+                if (!this.currentEvent) {
+                    this.currentEvent = {
+                        name: attributes['name'] || '',
+                        timestamp: attributes['timestamp'] || '',
+                        values: {},
+                        fieldTypes: {}
+                    };
+                    if (attributes['package']) {
+                        this.currentEvent.package = attributes['package'];
+                    }
+                }
+                break;
+
+            case 'data':
+            case 'action':
+                if (this.currentEvent && !field) {
+                    this.currentField = {
+                        name: attributes['name'] || '',
+                        type: '',
+                        value: '',
+                        hasMarkup: false
+                    };
+                }
+                break;
+
+            case 'type':
+                if (field) {
+                    field.type = attributes['name'] || '';
+                }
+                break;
+
+            case 'value':
+                if (field) {
+                    field.valueDepth = this.depth;
+                    field.value = '';
+                }
+                break;
+
+            case 'text':
+                if (field) {
+                    field.text = '';
+                }
+                break;
+        }
+
+        this.currentElement = name;
+    }
+
+    private handleCloseTag(name: string): void {
+        const field = this.currentField;
+
+        if (field && field.valueDepth !== undefined) {
+            if (this.depth > field.valueDepth) {
+                // Self-closing tags were already serialized in full
+                if (!field.lastTagSelfClosing) {
+                    field.value += `</${name}>`;
+                }
+                field.lastTagSelfClosing = false;
+                this.depth--;
+                return;
+            }
+
+            // Closing </value>
+            field.valueDepth = undefined;
+        } else if (name === 'event' && this.currentEvent) {
+            this.events.push(this.currentEvent);
+            this.onEvent?.(this.currentEvent);
+            this.currentEvent = undefined;
+        } else if ((name === 'data' || name === 'action') && field && this.currentEvent) {
+            this.commitField(this.currentEvent, field);
+            this.currentField = undefined;
+        }
+
+        this.currentElement = undefined;
+        this.depth--;
+    }
+
+    private handleText(text: string): void {
+        const field = this.currentField;
+        if (!field) {
+            return;
+        }
+
+        if (field.valueDepth !== undefined) {
+            // Kept encoded so that nested XML can be reproduced verbatim
+            field.value += encodeXmlEntities(text);
+        } else if (this.currentElement === 'text' && field.text !== undefined) {
+            field.text += text;
+        }
+    }
+
+    /**
+     * Store a completed field on the event, converting the value according to its XEvent type
+     */
+    private commitField(event: ProfilerEvent, field: PendingField): void {
+        if (!field.name) {
+            return;
+        }
+
+        event.values[field.name] = this.convertValue(field);
+        if (field.type && event.fieldTypes) {
+            event.fieldTypes[field.name] = field.type;
+        }
+
+        // Map values carry a display text alongside the raw key
+        if (field.text !== undefined && field.text.trim().length > 0) {
+            event.values[`${field.name}_text`] = field.text.trim();
+        }
+    }
+
+    /**
+     * Convert a raw field value into a typed JavaScript value
+     */
+    private convertValue(field: PendingField): any {
+        if (field.hasMarkup || field.type === 'xml') {
+            return field.value.trim();
+        }
+
+        const value = decodeXmlEntities(field.value);
+        const raw = value.trim();
+
+        if (NUMERIC_TYPES.has(field.type)) {
+            const numeric = Number(raw);
+            return raw.length > 0 && !isNaN(numeric) ? numeric : raw;
+        }
+
+        if (INT64_TYPES.has(field.type)) {
+            return raw;
+        }
+
+        if (field.type === 'boolean') {
+            return raw === 'true' || raw === '1';
+        }
+
+        if (field.type === 'guid') {
+            return raw.replace(/^\{|\}$/g, '').toUpperCase();
+        }
+
+        // GUID-sequence, the same text XelFileReader decodes from .xel files
+        if (field.type === 'activity_id' || field.type === 'activity_id_xfer') {
+            return raw.replace(/[{}]/g, '').toUpperCase();
+        }
+
+        if (field.type === 'binary_data' && raw.length > 0 && !raw.startsWith('0x')) {
+            return `0x${raw.toUpperCase()}`;
+        }
+
+        // Character data is kept verbatim (including leading whitespace in SQL text)
+        if (field.type === 'unicode_string' || field.type === 'ansi_string') {
+            return value.replace(/^\r?\n/, '').replace(/\s+$/, '');
+        }
+
+        return raw;
+    }
+
+    private serializeOpenTag(name: string, attributes: { [name: string]: string }, selfClosing: boolean): string {
+        let tag = `<${name}`;
+        for (const [attribute, value] of Object.entries(attributes)) {
+            tag += ` ${attribute}="${encodeXmlEntities(value)}"`;
+        }
+        return tag + (selfClosing ? '/>' : '>');
+    }
+}
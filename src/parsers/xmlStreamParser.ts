@@ -0,0 +1,278 @@
+/**
+ * Minimal streaming (SAX-style) XML parser
+ * Accepts input in arbitrary chunks and reports tags and decoded text to a handler
+ */
+
+/**
+ * Callbacks invoked by the streaming parser
+ */
+export interface XmlStreamHandler {
+    /** Called for every start tag (and once for self-closing tags) */
+    onOpenTag?(name: string, attributes: { [name: string]: string }, selfClosing: boolean): void;
+    /** Called for every end tag (and immediately after a self-closing start tag) */
+    onCloseTag?(name: string): void;
+    /** Called for character data with entities decoded; CDATA sections are reported as text */
+    onText?(text: string): void;
+}
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\''
+};
+
+/**
+ * Decode XML character and entity references
+ */
+export function decodeXmlEntities(text: string): string {
+    if (text.indexOf('&') < 0) {
+        return text;
+    }
+
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+        if (entity.charAt(0) === '#') {
+            const codePoint = entity.charAt(1) === 'x'
+                ? parseInt(entity.substring(2), 16)
+                : parseInt(entity.substring(1), 10);
+
+            if (isNaN(codePoint) || codePoint > 0x10FFFF) {
+                return match;
+            }
+            return String.fromCodePoint(codePoint);
+        }
+
+        return NAMED_ENTITIES[entity] ?? match;
+    });
+}
+
+/**
+ * Escape text for inclusion in XML character data or attribute values
+ */
+export function encodeXmlEntities(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Streaming XML parser
+ *
+ * Call write() with each chunk of input and end() once the input is complete.
+ * Incomplete markup at the end of a chunk is buffered until more data arrives.
+ */
+export class XmlStreamParser {
+    private buffer = '';
+    private pendingText = '';
+    private openTags: string[] = [];
+    private ended = false;
+
+    constructor(private handler: XmlStreamHandler) {}
+
+    /**
+     * Feed the next chunk of XML text to the parser
+     */
+    public write(chunk: string): void {
+        if (this.ended) {
+            throw new Error('Cannot write to an XML parser after end()');
+        }
+
+        this.buffer += chunk;
+        this.processBuffer();
+    }
+
+    /**
+     * Signal that no more input will be written
+     */
+    public end(): void {
+        if (this.ended) {
+            return;
+        }
+
+        if (this.buffer.length > 0) {
+            // Whatever is left is unterminated markup or trailing text
+            if (this.buffer.charAt(0) === '<') {
+                throw new Error(`Unterminated markup near: ${this.buffer.substring(0, 40)}`);
+            }
+            this.pendingText += this.buffer;
+            this.buffer = '';
+        }
+
+        this.flushText();
+        this.ended = true;
+
+        if (this.openTags.length > 0) {
+            throw new Error(`Unclosed element <${this.openTags[this.openTags.length - 1]}>`);
+        }
+    }
+
+    /**
+     * Names of the elements that are currently open, outermost first
+     */
+    public get path(): readonly string[] {
+        return this.openTags;
+    }
+
+    /**
+     * Consume every complete token in the buffer
+     */
+    private processBuffer(): void {
+        let position = 0;
+        const buffer = this.buffer;
+
+        while (position < buffer.length) {
+            const markupStart = buffer.indexOf('<', position);
+
+            if (markupStart < 0) {
+                // Hold back the tail so entity references split across chunks stay intact
+                const ampersand = buffer.lastIndexOf('&');
+                const safeEnd = ampersand >= position && buffer.indexOf(';', ampersand) < 0 ? ampersand : buffer.length;
+                this.pendingText += buffer.substring(position, safeEnd);
+                position = safeEnd;
+                break;
+            }
+
+            if (markupStart > position) {
+                this.pendingText += buffer.substring(position, markupStart);
+                position = markupStart;
+            }
+
+            const consumed = this.processMarkup(buffer, position);
+            if (consumed < 0) {
+                // Incomplete markup, wait for more data
+                break;
+            }
+            position = consumed;
+        }
+
+        this.buffer = buffer.substring(position);
+    }
+
+    /**
+     * Process the markup starting at the given position
+     * Returns the position after the markup, or -1 if the markup is incomplete
+     */
+    private processMarkup(buffer: string, start: number): number {
+        if (buffer.startsWith('<!--', start)) {
+            const end = buffer.indexOf('-->', start + 4);
+            return end < 0 ? -1 : end + 3;
+        }
+
+        if (buffer.startsWith('<![CDATA[', start)) {
+            const end = buffer.indexOf(']]>', start + 9);
+            if (end < 0) {
+                return -1;
+            }
+            // CDATA content is literal, so escape it before it joins the pending (encoded) text
+            this.pendingText += encodeXmlEntities(buffer.substring(start + 9, end));
+            return end + 3;
+        }
+
+        if (buffer.startsWith('<?', start)) {
+            const end = buffer.indexOf('?>', start + 2);
+            return end < 0 ? -1 : end + 2;
+        }
+
+        if (buffer.startsWith('<!', start)) {
+            if (buffer.length - start < 9 && '<![CDATA['.startsWith(buffer.substring(start))) {
+                return -1;
+            }
+            const end = buffer.indexOf('>', start + 2);
+            return end < 0 ? -1 : end + 1;
+        }
+
+        const end = this.findTagEnd(buffer, start + 1);
+        if (end < 0) {
+            return -1;
+        }
+
+        this.flushText();
+
+        const tag = buffer.substring(start + 1, end);
+        if (tag.charAt(0) === '/') {
+            this.closeTag(tag.substring(1).trim());
+        } else {
+            this.openTag(tag);
+        }
+
+        return end + 1;
+    }
+
+    /**
+     * Find the closing '>' of a tag, skipping over quoted attribute values
+     */
+    private findTagEnd(buffer: string, from: number): number {
+        let quote: string | null = null;
+
+        for (let i = from; i < buffer.length; i++) {
+            const ch = buffer.charAt(i);
+            if (quote) {
+                if (ch === quote) {
+                    quote = null;
+                }
+            } else if (ch === '"' || ch === '\'') {
+                quote = ch;
+            } else if (ch === '>') {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+
+    /**
+     * Parse a start tag body (without angle brackets) and notify the handler
+     */
+    private openTag(tag: string): void {
+        const selfClosing = tag.endsWith('/');
+        const body = selfClosing ? tag.substring(0, tag.length - 1) : tag;
+
+        const nameMatch = body.match(/^([^\s/>]+)/);
+        if (!nameMatch) {
+            throw new Error(`Invalid start tag: <${tag}>`);
+        }
+        const name = nameMatch[1];
+
+        const attributes: { [name: string]: string } = {};
+        const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        let match: RegExpExecArray | null;
+        while ((match = attributePattern.exec(body.substring(name.length))) !== null) {
+            attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+        }
+
+        this.openTags.push(name);
+        this.handler.onOpenTag?.(name, attributes, selfClosing);
+
+        if (selfClosing) {
+            this.closeTag(name);
+        }
+    }
+
+    /**
+     * Close the innermost element and notify the handler
+     */
+    private closeTag(name: string): void {
+        const expected = this.openTags.pop();
+        if (expected !== name) {
+            throw new Error(`Mismatched end tag </${name}>, expected </${expected ?? ''}>`);
+        }
+
+        this.handler.onCloseTag?.(name);
+    }
+
+    /**
+     * Report accumulated character data
+     */
+    private flushText(): void {
+        if (this.pendingText.length === 0) {
+            return;
+        }
+
+        const text = decodeXmlEntities(this.pendingText);
+        this.pendingText = '';
+        this.handler.onText?.(text);
+    }
+}
@@ -0,0 +1,266 @@
+import { ActivityTreeRow, EventQuery, EventStore, ProfilerEvent } from '../models/profilerTypes';
+import { EventView } from './eventView';
+
+/** Events of a whole batch or RPC call; the completed event is the root of its activity */
+const REQUEST_EVENTS = ['rpc_completed', 'sql_batch_completed'];
+
+/** Root of an activity whose batch or RPC is still running */
+const REQUEST_STARTING_EVENTS = ['rpc_starting', 'sql_batch_starting'];
+
+/** Statement events; sql_statement_completed has no nest_level and runs at the top level */
+const STATEMENT_EVENTS = ['sql_statement_completed', 'sp_statement_completed'];
+
+/** Rows read from the view at a time */
+const READ_BATCH_SIZE = 5000;
+
+/**
+ * Value of an attach_activity_id or attach_activity_id_xfer action
+ */
+export interface ActivityId {
+    guid: string;
+    /** Order of the event within its activity, from 1 */
+    sequence: number;
+}
+
+interface ActivityEntry {
+    position: number;
+    name: string;
+    sequence: number;
+    /** Nest level of statement events; undefined for other events */
+    nestLevel?: number;
+}
+
+interface ActivityNode {
+    entry: ActivityEntry;
+    children: ActivityNode[];
+    descendants: number;
+}
+
+/**
+ * Parse an activity ID (GUID-sequence, as captured with TRACK_CAUSALITY=ON)
+ */
+export function parseActivityId(value: any): ActivityId | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const match = /^\{?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\}?(?:-(\d+))?$/i.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+    return { guid: match[1].toUpperCase(), sequence: match[2] ? parseInt(match[2], 10) : 0 };
+}
+
+/**
+ * Rows of the event grid grouped by attach_activity_id: each batch or RPC with the statements it ran
+ * nested under it in sequence order, and the statements of called procedures nested under the calling statement
+ * Activities are ordered by their first event; events without an activity ID are rows of their own
+ */
+export class ActivityTree {
+    private view: EventView;
+    /** View rows already added */
+    private addedRows = 0;
+    /** Events of each activity by GUID, in order of the activity's first event */
+    private activities = new Map<string, ActivityEntry[]>();
+    /** Built trees of the activities that did not change since */
+    private trees = new Map<string, ActivityNode>();
+    /** Store positions of the collapsed rows */
+    private collapsed = new Set<number>();
+    /** Store positions of the rows in display order, and their place in the tree */
+    private positions: number[] = [];
+    private rows: ActivityTreeRow[] = [];
+    /** Serializes updates, which read rows from addedRows on */
+    private pending: Promise<unknown> = Promise.resolve();
+
+    constructor(private store: EventStore) {
+        this.view = new EventView(store);
+    }
+
+    /**
+     * Number of rows, not counting those under collapsed rows
+     */
+    public get count(): number {
+        return this.positions.length;
+    }
+
+    /**
+     * Rebuild the trees for new grid filters
+     */
+    public setQuery(query: EventQuery): Promise<void> {
+        return this.enqueue(async () => {
+            await this.view.setQuery({ ...query, sort: undefined, groupByActivity: undefined });
+            this.clear();
+            await this.addNewRows();
+            this.buildRows();
+        });
+    }
+
+    /**
+     * Add the events captured since the last update
+     */
+    public update(): Promise<void> {
+        return this.enqueue(async () => {
+            await this.view.update();
+            if (await this.addNewRows()) {
+                this.buildRows();
+            }
+        });
+    }
+
+    /**
+     * Forget every event after the store has been cleared
+     */
+    public reset(): Promise<void> {
+        return this.enqueue(async () => {
+            await this.view.reset();
+            this.clear();
+            this.collapsed.clear();
+            this.buildRows();
+        });
+    }
+
+    /**
+     * Expand or collapse the events nested under a row
+     */
+    public toggle(id: number): Promise<void> {
+        return this.enqueue(async () => {
+            if (!this.collapsed.delete(id)) {
+                this.collapsed.add(id);
+            }
+            this.buildRows();
+        });
+    }
+
+    /**
+     * Read count rows starting at a row index, with their place in the tree
+     */
+    public getRows(start: number, count: number): Promise<{ events: ProfilerEvent[]; rows: ActivityTreeRow[] }> {
+        return this.enqueue(async () => {
+            const events = await this.store.readPositions(this.positions.slice(start, start + count));
+            return { events, rows: this.rows.slice(start, start + count) };
+        });
+    }
+
+    private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.pending.catch(() => undefined).then(operation);
+        this.pending = result;
+        return result;
+    }
+
+    private clear(): void {
+        this.addedRows = 0;
+        this.activities.clear();
+        this.trees.clear();
+    }
+
+    /**
+     * Add the view rows not added yet; returns whether there were any
+     */
+    private async addNewRows(): Promise<boolean> {
+        const addedRows = this.addedRows;
+
+        while (this.addedRows < this.view.count) {
+            const positions = await this.view.getPositions(this.addedRows, READ_BATCH_SIZE);
+            if (positions.length === 0) {
+                break;
+            }
+            const events = await this.store.readPositions(positions);
+            events.forEach((event, index) => this.addEvent(event, positions[index]));
+            this.addedRows += positions.length;
+        }
+
+        return this.addedRows > addedRows;
+    }
+
+    private addEvent(event: ProfilerEvent, position: number): void {
+        const activityId = parseActivityId(event.values['attach_activity_id']);
+        const key = activityId ? activityId.guid : `#${position}`;
+
+        const nestLevel = parseInt(event.values['nest_level'], 10);
+        const entry: ActivityEntry = {
+            position,
+            name: event.name,
+            sequence: activityId ? activityId.sequence : 0,
+            nestLevel: STATEMENT_EVENTS.includes(event.name) ? (isNaN(nestLevel) ? 0 : nestLevel) : undefined
+        };
+
+        const entries = this.activities.get(key);
+        if (entries) {
+            entries.push(entry);
+        } else {
+            this.activities.set(key, [entry]);
+        }
+        this.trees.delete(key);
+    }
+
+    private buildRows(): void {
+        const positions: number[] = [];
+        const rows: ActivityTreeRow[] = [];
+
+        const addNode = (node: ActivityNode, depth: number) => {
+            const collapsed = node.children.length > 0 && this.collapsed.has(node.entry.position);
+            positions.push(node.entry.position);
+            rows.push({ id: node.entry.position, depth, descendants: node.descendants, collapsed });
+            if (!collapsed) {
+                node.children.forEach(child => addNode(child, depth + 1));
+            }
+        };
+
+        for (const [key, entries] of this.activities) {
+            let tree = this.trees.get(key);
+            if (!tree) {
+                tree = buildActivityTree(entries);
+                this.trees.set(key, tree);
+            }
+            addNode(tree, 0);
+        }
+
+        this.positions = positions;
+        this.rows = rows;
+    }
+}
+
+/**
+ * Nest the events of one activity under its batch or RPC
+ * Events complete before the statement that ran them, so a statement takes the preceding events of deeper
+ * nest levels (called procedures) and those of no nest level (waits, errors, plans) as its children
+ */
+function buildActivityTree(entries: ActivityEntry[]): ActivityNode {
+    const ordered = [...entries].sort((a, b) => a.sequence - b.sequence || a.position - b.position);
+    const rootEntry = ordered.find(entry => REQUEST_EVENTS.includes(entry.name))
+        || ordered.find(entry => REQUEST_STARTING_EVENTS.includes(entry.name))
+        || ordered[0];
+
+    const children: ActivityNode[] = [];
+    for (const entry of ordered) {
+        if (entry === rootEntry) {
+            continue;
+        }
+
+        const node: ActivityNode = { entry, children: [], descendants: 0 };
+        if (entry.nestLevel !== undefined) {
+            let first = children.length;
+            while (first > 0 && isNestedIn(children[first - 1].entry, entry.nestLevel)) {
+                first--;
+            }
+            node.children = children.splice(first);
+            node.descendants = node.children.reduce((count, child) => count + 1 + child.descendants, 0);
+        }
+        children.push(node);
+    }
+
+    return {
+        entry: rootEntry,
+        children,
+        descendants: children.reduce((count, child) => count + 1 + child.descendants, 0)
+    };
+}
+
+/**
+ * Whether an event preceding a statement of a nest level ran as part of that statement
+ */
+function isNestedIn(entry: ActivityEntry, nestLevel: number): boolean {
+    if (entry.nestLevel !== undefined) {
+        return entry.nestLevel > nestLevel;
+    }
+    return !REQUEST_EVENTS.includes(entry.name) && !REQUEST_STARTING_EVENTS.includes(entry.name);
+}
@@ -0,0 +1,158 @@
+import * as sql from 'mssql';
+import { AuthenticationType, ConnectionInfo } from '../models/profilerTypes';
+
+/**
+ * Authentication type offered when creating or editing a connection, and what it asks for
+ */
+export interface AuthenticationOption {
+    type: AuthenticationType;
+    label: string;
+    detail?: string;
+    needsUserName?: boolean;
+    /** Name of the password, client secret or token kept in secret storage; undefined when none is needed */
+    secretLabel?: string;
+    secretPrompt?: string;
+    /** Whether an application (client) ID must or can be given */
+    clientId?: 'required' | 'optional';
+    needsTenantId?: boolean;
+}
+
+export const AUTHENTICATION_OPTIONS: AuthenticationOption[] = [
+    {
+        type: 'SqlLogin',
+        label: 'SQL Server Authentication',
+        needsUserName: true,
+        secretLabel: 'Password',
+        secretPrompt: 'Enter password'
+    },
+    {
+        type: 'Integrated',
+        label: 'Windows Authentication'
+    },
+    {
+        type: 'AzureServicePrincipal',
+        label: 'Microsoft Entra ID - Service Principal',
+        detail: 'Application (client) ID, directory (tenant) ID and client secret of an app registration',
+        secretLabel: 'Client Secret',
+        secretPrompt: 'Enter client secret',
+        clientId: 'required',
+        needsTenantId: true
+    },
+    {
+        type: 'AzureManagedIdentity',
+        label: 'Microsoft Entra ID - Managed Identity',
+        detail: 'Identity of the Azure VM, App Service or container VS Code runs on',
+        clientId: 'optional'
+    },
+    {
+        type: 'AzureAccessToken',
+        label: 'Microsoft Entra ID - Access Token',
+        detail: 'Token for https://database.windows.net/, e.g. from az account get-access-token; tokens expire after about an hour',
+        secretLabel: 'Access Token',
+        secretPrompt: 'Enter access token'
+    },
+    {
+        type: 'AzureDefault',
+        label: 'Microsoft Entra ID - Default Credentials',
+        detail: 'Environment variables, workload identity, managed identity, Azure CLI, Azure PowerShell or Azure Developer CLI sign-in',
+        clientId: 'optional'
+    }
+];
+
+/**
+ * Option of an authentication type; unknown types are treated as SQL Server Authentication
+ */
+export function getAuthenticationOption(type: string | undefined): AuthenticationOption {
+    return AUTHENTICATION_OPTIONS.find(option => option.type === type) || AUTHENTICATION_OPTIONS[0];
+}
+
+/**
+ * Validate an authentication type read from settings, a capture file or another extension
+ */
+export function toAuthenticationType(type: string | undefined): AuthenticationType {
+    return getAuthenticationOption(type).type;
+}
+
+/**
+ * Whether an authentication type signs in with Microsoft Entra ID, which requires an encrypted connection
+ */
+export function isEntraAuthentication(type: string | undefined): boolean {
+    return getAuthenticationOption(type).type.startsWith('Azure');
+}
+
+/**
+ * Short description of how a connection signs in, for pickers and tree items
+ */
+export function describeAuthentication(connection: { authenticationType: string; userName?: string; clientId?: string }): string {
+    switch (toAuthenticationType(connection.authenticationType)) {
+        case 'Integrated':
+            return 'Windows Auth';
+        case 'AzureServicePrincipal':
+            return `Entra ID service principal: ${connection.clientId || ''}`;
+        case 'AzureManagedIdentity':
+            return connection.clientId ? `Entra ID managed identity: ${connection.clientId}` : 'Entra ID managed identity';
+        case 'AzureAccessToken':
+            return 'Entra ID access token';
+        case 'AzureDefault':
+            return 'Entra ID default credentials';
+        default:
+            return `User: ${connection.userName}`;
+    }
+}
+
+/**
+ * User, password or authentication options of a connection pool for a connection's authentication type
+ */
+export function getAuthenticationConfig(connection: ConnectionInfo): Pick<sql.config, 'user' | 'password' | 'authentication'> {
+    switch (toAuthenticationType(connection.authenticationType)) {
+        case 'Integrated':
+            // Windows Authentication (NTLM)
+            return {
+                authentication: {
+                    type: 'ntlm',
+                    options: {
+                        domain: '',
+                        userName: connection.userName || '',
+                        password: connection.password || ''
+                    }
+                }
+            };
+        case 'AzureServicePrincipal':
+            return {
+                authentication: {
+                    type: 'azure-active-directory-service-principal-secret',
+                    options: {
+                        clientId: connection.clientId || '',
+                        clientSecret: connection.password,
+                        tenantId: connection.tenantId || ''
+                    }
+                }
+            };
+        case 'AzureManagedIdentity':
+            return {
+                authentication: {
+                    type: 'azure-active-directory-msi-vm',
+                    options: { clientId: connection.clientId || undefined }
+                }
+            };
+        case 'AzureAccessToken':
+            return {
+                authentication: {
+                    type: 'azure-active-directory-access-token',
+                    options: { token: connection.password }
+                }
+            };
+        case 'AzureDefault':
+            return {
+                authentication: {
+                    type: 'azure-active-directory-default',
+                    options: { clientId: connection.clientId || undefined }
+                }
+            };
+        default:
+            return {
+                user: connection.userName,
+                password: connection.password
+            };
+    }
+}
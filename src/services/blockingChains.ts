@@ -0,0 +1,116 @@
+import { BlockingNode, BlockingSnapshot, ProfilerEvent } from '../models/profilerTypes';
+import { BlockedProcess, BlockedProcessReport, getBlockedProcessReport, parseBlockedProcessReport } from '../parsers/blockedProcessParser';
+import { EventView } from './eventView';
+
+interface MonitorPass {
+    timestamp: string;
+    reports: BlockedProcessReport[];
+}
+
+/**
+ * Rebuild the blocking chains of each blocked process monitor pass from the blocked_process_report
+ * events of a view, oldest first
+ * Reports without a monitorLoop are grouped by the second they were raised in
+ */
+export async function buildBlockingSnapshots(view: EventView): Promise<BlockingSnapshot[]> {
+    const passes = new Map<string, MonitorPass>();
+
+    await view.scan((event: ProfilerEvent) => {
+        const xml = getBlockedProcessReport(event);
+        if (!xml) {
+            return;
+        }
+
+        let report: BlockedProcessReport;
+        try {
+            report = parseBlockedProcessReport(xml);
+        } catch (error) {
+            console.error('Failed to parse blocked process report:', error);
+            return;
+        }
+        if (!report.blocked || !report.blocking) {
+            return;
+        }
+
+        const key = report.monitorLoop ? `loop:${report.monitorLoop}` : `time:${event.timestamp.substring(0, 19)}`;
+        let pass = passes.get(key);
+        if (!pass) {
+            pass = { timestamp: event.timestamp, reports: [] };
+            passes.set(key, pass);
+        }
+        pass.reports.push(report);
+    });
+
+    return Array.from(passes.values())
+        .map(pass => buildSnapshot(pass))
+        .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+/**
+ * Link the blocked and blocking processes of a pass into chains headed by the processes
+ * that block others without being blocked themselves
+ */
+function buildSnapshot(pass: MonitorPass): BlockingSnapshot {
+    const processes = new Map<string, BlockedProcess>();
+    const blockedBy = new Map<string, string>();
+    const blocking = new Map<string, string[]>();
+    let maxWaitTime = 0;
+
+    for (const report of pass.reports) {
+        const blocked = report.blocked!;
+        const blocker = report.blocking!;
+
+        // Parallel workers of a query are reported separately; merge them into their session
+        const existing = processes.get(blocked.spid);
+        if (!existing || (blocked.waitTime || 0) > (existing.waitTime || 0)) {
+            processes.set(blocked.spid, blocked);
+        }
+        if (!processes.has(blocker.spid)) {
+            processes.set(blocker.spid, blocker);
+        }
+
+        maxWaitTime = Math.max(maxWaitTime, blocked.waitTime || 0);
+
+        if (blocked.spid === blocker.spid || blockedBy.has(blocked.spid)) {
+            continue;
+        }
+        blockedBy.set(blocked.spid, blocker.spid);
+        blocking.set(blocker.spid, [...(blocking.get(blocker.spid) || []), blocked.spid]);
+    }
+
+    const added = new Set<string>();
+    const toNode = (spid: string): BlockingNode => {
+        added.add(spid);
+        const process = processes.get(spid)!;
+        return {
+            spid,
+            status: process.status,
+            waitResource: blockedBy.has(spid) ? process.waitResource : undefined,
+            waitTime: blockedBy.has(spid) ? process.waitTime : undefined,
+            lockMode: process.lockMode,
+            databaseName: process.databaseName,
+            loginName: process.loginName,
+            hostName: process.hostName,
+            clientApp: process.clientApp,
+            transactionName: process.transactionName,
+            sql: process.inputBuffer,
+            blocked: (blocking.get(spid) || []).filter(blockedSpid => !added.has(blockedSpid)).map(toNode)
+        };
+    };
+
+    const heads = Array.from(blocking.keys()).filter(spid => !blockedBy.has(spid)).map(toNode);
+
+    // Processes blocking each other in a cycle have no head; start from any of them
+    for (const spid of blocking.keys()) {
+        if (!added.has(spid)) {
+            heads.push(toNode(spid));
+        }
+    }
+
+    return {
+        timestamp: pass.timestamp,
+        heads,
+        blockedCount: blockedBy.size,
+        maxWaitTime
+    };
+}
@@ -0,0 +1,140 @@
+import { CaptureTarget, ProfilerCaptureFile, ProfilerEvent, ProfilerSession, SessionState } from '../models/profilerTypes';
+import { MemoryEventStore } from './eventStore';
+import { toAuthenticationType } from './authentication';
+
+/** Current capture format version */
+const CAPTURE_FORMAT_VERSION = 1;
+
+/** File extension used for captures */
+export const CAPTURE_FILE_EXTENSION = 'sqlprofile';
+
+/**
+ * Service for saving and loading profiler captures (.sqlprofile files)
+ */
+export class CaptureFileService {
+    /**
+     * Serialize a session and its events to the capture format
+     */
+    public static serialize(session: ProfilerSession, events: ProfilerEvent[]): string {
+        const capture: ProfilerCaptureFile = {
+            version: CAPTURE_FORMAT_VERSION,
+            session: {
+                name: session.name,
+                template: session.template,
+                connection: {
+                    serverName: session.connection.serverName,
+                    databaseName: session.connection.databaseName,
+                    userName: session.connection.userName || undefined,
+                    authenticationType: session.connection.authenticationType,
+                    isAzure: session.connection.isAzure
+                },
+                createdAt: session.createdAt.toISOString(),
+                startedAt: session.startedAt?.toISOString(),
+                stoppedAt: (session.stoppedAt ?? new Date()).toISOString(),
+                databases: Array.from(session.databaseLookup.entries()),
+                eventsLost: session.missedEventCount > 0,
+                missedEventCount: session.missedEventCount
+            },
+            events
+        };
+
+        return JSON.stringify(capture);
+    }
+
+    /**
+     * Split a session's capture document around its events array, so events can be written between the two parts
+     */
+    public static serializeEnvelope(session: ProfilerSession): { prefix: string; suffix: string } {
+        // events is the document's last property, so the document ends with its empty array
+        const document = CaptureFileService.serialize(session, []);
+        return { prefix: document.substring(0, document.length - 2), suffix: ']}' };
+    }
+
+    /**
+     * Parse and validate the contents of a capture file
+     */
+    public static parse(content: string): ProfilerCaptureFile {
+        let capture: ProfilerCaptureFile;
+
+        try {
+            capture = JSON.parse(content);
+        } catch (error: any) {
+            throw new Error(`Invalid capture file: ${error?.message || 'not valid JSON'}`);
+        }
+
+        if (!capture || typeof capture !== 'object' || !capture.session || !Array.isArray(capture.events)) {
+            throw new Error('Invalid capture file: missing session or events');
+        }
+
+        if (typeof capture.version !== 'number' || capture.version > CAPTURE_FORMAT_VERSION) {
+            throw new Error(`Unsupported capture file version: ${capture.version}`);
+        }
+
+        return capture;
+    }
+
+    /**
+     * Create a read-only session for a capture loaded from a file
+     */
+    public static toSession(capture: ProfilerCaptureFile, id: string): ProfilerSession {
+        const info = capture.session;
+
+        const session = CaptureFileService.createReadOnlySession(id, info.name, capture.events);
+        session.template = info.template;
+        session.connection.serverName = info.connection.serverName;
+        session.connection.databaseName = info.connection.databaseName;
+        session.connection.userName = info.connection.userName || '';
+        session.connection.authenticationType = toAuthenticationType(info.connection.authenticationType);
+        session.connection.isAzure = info.connection.isAzure;
+        session.databaseLookup = new Map(info.databases || []);
+        session.missedEventCount = info.missedEventCount || 0;
+        session.createdAt = new Date(info.createdAt);
+        session.startedAt = info.startedAt ? new Date(info.startedAt) : undefined;
+        session.stoppedAt = info.stoppedAt ? new Date(info.stoppedAt) : undefined;
+
+        return session;
+    }
+
+    /**
+     * Create a read-only session that displays events loaded from a file
+     * The database lookup is rebuilt from events that carry both database_id and database_name
+     */
+    public static createReadOnlySession(id: string, name: string, events: ProfilerEvent[]): ProfilerSession {
+        const databaseLookup = new Map<number, string>();
+        for (const event of events) {
+            const dbId = Number(event.values['database_id']);
+            if (!isNaN(dbId) && event.values['database_name']) {
+                databaseLookup.set(dbId, String(event.values['database_name']));
+            }
+        }
+
+        return {
+            id,
+            name,
+            connection: {
+                ownerUri: id,
+                serverName: '',
+                databaseName: '',
+                userName: '',
+                password: '',
+                authenticationType: 'Integrated',
+                isAzure: false
+            },
+            template: {
+                name,
+                defaultView: 'Standard View',
+                createStatement: ''
+            },
+            state: SessionState.Stopped,
+            readOnly: true,
+            events,
+            store: new MemoryEventStore(events),
+            captureOptions: { target: CaptureTarget.RingBuffer },
+            databaseLookup,
+            tracksEventSequence: false,
+            lastEventSequence: 0,
+            missedEventCount: 0,
+            createdAt: new Date()
+        };
+    }
+}
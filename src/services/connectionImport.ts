@@ -0,0 +1,383 @@
+import { XmlStreamParser } from '../parsers/xmlStreamParser';
+import { AuthenticationType, ConnectionOptions, EncryptMode } from '../models/profilerTypes';
+import { parseConnectionString, parseServerName } from './connectionString';
+
+/**
+ * Connection read from another tool, to be saved as a connection profile
+ * Passwords are never imported: the tools keep them encrypted or in the OS credential store
+ */
+export interface ImportedConnection {
+    name: string;
+    serverName: string;
+    databaseName: string;
+    authenticationType: AuthenticationType;
+    userName?: string;
+    clientId?: string;
+    tenantId?: string;
+    /** Path of the folder holding the connection, with / between folder names; undefined at the top level */
+    group?: string;
+    options: ConnectionOptions;
+}
+
+/**
+ * Connection group of Azure Data Studio or vscode-mssql (datasource.connectionGroups / mssql.connectionGroups)
+ */
+interface ConnectionGroupSetting {
+    id: string;
+    name: string;
+    parentId?: string;
+}
+
+/** Name of the group holding the top level groups and connections */
+const ROOT_GROUP_NAME = 'ROOT';
+
+/** Registered server types that are database engines */
+const DATABASE_ENGINE_SERVER_TYPE = 'DatabaseEngine';
+
+/**
+ * Read the connections of an Azure Data Studio settings.json, with their connection groups as folders
+ * Comments and trailing commas are allowed, as in any VS Code settings file
+ */
+export function parseAzureDataStudioSettings(text: string): ImportedConnection[] {
+    const settings = JSON.parse(stripJsonComments(text));
+    const connections: any[] = Array.isArray(settings['datasource.connections']) ? settings['datasource.connections'] : [];
+
+    // ADS keeps the connection properties under options
+    return parseConnectionSettings(
+        connections
+            .filter(connection => !connection.providerName || connection.providerName === 'MSSQL')
+            .map(connection => ({ ...connection.options, groupId: connection.groupId })),
+        settings['datasource.connectionGroups']
+    );
+}
+
+/**
+ * Read the mssql.connections setting of vscode-mssql, with the mssql.connectionGroups folders of newer versions
+ */
+export function parseMssqlConnections(connections: any, groups?: any): ImportedConnection[] {
+    return parseConnectionSettings(Array.isArray(connections) ? connections : [], groups);
+}
+
+/**
+ * Read the registered servers of an SSMS export (.regsrvr) or RegSrvr.xml, with their server groups as folders
+ * Only database engine servers are read; saved passwords are encrypted for the Windows user and are skipped
+ */
+export function parseRegisteredServers(xml: string): ImportedConnection[] {
+    const connections: ImportedConnection[] = [];
+    let server: { [property: string]: string } | undefined;
+    let property: string | undefined;
+    let text = '';
+
+    const parser = new XmlStreamParser({
+        onOpenTag: (name, _attributes, selfClosing) => {
+            const localName = getLocalName(name);
+            if (localName === 'RegisteredServer') {
+                server = {};
+            } else if (server) {
+                // Properties are the children of RegisteredServer; the parent group is the Uri of Parent's reference
+                property = localName === 'Uri' ? 'ParentUri' : localName;
+                text = '';
+                if (selfClosing) {
+                    property = undefined;
+                }
+            }
+        },
+        onCloseTag: (name) => {
+            const localName = getLocalName(name);
+            if (localName === 'RegisteredServer' && server) {
+                const connection = toRegisteredServerConnection(server);
+                if (connection) {
+                    connections.push(connection);
+                }
+                server = undefined;
+            } else if (server && property && (localName === property || (property === 'ParentUri' && localName === 'Uri'))) {
+                server[property] = text.trim();
+                property = undefined;
+            }
+        },
+        onText: (chunk) => {
+            if (property) {
+                text += chunk;
+            }
+        }
+    });
+
+    parser.write(xml);
+    parser.end();
+
+    return connections;
+}
+
+/**
+ * Map Azure Data Studio / vscode-mssql connection settings to imported connections
+ */
+function parseConnectionSettings(connections: any[], groups: any): ImportedConnection[] {
+    const groupPaths = getGroupPaths(Array.isArray(groups) ? groups : []);
+    const imported: ImportedConnection[] = [];
+
+    for (const connection of connections) {
+        if (!connection || typeof connection !== 'object') {
+            continue;
+        }
+
+        // A connection may be given only by its connection string
+        const parsed = typeof connection.connectionString === 'string' && connection.connectionString
+            ? parseConnectionString(connection.connectionString)
+            : undefined;
+
+        const serverName = String(connection.server || parsed?.serverName || '');
+        if (!serverName) {
+            continue;
+        }
+        const address = parseServerName(serverName);
+        const authenticationType = toImportedAuthenticationType(connection.authenticationType) || parsed?.authenticationType || 'SqlLogin';
+
+        const options: ConnectionOptions = {
+            ...parsed?.options,
+            instanceName: address.instanceName || parsed?.options.instanceName,
+            port: toNumber(connection.port) || address.port || parsed?.options.port,
+            encrypt: toEncryptMode(connection.encrypt) || parsed?.options.encrypt,
+            trustServerCertificate: typeof connection.trustServerCertificate === 'boolean'
+                ? connection.trustServerCertificate
+                : parsed?.options.trustServerCertificate,
+            hostNameInCertificate: connection.hostNameInCertificate || parsed?.options.hostNameInCertificate,
+            connectTimeout: toNumber(connection.connectTimeout) ?? parsed?.options.connectTimeout,
+            requestTimeout: toNumber(connection.commandTimeout) ?? parsed?.options.requestTimeout,
+            applicationName: connection.applicationName || parsed?.options.applicationName
+        };
+
+        const databaseName = connection.database || parsed?.databaseName || 'master';
+        imported.push({
+            name: connection.profileName || connection.connectionName || `${address.host} / ${databaseName}`,
+            serverName: address.host,
+            databaseName,
+            authenticationType,
+            userName: authenticationType === 'SqlLogin' ? connection.user || parsed?.userName || undefined : undefined,
+            clientId: parsed?.clientId,
+            tenantId: connection.tenantId || connection.azureTenantId || undefined,
+            group: connection.groupId ? groupPaths.get(connection.groupId) : undefined,
+            options: removeUndefined(options)
+        });
+    }
+
+    return imported;
+}
+
+/**
+ * Folder path of every connection group, from its parents' names; the root group has an empty path
+ */
+function getGroupPaths(groups: ConnectionGroupSetting[]): Map<string, string | undefined> {
+    const byId = new Map(groups.filter(group => group && group.id).map(group => [group.id, group]));
+    const paths = new Map<string, string | undefined>();
+
+    for (const group of byId.values()) {
+        const names: string[] = [];
+        const visited = new Set<string>();
+        let current: ConnectionGroupSetting | undefined = group;
+
+        while (current && !visited.has(current.id)) {
+            visited.add(current.id);
+            if (current.name && current.name !== ROOT_GROUP_NAME) {
+                names.unshift(current.name);
+            }
+            current = current.parentId ? byId.get(current.parentId) : undefined;
+        }
+        paths.set(group.id, names.length > 0 ? names.join('/') : undefined);
+    }
+
+    return paths;
+}
+
+function toRegisteredServerConnection(server: { [property: string]: string }): ImportedConnection | undefined {
+    if (server['ServerType'] && server['ServerType'] !== DATABASE_ENGINE_SERVER_TYPE) {
+        return undefined;
+    }
+
+    const connectionString = server['ConnectionStringWithEncryptedPassword'] || server['ConnectionString'] || '';
+    const parsed = parseConnectionString(connectionString);
+    const address = parseServerName(server['ServerName'] || parsed.serverName || '');
+    if (!address.host) {
+        return undefined;
+    }
+
+    const authenticationType = parsed.authenticationType || 'SqlLogin';
+    return {
+        name: server['Name'] || address.host,
+        serverName: address.host,
+        databaseName: parsed.databaseName || 'master',
+        authenticationType,
+        userName: parsed.userName,
+        clientId: parsed.clientId,
+        group: getRegisteredServerGroup(server['ParentUri']),
+        options: removeUndefined({
+            ...parsed.options,
+            instanceName: address.instanceName || parsed.options.instanceName,
+            port: address.port || parsed.options.port
+        })
+    };
+}
+
+/**
+ * Folder path of a registered server from its parent's URI,
+ * e.g. /RegisteredServersStore/ServerGroup/DatabaseEngineServerGroup/ServerGroup/Prod/ServerGroup/EU is Prod/EU
+ */
+function getRegisteredServerGroup(uri: string | undefined): string | undefined {
+    if (!uri) {
+        return undefined;
+    }
+
+    const segments = uri.split('/').filter(segment => segment);
+    const names: string[] = [];
+    for (let index = 0; index < segments.length - 1; index++) {
+        if (segments[index] === 'ServerGroup') {
+            names.push(decodeUriSegment(segments[++index]));
+        }
+    }
+
+    // The first group is the server type's root, e.g. DatabaseEngineServerGroup
+    names.shift();
+    return names.length > 0 ? names.join('/') : undefined;
+}
+
+function decodeUriSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+/**
+ * Name of an XML element without its namespace prefix
+ */
+function getLocalName(name: string): string {
+    const colon = name.indexOf(':');
+    return colon < 0 ? name : name.substring(colon + 1);
+}
+
+/**
+ * Authentication type of an ADS or vscode-mssql connection
+ * Interactive Entra ID sign-in (AzureMFA) isn't supported, so it signs in with the default Azure credentials instead
+ */
+function toImportedAuthenticationType(type: any): AuthenticationType | undefined {
+    switch (type) {
+        case 'SqlLogin':
+            return 'SqlLogin';
+        case 'Integrated':
+            return 'Integrated';
+        case 'AzureMFA':
+        case 'AzureMFAAndUser':
+            return 'AzureDefault';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Encryption mode of a connection setting: a boolean, or Mandatory, Optional or Strict
+ */
+function toEncryptMode(encrypt: any): EncryptMode | undefined {
+    if (typeof encrypt === 'boolean') {
+        return encrypt ? 'mandatory' : 'optional';
+    }
+    if (typeof encrypt !== 'string') {
+        return undefined;
+    }
+    const mode = encrypt.toLowerCase();
+    if (mode === 'true') {
+        return 'mandatory';
+    }
+    if (mode === 'false') {
+        return 'optional';
+    }
+    return mode === 'strict' || mode === 'mandatory' || mode === 'optional' ? mode : undefined;
+}
+
+function toNumber(value: any): number | undefined {
+    const number = typeof value === 'number' ? value : parseInt(value, 10);
+    return isNaN(number) || number < 0 ? undefined : number;
+}
+
+function removeUndefined<T extends object>(value: T): Partial<T> {
+    const result: Partial<T> = {};
+    for (const key of Object.keys(value) as Array<keyof T>) {
+        if (value[key] !== undefined && value[key] !== '') {
+            result[key] = value[key];
+        }
+    }
+    return result;
+}
+
+/**
+ * Remove // and block comments and trailing commas from JSON, leaving strings untouched
+ * Comments are removed first, as a comment can sit between a trailing comma and its closing bracket
+ */
+function stripJsonComments(text: string): string {
+    let result = '';
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+        if (char === '"') {
+            const end = getStringEnd(text, index);
+            result += text.substring(index, end);
+            index = end;
+        } else if (char === '/' && text[index + 1] === '/') {
+            const end = text.indexOf('\n', index);
+            index = end < 0 ? text.length : end;
+        } else if (char === '/' && text[index + 1] === '*') {
+            const end = text.indexOf('*/', index + 2);
+            index = end < 0 ? text.length : end + 2;
+        } else {
+            result += char;
+            index++;
+        }
+    }
+
+    return removeTrailingCommas(result);
+}
+
+/**
+ * Remove the commas followed only by whitespace before a closing bracket from JSON without comments
+ */
+function removeTrailingCommas(text: string): string {
+    let result = '';
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+        if (char === '"') {
+            const end = getStringEnd(text, index);
+            result += text.substring(index, end);
+            index = end;
+            continue;
+        }
+
+        if (char === ',') {
+            let next = index + 1;
+            while (next < text.length && /\s/.test(text[next])) {
+                next++;
+            }
+            if (text[next] === '}' || text[next] === ']') {
+                index++;
+                continue;
+            }
+        }
+
+        result += char;
+        index++;
+    }
+
+    return result;
+}
+
+/**
+ * Index just past the closing quote of the JSON string starting at index
+ */
+function getStringEnd(text: string, index: number): number {
+    let end = index + 1;
+    while (end < text.length && text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1;
+    }
+    return Math.min(end + 1, text.length);
+}
@@ -1,6 +1,11 @@
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { mssql } from '../models/mssqlApi';
-import { ConnectionInfo } from '../models/profilerTypes';
+import { AuthenticationType, ConnectionInfo, ConnectionOptions, EncryptMode } from '../models/profilerTypes';
+import { AUTHENTICATION_OPTIONS, describeAuthentication, getAuthenticationOption, isEntraAuthentication } from './authentication';
+import { ImportedConnection, parseAzureDataStudioSettings, parseMssqlConnections, parseRegisteredServers } from './connectionImport';
+import { looksLikeConnectionString, parseConnectionString, ParsedConnectionString } from './connectionString';
 
 /**
  * Stored connection profile (without sensitive data)
@@ -12,9 +17,65 @@ export interface ConnectionProfile {
     databaseName: string;
     authenticationType: string;
     userName?: string;
+    /** Application (client) ID of a service principal or user-assigned managed identity */
+    clientId?: string;
+    /** Directory (tenant) ID of a service principal */
+    tenantId?: string;
     isAzure: boolean;
+    options?: ConnectionOptions;
+    /** Path of the folder holding the profile, with / between folder names */
+    group?: string;
 }
 
+/**
+ * User-defined folder of connection profiles
+ */
+export interface ConnectionGroup {
+    /** Path of the group, with / between folder names */
+    name: string;
+    /** Theme color of the group's folder and connections, e.g. charts.red */
+    color?: string;
+}
+
+/**
+ * Authentication type and credentials entered for a connection
+ */
+interface AuthenticationDetails {
+    authenticationType: AuthenticationType;
+    userName: string;
+    /** Password, client secret or access token; empty when the type needs none */
+    password: string;
+    clientId?: string;
+    tenantId?: string;
+}
+
+/** Colors offered for connection groups */
+const GROUP_COLORS = [
+    { label: 'Red', color: 'charts.red' },
+    { label: 'Orange', color: 'charts.orange' },
+    { label: 'Yellow', color: 'charts.yellow' },
+    { label: 'Green', color: 'charts.green' },
+    { label: 'Blue', color: 'charts.blue' },
+    { label: 'Purple', color: 'charts.purple' }
+];
+
+/** Item of the Move to Group picker that creates a group */
+const NEW_GROUP_LABEL = '$(new-folder) New Group...';
+
+/** Sources offered by Import Connections */
+const IMPORT_SOURCES = [
+    { label: 'Azure Data Studio', detail: 'Connections and connection groups of Azure Data Studio\'s settings.json' },
+    { label: 'SSMS Registered Servers', detail: 'Registered servers and server groups exported by SSMS (.regsrvr) or RegSrvr.xml' },
+    { label: 'vscode-mssql', detail: 'Connections of the SQL Server (mssql) extension\'s mssql.connections setting' }
+];
+
+/** Encryption modes offered in the connection options */
+const ENCRYPT_MODES: { mode: EncryptMode; label: string; detail: string }[] = [
+    { mode: 'optional', label: 'Optional', detail: 'Encrypt only when the server requires it' },
+    { mode: 'mandatory', label: 'Mandatory', detail: 'Always encrypt the connection' },
+    { mode: 'strict', label: 'Strict', detail: 'TDS 8.0: encrypt before login and always validate the certificate (SQL Server 2022 and Azure SQL)' }
+];
+
 /**
  * Connection manager that integrates with vscode-mssql and provides fallback
  */
@@ -133,7 +194,7 @@ export class ConnectionManager {
             ...profiles.map(profile => ({
                 label: profile.name,
                 description: `${profile.serverName} - ${profile.databaseName}`,
-                detail: profile.authenticationType === 'Integrated' ? 'Windows Auth' : `User: ${profile.userName}`
+                detail: describeAuthentication(profile)
             }))
         ];
 
@@ -163,24 +224,33 @@ export class ConnectionManager {
      * Create new connection profile
      */
     private async createNewConnection(): Promise<ConnectionInfo | undefined> {
-        // Get server name
-        const serverName = await vscode.window.showInputBox({
-            prompt: 'Enter SQL Server name or IP address',
-            placeHolder: 'localhost or server.database.windows.net',
+        // Get server name, or a connection string to read every setting it has from
+        const serverInput = await vscode.window.showInputBox({
+            prompt: 'Enter SQL Server name or IP address, or paste a connection string',
+            placeHolder: 'localhost, SERVER\\INSTANCE, server.database.windows.net or Server=...;Database=...',
+            ignoreFocusOut: true,
             validateInput: (value) => {
                 if (!value || value.trim().length === 0) {
                     return 'Server name cannot be empty';
                 }
+                if (looksLikeConnectionString(value) && !parseConnectionString(value).serverName) {
+                    return 'The connection string has no server name';
+                }
                 return null;
             }
         });
 
-        if (!serverName) {
+        if (!serverInput) {
             return undefined;
         }
 
+        const parsed: ParsedConnectionString | undefined = looksLikeConnectionString(serverInput)
+            ? parseConnectionString(serverInput)
+            : undefined;
+        const serverName = parsed?.serverName || serverInput.trim();
+
         // Get database name
-        const databaseName = await vscode.window.showInputBox({
+        const databaseName = parsed?.databaseName || await vscode.window.showInputBox({
             prompt: 'Enter database name',
             value: 'master',
             validateInput: (value) => {
@@ -198,58 +268,22 @@ export class ConnectionManager {
         // Check if Azure SQL
         const isAzure = serverName.toLowerCase().includes('database.windows.net');
 
-        // Get authentication type
-        const authType = await vscode.window.showQuickPick(
-            ['SQL Server Authentication', 'Windows Authentication'],
-            {
-                placeHolder: 'Select authentication type',
-                ignoreFocusOut: true
-            }
-        );
-
-        if (!authType) {
+        // Get authentication type and credentials, asking only for those the connection string doesn't have
+        const authentication = await this.promptAuthentication(undefined, parsed && {
+            authenticationType: parsed.authenticationType,
+            userName: parsed.userName,
+            password: parsed.password,
+            clientId: parsed.clientId
+        });
+        if (!authentication) {
             return undefined;
         }
+        const { authenticationType, userName, password, clientId, tenantId } = authentication;
 
-        const authenticationType = authType === 'Windows Authentication' ? 'Integrated' : 'SqlLogin';
-
-        let userName = '';
-        let password = '';
-
-        if (authenticationType === 'SqlLogin') {
-            // Get username
-            const inputUserName = await vscode.window.showInputBox({
-                prompt: 'Enter username',
-                placeHolder: 'sa or your-username',
-                validateInput: (value) => {
-                    if (!value || value.trim().length === 0) {
-                        return 'Username cannot be empty';
-                    }
-                    return null;
-                }
-            });
-
-            if (!inputUserName) {
-                return undefined;
-            }
-            userName = inputUserName;
-
-            // Get password
-            const inputPassword = await vscode.window.showInputBox({
-                prompt: 'Enter password',
-                password: true,
-                validateInput: (value) => {
-                    if (!value || value.trim().length === 0) {
-                        return 'Password cannot be empty';
-                    }
-                    return null;
-                }
-            });
-
-            if (!inputPassword) {
-                return undefined;
-            }
-            password = inputPassword;
+        // Offer to change the instance, encryption and timeout settings
+        const options = await this.confirmConnectionOptions(parsed?.options || {}, isAzure || isEntraAuthentication(authenticationType));
+        if (!options) {
+            return undefined;
         }
 
         // Ask if user wants to save this profile
@@ -281,7 +315,10 @@ export class ConnectionManager {
                     databaseName,
                     authenticationType,
                     userName,
-                    isAzure
+                    clientId,
+                    tenantId,
+                    isAzure,
+                    options
                 };
 
                 await this.saveProfile(profile, password);
@@ -298,43 +335,295 @@ export class ConnectionManager {
             userName,
             password,
             authenticationType,
-            isAzure
+            clientId,
+            tenantId,
+            isAzure,
+            options
         };
     }
 
+    /**
+     * Ask for an authentication type and the credentials it needs
+     * Settings in given (e.g. read from a connection string) are used as they are; only missing ones are asked for
+     * Returns undefined when the user cancels
+     */
+    private async promptAuthentication(
+        current?: ConnectionProfile,
+        given?: Partial<AuthenticationDetails>
+    ): Promise<AuthenticationDetails | undefined> {
+        let option = given?.authenticationType && getAuthenticationOption(given.authenticationType);
+        if (!option) {
+            const selected = await vscode.window.showQuickPick(
+                AUTHENTICATION_OPTIONS.map(authentication => ({ label: authentication.label, detail: authentication.detail, option: authentication })),
+                {
+                    placeHolder: 'Select authentication type',
+                    ignoreFocusOut: true
+                }
+            );
+
+            if (!selected) {
+                return undefined;
+            }
+            option = selected.option;
+        }
+
+        const details: AuthenticationDetails = {
+            authenticationType: option.type,
+            userName: given?.userName || '',
+            password: given?.password || '',
+            clientId: given?.clientId,
+            tenantId: given?.tenantId
+        };
+
+        if (option.needsUserName && !details.userName) {
+            const userName = await vscode.window.showInputBox({
+                prompt: 'Enter username',
+                placeHolder: 'sa or your-username',
+                value: current?.userName,
+                validateInput: (value) => {
+                    if (!value || value.trim().length === 0) {
+                        return 'Username cannot be empty';
+                    }
+                    return null;
+                }
+            });
+
+            if (!userName) {
+                return undefined;
+            }
+            details.userName = userName;
+        }
+
+        // An optional client ID missing from a connection string means the system-assigned identity
+        if (option.clientId === 'required' ? !details.clientId : option.clientId && !given) {
+            const required = option.clientId === 'required';
+            const clientId = await vscode.window.showInputBox({
+                prompt: required
+                    ? 'Enter the application (client) ID'
+                    : 'Enter the client ID of a user-assigned managed identity, or leave empty for the system-assigned identity',
+                placeHolder: '00000000-0000-0000-0000-000000000000',
+                value: current?.clientId,
+                ignoreFocusOut: true,
+                validateInput: (value) => {
+                    if (required && (!value || value.trim().length === 0)) {
+                        return 'Client ID cannot be empty';
+                    }
+                    return null;
+                }
+            });
+
+            if (clientId === undefined) {
+                return undefined;
+            }
+            details.clientId = clientId.trim() || undefined;
+        }
+
+        if (option.needsTenantId && !details.tenantId) {
+            const tenantId = await vscode.window.showInputBox({
+                prompt: 'Enter the directory (tenant) ID',
+                placeHolder: '00000000-0000-0000-0000-000000000000',
+                value: current?.tenantId,
+                ignoreFocusOut: true,
+                validateInput: (value) => {
+                    if (!value || value.trim().length === 0) {
+                        return 'Tenant ID cannot be empty';
+                    }
+                    return null;
+                }
+            });
+
+            if (!tenantId) {
+                return undefined;
+            }
+            details.tenantId = tenantId.trim();
+        }
+
+        if (option.secretPrompt && !details.password) {
+            const secret = await this.promptSecret(option.secretPrompt);
+            if (!secret) {
+                return undefined;
+            }
+            details.password = secret;
+        }
+
+        return details;
+    }
+
+    /**
+     * Ask for a password, client secret or access token
+     */
+    private async promptSecret(prompt: string): Promise<string | undefined> {
+        return vscode.window.showInputBox({
+            prompt,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: (value) => {
+                if (!value || value.trim().length === 0) {
+                    return 'Value cannot be empty';
+                }
+                return null;
+            }
+        });
+    }
+
+    /**
+     * Show the connection options and let the user change them before connecting
+     * Returns undefined when the user cancels
+     */
+    private async confirmConnectionOptions(options: ConnectionOptions, secure: boolean): Promise<ConnectionOptions | undefined> {
+        const selected = await vscode.window.showQuickPick(
+            [
+                { label: 'Connect', description: describeConnectionOptions(options, secure) },
+                { label: 'Edit Connection Options...', description: 'Instance, port, encryption, certificate, timeouts and application name' }
+            ],
+            {
+                placeHolder: 'Connection options',
+                ignoreFocusOut: true
+            }
+        );
+
+        if (!selected) {
+            return undefined;
+        }
+
+        return selected.label === 'Connect' ? options : this.promptConnectionOptions(options, secure);
+    }
+
+    /**
+     * Change connection options one at a time until Done is picked
+     * secure is whether the connection is to Azure SQL or uses Entra ID, which changes the encryption defaults
+     * Returns undefined when the user cancels
+     */
+    private async promptConnectionOptions(current: ConnectionOptions, secure: boolean): Promise<ConnectionOptions | undefined> {
+        const options: ConnectionOptions = { ...current };
+
+        while (true) {
+            const defaultEncrypt: EncryptMode = secure ? 'mandatory' : 'optional';
+            const items: Array<vscode.QuickPickItem & { key?: keyof ConnectionOptions }> = [
+                { label: '$(check) Done' },
+                { label: 'Instance Name', description: options.instanceName || 'Default instance', key: 'instanceName' },
+                { label: 'Port', description: options.port ? String(options.port) : '1433, or the named instance\'s port', key: 'port' },
+                { label: 'Encrypt', description: options.encrypt || `${defaultEncrypt} (default)`, key: 'encrypt' },
+                {
+                    label: 'Trust Server Certificate',
+                    description: options.trustServerCertificate === undefined
+                        ? `${secure ? 'No' : 'Yes'} (default)`
+                        : options.trustServerCertificate ? 'Yes' : 'No',
+                    key: 'trustServerCertificate'
+                },
+                { label: 'Host Name in Certificate', description: options.hostNameInCertificate || 'Server name', key: 'hostNameInCertificate' },
+                { label: 'Connect Timeout', description: formatTimeout(options.connectTimeout), key: 'connectTimeout' },
+                { label: 'Request Timeout', description: formatTimeout(options.requestTimeout), key: 'requestTimeout' },
+                { label: 'Application Name', description: options.applicationName || 'node-mssql (default)', key: 'applicationName' }
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Select a connection option to change',
+                ignoreFocusOut: true
+            });
+
+            if (!selected) {
+                return undefined;
+            }
+            if (!selected.key) {
+                return options;
+            }
+
+            switch (selected.key) {
+                case 'encrypt': {
+                    const mode = await vscode.window.showQuickPick(
+                        ENCRYPT_MODES.map(encryptMode => ({
+                            label: encryptMode.label,
+                            description: encryptMode.mode === defaultEncrypt ? 'Default' : undefined,
+                            detail: encryptMode.detail,
+                            mode: encryptMode.mode
+                        })),
+                        { placeHolder: 'Select how the connection is encrypted', ignoreFocusOut: true }
+                    );
+                    if (mode) {
+                        options.encrypt = mode.mode;
+                    }
+                    break;
+                }
+
+                case 'trustServerCertificate': {
+                    const trust = await vscode.window.showQuickPick(
+                        ['Yes', 'No', 'Default'],
+                        { placeHolder: 'Accept the server certificate without validating it?', ignoreFocusOut: true }
+                    );
+                    if (trust) {
+                        options.trustServerCertificate = trust === 'Default' ? undefined : trust === 'Yes';
+                    }
+                    break;
+                }
+
+                case 'port':
+                case 'connectTimeout':
+                case 'requestTimeout': {
+                    const isPort = selected.key === 'port';
+                    const value = await vscode.window.showInputBox({
+                        prompt: isPort
+                            ? 'Enter the TCP port, or leave empty for the default'
+                            : `Enter the ${selected.label.toLowerCase()} in seconds${selected.key === 'requestTimeout' ? ' (0 waits indefinitely)' : ''}, or leave empty for the default`,
+                        value: options[selected.key] !== undefined ? String(options[selected.key]) : '',
+                        ignoreFocusOut: true,
+                        validateInput: (input) => {
+                            if (input.trim() && !/^\d+$/.test(input.trim())) {
+                                return 'Enter a whole number';
+                            }
+                            if (isPort && input.trim() && (parseInt(input, 10) < 1 || parseInt(input, 10) > 65535)) {
+                                return 'Port must be between 1 and 65535';
+                            }
+                            return null;
+                        }
+                    });
+                    if (value !== undefined) {
+                        options[selected.key] = value.trim() ? parseInt(value, 10) : undefined;
+                    }
+                    break;
+                }
+
+                default: {
+                    const key = selected.key;
+                    const value = await vscode.window.showInputBox({
+                        prompt: `Enter the ${selected.label.toLowerCase()}, or leave empty for the default`,
+                        value: options[key] || '',
+                        ignoreFocusOut: true
+                    });
+                    if (value !== undefined) {
+                        options[key] = value.trim() || undefined;
+                    }
+                    break;
+                }
+            }
+        }
+    }
+
     /**
      * Load connection from saved profile
      */
     private async loadConnectionFromProfile(profile: ConnectionProfile): Promise<ConnectionInfo | undefined> {
+        const option = getAuthenticationOption(profile.authenticationType);
         let password = '';
 
-        if (profile.authenticationType === 'SqlLogin') {
-            // Get password from secure storage
+        if (option.secretPrompt) {
+            // Get the password, client secret or token from secure storage
             const storedPassword = await this.context.secrets.get(`profiler.connection.${profile.id}.password`);
 
             if (!storedPassword) {
-                // Prompt for password if not stored
-                const inputPassword = await vscode.window.showInputBox({
-                    prompt: `Enter password for ${profile.name}`,
-                    password: true,
-                    validateInput: (value) => {
-                        if (!value || value.trim().length === 0) {
-                            return 'Password cannot be empty';
-                        }
-                        return null;
-                    }
-                });
+                // Prompt for it if not stored
+                const inputPassword = await this.promptSecret(`${option.secretPrompt} for ${profile.name}`);
 
                 if (!inputPassword) {
                     return undefined;
                 }
                 password = inputPassword;
 
-                // Ask if user wants to save the password
+                // Ask if user wants to save it
                 const shouldSavePassword = await vscode.window.showQuickPick(
                     ['Yes', 'No'],
                     {
-                        placeHolder: 'Save password securely?',
+                        placeHolder: option.type === 'SqlLogin' ? 'Save password securely?' : 'Save it securely?',
                         ignoreFocusOut: true
                     }
                 );
@@ -349,18 +638,17 @@ export class ConnectionManager {
 
         const ownerUri = `${profile.serverName}_${profile.databaseName}_${Date.now()}`;
 
-        const authType = (profile.authenticationType === 'Integrated' || profile.authenticationType === 'SqlLogin')
-            ? profile.authenticationType
-            : 'SqlLogin' as const;
-
         return {
             ownerUri,
             serverName: profile.serverName,
             databaseName: profile.databaseName,
             userName: profile.userName || '',
             password,
-            authenticationType: authType,
-            isAzure: profile.isAzure
+            authenticationType: option.type,
+            clientId: profile.clientId,
+            tenantId: profile.tenantId,
+            isAzure: profile.isAzure,
+            options: profile.options
         };
     }
 
@@ -373,6 +661,24 @@ export class ConnectionManager {
         return profiles;
     }
 
+    /**
+     * Connection of a saved profile with the password kept in secure storage, without prompting for it
+     */
+    public async getProfileConnection(profile: ConnectionProfile): Promise<ConnectionInfo> {
+        return {
+            ownerUri: profile.id,
+            serverName: profile.serverName,
+            databaseName: profile.databaseName,
+            userName: profile.userName || '',
+            password: await this.getPassword(profile.id),
+            authenticationType: getAuthenticationOption(profile.authenticationType).type,
+            clientId: profile.clientId,
+            tenantId: profile.tenantId,
+            isAzure: profile.isAzure,
+            options: profile.options
+        };
+    }
+
     /**
      * Get password for a connection profile from secure storage
      */
@@ -422,7 +728,7 @@ export class ConnectionManager {
 
         // Show what can be edited
         const editOption = await vscode.window.showQuickPick(
-            ['Profile Name', 'Server Name', 'Database Name', 'Username', 'Password', 'Authentication Type'],
+            ['Profile Name', 'Server Name', 'Database Name', 'Username', 'Password', 'Authentication Type', 'Connection Options'],
             {
                 placeHolder: `What would you like to edit for '${profileName}'?`,
                 ignoreFocusOut: true
@@ -492,8 +798,8 @@ export class ConnectionManager {
                 break;
 
             case 'Username':
-                if (profile.authenticationType === 'Integrated') {
-                    vscode.window.showInformationMessage('Username cannot be changed for Windows Authentication');
+                if (!getAuthenticationOption(profile.authenticationType).needsUserName) {
+                    vscode.window.showInformationMessage(`Username is not used by ${getAuthenticationOption(profile.authenticationType).label}`);
                     return;
                 }
                 const newUsername = await vscode.window.showInputBox({
@@ -513,80 +819,47 @@ export class ConnectionManager {
                 break;
 
             case 'Password':
-                if (profile.authenticationType === 'Integrated') {
-                    vscode.window.showInformationMessage('Password cannot be changed for Windows Authentication');
+                const authentication = getAuthenticationOption(profile.authenticationType);
+                if (!authentication.secretPrompt) {
+                    vscode.window.showInformationMessage(`No password is used by ${authentication.label}`);
                     return;
                 }
-                const newPassword = await vscode.window.showInputBox({
-                    prompt: 'Enter new password',
-                    password: true,
-                    validateInput: (value) => {
-                        if (!value || value.trim().length === 0) {
-                            return 'Password cannot be empty';
-                        }
-                        return null;
-                    }
-                });
+                const newPassword = await this.promptSecret(authentication.secretPrompt);
                 if (newPassword) {
                     await this.context.secrets.store(`profiler.connection.${profile.id}.password`, newPassword);
-                    vscode.window.showInformationMessage('Password updated');
+                    vscode.window.showInformationMessage(`${authentication.secretLabel} updated`);
                 }
                 return; // Don't update profile settings for password change
 
             case 'Authentication Type':
-                const newAuthType = await vscode.window.showQuickPick(
-                    ['SQL Server Authentication', 'Windows Authentication'],
-                    {
-                        placeHolder: 'Select new authentication type',
-                        ignoreFocusOut: true
-                    }
-                );
-                if (newAuthType) {
-                    const newAuth = newAuthType === 'Windows Authentication' ? 'Integrated' : 'SqlLogin';
-                    if (newAuth !== profile.authenticationType) {
-                        profile.authenticationType = newAuth;
-
-                        // If switching to SQL Login, prompt for username and password
-                        if (newAuth === 'SqlLogin') {
-                            const username = await vscode.window.showInputBox({
-                                prompt: 'Enter username',
-                                placeHolder: 'sa or your-username',
-                                validateInput: (value) => {
-                                    if (!value || value.trim().length === 0) {
-                                        return 'Username cannot be empty';
-                                    }
-                                    return null;
-                                }
-                            });
-
-                            if (!username) {
-                                return;
-                            }
+                const details = await this.promptAuthentication(profile);
+                if (!details) {
+                    return;
+                }
 
-                            profile.userName = username;
-
-                            const password = await vscode.window.showInputBox({
-                                prompt: 'Enter password',
-                                password: true,
-                                validateInput: (value) => {
-                                    if (!value || value.trim().length === 0) {
-                                        return 'Password cannot be empty';
-                                    }
-                                    return null;
-                                }
-                            });
-
-                            if (password) {
-                                await this.context.secrets.store(`profiler.connection.${profile.id}.password`, password);
-                            }
-                        } else {
-                            // Switching to Windows Auth - clear username and password
-                            profile.userName = undefined;
-                            await this.context.secrets.delete(`profiler.connection.${profile.id}.password`);
-                        }
+                profile.authenticationType = details.authenticationType;
+                profile.userName = details.userName || undefined;
+                profile.clientId = details.clientId;
+                profile.tenantId = details.tenantId;
 
-                        updated = true;
-                    }
+                // Keep the new type's password, secret or token, and forget the old one
+                if (details.password) {
+                    await this.context.secrets.store(`profiler.connection.${profile.id}.password`, details.password);
+                } else {
+                    await this.context.secrets.delete(`profiler.connection.${profile.id}.password`);
+                }
+
+                updated = true;
+                break;
+
+            case 'Connection Options':
+                const options = await this.promptConnectionOptions(
+                    profile.options || {},
+                    profile.isAzure || isEntraAuthentication(profile.authenticationType)
+                );
+                if (options) {
+                    profile.options = options;
+                    updated = true;
                 }
                 break;
         }
@@ -619,6 +892,389 @@ export class ConnectionManager {
         }
     }
 
+    /**
+     * Connection groups: those of the connectionGroups setting, the groups profiles are in, and their parents
+     */
+    public getConnectionGroups(): ConnectionGroup[] {
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const configured = config.get<ConnectionGroup[]>('connectionGroups', []);
+        const profiles = config.get<ConnectionProfile[]>('connectionProfiles', []);
+        const groups = new Map<string, ConnectionGroup>();
+
+        const addGroup = (name: string | undefined, color?: string) => {
+            const path = normalizeGroupPath(name);
+            if (!path) {
+                return;
+            }
+            const names = path.split('/');
+            for (let length = 1; length <= names.length; length++) {
+                const parent = names.slice(0, length).join('/');
+                if (!groups.has(parent)) {
+                    groups.set(parent, { name: parent });
+                }
+            }
+            if (color) {
+                groups.get(path)!.color = color;
+            }
+        };
+
+        for (const group of configured) {
+            if (group && typeof group.name === 'string') {
+                addGroup(group.name, typeof group.color === 'string' ? group.color : undefined);
+            }
+        }
+        for (const profile of profiles) {
+            addGroup(profile.group);
+        }
+
+        return Array.from(groups.values());
+    }
+
+    /**
+     * Prompt for the name of a new group, at the top level or in a parent group; returns whether one was added
+     */
+    public async addConnectionGroup(parent?: string): Promise<boolean> {
+        const groups = this.getConnectionGroups();
+        const name = await this.promptGroupName(groups, parent);
+        if (!name) {
+            return false;
+        }
+
+        groups.push({ name: joinGroupPath(parent, name) });
+        await this.saveConnectionGroups(groups);
+        return true;
+    }
+
+    /**
+     * Rename a group, moving its connections and subgroups along; returns whether it was renamed
+     */
+    public async renameConnectionGroup(path: string): Promise<boolean> {
+        const groups = this.getConnectionGroups();
+        const parent = getParentGroupPath(path);
+        const name = await this.promptGroupName(groups, parent, getGroupName(path));
+        if (!name || name === getGroupName(path)) {
+            return false;
+        }
+
+        await this.replaceGroupPath(path, joinGroupPath(parent, name));
+        return true;
+    }
+
+    /**
+     * Delete a group after confirming; its connections and subgroups move to the parent group
+     */
+    public async deleteConnectionGroup(path: string): Promise<boolean> {
+        const parent = getParentGroupPath(path);
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete group '${getGroupName(path)}'? Its connections and groups move to ${parent ? `'${parent}'` : 'the top level'}.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') {
+            return false;
+        }
+
+        await this.replaceGroupPath(path, parent);
+        return true;
+    }
+
+    /**
+     * Pick the color of a group; returns whether it changed
+     */
+    public async setConnectionGroupColor(path: string): Promise<boolean> {
+        const groups = this.getConnectionGroups();
+        const group = groups.find(g => g.name === path);
+        if (!group) {
+            return false;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            [
+                ...GROUP_COLORS.map(option => ({
+                    label: option.label,
+                    description: option.color === group.color ? 'Current' : undefined,
+                    color: option.color as string | undefined
+                })),
+                { label: 'No Color', description: group.color ? undefined : 'Current', color: undefined }
+            ],
+            {
+                placeHolder: `Select a color for '${getGroupName(path)}'; its connections show it too`,
+                ignoreFocusOut: true
+            }
+        );
+        if (!selected) {
+            return false;
+        }
+
+        group.color = selected.color;
+        await this.saveConnectionGroups(groups);
+        return true;
+    }
+
+    /**
+     * Pick the group to move a connection to; returns whether it moved
+     */
+    public async moveProfileToGroup(profileId: string): Promise<boolean> {
+        const profile = (await this.getSavedProfiles()).find(p => p.id === profileId);
+        if (!profile) {
+            return false;
+        }
+
+        const current = normalizeGroupPath(profile.group);
+        const items: Array<vscode.QuickPickItem & { group?: string }> = [
+            { label: '$(root-folder) Top Level', description: current ? undefined : 'Current' },
+            ...this.getConnectionGroups()
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(group => ({
+                    label: `$(folder) ${group.name}`,
+                    description: group.name === current ? 'Current' : undefined,
+                    group: group.name
+                })),
+            { label: NEW_GROUP_LABEL }
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `Move '${profile.name}' to`,
+            ignoreFocusOut: true
+        });
+        if (!selected) {
+            return false;
+        }
+
+        let group = selected.group;
+        if (selected.label === NEW_GROUP_LABEL) {
+            const groups = this.getConnectionGroups();
+            const name = await this.promptGroupName(groups);
+            if (!name) {
+                return false;
+            }
+            group = name;
+            groups.push({ name });
+            await this.saveConnectionGroups(groups);
+        }
+
+        return this.moveProfiles([profileId], group);
+    }
+
+    /**
+     * Move connections into a group, or to the top level when group is undefined
+     */
+    public async moveProfiles(profileIds: string[], group: string | undefined): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const profiles = config.get<ConnectionProfile[]>('connectionProfiles', []);
+        const path = normalizeGroupPath(group);
+
+        let moved = false;
+        for (const profile of profiles) {
+            if (profileIds.includes(profile.id) && normalizeGroupPath(profile.group) !== path) {
+                profile.group = path;
+                moved = true;
+            }
+        }
+
+        if (moved) {
+            await config.update('connectionProfiles', profiles, vscode.ConfigurationTarget.Global);
+        }
+        return moved;
+    }
+
+    /**
+     * Move a group with its connections and subgroups into another group, or to the top level
+     */
+    public async moveConnectionGroup(path: string, parent: string | undefined): Promise<boolean> {
+        // A group can't be moved into itself or one of its subgroups
+        if (parent && (parent === path || parent.startsWith(`${path}/`))) {
+            return false;
+        }
+        const newPath = joinGroupPath(parent, getGroupName(path));
+        if (newPath === path) {
+            return false;
+        }
+
+        await this.replaceGroupPath(path, newPath);
+        return true;
+    }
+
+    /**
+     * Prompt for a group name that isn't taken in the parent group
+     */
+    private async promptGroupName(groups: ConnectionGroup[], parent?: string, current?: string): Promise<string | undefined> {
+        const name = await vscode.window.showInputBox({
+            prompt: parent ? `Enter a name for the group in '${parent}'` : 'Enter a name for the group',
+            placeHolder: 'e.g., Prod, Staging, Dev',
+            value: current,
+            ignoreFocusOut: true,
+            validateInput: (value) => {
+                const trimmed = value.trim();
+                if (!trimmed) {
+                    return 'Group name cannot be empty';
+                }
+                if (trimmed.includes('/')) {
+                    return 'Group name cannot contain /';
+                }
+                if (trimmed !== current && groups.some(group => group.name === joinGroupPath(parent, trimmed))) {
+                    return `Group '${trimmed}' already exists`;
+                }
+                return null;
+            }
+        });
+        return name?.trim();
+    }
+
+    /**
+     * Move a group's connections and subgroups to a new path; an undefined path moves them into the parent
+     */
+    private async replaceGroupPath(path: string, newPath: string | undefined): Promise<void> {
+        const replace = (group: string | undefined): string | undefined => {
+            const current = normalizeGroupPath(group);
+            if (current === path) {
+                return newPath;
+            }
+            if (current && current.startsWith(`${path}/`)) {
+                return joinGroupPath(newPath, current.substring(path.length + 1));
+            }
+            return current;
+        };
+
+        // Groups renamed onto an existing one are merged, keeping the existing color
+        const groups = new Map<string, ConnectionGroup>();
+        for (const group of this.getConnectionGroups()) {
+            const name = replace(group.name);
+            if (name) {
+                groups.set(name, { name, color: groups.get(name)?.color || group.color });
+            }
+        }
+        await this.saveConnectionGroups(Array.from(groups.values()));
+
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const profiles = config.get<ConnectionProfile[]>('connectionProfiles', []);
+        for (const profile of profiles) {
+            profile.group = replace(profile.group);
+        }
+        await config.update('connectionProfiles', profiles, vscode.ConfigurationTarget.Global);
+    }
+
+    private async saveConnectionGroups(groups: ConnectionGroup[]): Promise<void> {
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        await config.update(
+            'connectionGroups',
+            groups
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(group => (group.color ? { name: group.name, color: group.color } : { name: group.name })),
+            vscode.ConfigurationTarget.Global
+        );
+    }
+
+    /**
+     * Import connections from Azure Data Studio, SSMS registered servers or vscode-mssql as connection profiles,
+     * keeping their folders; returns whether any were imported
+     */
+    public async importConnections(): Promise<boolean> {
+        const source = await vscode.window.showQuickPick(IMPORT_SOURCES, {
+            placeHolder: 'Import connections from',
+            ignoreFocusOut: true
+        });
+        if (!source) {
+            return false;
+        }
+
+        let connections: ImportedConnection[];
+        try {
+            if (source.label === 'vscode-mssql') {
+                const mssqlConfig = vscode.workspace.getConfiguration('mssql');
+                connections = parseMssqlConnections(mssqlConfig.get('connections'), mssqlConfig.get('connectionGroups'));
+            } else {
+                const isAzureDataStudio = source.label === 'Azure Data Studio';
+                const uris = await vscode.window.showOpenDialog({
+                    defaultUri: getDefaultImportUri(isAzureDataStudio),
+                    canSelectMany: false,
+                    filters: isAzureDataStudio
+                        ? { 'Settings Files': ['json'] }
+                        : { 'Registered Servers': ['regsrvr', 'xml'] },
+                    openLabel: 'Import'
+                });
+                if (!uris || uris.length === 0) {
+                    return false;
+                }
+
+                const content = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8');
+                connections = isAzureDataStudio ? parseAzureDataStudioSettings(content) : parseRegisteredServers(content);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to read ${source.label} connections: ${error?.message || 'Unknown error'}`);
+            return false;
+        }
+
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const profiles = config.get<ConnectionProfile[]>('connectionProfiles', []);
+
+        // Connections already saved to the same server, database, login and folder are left out
+        const isSaved = (connection: ImportedConnection) => profiles.some(profile =>
+            profile.serverName.toLowerCase() === connection.serverName.toLowerCase()
+            && profile.databaseName.toLowerCase() === connection.databaseName.toLowerCase()
+            && (profile.options?.instanceName || '').toLowerCase() === (connection.options.instanceName || '').toLowerCase()
+            && profile.authenticationType === connection.authenticationType
+            && (profile.userName || '') === (connection.userName || '')
+            && (profile.group || '') === (connection.group || '')
+        );
+        const newConnections = connections.filter(connection => !isSaved(connection));
+
+        if (newConnections.length === 0) {
+            vscode.window.showInformationMessage(connections.length === 0
+                ? `No ${source.label} connections found`
+                : `All ${connections.length} ${source.label} connections are already saved`);
+            return false;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            newConnections.map(connection => ({
+                label: connection.name,
+                description: `${connection.serverName}${connection.options.instanceName ? '\\' + connection.options.instanceName : ''} / ${connection.databaseName}`,
+                detail: connection.group ? `$(folder) ${connection.group}` : undefined,
+                picked: true,
+                connection
+            })),
+            {
+                placeHolder: `Select the connections to import (${connections.length - newConnections.length} already saved)`,
+                canPickMany: true,
+                ignoreFocusOut: true
+            }
+        );
+        if (!selected || selected.length === 0) {
+            return false;
+        }
+
+        const names = new Set(profiles.map(profile => profile.name));
+        for (const { connection } of selected) {
+            // Profiles are looked up by name, so a name already taken gets a number
+            let name = connection.name;
+            for (let number = 2; names.has(name); number++) {
+                name = `${connection.name} (${number})`;
+            }
+            names.add(name);
+
+            profiles.push({
+                id: this.generateProfileId(),
+                name,
+                serverName: connection.serverName,
+                databaseName: connection.databaseName,
+                authenticationType: connection.authenticationType,
+                userName: connection.userName,
+                clientId: connection.clientId,
+                tenantId: connection.tenantId,
+                isAzure: connection.serverName.toLowerCase().includes('database.windows.net'),
+                options: Object.keys(connection.options).length > 0 ? connection.options : undefined,
+                group: connection.group
+            });
+        }
+
+        await config.update('connectionProfiles', profiles, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(
+            `Imported ${selected.length} connection${selected.length === 1 ? '' : 's'} from ${source.label}. Passwords are asked for on first connect`
+        );
+        return true;
+    }
+
     /**
      * Convert vscode-mssql ServerInfo to ConnectionInfo
      */
@@ -653,7 +1309,13 @@ export class ConnectionManager {
             userName: connInfo.user || '',
             password: connInfo.password || '',
             authenticationType: authType,
-            isAzure: connInfo.server.toLowerCase().includes('database.windows.net')
+            isAzure: connInfo.server.toLowerCase().includes('database.windows.net'),
+            options: {
+                port: connInfo.port || undefined,
+                encrypt: toEncryptMode(connInfo.encrypt),
+                trustServerCertificate: connInfo.trustServerCertificate,
+                applicationName: connInfo.applicationName || undefined
+            }
         };
     }
 
@@ -680,3 +1342,91 @@ export class ConnectionManager {
         return undefined;
     }
 }
+
+/**
+ * Summary of the connection options that differ from the defaults
+ */
+function describeConnectionOptions(options: ConnectionOptions, secure: boolean): string {
+    const parts: string[] = [];
+    if (options.instanceName) {
+        parts.push(`Instance ${options.instanceName}`);
+    }
+    if (options.port) {
+        parts.push(`Port ${options.port}`);
+    }
+    parts.push(`Encrypt ${options.encrypt || (secure ? 'mandatory' : 'optional')}`);
+    if (options.trustServerCertificate ?? !secure) {
+        parts.push('trust server certificate');
+    }
+    if (options.connectTimeout !== undefined) {
+        parts.push(`connect timeout ${formatTimeout(options.connectTimeout)}`);
+    }
+    if (options.requestTimeout !== undefined) {
+        parts.push(`request timeout ${formatTimeout(options.requestTimeout)}`);
+    }
+    return parts.join(', ');
+}
+
+function formatTimeout(seconds: number | undefined): string {
+    if (seconds === undefined) {
+        return '15 s (default)';
+    }
+    return seconds === 0 ? 'none' : `${seconds} s`;
+}
+
+/**
+ * Encryption mode of a vscode-mssql connection, which is a boolean or Mandatory, Optional or Strict
+ */
+function toEncryptMode(encrypt: boolean | string | undefined): EncryptMode | undefined {
+    if (encrypt === undefined) {
+        return undefined;
+    }
+    if (typeof encrypt === 'boolean') {
+        return encrypt ? 'mandatory' : 'optional';
+    }
+    const mode = encrypt.toLowerCase();
+    return mode === 'strict' || mode === 'mandatory' || mode === 'optional' ? mode : undefined;
+}
+
+/**
+ * Default location of Azure Data Studio's settings.json, or of SSMS's RegSrvr.xml on Windows
+ */
+function getDefaultImportUri(isAzureDataStudio: boolean): vscode.Uri | undefined {
+    const appData = process.env.APPDATA
+        || (process.platform === 'darwin'
+            ? path.join(os.homedir(), 'Library', 'Application Support')
+            : path.join(os.homedir(), '.config'));
+
+    return isAzureDataStudio
+        ? vscode.Uri.file(path.join(appData, 'azuredatastudio', 'User', 'settings.json'))
+        : process.platform === 'win32'
+            ? vscode.Uri.file(path.join(appData, 'Microsoft', 'SQL Server Management Studio', 'RegSrvr.xml'))
+            : undefined;
+}
+
+/**
+ * Group path with empty folder names and spaces around names removed; undefined for the top level
+ */
+export function normalizeGroupPath(path: string | undefined): string | undefined {
+    const names = (path || '').split('/').map(name => name.trim()).filter(name => name);
+    return names.length > 0 ? names.join('/') : undefined;
+}
+
+/**
+ * Path of the group holding a group; undefined for top level groups
+ */
+export function getParentGroupPath(path: string): string | undefined {
+    const slash = path.lastIndexOf('/');
+    return slash < 0 ? undefined : path.substring(0, slash);
+}
+
+/**
+ * Name of a group without the names of its parents
+ */
+export function getGroupName(path: string): string {
+    return path.substring(path.lastIndexOf('/') + 1);
+}
+
+function joinGroupPath(parent: string | undefined, name: string): string {
+    return parent ? `${parent}/${name}` : name;
+}
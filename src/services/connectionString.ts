@@ -0,0 +1,246 @@
+import { AuthenticationType, ConnectionOptions, EncryptMode } from '../models/profilerTypes';
+import { isEntraAuthentication } from './authentication';
+
+/**
+ * Connection settings read from a connection string; those it doesn't set are left undefined
+ */
+export interface ParsedConnectionString {
+    serverName?: string;
+    databaseName?: string;
+    authenticationType?: AuthenticationType;
+    userName?: string;
+    /** Password or client secret */
+    password?: string;
+    /** Client ID of a service principal or managed identity, given as the user ID */
+    clientId?: string;
+    options: ConnectionOptions;
+}
+
+/**
+ * Host, instance and port of a server name
+ */
+export interface ServerAddress {
+    host: string;
+    instanceName?: string;
+    port?: number;
+}
+
+/** Keys naming the server, with spaces removed */
+const SERVER_KEYS = ['server', 'datasource', 'address', 'addr', 'networkaddress'];
+
+/** Authentication keyword values, with spaces removed, mapped to authentication types */
+const AUTHENTICATION_KEYWORDS = new Map<string, AuthenticationType>([
+    ['sqlpassword', 'SqlLogin'],
+    ['activedirectoryserviceprincipal', 'AzureServicePrincipal'],
+    ['activedirectorymanagedidentity', 'AzureManagedIdentity'],
+    ['activedirectorymsi', 'AzureManagedIdentity'],
+    ['activedirectorydefault', 'AzureDefault']
+]);
+
+/**
+ * Whether text entered as a server name is a connection string (e.g. "Server=host;Database=db;...")
+ */
+export function looksLikeConnectionString(text: string): boolean {
+    return /(^|;)\s*(server|data\s*source|address|addr|network\s*address)\s*=/i.test(text);
+}
+
+/**
+ * Parse an ADO.NET / Microsoft.Data.SqlClient style connection string
+ * Values may be quoted with single or double quotes (doubled to escape) or ODBC braces
+ */
+export function parseConnectionString(text: string): ParsedConnectionString {
+    const result: ParsedConnectionString = { options: {} };
+    let integrated = false;
+
+    for (const [key, value] of parsePairs(text)) {
+        if (SERVER_KEYS.includes(key)) {
+            const address = parseServerName(value);
+            result.serverName = address.host;
+            if (address.instanceName) {
+                result.options.instanceName = address.instanceName;
+            }
+            if (address.port) {
+                result.options.port = address.port;
+            }
+            continue;
+        }
+
+        switch (key) {
+            case 'database':
+            case 'initialcatalog':
+                result.databaseName = value;
+                break;
+            case 'userid':
+            case 'uid':
+            case 'user':
+            case 'username':
+                result.userName = value;
+                break;
+            case 'password':
+            case 'pwd':
+                result.password = value;
+                break;
+            case 'integratedsecurity':
+            case 'trustedconnection':
+                integrated = toBoolean(value) === true || value.toLowerCase() === 'sspi';
+                break;
+            case 'authentication':
+                result.authenticationType = AUTHENTICATION_KEYWORDS.get(value.replace(/\s+/g, '').toLowerCase());
+                break;
+            case 'encrypt':
+                result.options.encrypt = toEncryptMode(value);
+                break;
+            case 'trustservercertificate':
+                result.options.trustServerCertificate = toBoolean(value);
+                break;
+            case 'hostnameincertificate':
+            case 'servercertificatename':
+                result.options.hostNameInCertificate = value || undefined;
+                break;
+            case 'connecttimeout':
+            case 'connectiontimeout':
+            case 'timeout':
+                result.options.connectTimeout = toSeconds(value);
+                break;
+            case 'commandtimeout':
+                result.options.requestTimeout = toSeconds(value);
+                break;
+            case 'applicationname':
+            case 'app':
+                result.options.applicationName = value || undefined;
+                break;
+        }
+    }
+
+    if (integrated) {
+        result.authenticationType = 'Integrated';
+    } else if (!result.authenticationType && result.userName) {
+        result.authenticationType = 'SqlLogin';
+    }
+
+    // Entra ID connection strings give the client ID of the app or managed identity as the user ID
+    if (isEntraAuthentication(result.authenticationType)) {
+        result.clientId = result.userName;
+        result.userName = undefined;
+    }
+
+    return result;
+}
+
+/**
+ * Split a server name into host, instance and port: "host\instance", "host,port" or "host:port",
+ * optionally with a "tcp:" prefix
+ */
+export function parseServerName(serverName: string): ServerAddress {
+    let host = serverName.trim().replace(/^tcp:/i, '');
+    let port: number | undefined;
+    let instanceName: string | undefined;
+
+    const portMatch = /^(.*?)\s*[,:]\s*(\d+)$/.exec(host);
+    if (portMatch) {
+        host = portMatch[1];
+        port = parseInt(portMatch[2], 10);
+    }
+
+    const backslash = host.indexOf('\\');
+    if (backslash >= 0) {
+        instanceName = host.substring(backslash + 1).trim() || undefined;
+        host = host.substring(0, backslash);
+    }
+
+    // "." and "(local)" are the local machine
+    if (host === '.' || host.toLowerCase() === '(local)') {
+        host = 'localhost';
+    }
+
+    return { host, instanceName, port };
+}
+
+/**
+ * Key / value pairs of a connection string; keys are lower case with spaces and underscores removed
+ */
+function parsePairs(text: string): Array<[string, string]> {
+    const pairs: Array<[string, string]> = [];
+    let index = 0;
+
+    while (index < text.length) {
+        const equals = text.indexOf('=', index);
+        if (equals < 0) {
+            break;
+        }
+        const key = text.substring(index, equals).replace(/[\s_]+/g, '').toLowerCase();
+        index = equals + 1;
+
+        while (index < text.length && /\s/.test(text[index])) {
+            index++;
+        }
+
+        let value = '';
+        const quote = text[index];
+        if (quote === '"' || quote === '\'' || quote === '{') {
+            const close = quote === '{' ? '}' : quote;
+            index++;
+            while (index < text.length) {
+                if (text[index] === close) {
+                    // A doubled closing character is an escaped one
+                    if (text[index + 1] === close) {
+                        value += close;
+                        index += 2;
+                        continue;
+                    }
+                    index++;
+                    break;
+                }
+                value += text[index++];
+            }
+            const semicolon = text.indexOf(';', index);
+            index = semicolon < 0 ? text.length : semicolon + 1;
+        } else {
+            const semicolon = text.indexOf(';', index);
+            const end = semicolon < 0 ? text.length : semicolon;
+            value = text.substring(index, end).trim();
+            index = end + 1;
+        }
+
+        if (key) {
+            pairs.push([key, value]);
+        }
+    }
+
+    return pairs;
+}
+
+function toBoolean(value: string): boolean | undefined {
+    switch (value.trim().toLowerCase()) {
+        case 'true':
+        case 'yes':
+        case '1':
+            return true;
+        case 'false':
+        case 'no':
+        case '0':
+            return false;
+        default:
+            return undefined;
+    }
+}
+
+function toEncryptMode(value: string): EncryptMode | undefined {
+    const mode = value.trim().toLowerCase();
+    if (mode === 'strict') {
+        return 'strict';
+    }
+    if (mode === 'mandatory') {
+        return 'mandatory';
+    }
+    if (mode === 'optional') {
+        return 'optional';
+    }
+    const enabled = toBoolean(value);
+    return enabled === undefined ? undefined : enabled ? 'mandatory' : 'optional';
+}
+
+function toSeconds(value: string): number | undefined {
+    const seconds = parseInt(value, 10);
+    return isNaN(seconds) || seconds < 0 ? undefined : seconds;
+}
@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventStore, ProfilerEvent } from '../models/profilerTypes';
+
+/** Events read per chunk while scanning a file store */
+const SCAN_BATCH_SIZE = 5000;
+
+/**
+ * Field keys and event names of the events appended to a store
+ */
+class EventCatalog {
+    private fieldKeys = new Set<string>();
+    private eventNames = new Set<string>();
+
+    public add(events: ProfilerEvent[]): void {
+        for (const event of events) {
+            this.eventNames.add(event.name);
+            for (const key in event.values) {
+                this.fieldKeys.add(key);
+            }
+        }
+    }
+
+    public getFieldKeys(): string[] {
+        return Array.from(this.fieldKeys);
+    }
+
+    public getEventNames(): string[] {
+        return Array.from(this.eventNames).sort();
+    }
+
+    public clear(): void {
+        this.fieldKeys.clear();
+        this.eventNames.clear();
+    }
+}
+
+/**
+ * Event store that keeps every event in memory
+ * Used for captures loaded from files, which are already fully in memory
+ */
+export class MemoryEventStore implements EventStore {
+    private events: ProfilerEvent[];
+    private catalog = new EventCatalog();
+
+    constructor(events: ProfilerEvent[] = []) {
+        this.events = events;
+        this.catalog.add(events);
+    }
+
+    public get count(): number {
+        return this.events.length;
+    }
+
+    public async append(events: ProfilerEvent[]): Promise<void> {
+        for (const event of events) {
+            this.events.push(event);
+        }
+        this.catalog.add(events);
+    }
+
+    public async read(start: number, count: number): Promise<ProfilerEvent[]> {
+        return this.events.slice(start, start + count);
+    }
+
+    public async readPositions(positions: number[]): Promise<ProfilerEvent[]> {
+        return positions.filter(p => p >= 0 && p < this.events.length).map(p => this.events[p]);
+    }
+
+    public async scan(callback: (event: ProfilerEvent, position: number) => void): Promise<void> {
+        this.events.forEach(callback);
+    }
+
+    public getFieldKeys(): string[] {
+        return this.catalog.getFieldKeys();
+    }
+
+    public getEventNames(): string[] {
+        return this.catalog.getEventNames();
+    }
+
+    public async clear(): Promise<void> {
+        this.events = [];
+        this.catalog.clear();
+    }
+
+    public async dispose(): Promise<void> {
+        this.events = [];
+    }
+}
+
+/**
+ * Event store backed by an append-only file of JSON lines, one event per line
+ * The byte offset of every line is kept in memory so any position can be read without scanning
+ */
+export class FileEventStore implements EventStore {
+    private handle: fs.promises.FileHandle | undefined;
+    /** Byte offset of each event's line; offsets[count] is the end of the file */
+    private offsets = new Float64Array(1024);
+    private eventCount = 0;
+    private catalog = new EventCatalog();
+    /** Serializes file access so reads never see a partially written append */
+    private pending: Promise<unknown> = Promise.resolve();
+
+    private constructor(public readonly filePath: string) {}
+
+    /**
+     * Create an empty store file in a folder
+     */
+    public static async create(folder: string, name: string): Promise<FileEventStore> {
+        await fs.promises.mkdir(folder, { recursive: true });
+
+        const safeName = name.replace(/[^\w.-]+/g, '_');
+        const store = new FileEventStore(path.join(folder, `${safeName}-${Date.now()}.jsonl`));
+        store.handle = await fs.promises.open(store.filePath, 'w+');
+
+        return store;
+    }
+
+    public get count(): number {
+        return this.eventCount;
+    }
+
+    public append(events: ProfilerEvent[]): Promise<void> {
+        if (events.length === 0) {
+            return Promise.resolve();
+        }
+
+        return this.enqueue(async handle => {
+            const lines = events.map(event => Buffer.from(JSON.stringify(event) + '\n', 'utf8'));
+            const data = Buffer.concat(lines);
+            await handle.write(data, 0, data.length, this.offsets[this.eventCount]);
+
+            this.ensureCapacity(this.eventCount + events.length + 1);
+            for (const line of lines) {
+                this.offsets[this.eventCount + 1] = this.offsets[this.eventCount] + line.length;
+                this.eventCount++;
+            }
+            this.catalog.add(events);
+        });
+    }
+
+    public read(start: number, count: number): Promise<ProfilerEvent[]> {
+        return this.enqueue(handle => {
+            const first = Math.max(0, start);
+            const last = Math.min(this.eventCount, start + count);
+            return first < last ? this.readRange(handle, first, last) : Promise.resolve([]);
+        });
+    }
+
+    public readPositions(positions: number[]): Promise<ProfilerEvent[]> {
+        return this.enqueue(async handle => {
+            const events: ProfilerEvent[] = [];
+            for (const position of positions) {
+                if (position >= 0 && position < this.eventCount) {
+                    events.push(...await this.readRange(handle, position, position + 1));
+                }
+            }
+            return events;
+        });
+    }
+
+    public scan(callback: (event: ProfilerEvent, position: number) => void): Promise<void> {
+        return this.enqueue(async handle => {
+            const total = this.eventCount;
+            for (let start = 0; start < total; start += SCAN_BATCH_SIZE) {
+                const events = await this.readRange(handle, start, Math.min(total, start + SCAN_BATCH_SIZE));
+                events.forEach((event, index) => callback(event, start + index));
+            }
+        });
+    }
+
+    public getFieldKeys(): string[] {
+        return this.catalog.getFieldKeys();
+    }
+
+    public getEventNames(): string[] {
+        return this.catalog.getEventNames();
+    }
+
+    public clear(): Promise<void> {
+        return this.enqueue(async handle => {
+            await handle.truncate(0);
+            this.offsets = new Float64Array(1024);
+            this.eventCount = 0;
+            this.catalog.clear();
+        });
+    }
+
+    public async dispose(): Promise<void> {
+        await this.pending.catch(() => undefined);
+
+        const handle = this.handle;
+        this.handle = undefined;
+        this.eventCount = 0;
+
+        try {
+            await handle?.close();
+            await fs.promises.unlink(this.filePath);
+        } catch (error) {
+            console.error(`Failed to remove event store ${this.filePath}:`, error);
+        }
+    }
+
+    /**
+     * Run a file operation after every operation queued before it
+     */
+    private enqueue<T>(operation: (handle: fs.promises.FileHandle) => Promise<T>): Promise<T> {
+        const result = this.pending.catch(() => undefined).then(() => {
+            if (!this.handle) {
+                throw new Error('Event store has been disposed');
+            }
+            return operation(this.handle);
+        });
+        this.pending = result;
+        return result;
+    }
+
+    /**
+     * Read and parse the events in [first, last)
+     */
+    private async readRange(handle: fs.promises.FileHandle, first: number, last: number): Promise<ProfilerEvent[]> {
+        const start = this.offsets[first];
+        const buffer = Buffer.alloc(this.offsets[last] - start);
+        await handle.read(buffer, 0, buffer.length, start);
+
+        const events: ProfilerEvent[] = [];
+        let lineStart = 0;
+        for (let position = first; position < last; position++) {
+            const lineEnd = this.offsets[position + 1] - start;
+            events.push(JSON.parse(buffer.toString('utf8', lineStart, lineEnd - 1)));
+            lineStart = lineEnd;
+        }
+        return events;
+    }
+
+    private ensureCapacity(size: number): void {
+        if (size > this.offsets.length) {
+            const grown = new Float64Array(Math.max(size, this.offsets.length * 2));
+            grown.set(this.offsets);
+            this.offsets = grown;
+        }
+    }
+}
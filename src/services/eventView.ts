@@ -0,0 +1,285 @@
+import { ColumnFormat, EventQuery, EventStore, ProfilerEvent, ProfilerViewColumn } from '../models/profilerTypes';
+import { compileFilter } from './filterExpression';
+import { getQueryFingerprint } from './queryFingerprint';
+
+const NUMERIC_FORMATS = [ColumnFormat.Number, ColumnFormat.Duration];
+
+/** Rows read from the store at a time when scanning a filtered view */
+const SCAN_BATCH_SIZE = 5000;
+
+/**
+ * Raw value of a grid column, using the fallback keys when the event has no value for the column key
+ */
+export function getColumnValue(event: ProfilerEvent, column: ProfilerViewColumn): any {
+    if (column.key === 'name') {
+        return event.name;
+    }
+    if (column.key === 'timestamp') {
+        return event.timestamp;
+    }
+
+    for (const key of [column.key, ...(column.fallbackKeys || [])]) {
+        const value = event.values[key];
+        if (value !== null && value !== undefined && value !== '') {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Rows of the event grid: the events of a store that match a query, in display order
+ * Rows are addressed by index so the grid can page through them without holding every event
+ */
+export class EventView {
+    private query: EventQuery = { eventTypes: [], databases: [], textSearch: '' };
+    private expressionFilter: (event: ProfilerEvent) => boolean = () => true;
+    /** Store positions of the matching events in display order; undefined when every event is shown in capture order */
+    private positions: number[] | undefined;
+    /** Sort key of each entry in positions, when sorted */
+    private sortKeys: any[] = [];
+    /** Number of store events that have been matched against the query */
+    private matchedCount = 0;
+    /** Serializes query changes and updates, which both rebuild positions */
+    private pending: Promise<unknown> = Promise.resolve();
+
+    constructor(private store: EventStore) {}
+
+    /**
+     * Number of rows
+     */
+    public get count(): number {
+        return this.positions ? this.positions.length : this.store.count;
+    }
+
+    /**
+     * Whether rows are sorted by a column rather than in capture order
+     */
+    public get isSorted(): boolean {
+        return !!this.query.sort;
+    }
+
+    /**
+     * Match every stored event against a new query
+     * Rejects with a FilterSyntaxError when the query's expression is invalid
+     */
+    public setQuery(query: EventQuery): Promise<void> {
+        return this.enqueue(async () => {
+            this.expressionFilter = compileFilter(query.expression || '');
+            this.query = query;
+            this.positions = this.isFiltered() ? [] : undefined;
+            this.sortKeys = [];
+            this.matchedCount = 0;
+            await this.matchNewEvents();
+        });
+    }
+
+    /**
+     * Match the events appended to the store since the last update
+     */
+    public update(): Promise<void> {
+        return this.enqueue(() => this.matchNewEvents());
+    }
+
+    /**
+     * Forget every row after the store has been cleared
+     */
+    public reset(): Promise<void> {
+        return this.enqueue(async () => {
+            this.positions = this.isFiltered() ? [] : undefined;
+            this.sortKeys = [];
+            this.matchedCount = 0;
+        });
+    }
+
+    /**
+     * Read count rows starting at a row index
+     */
+    public getRows(start: number, count: number): Promise<ProfilerEvent[]> {
+        return this.enqueue(() => {
+            return this.positions
+                ? this.store.readPositions(this.positions.slice(start, start + count))
+                : this.store.read(start, count);
+        });
+    }
+
+    /**
+     * Store positions of count rows starting at a row index
+     */
+    public getPositions(start: number, count: number): Promise<number[]> {
+        return this.enqueue(async () => {
+            if (this.positions) {
+                return this.positions.slice(start, start + count);
+            }
+            const end = Math.min(this.store.count, start + count);
+            const positions: number[] = [];
+            for (let position = start; position < end; position++) {
+                positions.push(position);
+            }
+            return positions;
+        });
+    }
+
+    /**
+     * Call callback for every row's event in capture order
+     */
+    public scan(callback: (event: ProfilerEvent) => void): Promise<void> {
+        return this.enqueue(async () => {
+            if (!this.positions) {
+                await this.store.scan(callback);
+                return;
+            }
+
+            const positions = this.query.sort ? [...this.positions].sort((a, b) => a - b) : this.positions;
+            for (let start = 0; start < positions.length; start += SCAN_BATCH_SIZE) {
+                const events = await this.store.readPositions(positions.slice(start, start + SCAN_BATCH_SIZE));
+                events.forEach(event => callback(event));
+            }
+        });
+    }
+
+    private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.pending.catch(() => undefined).then(operation);
+        this.pending = result;
+        return result;
+    }
+
+    private isFiltered(): boolean {
+        return this.query.eventTypes.length > 0
+            || this.query.databases.length > 0
+            || !!this.query.textSearch
+            || !!this.query.expression?.trim()
+            || !!this.query.fingerprint
+            || !!this.query.timeRange
+            || !!this.query.sort;
+    }
+
+    private async matchNewEvents(): Promise<void> {
+        const total = this.store.count;
+        if (!this.isFiltered()) {
+            this.matchedCount = total;
+            return;
+        }
+        if (this.matchedCount >= total) {
+            return;
+        }
+
+        const positions: number[] = [];
+        const sortKeys: any[] = [];
+        let end = this.matchedCount;
+        const collect = (event: ProfilerEvent, position: number) => {
+            end = Math.max(end, position + 1);
+            if (position >= this.matchedCount && this.matches(event)) {
+                positions.push(position);
+                if (this.query.sort) {
+                    sortKeys.push(this.getSortKey(event));
+                }
+            }
+        };
+
+        if (this.matchedCount === 0) {
+            await this.store.scan(collect);
+        } else {
+            const events = await this.store.read(this.matchedCount, total - this.matchedCount);
+            events.forEach((event, index) => collect(event, this.matchedCount + index));
+        }
+        this.matchedCount = end;
+
+        if (this.query.sort) {
+            this.mergeSorted(positions, sortKeys);
+        } else {
+            this.positions = this.positions || [];
+            for (const position of positions) {
+                this.positions.push(position);
+            }
+        }
+    }
+
+    private matches(event: ProfilerEvent): boolean {
+        const query = this.query;
+
+        if (query.eventTypes.length > 0 && !query.eventTypes.includes(event.name)) {
+            return false;
+        }
+
+        if (query.databases.length > 0) {
+            const dbName = event.values['database_name'];
+            if (!dbName || !query.databases.includes(String(dbName))) {
+                return false;
+            }
+        }
+
+        if (query.textSearch) {
+            const searchLower = query.textSearch.toLowerCase();
+            const found = event.name.toLowerCase().includes(searchLower)
+                || event.timestamp.toLowerCase().includes(searchLower)
+                || Object.values(event.values).some(value => String(value).toLowerCase().includes(searchLower));
+            if (!found) {
+                return false;
+            }
+        }
+
+        if (query.timeRange) {
+            const time = Date.parse(event.timestamp);
+            if (!(time >= query.timeRange.start && time < query.timeRange.end)) {
+                return false;
+            }
+        }
+
+        if (query.fingerprint && getQueryFingerprint(event)?.fingerprint !== query.fingerprint) {
+            return false;
+        }
+
+        return this.expressionFilter(event);
+    }
+
+    private getSortKey(event: ProfilerEvent): any {
+        const column = this.query.sort!.column;
+        const value = getColumnValue(event, column) ?? '';
+        return NUMERIC_FORMATS.includes(column.format as ColumnFormat) ? parseFloat(value) || 0 : value;
+    }
+
+    /**
+     * Merge newly matched events into the sorted rows; equal keys keep capture order
+     */
+    private mergeSorted(positions: number[], sortKeys: any[]): void {
+        const direction = this.query.sort!.direction === 'asc' ? 1 : -1;
+        const compare = (aKey: any, aPosition: number, bKey: any, bPosition: number) => {
+            if (aKey < bKey) {
+                return -direction;
+            }
+            if (aKey > bKey) {
+                return direction;
+            }
+            return aPosition - bPosition;
+        };
+
+        const order = positions.map((_, index) => index);
+        order.sort((a, b) => compare(sortKeys[a], positions[a], sortKeys[b], positions[b]));
+
+        const oldPositions = this.positions || [];
+        const oldKeys = this.sortKeys;
+        const mergedPositions: number[] = [];
+        const mergedKeys: any[] = [];
+        let i = 0;
+        let j = 0;
+
+        while (i < oldPositions.length || j < order.length) {
+            const takeOld = j >= order.length || (i < oldPositions.length &&
+                compare(oldKeys[i], oldPositions[i], sortKeys[order[j]], positions[order[j]]) <= 0);
+
+            if (takeOld) {
+                mergedPositions.push(oldPositions[i]);
+                mergedKeys.push(oldKeys[i]);
+                i++;
+            } else {
+                mergedPositions.push(positions[order[j]]);
+                mergedKeys.push(sortKeys[order[j]]);
+                j++;
+            }
+        }
+
+        this.positions = mergedPositions;
+        this.sortKeys = mergedKeys;
+    }
+}
@@ -0,0 +1,132 @@
+import { CaptureTarget, ProfilerEvent, ProfilerSession } from '../models/profilerTypes';
+
+/**
+ * Read position and missed event count of a live session, as kept on ProfilerSession
+ */
+export type SessionWatermark = Pick<ProfilerSession,
+    'name' | 'attached' | 'tracksEventSequence' | 'lastEventSequence' | 'timestampWatermark' | 'ringBufferDroppedCount' | 'missedEventCount'>;
+
+/**
+ * Order events by event_sequence, keep those above the session's high-water mark
+ * and count any sequence numbers that were skipped
+ */
+export function takeEventsAfterHighWaterMark(session: SessionWatermark, events: ProfilerEvent[]): ProfilerEvent[] {
+    const sequenced = events
+        .map(event => ({ event, sequence: Number(event.values['event_sequence']) }))
+        .filter(item => !isNaN(item.sequence))
+        .sort((a, b) => a.sequence - b.sequence);
+
+    const newEvents: ProfilerEvent[] = [];
+
+    for (const { event, sequence } of sequenced) {
+        if (sequence <= session.lastEventSequence) {
+            continue;
+        }
+
+        // Events an attached session captured before we started reading are not gaps
+        const hasHighWaterMark = session.lastEventSequence > 0 || !session.attached;
+
+        if (hasHighWaterMark && sequence > session.lastEventSequence + 1) {
+            const missed = sequence - session.lastEventSequence - 1;
+            session.missedEventCount += missed;
+            console.warn(`Session '${session.name}' skipped ${missed} event(s) before event_sequence ${sequence}`);
+        }
+
+        session.lastEventSequence = sequence;
+        newEvents.push(event);
+    }
+
+    return newEvents;
+}
+
+/**
+ * Fallback for templates without event_sequence: keep events after the session's timestamp watermark
+ * Events sharing the watermark's timestamp are told apart by their content, counting repeats
+ */
+export function takeUnseenEvents(session: SessionWatermark, events: ProfilerEvent[]): ProfilerEvent[] {
+    const watermark = session.timestampWatermark;
+    const watermarkTime = watermark ? Date.parse(watermark.timestamp) : -Infinity;
+    const seenAtWatermark = new Map(Object.entries(watermark?.seenAtTimestamp || {}));
+
+    let latestTime = watermarkTime;
+    let latest: ProfilerEvent[] = [];
+    const newEvents: ProfilerEvent[] = [];
+
+    for (const event of events) {
+        const time = Date.parse(event.timestamp);
+        if (isNaN(time) || time < watermarkTime) {
+            continue;
+        }
+
+        if (time > latestTime) {
+            latestTime = time;
+            latest = [];
+        }
+        if (time === latestTime) {
+            latest.push(event);
+        }
+
+        if (time === watermarkTime) {
+            const key = getEventKey(event);
+            const seen = seenAtWatermark.get(key) || 0;
+            if (seen > 0) {
+                seenAtWatermark.set(key, seen - 1);
+                continue;
+            }
+        }
+
+        newEvents.push(event);
+    }
+
+    // The ring buffer still holds every event at the latest timestamp, so they make up the new watermark
+    if (latest.length > 0) {
+        const seenAtTimestamp: { [eventKey: string]: number } = {};
+        for (const event of latest) {
+            const key = getEventKey(event);
+            seenAtTimestamp[key] = (seenAtTimestamp[key] || 0) + 1;
+        }
+        session.timestampWatermark = { timestamp: latest[0].timestamp, seenAtTimestamp };
+    }
+
+    return newEvents;
+}
+
+/**
+ * Count the events the ring buffer dropped since the last poll as missed
+ * Sessions with event_sequence already count them from the gaps they leave
+ */
+export function countDroppedEvents(session: SessionWatermark, droppedCount: number): void {
+    const previous = session.ringBufferDroppedCount;
+    session.ringBufferDroppedCount = droppedCount;
+
+    // Events an attached session dropped before we started reading are not ours to report
+    if (session.tracksEventSequence || (previous === undefined && session.attached)) {
+        return;
+    }
+
+    const dropped = droppedCount - (previous || 0);
+    if (dropped > 0) {
+        session.missedEventCount += dropped;
+        console.warn(`Session '${session.name}' ring buffer dropped ${dropped} event(s)`);
+    }
+}
+
+/**
+ * Track a session from the start again after the server restarted its event session
+ * The restarted session numbers its events from 1 again, and a ring buffer starts empty; events of
+ * an event_file target must be read to the end of the files written before the restart first,
+ * so that none of them are compared against the new numbering
+ */
+export function resetAfterSessionRestart(session: SessionWatermark, target: CaptureTarget): void {
+    session.lastEventSequence = 0;
+    if (target === CaptureTarget.RingBuffer) {
+        session.ringBufferDroppedCount = 0;
+    }
+}
+
+/**
+ * Key telling apart events with the same timestamp
+ */
+function getEventKey(event: ProfilerEvent): string {
+    return `${event.name}|${JSON.stringify(event.values)}`;
+}
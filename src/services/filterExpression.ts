@@ -0,0 +1,516 @@
+import { ProfilerEvent } from '../models/profilerTypes';
+
+/**
+ * Filter expressions for the event grid, e.g.
+ *   duration > 500ms AND client_app_name LIKE 'MyApp%' AND NOT statement CONTAINS 'sp_reset_connection'
+ *
+ * Comparisons: = != <> > >= < <= LIKE CONTAINS STARTSWITH ENDSWITH MATCHES IN (...) IS [NOT] NULL
+ * Any comparison can be negated with NOT (e.g. NOT LIKE); combine with AND, OR, NOT and parentheses.
+ * Numbers may carry a duration unit (us, ms, s, min, h), converted to microseconds like XEvent durations.
+ * Strings are quoted with ' or "; MATCHES takes a /regex/flags or a quoted pattern.
+ * timestamp is compared as a date ('2024-05-01 10:00') or as a local time of day ('10:30').
+ */
+
+/** Keywords of the expression language, for autocomplete */
+export const FILTER_KEYWORDS = ['AND', 'OR', 'NOT', 'LIKE', 'CONTAINS', 'STARTSWITH', 'ENDSWITH', 'MATCHES', 'IN', 'IS', 'NULL'];
+
+/** Comparison operators, for autocomplete */
+export const FILTER_OPERATORS = ['=', '!=', '>', '>=', '<', '<=', 'LIKE', 'NOT LIKE', 'CONTAINS', 'STARTSWITH', 'ENDSWITH', 'MATCHES', 'IN', 'IS NULL', 'IS NOT NULL'];
+
+/** Microseconds per duration unit */
+const DURATION_UNITS: { [unit: string]: number } = {
+    us: 1,
+    ms: 1000,
+    s: 1000000,
+    sec: 1000000,
+    min: 60000000,
+    h: 3600000000
+};
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'CONTAINS' | 'STARTSWITH' | 'ENDSWITH' | 'MATCHES';
+
+export type FilterValue =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'regex'; value: RegExp }
+    /** LIKE pattern with the regex it was translated to */
+    | { type: 'like'; value: RegExp; pattern: string };
+
+/**
+ * Parsed filter expression
+ */
+export type FilterNode =
+    | { kind: 'and' | 'or'; left: FilterNode; right: FilterNode }
+    | { kind: 'not'; operand: FilterNode }
+    | { kind: 'compare'; field: string; operator: FilterOperator; value: FilterValue }
+    | { kind: 'in'; field: string; values: FilterValue[] }
+    | { kind: 'null'; field: string };
+
+interface Token {
+    type: 'word' | 'field' | 'string' | 'number' | 'regex' | 'symbol' | 'end';
+    text: string;
+    /** Number value including any duration unit */
+    value?: number;
+    /** Offset of the token in the expression */
+    position: number;
+}
+
+/**
+ * Invalid filter expression; position is the offset of the offending token
+ */
+export class FilterSyntaxError extends Error {
+    constructor(message: string, public readonly position: number) {
+        super(message);
+        this.name = 'FilterSyntaxError';
+    }
+}
+
+/**
+ * Parse a filter expression into a predicate over events
+ * An empty expression matches every event
+ */
+export function compileFilter(expression: string): (event: ProfilerEvent) => boolean {
+    const node = parseFilter(expression);
+    return node ? (event: ProfilerEvent) => evaluate(node, event) : () => true;
+}
+
+/**
+ * Parse a filter expression; undefined when the expression is empty
+ * Throws a FilterSyntaxError when the expression is invalid
+ */
+export function parseFilter(expression: string): FilterNode | undefined {
+    return expression.trim() ? new FilterParser(tokenize(expression)).parse() : undefined;
+}
+
+/**
+ * Check a filter expression, returning the syntax error if it is invalid
+ */
+export function validateFilter(expression: string): FilterSyntaxError | undefined {
+    try {
+        compileFilter(expression);
+        return undefined;
+    } catch (error) {
+        if (error instanceof FilterSyntaxError) {
+            return error;
+        }
+        throw error;
+    }
+}
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const ch = expression[i];
+        const start = i;
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '\'' || ch === '"') {
+            // Quotes are escaped by doubling them, as in T-SQL
+            let text = '';
+            i++;
+            while (true) {
+                if (i >= expression.length) {
+                    throw new FilterSyntaxError('Unterminated string', start);
+                }
+                if (expression[i] === ch) {
+                    if (expression[i + 1] === ch) {
+                        text += ch;
+                        i += 2;
+                        continue;
+                    }
+                    i++;
+                    break;
+                }
+                text += expression[i++];
+            }
+            tokens.push({ type: 'string', text, position: start });
+        } else if (ch === '[') {
+            const end = expression.indexOf(']', i);
+            if (end < 0) {
+                throw new FilterSyntaxError('Unterminated [column name]', start);
+            }
+            tokens.push({ type: 'field', text: expression.substring(i + 1, end), position: start });
+            i = end + 1;
+        } else if (ch === '/' && tokens.length > 0 && tokens[tokens.length - 1].text.toUpperCase() === 'MATCHES') {
+            let pattern = '';
+            i++;
+            while (i < expression.length && expression[i] !== '/') {
+                if (expression[i] === '\\' && i + 1 < expression.length) {
+                    pattern += expression[i++];
+                }
+                pattern += expression[i++];
+            }
+            if (i >= expression.length) {
+                throw new FilterSyntaxError('Unterminated regular expression', start);
+            }
+            i++;
+            const flags = /^[gimsuy]*/.exec(expression.substring(i))![0];
+            i += flags.length;
+            tokens.push({ type: 'regex', text: `${pattern}\u0000${flags}`, position: start });
+        } else if (/[0-9]/.test(ch) || (ch === '-' && /[0-9.]/.test(expression[i + 1] || '')) || (ch === '.' && /[0-9]/.test(expression[i + 1] || ''))) {
+            const match = /^-?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?([a-zA-Z]*)/.exec(expression.substring(i))!;
+            const unit = match[4].toLowerCase();
+            if (unit && DURATION_UNITS[unit] === undefined) {
+                throw new FilterSyntaxError(`Unknown unit '${match[4]}' (use us, ms, s, min or h)`, start);
+            }
+            const value = parseFloat(match[0]) * (unit ? DURATION_UNITS[unit] : 1);
+            tokens.push({ type: 'number', text: match[0], value, position: start });
+            i += match[0].length;
+        } else if (/[A-Za-z_@]/.test(ch)) {
+            const match = /^[A-Za-z_@][\w.@]*/.exec(expression.substring(i))!;
+            tokens.push({ type: 'word', text: match[0], position: start });
+            i += match[0].length;
+        } else {
+            const symbol = ['>=', '<=', '!=', '<>', '==', '=', '>', '<', '(', ')', ','].find(s => expression.startsWith(s, i));
+            if (!symbol) {
+                throw new FilterSyntaxError(`Unexpected character '${ch}'`, start);
+            }
+            tokens.push({ type: 'symbol', text: symbol, position: start });
+            i += symbol.length;
+        }
+    }
+
+    tokens.push({ type: 'end', text: '', position: expression.length });
+    return tokens;
+}
+
+/**
+ * Recursive descent parser; NOT binds tighter than AND, which binds tighter than OR
+ */
+class FilterParser {
+    private index = 0;
+
+    constructor(private tokens: Token[]) {}
+
+    public parse(): FilterNode {
+        const node = this.parseOr();
+        const token = this.peek();
+        if (token.type !== 'end') {
+            throw new FilterSyntaxError(`Unexpected '${token.text}'`, token.position);
+        }
+        return node;
+    }
+
+    private parseOr(): FilterNode {
+        let node = this.parseAnd();
+        while (this.acceptKeyword('OR')) {
+            node = { kind: 'or', left: node, right: this.parseAnd() };
+        }
+        return node;
+    }
+
+    private parseAnd(): FilterNode {
+        let node = this.parseNot();
+        while (this.acceptKeyword('AND')) {
+            node = { kind: 'and', left: node, right: this.parseNot() };
+        }
+        return node;
+    }
+
+    private parseNot(): FilterNode {
+        if (this.acceptKeyword('NOT')) {
+            return { kind: 'not', operand: this.parseNot() };
+        }
+        if (this.acceptSymbol('(')) {
+            const node = this.parseOr();
+            this.expectSymbol(')');
+            return node;
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): FilterNode {
+        const fieldToken = this.next();
+        if (fieldToken.type !== 'field' && (fieldToken.type !== 'word' || FILTER_KEYWORDS.includes(fieldToken.text.toUpperCase()))) {
+            throw new FilterSyntaxError(fieldToken.type === 'end' ? 'Expected a column name' : `Expected a column name, found '${fieldToken.text}'`, fieldToken.position);
+        }
+        const field = fieldToken.text;
+
+        if (this.acceptKeyword('IS')) {
+            const negated = this.acceptKeyword('NOT');
+            this.expectKeyword('NULL');
+            const node: FilterNode = { kind: 'null', field };
+            return negated ? { kind: 'not', operand: node } : node;
+        }
+
+        const negated = this.acceptKeyword('NOT');
+
+        if (this.acceptKeyword('IN')) {
+            this.expectSymbol('(');
+            const values = [this.parseValue()];
+            while (this.acceptSymbol(',')) {
+                values.push(this.parseValue());
+            }
+            this.expectSymbol(')');
+            const node: FilterNode = { kind: 'in', field, values };
+            return negated ? { kind: 'not', operand: node } : node;
+        }
+
+        const operatorToken = this.next();
+        const operator = this.toOperator(operatorToken);
+        if (!operator || (negated && !/^[A-Z]+$/.test(operator))) {
+            throw new FilterSyntaxError(
+                operatorToken.type === 'end' ? `Expected an operator after '${field}'` : `Expected an operator, found '${operatorToken.text}'`,
+                operatorToken.position
+            );
+        }
+
+        let value = this.parseValue();
+        if (value.type === 'regex' && operator !== 'MATCHES') {
+            throw new FilterSyntaxError('Regular expressions can only be used with MATCHES', operatorToken.position);
+        }
+        if (operator === 'MATCHES' && value.type !== 'regex') {
+            value = { type: 'regex', value: this.toRegex(String(value.value), 'i', operatorToken.position) };
+        }
+        if (operator === 'LIKE') {
+            if (value.type !== 'string') {
+                throw new FilterSyntaxError('LIKE needs a quoted pattern', operatorToken.position);
+            }
+            value = { type: 'like', value: likeToRegex(value.value), pattern: value.value };
+        }
+
+        const node: FilterNode = { kind: 'compare', field, operator, value };
+        return negated ? { kind: 'not', operand: node } : node;
+    }
+
+    private parseValue(): FilterValue {
+        const token = this.next();
+        switch (token.type) {
+            case 'number':
+                return { type: 'number', value: token.value! };
+            case 'string':
+                return { type: 'string', value: token.text };
+            case 'regex': {
+                const [pattern, flags] = token.text.split('\u0000');
+                return { type: 'regex', value: this.toRegex(pattern, flags, token.position) };
+            }
+            default:
+                throw new FilterSyntaxError(token.type === 'end' ? 'Expected a value' : `Expected a value, found '${token.text}'`, token.position);
+        }
+    }
+
+    private toRegex(pattern: string, flags: string, position: number): RegExp {
+        try {
+            return new RegExp(pattern, flags.replace('g', ''));
+        } catch (error: any) {
+            throw new FilterSyntaxError(error?.message || 'Invalid regular expression', position);
+        }
+    }
+
+    private toOperator(token: Token): FilterOperator | undefined {
+        if (token.type === 'symbol') {
+            switch (token.text) {
+                case '=':
+                case '==':
+                    return '=';
+                case '!=':
+                case '<>':
+                    return '!=';
+                case '>':
+                case '>=':
+                case '<':
+                case '<=':
+                    return token.text;
+            }
+        }
+        if (token.type === 'word') {
+            const keyword = token.text.toUpperCase();
+            if (['LIKE', 'CONTAINS', 'STARTSWITH', 'ENDSWITH', 'MATCHES'].includes(keyword)) {
+                return keyword as FilterOperator;
+            }
+        }
+        return undefined;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index];
+        if (token.type !== 'end') {
+            this.index++;
+        }
+        return token;
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        const token = this.peek();
+        if (token.type === 'word' && token.text.toUpperCase() === keyword) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectKeyword(keyword: string): void {
+        if (!this.acceptKeyword(keyword)) {
+            const token = this.peek();
+            throw new FilterSyntaxError(`Expected ${keyword}`, token.position);
+        }
+    }
+
+    private acceptSymbol(symbol: string): boolean {
+        const token = this.peek();
+        if (token.type === 'symbol' && token.text === symbol) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectSymbol(symbol: string): void {
+        if (!this.acceptSymbol(symbol)) {
+            const token = this.peek();
+            throw new FilterSyntaxError(`Expected '${symbol}'`, token.position);
+        }
+    }
+}
+
+function evaluate(node: FilterNode, event: ProfilerEvent): boolean {
+    switch (node.kind) {
+        case 'and':
+            return evaluate(node.left, event) && evaluate(node.right, event);
+        case 'or':
+            return evaluate(node.left, event) || evaluate(node.right, event);
+        case 'not':
+            return !evaluate(node.operand, event);
+        case 'null': {
+            const value = getFieldValue(event, node.field);
+            return value === undefined || value === null || value === '';
+        }
+        case 'in':
+            return node.values.some(value => compare(event, node.field, '=', value));
+        case 'compare':
+            return compare(event, node.field, node.operator, node.value);
+    }
+}
+
+/**
+ * Value of a field; name and timestamp refer to the event class and start time
+ * Falls back to a case-insensitive match of the field name
+ */
+function getFieldValue(event: ProfilerEvent, field: string): any {
+    const lower = field.toLowerCase();
+    if (lower === 'name') {
+        return event.name;
+    }
+    if (lower === 'timestamp') {
+        return event.timestamp;
+    }
+    if (field in event.values) {
+        return event.values[field];
+    }
+
+    const key = Object.keys(event.values).find(k => k.toLowerCase() === lower);
+    return key !== undefined ? event.values[key] : undefined;
+}
+
+function compare(event: ProfilerEvent, field: string, operator: FilterOperator, value: FilterValue): boolean {
+    const actual = getFieldValue(event, field);
+    if (actual === undefined || actual === null) {
+        return false;
+    }
+
+    const text = String(actual);
+
+    // MATCHES and LIKE patterns
+    if (value.type === 'regex' || value.type === 'like') {
+        return value.value.test(text);
+    }
+
+    if (value.type === 'number') {
+        const numeric = parseFloat(text);
+        return !isNaN(numeric) && compareOrdered(numeric, value.value, operator);
+    }
+
+    const expected = value.value;
+
+    if (field.toLowerCase() === 'timestamp' && isOrdering(operator)) {
+        const timeOfDay = parseTimeOfDay(expected);
+        const date = new Date(text);
+        if (timeOfDay !== undefined) {
+            const actualSeconds = date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds() + date.getMilliseconds() / 1000;
+            return compareOrdered(actualSeconds, timeOfDay, operator);
+        }
+        const expectedTime = Date.parse(expected);
+        if (!isNaN(expectedTime) && !isNaN(date.getTime())) {
+            return compareOrdered(date.getTime(), expectedTime, operator);
+        }
+    }
+
+    const actualLower = text.toLowerCase();
+    const expectedLower = expected.toLowerCase();
+
+    switch (operator) {
+        case 'CONTAINS':
+            return actualLower.includes(expectedLower);
+        case 'STARTSWITH':
+            return actualLower.startsWith(expectedLower);
+        case 'ENDSWITH':
+            return actualLower.endsWith(expectedLower);
+        default:
+            return compareOrdered(actualLower, expectedLower, operator);
+    }
+}
+
+function isOrdering(operator: FilterOperator): boolean {
+    return ['=', '!=', '>', '>=', '<', '<='].includes(operator);
+}
+
+function compareOrdered<T>(actual: T, expected: T, operator: FilterOperator): boolean {
+    switch (operator) {
+        case '=':
+            return actual === expected;
+        case '!=':
+            return actual !== expected;
+        case '>':
+            return actual > expected;
+        case '>=':
+            return actual >= expected;
+        case '<':
+            return actual < expected;
+        case '<=':
+            return actual <= expected;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Seconds since midnight of a 'HH:MM[:SS[.fff]]' string
+ */
+function parseTimeOfDay(value: string): number | undefined {
+    const match = /^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?$/.exec(value.trim());
+    return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + (match[3] ? parseFloat(match[3]) : 0) : undefined;
+}
+
+/**
+ * Case-insensitive regex for a T-SQL LIKE pattern (% and _ wildcards, [...] character classes)
+ */
+function likeToRegex(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        if (ch === '%') {
+            source += '[\\s\\S]*';
+        } else if (ch === '_') {
+            source += '[\\s\\S]';
+        } else if (ch === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end > i) {
+                const set = pattern.substring(i + 1, end).replace(/\\/g, '\\\\');
+                source += set.startsWith('^') ? `[^${set.substring(1)}]` : `[${set}]`;
+                i = end;
+            } else {
+                source += '\\[';
+            }
+        } else {
+            source += ch.replace(/[.*+?^${}()|\]\\/]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { SavedFilter } from '../models/profilerTypes';
+import { validateFilter } from './filterExpression';
+
+/**
+ * Service for the named filter expressions kept in the mssql-profiler.savedFilters setting
+ */
+export class FilterService {
+    private filters: SavedFilter[] = [];
+    private readonly _onDidChangeFilters = new vscode.EventEmitter<void>();
+
+    /** Fired after saved filters have been reloaded */
+    public readonly onDidChangeFilters: vscode.Event<void> = this._onDidChangeFilters.event;
+
+    constructor(private context: vscode.ExtensionContext) {}
+
+    /**
+     * Load saved filters from settings, skipping invalid entries
+     */
+    public loadFilters(): void {
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const configured = config.get<any[]>('savedFilters', []);
+        const filters: SavedFilter[] = [];
+
+        configured.forEach((value, index) => {
+            if (!value || typeof value.name !== 'string' || !value.name.trim() || typeof value.expression !== 'string') {
+                vscode.window.showWarningMessage(`Invalid saved filter mssql-profiler.savedFilters[${index}]: 'name' and 'expression' are required`);
+                return;
+            }
+
+            const error = validateFilter(value.expression);
+            if (error) {
+                vscode.window.showWarningMessage(`Saved filter '${value.name}' is invalid: ${error.message}`);
+                return;
+            }
+
+            filters.push({ name: value.name, expression: value.expression });
+        });
+
+        this.filters = filters;
+    }
+
+    /**
+     * Reload saved filters when the setting changes
+     */
+    public watchForChanges(): void {
+        this.context.subscriptions.push(
+            this._onDidChangeFilters,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('mssql-profiler.savedFilters')) {
+                    this.loadFilters();
+                    this._onDidChangeFilters.fire();
+                }
+            })
+        );
+    }
+
+    /**
+     * Get all saved filters
+     */
+    public getFilters(): SavedFilter[] {
+        return this.filters;
+    }
+
+    /**
+     * Save a filter to user settings, replacing a filter with the same name
+     */
+    public async saveFilter(filter: SavedFilter): Promise<void> {
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const configured = config.get<any[]>('savedFilters', []);
+
+        const filters = configured.filter(f => f?.name !== filter.name);
+        filters.push({ name: filter.name, expression: filter.expression });
+
+        await config.update('savedFilters', filters, vscode.ConfigurationTarget.Global);
+    }
+
+    /**
+     * Remove a saved filter from user settings
+     */
+    public async deleteFilter(name: string): Promise<void> {
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const configured = config.get<any[]>('savedFilters', []);
+
+        await config.update('savedFilters', configured.filter(f => f?.name !== name), vscode.ConfigurationTarget.Global);
+    }
+}
@@ -0,0 +1,102 @@
+import { EventStore, ProfilerEvent } from '../models/profilerTypes';
+import { parseActivityId } from './activityTree';
+
+/** Events reporting an actual execution plan in their showplan_xml field */
+export const PLAN_EVENTS = ['query_post_execution_showplan', 'query_plan_profile'];
+
+/** Events of a single statement; each one ends the plans that can belong to later statements */
+const STATEMENT_EVENTS = ['sql_statement_completed', 'sp_statement_completed'];
+
+/** Events whose plan can be looked up */
+const PLANNED_EVENTS = [...STATEMENT_EVENTS, 'sql_batch_completed', 'rpc_completed'];
+
+/** Events read from the store at a time */
+const READ_BATCH_SIZE = 1000;
+
+/** Events before a statement searched for its plan; plans are raised shortly before their statement completes */
+const PLAN_SEARCH_WINDOW = 20000;
+
+/**
+ * Showplan XML of a plan event, if any
+ */
+export function getShowplanXml(event: ProfilerEvent): string | undefined {
+    const value = event.values['showplan_xml'];
+    if (typeof value === 'string' && /^\s*<ShowPlanXML[\s>]/.test(value)) {
+        return value.trim();
+    }
+    return undefined;
+}
+
+/**
+ * Whether a plan event can have been captured for an event
+ */
+export function canHavePlan(event: ProfilerEvent): boolean {
+    return PLANNED_EVENTS.includes(event.name);
+}
+
+/**
+ * Find the plan event captured for a statement, batch or RPC event stored at a position
+ * Plans are raised before the event of their statement, so the events before it are searched backwards
+ * for the latest plan event of the same activity (attach_activity_id, when causality is tracked) or else
+ * of the same session_id, stopping at another statement of that session or after PLAN_SEARCH_WINDOW events
+ */
+export async function findPlanEvent(store: EventStore, statement: ProfilerEvent, position: number): Promise<ProfilerEvent | undefined> {
+    if (getShowplanXml(statement)) {
+        return statement;
+    }
+
+    const activity = getActivityGuid(statement);
+    const sessionId = statement.values['session_id'];
+    if (!activity && (sessionId === undefined || sessionId === null)) {
+        return undefined;
+    }
+
+    // The rows of the grid can be stale when the store was cleared since they were read
+    const [stored] = await store.read(position, 1);
+    if (!stored || !isSameEvent(stored, statement)) {
+        return undefined;
+    }
+
+    const windowStart = Math.max(0, position - PLAN_SEARCH_WINDOW);
+    for (let end = position; end > windowStart; end -= READ_BATCH_SIZE) {
+        const start = Math.max(windowStart, end - READ_BATCH_SIZE);
+        const events = await store.read(start, end - start);
+
+        for (let index = events.length - 1; index >= 0; index--) {
+            const event = events[index];
+            const related = activity
+                ? getActivityGuid(event) === activity
+                : String(event.values['session_id']) === String(sessionId);
+            if (!related) {
+                continue;
+            }
+
+            if (PLAN_EVENTS.includes(event.name) && getShowplanXml(event)) {
+                return event;
+            }
+            if (STATEMENT_EVENTS.includes(event.name)) {
+                return undefined;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Activity GUID of attach_activity_id, without the sequence number within the activity
+ */
+function getActivityGuid(event: ProfilerEvent): string | undefined {
+    return parseActivityId(event.values['attach_activity_id'])?.guid;
+}
+
+/**
+ * Whether two events are the same captured event; the webview sends back copies of stored events
+ */
+function isSameEvent(a: ProfilerEvent, b: ProfilerEvent): boolean {
+    return a.name === b.name &&
+        a.timestamp === b.timestamp &&
+        a.values['event_sequence'] === b.values['event_sequence'] &&
+        a.values['session_id'] === b.values['session_id'] &&
+        a.values['attach_activity_id'] === b.values['attach_activity_id'];
+}
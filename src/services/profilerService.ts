@@ -5,8 +5,48 @@ import {
     ProfilerEvent,
     ProfilerSession,
     SessionState,
-    ConnectionInfo
+    ConnectionInfo,
+    CaptureOptions,
+    CaptureTarget,
+    ConnectionStatus,
+    EventStore,
+    PlanCapture,
+    ServerDatabaseInfo,
+    ServerEventSessionInfo,
+    ServerFilter,
+    ServerFilterClause,
+    XEventCatalog,
+    XEventEventInfo,
+    XEventObjectInfo
 } from '../models/profilerTypes';
+import { XEventParser } from '../parsers/xeventParser';
+import { FileEventStore, MemoryEventStore } from './eventStore';
+import { combinePredicates } from './serverFilter';
+import { countDroppedEvents, resetAfterSessionRestart, takeEventsAfterHighWaterMark, takeUnseenEvents } from './eventWatermark';
+import { MAX_RECONNECT_ATTEMPTS, getReconnectDelay } from './reconnect';
+import { getAuthenticationConfig, isEntraAuthentication } from './authentication';
+import { parseServerName } from './connectionString';
+
+/** Actions collected with plan events to match them to their statements */
+const PLAN_EVENT_ACTIONS = ['package0.event_sequence', 'sqlserver.session_id', 'sqlserver.database_name', 'sqlserver.client_app_name'];
+
+/** Error codes of mssql / tedious meaning the connection to the server is broken */
+const CONNECTION_LOST_CODES = ['ESOCKET', 'ECONNCLOSED', 'ECONNRESET', 'ENOCONN', 'ETIMEOUT', 'EINSTLOOKUP'];
+
+/**
+ * Event as defined in a server event session
+ */
+interface SessionEventDefinition {
+    packageName: string;
+    name: string;
+    predicate?: string;
+    /** Actions as package.name */
+    actions: string[];
+    /** Customizable fields set on the event, as name=value */
+    fields: string[];
+    /** Names of the event's data columns */
+    dataColumns: string[];
+}
 
 /**
  * Service for managing SQL Server profiler sessions using Extended Events
@@ -16,16 +56,88 @@ export class ProfilerService {
     private activeSessions: Map<string, ProfilerSession> = new Map();
     private connections: Map<string, sql.ConnectionPool> = new Map();
     private pollingIntervals: Map<string, NodeJS.Timeout> = new Map();
+    /** Sessions with a poll still reading, so a slow read isn't overlapped by the next one */
+    private pollsInProgress: Set<string> = new Set();
+    private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+    /** Event definitions of sessions as they were before a server filter was applied */
+    private unfilteredEvents: Map<string, SessionEventDefinition[]> = new Map();
 
     private readonly POLLING_INTERVAL = 2000; // Poll for events every 2 seconds
 
+    private readonly _onDidChangeConnectionStatus = new vscode.EventEmitter<ProfilerSession>();
+
+    /** Fired when a live session loses its connection, retries it, reconnects or gives up */
+    public readonly onDidChangeConnectionStatus: vscode.Event<ProfilerSession> = this._onDidChangeConnectionStatus.event;
+
+    /**
+     * @param storageUri Extension storage folder; session event stores are kept in a folder per window under its event-stores folder
+     */
+    constructor(private storageUri?: vscode.Uri) {}
+
     /**
      * Initialize the profiler service
      */
     public async initialize(): Promise<void> {
+        await this.removeStaleEventStores();
+
         console.log('Profiler service initialized');
     }
 
+    /**
+     * Remove event store folders left behind by windows that did not shut down cleanly
+     * Every window shares the extension storage, so only folders whose extension host has exited are removed
+     */
+    private async removeStaleEventStores(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        const rootFolder = vscode.Uri.joinPath(this.storageUri, 'event-stores');
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(rootFolder);
+        } catch {
+            // Nothing to clean up
+            return;
+        }
+
+        for (const [name, type] of entries) {
+            const pid = Number(name);
+            if (type !== vscode.FileType.Directory || !Number.isInteger(pid) || pid === process.pid || isProcessRunning(pid)) {
+                continue;
+            }
+
+            try {
+                await vscode.workspace.fs.delete(vscode.Uri.joinPath(rootFolder, name), { recursive: true, useTrash: false });
+            } catch (error) {
+                console.error(`Failed to remove stale event stores in ${name}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Folder holding the event store files of this window's live sessions
+     */
+    private getEventStoreFolder(): vscode.Uri | undefined {
+        return this.storageUri ? vscode.Uri.joinPath(this.storageUri, 'event-stores', String(process.pid)) : undefined;
+    }
+
+    /**
+     * Create the store for a session's events, on disk when extension storage is available
+     */
+    private async createEventStore(sessionName: string): Promise<EventStore> {
+        const storeFolder = this.getEventStoreFolder();
+        if (storeFolder) {
+            try {
+                return await FileEventStore.create(storeFolder.fsPath, sessionName);
+            } catch (error) {
+                console.error('Failed to create event store file, keeping events in memory:', error);
+            }
+        }
+
+        return new MemoryEventStore();
+    }
+
     /**
      * Get or create a SQL connection pool for a session
      */
@@ -39,37 +151,31 @@ export class ProfilerService {
             }
         }
         
-        let infoCn = connection.serverName.split(':');
-        
-        if(infoCn.length === 1){
-            infoCn.push("1433");
-        }
+        const address = parseServerName(connection.serverName);
+        const options = connection.options || {};
+        const secure = connection.isAzure || isEntraAuthentication(connection.authenticationType);
+        const encrypt = options.encrypt || (secure ? 'mandatory' : 'optional');
+        const port = options.port || address.port;
+        // A port wins over an instance name, whose port is looked up through the SQL Server Browser service
+        const instanceName = port ? undefined : options.instanceName || address.instanceName;
+
         const config: sql.config = {
-            server: infoCn[0],
+            server: address.host,
             database: connection.databaseName,
-            port: parseInt(infoCn[1]),
+            port: instanceName ? undefined : port || 1433,
+            connectionTimeout: options.connectTimeout !== undefined ? options.connectTimeout * 1000 : undefined,
+            requestTimeout: options.requestTimeout !== undefined ? options.requestTimeout * 1000 : undefined,
             options: {
-                encrypt: connection.isAzure,
-                trustServerCertificate: !connection.isAzure,
+                instanceName,
+                encrypt: encrypt === 'strict' ? 'strict' : encrypt === 'mandatory',
+                trustServerCertificate: options.trustServerCertificate ?? !secure,
+                serverName: options.hostNameInCertificate || undefined,
+                appName: options.applicationName || undefined,
                 enableArithAbort: true
-            }
+            },
+            ...getAuthenticationConfig(connection)
         };
 
-        if (connection.authenticationType === 'SqlLogin') {
-            config.user = connection.userName;
-            config.password = connection.password;
-        } else {
-            // Windows Authentication (NTLM)
-            config.authentication = {
-                type: 'ntlm',
-                options: {
-                    domain: '',
-                    userName: connection.userName || '',
-                    password: connection.password || ''
-                }
-            };
-        }
-
         const pool = new sql.ConnectionPool(config);
         await pool.connect();
         this.connections.set(key, pool);
@@ -115,7 +221,8 @@ export class ProfilerService {
     public async createSession(
         connection: ConnectionInfo,
         sessionName: string,
-        template: ProfilerSessionTemplate
+        template: ProfilerSessionTemplate,
+        captureOptions: CaptureOptions = { target: CaptureTarget.RingBuffer }
     ): Promise<ProfilerSession> {
         // Check if session already exists
         if (this.activeSessions.has(sessionName)) {
@@ -124,7 +231,7 @@ export class ProfilerService {
 
         try {
             // Create the XEvent session using T-SQL
-            const createSql = this.buildCreateSessionSql(sessionName, template, connection.isAzure);
+            const createSql = this.buildCreateSessionSql(sessionName, template, connection.isAzure, captureOptions);
 
             vscode.window.showInformationMessage(`Creating profiler session '${sessionName}'...`);
 
@@ -134,6 +241,7 @@ export class ProfilerService {
 
             // Fetch database list for lookup
             const databaseLookup = await this.fetchDatabaseList(connection);
+            const store = await this.createEventStore(sessionName);
 
             // Create session tracking object
             const session: ProfilerSession = {
@@ -143,7 +251,12 @@ export class ProfilerService {
                 template,
                 state: SessionState.Stopped,
                 events: [],
+                store,
+                captureOptions,
                 databaseLookup,
+                tracksEventSequence: this.statementTracksEventSequence(createSql),
+                lastEventSequence: 0,
+                missedEventCount: 0,
                 createdAt: new Date()
             };
 
@@ -159,6 +272,256 @@ export class ProfilerService {
         }
     }
 
+    /**
+     * List the event sessions defined on the server with their targets and state
+     */
+    public async listServerSessions(connection: ConnectionInfo): Promise<ServerEventSessionInfo[]> {
+        const scope = connection.isAzure ? 'database' : 'server';
+        const runningSessions = connection.isAzure ? 'sys.dm_xe_database_sessions' : 'sys.dm_xe_sessions';
+
+        const query = `
+SELECT
+    es.name,
+    CAST(CASE WHEN rs.name IS NULL THEN 0 ELSE 1 END AS BIT) AS is_running,
+    t.name AS target_name,
+    CAST(f.value AS NVARCHAR(4000)) AS event_file_path,
+    CAST(CASE WHEN EXISTS (
+        SELECT 1 FROM sys.${scope}_event_session_events AS e
+        WHERE e.event_session_id = es.event_session_id
+    ) AND NOT EXISTS (
+        SELECT 1 FROM sys.${scope}_event_session_events AS e
+        WHERE e.event_session_id = es.event_session_id
+            AND NOT EXISTS (
+                SELECT 1 FROM sys.${scope}_event_session_actions AS a
+                WHERE a.event_session_id = e.event_session_id
+                    AND a.event_id = e.event_id
+                    AND a.package = 'package0'
+                    AND a.name = 'event_sequence'
+            )
+    ) THEN 1 ELSE 0 END AS BIT) AS tracks_event_sequence
+FROM sys.${scope}_event_sessions AS es
+LEFT JOIN ${runningSessions} AS rs
+    ON rs.name = es.name
+LEFT JOIN sys.${scope}_event_session_targets AS t
+    ON t.event_session_id = es.event_session_id
+LEFT JOIN sys.${scope}_event_session_fields AS f
+    ON f.event_session_id = es.event_session_id
+    AND f.object_id = t.target_id
+    AND f.name = 'filename'
+ORDER BY es.name;
+`;
+
+        const result = await this.executeQuery(connection, query);
+
+        // One row per target; fold them into one entry per session
+        const sessions = new Map<string, ServerEventSessionInfo>();
+        for (const row of result.recordset || []) {
+            let info = sessions.get(row.name);
+            if (!info) {
+                info = {
+                    name: row.name,
+                    isRunning: !!row.is_running,
+                    targets: [],
+                    tracksEventSequence: !!row.tracks_event_sequence
+                };
+                sessions.set(row.name, info);
+            }
+
+            if (row.target_name) {
+                info.targets.push(row.target_name);
+            }
+            if (row.event_file_path) {
+                info.eventFilePath = row.event_file_path;
+            }
+        }
+
+        return Array.from(sessions.values());
+    }
+
+    /**
+     * List the databases of the server, or of the Azure SQL logical server the connection can see
+     */
+    public async listDatabases(connection: ConnectionInfo): Promise<ServerDatabaseInfo[]> {
+        const result = await this.executeQuery(connection, 'SELECT name, state_desc FROM sys.databases ORDER BY name;');
+        return (result.recordset || []).map((row: any) => ({ name: row.name, state: row.state_desc }));
+    }
+
+    /**
+     * Seconds a process must be blocked before blocked_process_report is raised; 0 when disabled
+     */
+    public async getBlockedProcessThreshold(connection: ConnectionInfo): Promise<number> {
+        const result = await this.executeQuery(
+            connection,
+            "SELECT CAST(value_in_use AS INT) AS value FROM sys.configurations WHERE name = N'blocked process threshold (s)';"
+        );
+        return result.recordset?.[0]?.value ?? 0;
+    }
+
+    /**
+     * Set the blocked process threshold server option
+     * It is an advanced option, so show advanced options is turned on while it is set and restored afterwards
+     */
+    public async setBlockedProcessThreshold(connection: ConnectionInfo, seconds: number): Promise<void> {
+        const query = `
+DECLARE @showAdvanced INT = (SELECT CAST(value_in_use AS INT) FROM sys.configurations WHERE name = N'show advanced options');
+IF @showAdvanced = 0
+BEGIN
+    EXEC sp_configure 'show advanced options', 1;
+    RECONFIGURE;
+END;
+EXEC sp_configure 'blocked process threshold', ${Math.floor(seconds)};
+RECONFIGURE;
+IF @showAdvanced = 0
+BEGIN
+    EXEC sp_configure 'show advanced options', 0;
+    RECONFIGURE;
+END;
+`;
+        await this.executeQuery(connection, query);
+    }
+
+    /**
+     * Read the Extended Events catalog (packages, events with their columns, actions, targets, predicate sources)
+     * Private objects are excluded since they cannot be used in CREATE EVENT SESSION
+     */
+    public async getXEventCatalog(connection: ConnectionInfo): Promise<XEventCatalog> {
+        const publicObject = '(p.capabilities IS NULL OR p.capabilities & 1 = 0) AND (o.capabilities IS NULL OR o.capabilities & 1 = 0)';
+
+        const packagesResult = await this.executeQuery(connection, `
+SELECT p.name, p.description
+FROM sys.dm_xe_packages AS p
+WHERE p.capabilities IS NULL OR p.capabilities & 1 = 0
+ORDER BY p.name;
+`);
+
+        const objectsResult = await this.executeQuery(connection, `
+SELECT p.name AS package_name, o.name, o.object_type, o.description, o.type_name
+FROM sys.dm_xe_objects AS o
+INNER JOIN sys.dm_xe_packages AS p
+    ON p.guid = o.package_guid
+WHERE o.object_type IN ('event', 'action', 'target', 'pred_source')
+    AND ${publicObject}
+ORDER BY p.name, o.name;
+`);
+
+        const columnsResult = await this.executeQuery(connection, `
+SELECT p.name AS package_name, c.object_name, c.name, c.type_name, c.description
+FROM sys.dm_xe_object_columns AS c
+INNER JOIN sys.dm_xe_objects AS o
+    ON o.name = c.object_name
+    AND o.package_guid = c.object_package_guid
+INNER JOIN sys.dm_xe_packages AS p
+    ON p.guid = o.package_guid
+WHERE o.object_type = 'event'
+    AND c.column_type = 'data'
+    AND ${publicObject}
+ORDER BY p.name, c.object_name, c.column_id;
+`);
+
+        const catalog: XEventCatalog = {
+            packages: (packagesResult.recordset || []).map(row => ({
+                name: row.name,
+                description: row.description || ''
+            })),
+            events: [],
+            actions: [],
+            targets: [],
+            predicateSources: []
+        };
+
+        const events = new Map<string, XEventEventInfo>();
+        for (const row of objectsResult.recordset || []) {
+            const info: XEventObjectInfo = {
+                package: row.package_name,
+                name: row.name,
+                description: row.description || ''
+            };
+            if (row.type_name) {
+                info.typeName = row.type_name;
+            }
+
+            switch (row.object_type) {
+                case 'event': {
+                    const event: XEventEventInfo = { ...info, fields: [] };
+                    events.set(`${row.package_name}.${row.name}`, event);
+                    catalog.events.push(event);
+                    break;
+                }
+                case 'action':
+                    catalog.actions.push(info);
+                    break;
+                case 'target':
+                    catalog.targets.push(info);
+                    break;
+                case 'pred_source':
+                    catalog.predicateSources.push(info);
+                    break;
+            }
+        }
+
+        for (const row of columnsResult.recordset || []) {
+            events.get(`${row.package_name}.${row.object_name}`)?.fields.push({
+                name: row.name,
+                typeName: row.type_name,
+                description: row.description || ''
+            });
+        }
+
+        return catalog;
+    }
+
+    /**
+     * Attach to an existing server event session without creating, altering or dropping it
+     */
+    public async attachSession(
+        connection: ConnectionInfo,
+        serverSession: ServerEventSessionInfo,
+        target: CaptureTarget
+    ): Promise<ProfilerSession> {
+        if (this.activeSessions.has(serverSession.name)) {
+            throw new Error(`Session '${serverSession.name}' already exists`);
+        }
+
+        try {
+            const databaseLookup = await this.fetchDatabaseList(connection);
+            const store = await this.createEventStore(serverSession.name);
+
+            const session: ProfilerSession = {
+                id: serverSession.name,
+                name: serverSession.name,
+                connection,
+                template: {
+                    name: serverSession.name,
+                    defaultView: 'Standard View',
+                    createStatement: ''
+                },
+                state: SessionState.Stopped,
+                attached: true,
+                events: [],
+                store,
+                captureOptions: {
+                    target,
+                    eventFilePath: serverSession.eventFilePath
+                },
+                databaseLookup,
+                tracksEventSequence: serverSession.tracksEventSequence,
+                lastEventSequence: 0,
+                missedEventCount: 0,
+                createdAt: new Date()
+            };
+
+            this.activeSessions.set(serverSession.name, session);
+
+            vscode.window.showInformationMessage(`Attached to event session '${serverSession.name}'`);
+
+            return session;
+
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            throw new Error(`Failed to attach to event session: ${message}`);
+        }
+    }
+
     /**
      * Start a profiler session
      */
@@ -169,11 +532,14 @@ export class ProfilerService {
         }
 
         try {
-            const startSql = `ALTER EVENT SESSION [${sessionName}] ON ${session.connection.isAzure ? 'DATABASE' : 'SERVER'} STATE = START;`;
+            // Attached sessions are owned by someone else; only start reading from them
+            if (!session.attached) {
+                const startSql = `ALTER EVENT SESSION [${sessionName}] ON ${session.connection.isAzure ? 'DATABASE' : 'SERVER'} STATE = START;`;
 
-            // Execute SQL to start session
-            console.log('Executing SQL:', startSql);
-            await this.executeQuery(session.connection, startSql);
+                // Execute SQL to start session
+                console.log('Executing SQL:', startSql);
+                await this.executeQuery(session.connection, startSql);
+            }
 
             session.state = SessionState.Running;
             session.startedAt = new Date();
@@ -200,6 +566,7 @@ export class ProfilerService {
 
         // Just stop polling, don't stop the XEvent session
         this.stopPolling(sessionName);
+        this.cancelReconnect(session);
         session.state = SessionState.Paused;
 
         vscode.window.showInformationMessage(`Profiler session '${sessionName}' paused`);
@@ -236,12 +603,15 @@ export class ProfilerService {
         try {
             // Stop polling
             this.stopPolling(sessionName);
+            this.cancelReconnect(session);
 
-            const stopSql = `ALTER EVENT SESSION [${sessionName}] ON ${session.connection.isAzure ? 'DATABASE' : 'SERVER'} STATE = STOP;`;
+            if (!session.attached) {
+                const stopSql = `ALTER EVENT SESSION [${sessionName}] ON ${session.connection.isAzure ? 'DATABASE' : 'SERVER'} STATE = STOP;`;
 
-            // Execute SQL to stop session
-            console.log('Executing SQL:', stopSql);
-            await this.executeQuery(session.connection, stopSql);
+                // Execute SQL to stop session
+                console.log('Executing SQL:', stopSql);
+                await this.executeQuery(session.connection, stopSql);
+            }
 
             session.state = SessionState.Stopped;
             session.stoppedAt = new Date();
@@ -269,13 +639,18 @@ export class ProfilerService {
                 await this.stopSession(sessionName);
             }
 
-            const dropSql = `DROP EVENT SESSION [${sessionName}] ON ${session.connection.isAzure ? 'DATABASE' : 'SERVER'};`;
+            // Attached sessions are only detached, never dropped
+            if (!session.attached) {
+                const dropSql = `DROP EVENT SESSION [${sessionName}] ON ${session.connection.isAzure ? 'DATABASE' : 'SERVER'};`;
 
-            // Execute SQL to drop session
-            console.log('Executing SQL:', dropSql);
-            await this.executeQuery(session.connection, dropSql);
+                // Execute SQL to drop session
+                console.log('Executing SQL:', dropSql);
+                await this.executeQuery(session.connection, dropSql);
+            }
 
             this.activeSessions.delete(sessionName);
+            this.unfilteredEvents.delete(sessionName);
+            await session.store.dispose();
 
             vscode.window.showInformationMessage(`Profiler session '${sessionName}' dropped`);
 
@@ -285,6 +660,165 @@ export class ProfilerService {
         }
     }
 
+    /**
+     * Apply a server filter to a session's events by altering their predicates, or restore
+     * the original predicates when filter is undefined
+     * Each event is dropped and added back in the same ALTER statement, so no event stops being collected
+     * The session keeps running, so event_sequence continues across the change
+     */
+    public async applyServerFilter(sessionName: string, filter: ServerFilter | undefined): Promise<void> {
+        const session = this.activeSessions.get(sessionName);
+        if (!session) {
+            throw new Error(`Session '${sessionName}' not found`);
+        }
+        if (session.attached || session.readOnly) {
+            throw new Error(`Session '${sessionName}' is not owned by the profiler and cannot be altered`);
+        }
+
+        try {
+            let originalEvents = this.unfilteredEvents.get(sessionName);
+            if (!originalEvents) {
+                originalEvents = await this.readSessionEvents(session);
+                this.unfilteredEvents.set(sessionName, originalEvents);
+            }
+
+            const clauses = filter?.clauses || [];
+            const altered: SessionEventDefinition[] = [];
+
+            try {
+                for (const event of originalEvents) {
+                    await this.replaceSessionEvent(session, event, clauses);
+                    altered.push(event);
+                }
+            } catch (error) {
+                // Put back the events already changed so the whole session keeps its previous filter
+                const previousClauses = session.serverFilter?.clauses || [];
+                for (const event of altered) {
+                    await this.replaceSessionEvent(session, event, previousClauses);
+                }
+                throw error;
+            }
+
+            session.serverFilter = clauses.length > 0 ? filter : undefined;
+            if (!session.serverFilter) {
+                this.unfilteredEvents.delete(sessionName);
+            }
+
+            vscode.window.showInformationMessage(session.serverFilter
+                ? `Server filter applied to '${sessionName}'`
+                : `Server filter removed from '${sessionName}'`);
+
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            throw new Error(`Failed to apply server filter: ${message}`);
+        }
+    }
+
+    /**
+     * Drop an event from a running session and add it back with the filter clauses, in one statement
+     */
+    private async replaceSessionEvent(session: ProfilerSession, event: SessionEventDefinition, clauses: ServerFilterClause[]): Promise<void> {
+        const scope = `[${session.name}] ON ${session.connection.isAzure ? 'DATABASE' : 'SERVER'}`;
+        const alterSql = `ALTER EVENT SESSION ${scope}\nDROP EVENT ${event.packageName}.${event.name},\n${this.buildAddEventsSql([event], clauses)};`;
+
+        console.log('Executing SQL:', alterSql);
+        await this.executeQuery(session.connection, alterSql);
+    }
+
+    /**
+     * Read the events of a session's definition with their actions, fields, predicate and data columns
+     */
+    private async readSessionEvents(session: ProfilerSession): Promise<SessionEventDefinition[]> {
+        const scope = session.connection.isAzure ? 'database' : 'server';
+        const sessionFilter = `event_session_id = (SELECT event_session_id FROM sys.${scope}_event_sessions WHERE name = N'${session.name.replace(/'/g, "''")}')`;
+
+        const eventsResult = await this.executeQuery(session.connection, `
+SELECT e.event_id, e.package, e.name, CAST(e.predicate AS NVARCHAR(MAX)) AS predicate
+FROM sys.${scope}_event_session_events AS e
+WHERE e.${sessionFilter}
+ORDER BY e.event_id;
+`);
+
+        const actionsResult = await this.executeQuery(session.connection, `
+SELECT a.event_id, a.package, a.name
+FROM sys.${scope}_event_session_actions AS a
+WHERE a.${sessionFilter};
+`);
+
+        const fieldsResult = await this.executeQuery(session.connection, `
+SELECT f.object_id AS event_id, f.name, CAST(f.value AS NVARCHAR(4000)) AS value,
+    CAST(SQL_VARIANT_PROPERTY(f.value, 'BaseType') AS NVARCHAR(128)) AS base_type
+FROM sys.${scope}_event_session_fields AS f
+WHERE f.${sessionFilter}
+    AND f.object_id IN (SELECT event_id FROM sys.${scope}_event_session_events WHERE ${sessionFilter});
+`);
+
+        const columnsResult = await this.executeQuery(session.connection, `
+SELECT e.event_id, c.name
+FROM sys.${scope}_event_session_events AS e
+INNER JOIN sys.dm_xe_packages AS p
+    ON p.name = e.package
+INNER JOIN sys.dm_xe_object_columns AS c
+    ON c.object_package_guid = p.guid
+    AND c.object_name = e.name
+    AND c.column_type = 'data'
+WHERE e.${sessionFilter};
+`);
+
+        const events = new Map<number, SessionEventDefinition>();
+        for (const row of eventsResult.recordset || []) {
+            events.set(row.event_id, {
+                packageName: row.package,
+                name: row.name,
+                predicate: row.predicate || undefined,
+                actions: [],
+                fields: [],
+                dataColumns: []
+            });
+        }
+
+        for (const row of actionsResult.recordset || []) {
+            events.get(row.event_id)?.actions.push(`${row.package}.${row.name}`);
+        }
+        for (const row of fieldsResult.recordset || []) {
+            const isText = /char|text/i.test(row.base_type || '');
+            const value = isText ? `N'${String(row.value).replace(/'/g, "''")}'` : row.value;
+            events.get(row.event_id)?.fields.push(`${row.name}=${value}`);
+        }
+        for (const row of columnsResult.recordset || []) {
+            events.get(row.event_id)?.dataColumns.push(row.name);
+        }
+
+        if (events.size === 0) {
+            throw new Error(`Session '${session.name}' has no events on the server`);
+        }
+
+        return Array.from(events.values());
+    }
+
+    /**
+     * Build the ADD EVENT clauses for a session's events with the filter clauses added to their predicates
+     */
+    private buildAddEventsSql(events: SessionEventDefinition[], clauses: ServerFilterClause[]): string {
+        return events.map(event => {
+            const parts: string[] = [];
+            if (event.fields.length > 0) {
+                parts.push(`SET ${event.fields.join(', ')}`);
+            }
+            if (event.actions.length > 0) {
+                parts.push(`ACTION(${event.actions.join(', ')})`);
+            }
+
+            const predicate = combinePredicates(event.predicate, clauses, event.dataColumns);
+            if (predicate) {
+                parts.push(`WHERE ${predicate}`);
+            }
+
+            const body = parts.length > 0 ? `(\n    ${parts.join('\n    ')}\n)` : '';
+            return `ADD EVENT ${event.packageName}.${event.name}${body}`;
+        }).join(',\n');
+    }
+
     /**
      * Get a session by name
      */
@@ -301,28 +835,158 @@ export class ProfilerService {
             throw new Error(`Session '${sessionName}' not found`);
         }
 
-        // Close existing connection if it exists
+        // Automatic attempts stop once the user reconnects
+        this.cancelReconnect(session);
+
+        // Try to create a new connection
+        try {
+            await this.restoreConnection(session, false);
+            if (session.state === SessionState.Running) {
+                this.startPolling(session);
+            }
+
+            vscode.window.showInformationMessage(`Reconnected to '${sessionName}' successfully`);
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            this.setConnectionStatus(session, { health: 'disconnected', error: message });
+            throw new Error(`Failed to reconnect: ${message}`);
+        }
+    }
+
+    /**
+     * Connect again and make sure the session's server event session still runs
+     * keepHealthyPool reuses the existing pool when it still answers, e.g. when sessions share it
+     */
+    private async restoreConnection(session: ProfilerSession, keepHealthyPool: boolean): Promise<void> {
         const key = session.connection.ownerUri;
-        if (this.connections.has(key)) {
-            const pool = this.connections.get(key);
-            if (pool) {
-                await pool.close();
+        const existingPool = this.connections.get(key);
+
+        let healthy = false;
+        if (existingPool && keepHealthyPool && existingPool.connected) {
+            try {
+                await existingPool.request().query('SELECT 1');
+                healthy = true;
+            } catch {
+                // Replaced below
+            }
+        }
+
+        // Close existing connection if it exists
+        if (existingPool && !healthy) {
+            try {
+                await existingPool.close();
+            } catch (error) {
+                console.error(`Error closing connection ${key}:`, error);
             }
             this.connections.delete(key);
         }
 
-        // Try to create a new connection
-        try {
+        if (!healthy) {
             const pool = await this.getConnection(session.connection);
 
             // Test the connection
             await pool.request().query('SELECT 1');
+        }
 
-            vscode.window.showInformationMessage(`Reconnected to '${sessionName}' successfully`);
-        } catch (error: any) {
-            const message = error?.message || 'Unknown error';
-            throw new Error(`Failed to reconnect: ${message}`);
+        await this.resumeServerSession(session);
+        this.setConnectionStatus(session, { health: 'connected' });
+    }
+
+    /**
+     * Start the session's event session again when the server restarted or it was stopped while disconnected
+     * Reads carry on from the event file offset, and event_sequence is tracked from 1 again
+     */
+    private async resumeServerSession(session: ProfilerSession): Promise<void> {
+        if (session.state !== SessionState.Running) {
+            return;
         }
+
+        const runningSessions = session.connection.isAzure ? 'sys.dm_xe_database_sessions' : 'sys.dm_xe_sessions';
+        const result = await this.executeQuery(
+            session.connection,
+            `SELECT COUNT(*) AS running FROM ${runningSessions} WHERE name = N'${session.name.replace(/'/g, "''")}';`
+        );
+        if (result.recordset?.[0]?.running > 0) {
+            return;
+        }
+
+        // The restarted session numbers its events from 1 again; read the event files it wrote before it stopped
+        // to their end first, so only the files written after the restart are read against the new numbering
+        if (session.captureOptions.target === CaptureTarget.EventFile) {
+            await this.pollEvents(session);
+        }
+
+        // Attached sessions are owned by someone else, who has to start them again
+        if (!session.attached) {
+            const startSql = `ALTER EVENT SESSION [${session.name}] ON ${session.connection.isAzure ? 'DATABASE' : 'SERVER'} STATE = START;`;
+            console.log('Executing SQL:', startSql);
+            await this.executeQuery(session.connection, startSql);
+        }
+
+        resetAfterSessionRestart(session, session.captureOptions.target);
+        console.warn(`Session '${session.name}' was not running on the server after reconnecting; events it missed while stopped are lost`);
+    }
+
+    /**
+     * Stop polling after the connection broke and retry it with exponential backoff
+     */
+    private handleConnectionLost(session: ProfilerSession, error: any): void {
+        console.warn(`Session '${session.name}' lost its connection:`, error);
+        this.stopPolling(session.name);
+        this.scheduleReconnect(session, 1, error?.message || 'Unknown error');
+    }
+
+    private scheduleReconnect(session: ProfilerSession, attempt: number, error: string): void {
+        if (attempt > MAX_RECONNECT_ATTEMPTS) {
+            this.setConnectionStatus(session, { health: 'disconnected', maxAttempts: MAX_RECONNECT_ATTEMPTS, error });
+            return;
+        }
+
+        const delay = getReconnectDelay(attempt);
+        this.setConnectionStatus(session, {
+            health: 'reconnecting',
+            attempt,
+            maxAttempts: MAX_RECONNECT_ATTEMPTS,
+            nextAttemptAt: Date.now() + delay,
+            error
+        });
+
+        const timer = setTimeout(async () => {
+            this.reconnectTimers.delete(session.name);
+            if (!this.activeSessions.has(session.name)) {
+                return;
+            }
+
+            try {
+                await this.restoreConnection(session, true);
+                console.log(`Session '${session.name}' reconnected after ${attempt} attempt(s)`);
+                if (session.state === SessionState.Running) {
+                    this.startPolling(session);
+                }
+            } catch (retryError: any) {
+                console.warn(`Reconnect attempt ${attempt} of session '${session.name}' failed:`, retryError);
+                this.scheduleReconnect(session, attempt + 1, retryError?.message || 'Unknown error');
+            }
+        }, delay);
+
+        this.reconnectTimers.set(session.name, timer);
+    }
+
+    /**
+     * Stop retrying a lost connection, e.g. when the session is paused or stopped
+     */
+    private cancelReconnect(session: ProfilerSession): void {
+        const timer = this.reconnectTimers.get(session.name);
+        if (timer) {
+            clearTimeout(timer);
+            this.reconnectTimers.delete(session.name);
+            this.setConnectionStatus(session, { health: 'disconnected', error: session.connectionStatus?.error });
+        }
+    }
+
+    private setConnectionStatus(session: ProfilerSession, status: ConnectionStatus): void {
+        session.connectionStatus = status;
+        this._onDidChangeConnectionStatus.fire(session);
     }
 
     /**
@@ -335,14 +999,27 @@ export class ProfilerService {
     /**
      * Build the CREATE EVENT SESSION SQL statement
      */
-    private buildCreateSessionSql(sessionName: string, template: ProfilerSessionTemplate, isAzure: boolean): string {
+    private buildCreateSessionSql(
+        sessionName: string,
+        template: ProfilerSessionTemplate,
+        isAzure: boolean,
+        captureOptions: CaptureOptions
+    ): string {
         let sql = template.createStatement.replace(/\{sessionName\}/g, sessionName);
 
+        if (captureOptions.planCapture && captureOptions.planCapture !== PlanCapture.None) {
+            sql = this.addPlanEvent(sql, captureOptions.planCapture);
+        }
+
+        if (captureOptions.target === CaptureTarget.EventFile) {
+            sql = this.addEventFileTarget(sql, sessionName, captureOptions);
+        }
+
         // Drop existing session if it exists
         const dropSql = `
 IF EXISTS (
     SELECT * FROM sys.${isAzure ? 'database' : 'server'}_event_sessions
-    WHERE name = '${sessionName}'
+    WHERE name = N'${sessionName.replace(/'/g, "''")}'
 )
 BEGIN
     DROP EVENT SESSION [${sessionName}] ON ${isAzure ? 'DATABASE' : 'SERVER'};
@@ -352,15 +1029,86 @@ END
         return dropSql + '\n' + sql;
     }
 
+    /**
+     * Add a plan event to a CREATE EVENT SESSION statement
+     * Causality tracking is turned on so plans can be matched to their statements by attach_activity_id
+     */
+    private addPlanEvent(createSql: string, planCapture: PlanCapture): string {
+        let sql = createSql;
+
+        if (!new RegExp(`ADD\\s+EVENT\\s+sqlserver\\.${planCapture}\\b`, 'i').test(sql)) {
+            const planEvent = `ADD EVENT sqlserver.${planCapture}(ACTION(${PLAN_EVENT_ACTIONS.join(',')}))`;
+            const firstTarget = sql.search(/ADD\s+TARGET/i);
+            const withClause = sql.search(/\sWITH\s*\(/i);
+            const insertAt = firstTarget >= 0 ? firstTarget : withClause >= 0 ? withClause + 1 : sql.length;
+            sql = `${sql.substring(0, insertAt).trimEnd()}, ${planEvent} ${sql.substring(insertAt)}`.trimEnd();
+        }
+
+        if (/TRACK_CAUSALITY\s*=\s*OFF/i.test(sql)) {
+            return sql.replace(/TRACK_CAUSALITY\s*=\s*OFF/i, 'TRACK_CAUSALITY=ON');
+        }
+        if (/TRACK_CAUSALITY/i.test(sql)) {
+            return sql;
+        }
+        return /\sWITH\s*\(/i.test(sql)
+            ? sql.replace(/\sWITH\s*\(/i, ' WITH (TRACK_CAUSALITY=ON,')
+            : `${sql} WITH (TRACK_CAUSALITY=ON)`;
+    }
+
+    /**
+     * Add a package0.event_file target to a CREATE EVENT SESSION statement
+     * The ring_buffer target (if any) is kept so the session can still be inspected in SSMS
+     */
+    private addEventFileTarget(createSql: string, sessionName: string, captureOptions: CaptureOptions): string {
+        const filePath = (captureOptions.eventFilePath || sessionName).replace(/\.xel$/i, '');
+        const maxFileSize = captureOptions.maxFileSizeMb ?? 100;
+        const maxRollover = captureOptions.maxRolloverFiles ?? 5;
+
+        const fileTarget = `ADD TARGET package0.event_file(SET filename=N'${filePath.replace(/'/g, "''")}.xel',` +
+            `max_file_size=(${maxFileSize}),max_rollover_files=(${maxRollover}))`;
+
+        if (/ADD\s+TARGET\s+package0\.event_file/i.test(createSql)) {
+            return createSql;
+        }
+
+        const firstTarget = createSql.search(/ADD\s+TARGET/i);
+        if (firstTarget >= 0) {
+            return `${createSql.substring(0, firstTarget)}${fileTarget}, ${createSql.substring(firstTarget)}`;
+        }
+
+        const withClause = createSql.search(/\sWITH\s*\(/i);
+        if (withClause >= 0) {
+            return `${createSql.substring(0, withClause)} ${fileTarget}${createSql.substring(withClause)}`;
+        }
+
+        return `${createSql} ${fileTarget}`;
+    }
+
     /**
      * Start polling for profiler events
      */
     private startPolling(session: ProfilerSession): void {
+        if (this.pollingIntervals.has(session.name)) {
+            return;
+        }
+
         const interval = setInterval(async () => {
+            // Overlapping reads of an event file would both start from the same offset
+            if (this.pollsInProgress.has(session.name)) {
+                return;
+            }
+
+            this.pollsInProgress.add(session.name);
             try {
                 await this.pollEvents(session);
             } catch (error) {
-                console.error('Error polling profiler events:', error);
+                if (isConnectionLost(error) && this.pollingIntervals.get(session.name) === interval) {
+                    this.handleConnectionLost(session, error);
+                } else {
+                    console.error('Error polling profiler events:', error);
+                }
+            } finally {
+                this.pollsInProgress.delete(session.name);
             }
         }, this.POLLING_INTERVAL);
 
@@ -379,163 +1127,204 @@ END
     }
 
     /**
-     * Poll for new profiler events from the ring buffer
+     * Check whether every event of a CREATE EVENT SESSION statement collects the package0.event_sequence action
+     * Events without it could not be placed against the high-water mark and would never be read
+     */
+    private statementTracksEventSequence(createSql: string): boolean {
+        const events = createSql.split(/\bADD\s+EVENT\b/i).slice(1)
+            .map(event => event.split(/\bADD\s+TARGET\b/i)[0]);
+
+        return events.length > 0 && events.every(event => /\bpackage0\.event_sequence\b/i.test(event));
+    }
+
+    /**
+     * FROM clause joining running sessions to their targets
+     */
+    private getTargetSource(isAzure: boolean): string {
+        return isAzure
+            ? `sys.dm_xe_database_session_targets AS t
+    INNER JOIN sys.dm_xe_database_sessions AS s
+        ON s.name = t.session_name`
+            : `sys.dm_xe_session_targets AS t
+    INNER JOIN sys.dm_xe_sessions AS s
+        ON s.address = t.event_session_address`;
+    }
+
+    /**
+     * Build the query that reads new events from the ring buffer
+     * When the session tracks event_sequence, only events above the high-water mark
+     * are shredded server-side and sent back
+     */
+    private buildRingBufferQuery(session: ProfilerSession): string {
+        const targetSource = this.getTargetSource(session.connection.isAzure);
+
+        const eventFilter = session.tracksEventSequence
+            ? '[action[@name="event_sequence"]/value > sql:variable("@lastSequence")]'
+            : '';
+
+        return `
+DECLARE @lastSequence BIGINT = ${Math.floor(session.lastEventSequence)};
+DECLARE @target XML = (
+    SELECT TOP (1) CAST(t.target_data AS XML)
+    FROM ${targetSource}
+    WHERE s.name = N'${session.name.replace(/'/g, "''")}'
+        AND t.target_name = 'ring_buffer'
+);
+SELECT
+    @target.value('(/RingBufferTarget/@droppedCount)[1]', 'bigint') AS dropped_count,
+    CAST(@target.query('<RingBufferTarget>{ /RingBufferTarget/event${eventFilter} }</RingBufferTarget>') AS NVARCHAR(MAX)) AS event_data;
+`;
+    }
+
+    /**
+     * Poll for new profiler events from the session's capture target
      */
     private async pollEvents(session: ProfilerSession): Promise<void> {
         try {
-            // Different query structure for SQL Server vs Azure SQL
-            let querySql: string;
-
-            if (session.connection.isAzure) {
-                // Azure SQL Database
-                querySql = `
-SELECT CAST(target_data AS XML) AS event_data
-FROM sys.dm_xe_database_session_targets AS t
-INNER JOIN sys.dm_xe_database_sessions AS s
-    ON s.name = t.session_name
-WHERE s.name = '${session.name}'
-    AND t.target_name = 'ring_buffer';
-`;
-            } else {
-                // SQL Server
-                querySql = `
-SELECT CAST(target_data AS XML) AS event_data
-FROM sys.dm_xe_session_targets AS t
-INNER JOIN sys.dm_xe_sessions AS s
-    ON s.address = t.event_session_address
-WHERE s.name = '${session.name}'
-    AND t.target_name = 'ring_buffer';
-`;
+            const newEvents = session.captureOptions.target === CaptureTarget.EventFile
+                ? await this.readEventFile(session)
+                : await this.readRingBuffer(session);
+
+            if (newEvents.length > 0) {
+                // Every event goes to the store; the in-memory array only keeps the most recent ones
+                await session.store.append(newEvents);
+                console.log('Total events in session:', session.store.count);
+
+                // Append in chronological order; a loop avoids spreading large batches as call arguments
+                for (const event of newEvents) {
+                    session.events.push(event);
+                }
+
+                // Limit in-memory events to maxEvents setting, dropping the oldest
+                const config = vscode.workspace.getConfiguration('mssql-profiler');
+                const maxEvents = config.get<number>('maxEvents', 1000);
+
+                if (session.events.length > maxEvents) {
+                    session.events.splice(0, session.events.length - maxEvents);
+                }
             }
 
-            // Execute SQL to poll events
-            const result = await this.executeQuery(session.connection, querySql);
+        } catch (error) {
+            // A broken connection is handled by the poll loop, which reconnects
+            if (isConnectionLost(error)) {
+                throw error;
+            }
+            console.error('Error querying profiler events:', error);
+        }
+    }
 
-            console.log('Poll result:', {
-                hasRecordset: !!result.recordset,
-                recordsetLength: result.recordset?.length,
-                hasData: result.recordset && result.recordset.length > 0
-            });
+    /**
+     * Read events that are new since the last poll from the ring buffer
+     */
+    private async readRingBuffer(session: ProfilerSession): Promise<ProfilerEvent[]> {
+        const querySql = this.buildRingBufferQuery(session);
+        const result = await this.executeQuery(session.connection, querySql);
 
-            if (result.recordset && result.recordset.length > 0) {
-                const xmlData = result.recordset[0].event_data;
-                console.log('XML data type:', typeof xmlData, 'Length:', xmlData?.length || 0);
+        countDroppedEvents(session, Number(result.recordset?.[0]?.dropped_count) || 0);
 
-                if (xmlData) {
-                    const newEvents = this.parseXEventData(xmlData, session.databaseLookup);
-                    console.log('Parsed events:', newEvents.length);
+        const xmlData = result.recordset?.[0]?.event_data;
+        if (!xmlData) {
+            return [];
+        }
 
-                    // Add only new events (compare by timestamp to avoid duplicates)
-                    const existingTimestamps = new Set(session.events.map(e => e.timestamp));
-                    const uniqueNewEvents = newEvents.filter(e => !existingTimestamps.has(e.timestamp));
+        const parsedEvents = this.parseXEventData(xmlData, session.databaseLookup);
+        return session.tracksEventSequence
+            ? takeEventsAfterHighWaterMark(session, parsedEvents)
+            : takeUnseenEvents(session, parsedEvents);
+    }
 
-                    console.log('Unique new events:', uniqueNewEvents.length);
+    /**
+     * Resolve the wildcard path of a session's event files from its running target
+     * e.g. C:\Data\Log\ADS_Standard_0_133456789.xel becomes C:\Data\Log\ADS_Standard*.xel
+     */
+    private async resolveEventFilePattern(session: ProfilerSession): Promise<string | undefined> {
+        const targetSource = this.getTargetSource(session.connection.isAzure);
+
+        const querySql = `
+SELECT CAST(t.target_data AS XML).value('(/EventFileTarget/File/@name)[1]', 'nvarchar(4000)') AS file_name
+FROM ${targetSource}
+WHERE s.name = N'${session.name.replace(/'/g, "''")}'
+    AND t.target_name = 'event_file';
+`;
 
-                    if (uniqueNewEvents.length > 0) {
-                        // Add new events to the beginning (reverse chronological order)
-                        session.events.unshift(...uniqueNewEvents);
-                        console.log('Total events in session:', session.events.length);
+        const result = await this.executeQuery(session.connection, querySql);
+        const fileName: string | undefined = result.recordset?.[0]?.file_name;
+        if (!fileName) {
+            return undefined;
+        }
 
-                        // Limit events to maxEvents setting
-                        const config = vscode.workspace.getConfiguration('mssql-profiler');
-                        const maxEvents = config.get<number>('maxEvents', 1000);
+        return fileName.replace(/_\d+_\d+\.xel$/i, '*.xel');
+    }
 
-                        if (session.events.length > maxEvents) {
-                            session.events = session.events.slice(-maxEvents);
-                        }
-                    }
-                }
+    /**
+     * Tail the event_file target from the last file_name/file_offset watermark
+     */
+    private async readEventFile(session: ProfilerSession): Promise<ProfilerEvent[]> {
+        if (!session.eventFilePattern) {
+            // Stopped sessions have no running target; fall back to the configured file name
+            const configuredPath = session.captureOptions.eventFilePath;
+            session.eventFilePattern = await this.resolveEventFilePattern(session)
+                ?? (configuredPath ? configuredPath.replace(/\.xel$/i, '') + '*.xel' : undefined);
+            if (!session.eventFilePattern) {
+                return [];
+            }
+        }
+
+        const escape = (value: string) => value.replace(/'/g, "''");
+        const watermark = session.eventFileWatermark;
+        const startArguments = watermark
+            ? `N'${escape(watermark.fileName)}', ${Math.floor(watermark.fileOffset)}`
+            : 'NULL, NULL';
+
+        const querySql = `
+SELECT CAST(event_data AS NVARCHAR(MAX)) AS event_data, file_name, file_offset
+FROM sys.fn_xe_file_target_read_file(N'${escape(session.eventFilePattern)}', NULL, ${startArguments});
+`;
+
+        const result = await this.executeQuery(session.connection, querySql);
+        const rows = result.recordset || [];
+        if (rows.length === 0) {
+            return [];
+        }
+
+        // Each row holds a single <event> document; parse them as one stream
+        const parser = new XEventParser();
+        for (const row of rows) {
+            if (row.event_data) {
+                parser.write(row.event_data);
             }
+        }
+
+        const lastRow = rows[rows.length - 1];
+        session.eventFileWatermark = {
+            fileName: lastRow.file_name,
+            fileOffset: Number(lastRow.file_offset)
+        };
 
+        let parsedEvents: ProfilerEvent[] = [];
+        try {
+            parsedEvents = parser.end().events;
+            this.resolveDatabaseNames(parsedEvents, session.databaseLookup);
         } catch (error) {
-            console.error('Error querying profiler events:', error);
+            console.error('Error parsing event_file data:', error);
         }
+
+        return session.tracksEventSequence
+            ? takeEventsAfterHighWaterMark(session, parsedEvents)
+            : parsedEvents;
     }
 
     /**
      * Parse XEvent XML data into ProfilerEvent objects
      */
     private parseXEventData(xmlData: string, databaseLookup: Map<number, string>): ProfilerEvent[] {
-        const events: ProfilerEvent[] = [];
+        let events: ProfilerEvent[] = [];
 
         try {
-            // Match events with correct pattern: <event name="..." package="..." timestamp="...">
-            const eventMatches = xmlData.match(/<event name="([^"]+)"[^>]*?timestamp="([^"]+)"[^>]*?>(.*?)<\/event>/gs);
-
-            if (eventMatches) {
-                console.log('Found', eventMatches.length, 'events to parse');
-
-                for (const match of eventMatches) {
-                    // Extract event name and timestamp
-                    const nameMatch = match.match(/<event name="([^"]+)"/);
-                    const timestampMatch = match.match(/timestamp="([^"]+)"/);
-
-                    if (nameMatch && timestampMatch) {
-                        const event: ProfilerEvent = {
-                            name: nameMatch[1],
-                            timestamp: timestampMatch[1],
-                            values: {}
-                        };
-
-                        // Parse data fields: <data name="..."><value>...</value></data>
-                        // Note: Use [\s\S] to match multi-line values
-                        const dataMatches = match.matchAll(/<data name="([^"]+)"[^>]*?>[\s\S]*?<value>([\s\S]*?)<\/value>/g);
-                        for (const dataMatch of dataMatches) {
-                            const fieldName = dataMatch[1];
-                            let fieldValue = dataMatch[2];
-
-                            // Clean up the value (trim whitespace)
-                            fieldValue = fieldValue.trim();
-
-                            event.values[fieldName] = fieldValue;
-                        }
-
-                        // Parse action fields: <action name="..."><value>...</value></action>
-                        const actionMatches = match.matchAll(/<action name="([^"]+)"[^>]*?>[\s\S]*?<value>([\s\S]*?)<\/value>/g);
-                        for (const actionMatch of actionMatches) {
-                            const fieldName = actionMatch[1];
-                            let fieldValue = actionMatch[2];
-
-                            fieldValue = fieldValue.trim();
-
-                            event.values[fieldName] = fieldValue;
-                        }
-
-                        // Parse text fields: <text>...</text> (for additional text like status)
-                        // Note: Don't overwrite existing values
-                        const textMatches = match.matchAll(/<data name="([^"]+)"[^>]*?>[\s\S]*?<text>([\s\S]*?)<\/text>/g);
-                        for (const textMatch of textMatches) {
-                            const fieldName = textMatch[1] + '_text';
-                            event.values[fieldName] = textMatch[2].trim();
-                        }
-
-                        // If database_name is not present but database_id is, look it up
-                        if (!event.values['database_name'] && event.values['database_id']) {
-                            const dbId = parseInt(event.values['database_id']);
-                            if (!isNaN(dbId) && databaseLookup.has(dbId)) {
-                                event.values['database_name'] = databaseLookup.get(dbId);
-                            }
-                        }
-
-                        events.push(event);
-                    }
-                }
-
-                console.log('Successfully parsed', events.length, 'events');
-                if (events.length > 0) {
-                    console.log('Sample event:', {
-                        name: events[0].name,
-                        timestamp: events[0].timestamp,
-                        fields: Object.keys(events[0].values),
-                        database_name: events[0].values['database_name'],
-                        database_id: events[0].values['database_id'],
-                        client_app_name: events[0].values['client_app_name']
-                    });
-                }
-            } else {
-                console.log('No events matched pattern');
-            }
+            events = XEventParser.parse(xmlData).events;
+            this.resolveDatabaseNames(events, databaseLookup);
 
+            console.log('Successfully parsed', events.length, 'events');
         } catch (error) {
             console.error('Error parsing XEvent data:', error);
         }
@@ -543,6 +1332,20 @@ WHERE s.name = '${session.name}'
         return events;
     }
 
+    /**
+     * Fill in database_name from database_id for events that don't carry the name
+     */
+    private resolveDatabaseNames(events: ProfilerEvent[], databaseLookup: Map<number, string>): void {
+        for (const event of events) {
+            if (!event.values['database_name'] && event.values['database_id'] !== undefined) {
+                const dbId = Number(event.values['database_id']);
+                if (!isNaN(dbId) && databaseLookup.has(dbId)) {
+                    event.values['database_name'] = databaseLookup.get(dbId);
+                }
+            }
+        }
+    }
+
     /**
      * Dispose of all resources
      */
@@ -551,6 +1354,10 @@ WHERE s.name = '${session.name}'
         for (const sessionName of this.pollingIntervals.keys()) {
             this.stopPolling(sessionName);
         }
+        for (const timer of this.reconnectTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.reconnectTimers.clear();
 
         // Close all connections
         for (const [key, pool] of this.connections.entries()) {
@@ -562,6 +1369,31 @@ WHERE s.name = '${session.name}'
         }
 
         this.connections.clear();
+
+        // Remove the event store files
+        for (const session of this.activeSessions.values()) {
+            await session.store.dispose();
+        }
         this.activeSessions.clear();
     }
 }
+
+/**
+ * Whether a query failed because the connection to the server broke, rather than because of the query
+ */
+function isConnectionLost(error: any): boolean {
+    return error?.name === 'ConnectionError' || CONNECTION_LOST_CODES.includes(error?.code);
+}
+
+/**
+ * Whether a process is still running; signal 0 only checks that it can be signalled
+ */
+function isProcessRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        // EPERM: the process exists but belongs to another user
+        return error?.code === 'EPERM';
+    }
+}
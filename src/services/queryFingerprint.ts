@@ -0,0 +1,63 @@
+import { ProfilerEvent } from '../models/profilerTypes';
+
+/** Fields holding the text of a statement, in order of preference */
+const QUERY_TEXT_FIELDS = ['statement', 'batch_text'];
+
+/**
+ * String literals, comments, bracketed identifiers, binary literals, numbers and whitespace
+ * Bracketed identifiers are matched so their contents are left alone
+ */
+const QUERY_TOKEN = /((?:\bN)?'(?:[^']|'')*'?)|(--[^\r\n]*|\/\*[\s\S]*?\*\/)|(\[[^\]]*\]?)|(\b0x[0-9a-f]*)|(\b\d+(?:\.\d*)?(?:e[+-]?\d+)?\b|\.\d+\b)|(\s+)/gi;
+
+/** Statement passed to sp_executesql, which holds the query while the call only holds parameter values */
+const EXECUTESQL = /^exec(?:ute)?\s+(?:(?:\[?sys\]?\.)?\[?sp_executesql\]?)\s+N?'((?:[^']|'')*)'/i;
+
+/**
+ * Normalize a statement so executions that differ only in literal and parameter values compare equal:
+ * literals become ?, lists of literals collapse to (?), comments are removed, whitespace is collapsed
+ * (and dropped around operators and parentheses) and the text is lowercased. sp_executesql calls are reduced to the statement they execute
+ */
+export function normalizeQueryText(text: string): string {
+    const executeSql = EXECUTESQL.exec(text.trim());
+    const sql = executeSql ? executeSql[1].replace(/''/g, '\'') : text;
+
+    return sql
+        .replace(QUERY_TOKEN, (match, literal, comment, identifier, binary, number) => {
+            if (literal || binary || number) {
+                return '?';
+            }
+            if (identifier) {
+                return match;
+            }
+            return ' ';
+        })
+        .replace(/\(\s*\?(?:\s*,\s*\?)*\s*\)/g, '(?)')
+        .replace(/\(\?\)(?:\s*,\s*\(\?\))+/g, '(?)')
+        .replace(/\s+/g, ' ')
+        .replace(/\s*([=<>!,()])\s*/g, '$1')
+        .replace(/\)(?=\w)/g, ') ')
+        .replace(/\s*;\s*$/, '')
+        .trim()
+        .toLowerCase();
+}
+
+/**
+ * Fingerprint grouping the executions of a query: its normalized statement or batch text,
+ * or its query_hash when the event carries no text
+ */
+export function getQueryFingerprint(event: ProfilerEvent): { fingerprint: string; text: string } | undefined {
+    for (const field of QUERY_TEXT_FIELDS) {
+        const value = event.values[field];
+        if (typeof value === 'string' && value.trim()) {
+            const text = normalizeQueryText(value);
+            return { fingerprint: `text:${text}`, text };
+        }
+    }
+
+    const queryHash = event.values['query_hash'];
+    if (queryHash !== undefined && queryHash !== null && queryHash !== '' && String(queryHash) !== '0') {
+        return { fingerprint: `hash:${queryHash}`, text: `query_hash ${queryHash}` };
+    }
+
+    return undefined;
+}
@@ -0,0 +1,15 @@
+/** Delay before the first reconnect attempt; each further attempt waits twice as long */
+const RECONNECT_BASE_DELAY = 1000;
+
+/** Longest wait between reconnect attempts */
+const RECONNECT_MAX_DELAY = 60000;
+
+/** Reconnect attempts made before giving up, about five minutes */
+export const MAX_RECONNECT_ATTEMPTS = 10;
+
+/**
+ * Milliseconds to wait before a reconnect attempt, counting attempts from 1
+ */
+export function getReconnectDelay(attempt: number): number {
+    return Math.min(RECONNECT_BASE_DELAY * Math.pow(2, attempt - 1), RECONNECT_MAX_DELAY);
+}
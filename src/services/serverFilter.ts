@@ -0,0 +1,191 @@
+import { EventQuery, ServerFilter, ServerFilterClause } from '../models/profilerTypes';
+import { FilterNode, FilterValue, parseFilter } from './filterExpression';
+
+/** Grid fields that can be filtered on the server, mapped to their XEvent predicate source */
+const PREDICATE_SOURCES = new Map<string, string>([
+    ['database_name', '[sqlserver].[database_name]'],
+    ['client_app_name', '[sqlserver].[client_app_name]'],
+    ['server_principal_name', '[sqlserver].[server_principal_name]'],
+    ['login_name', '[sqlserver].[server_principal_name]'],
+    ['username', '[sqlserver].[username]'],
+    ['nt_username', '[sqlserver].[nt_user]']
+]);
+
+/** Numeric event data columns that can be filtered on the server */
+const EVENT_FIELDS = ['duration'];
+
+interface TranslatedPredicate {
+    predicate: string;
+    /** Event data columns read by the predicate */
+    eventFields: Set<string>;
+}
+
+/**
+ * Translate the grid's database filter and the database, app, login and duration conditions
+ * of its filter expression into XEvent predicate clauses
+ * Only top-level AND terms are translated; anything else is reported in skipped
+ */
+export function buildServerFilter(query: EventQuery): ServerFilter {
+    const clauses: ServerFilterClause[] = [];
+    const skipped: string[] = [];
+
+    if (query.databases.length > 0) {
+        clauses.push({
+            predicate: query.databases.map(db => `${PREDICATE_SOURCES.get('database_name')}=${toUnicodeString(db)}`).join(' OR ')
+        });
+    }
+    if (query.eventTypes.length > 0) {
+        skipped.push(`Event types: ${query.eventTypes.join(', ')}`);
+    }
+    if (query.textSearch) {
+        skipped.push(`Text search: '${query.textSearch}'`);
+    }
+
+    const node = parseFilter(query.expression || '');
+    for (const term of node ? splitAnd(node) : []) {
+        const translated = translate(term);
+        if (translated && translated.eventFields.size <= 1) {
+            clauses.push({
+                predicate: translated.predicate,
+                eventField: Array.from(translated.eventFields)[0]
+            });
+        } else {
+            skipped.push(formatNode(term));
+        }
+    }
+
+    return { clauses, skipped };
+}
+
+/**
+ * Predicate for one event: its own predicate combined with the clauses that apply to it
+ */
+export function combinePredicates(basePredicate: string | undefined, clauses: ServerFilterClause[], eventFields: string[]): string {
+    const parts = clauses
+        .filter(clause => !clause.eventField || eventFields.includes(clause.eventField))
+        .map(clause => clause.predicate);
+
+    if (basePredicate) {
+        parts.unshift(basePredicate);
+    }
+
+    return parts.length > 1 ? parts.map(part => `(${part})`).join(' AND ') : parts[0] || '';
+}
+
+function splitAnd(node: FilterNode): FilterNode[] {
+    return node.kind === 'and' ? [...splitAnd(node.left), ...splitAnd(node.right)] : [node];
+}
+
+function translate(node: FilterNode): TranslatedPredicate | undefined {
+    switch (node.kind) {
+        case 'and':
+        case 'or': {
+            const left = translate(node.left);
+            const right = translate(node.right);
+            if (!left || !right) {
+                return undefined;
+            }
+            return {
+                predicate: `(${left.predicate}) ${node.kind.toUpperCase()} (${right.predicate})`,
+                eventFields: new Set([...left.eventFields, ...right.eventFields])
+            };
+        }
+        case 'not': {
+            const operand = translate(node.operand);
+            return operand ? { predicate: `NOT (${operand.predicate})`, eventFields: operand.eventFields } : undefined;
+        }
+        case 'in': {
+            const source = PREDICATE_SOURCES.get(node.field.toLowerCase());
+            if (!source || node.values.some(value => value.type !== 'string')) {
+                return undefined;
+            }
+            return {
+                predicate: node.values.map(value => `${source}=${toUnicodeString(String(value.value))}`).join(' OR '),
+                eventFields: new Set()
+            };
+        }
+        case 'compare': {
+            const field = node.field.toLowerCase();
+            const source = PREDICATE_SOURCES.get(field);
+
+            if (source && (node.value.type === 'string' || node.value.type === 'like')) {
+                const text = node.value.type === 'like' ? node.value.pattern : node.value.value;
+                const predicate = translateStringComparison(source, node.operator, text);
+                return predicate ? { predicate, eventFields: new Set() } : undefined;
+            }
+
+            if (EVENT_FIELDS.includes(field) && node.value.type === 'number' && ['=', '!=', '>', '>=', '<', '<='].includes(node.operator)) {
+                const operator = node.operator === '!=' ? '<>' : node.operator;
+                return { predicate: `[${field}]${operator}(${Math.round(node.value.value)})`, eventFields: new Set([field]) };
+            }
+
+            return undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+function translateStringComparison(source: string, operator: string, text: string): string | undefined {
+    const like = (pattern: string) => `[sqlserver].[like_i_sql_unicode_string](${source},${toUnicodeString(pattern)})`;
+
+    switch (operator) {
+        case '=':
+            return `${source}=${toUnicodeString(text)}`;
+        case '!=':
+            return `${source}<>${toUnicodeString(text)}`;
+        case 'LIKE':
+            return like(text);
+        case 'CONTAINS':
+            return like(`%${escapeLike(text)}%`);
+        case 'STARTSWITH':
+            return like(`${escapeLike(text)}%`);
+        case 'ENDSWITH':
+            return like(`%${escapeLike(text)}`);
+        default:
+            return undefined;
+    }
+}
+
+function toUnicodeString(value: string): string {
+    return `N'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Match LIKE wildcards literally
+ */
+function escapeLike(value: string): string {
+    return value.replace(/[[%_]/g, '[$&]');
+}
+
+/**
+ * Expression text of a filter node, for describing filters that were not translated
+ */
+function formatNode(node: FilterNode): string {
+    switch (node.kind) {
+        case 'and':
+        case 'or':
+            return `(${formatNode(node.left)} ${node.kind.toUpperCase()} ${formatNode(node.right)})`;
+        case 'not':
+            return `NOT ${formatNode(node.operand)}`;
+        case 'in':
+            return `${node.field} IN (${node.values.map(formatValue).join(', ')})`;
+        case 'null':
+            return `${node.field} IS NULL`;
+        case 'compare':
+            return `${node.field} ${node.operator} ${formatValue(node.value)}`;
+    }
+}
+
+function formatValue(value: FilterValue): string {
+    switch (value.type) {
+        case 'number':
+            return String(value.value);
+        case 'string':
+            return `'${value.value}'`;
+        case 'like':
+            return `'${value.pattern}'`;
+        case 'regex':
+            return String(value.value);
+    }
+}
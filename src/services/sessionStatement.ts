@@ -0,0 +1,197 @@
+/**
+ * Token at the top level of a statement: a word (keyword or name), a parenthesized group, or punctuation
+ */
+interface StatementToken {
+    kind: 'word' | 'group' | ',' | ';';
+    text: string;
+}
+
+/** Session name placeholder that templates must use */
+const SESSION_NAME_PLACEHOLDER = '[{sessionName}]';
+
+/**
+ * Check that a template's createStatement is a single CREATE EVENT SESSION statement
+ * Templates are run as they are, so anything after the session definition (another statement after
+ * a ; or without one, or a GO batch) would run with the permissions of whoever starts the session
+ * Returns a description of the problem, or undefined when the statement is acceptable
+ */
+export function validateCreateSessionStatement(statement: string): string | undefined {
+    let tokens: StatementToken[];
+    try {
+        tokens = tokenizeTopLevel(statement);
+    } catch (error: any) {
+        return error.message;
+    }
+
+    const word = (index: number) => tokens[index]?.kind === 'word' ? tokens[index].text.toUpperCase() : undefined;
+    const describe = (index: number) => tokens[index].kind === 'group' ? '(...)' : tokens[index].text;
+
+    if (word(0) !== 'CREATE' || word(1) !== 'EVENT' || word(2) !== 'SESSION' ||
+        tokens[3]?.text !== SESSION_NAME_PLACEHOLDER || word(4) !== 'ON' || (word(5) !== 'SERVER' && word(5) !== 'DATABASE')) {
+        return `must start with CREATE EVENT SESSION ${SESSION_NAME_PLACEHOLDER} ON SERVER|DATABASE`;
+    }
+
+    // ADD EVENT / ADD TARGET clauses, each a name with an optional parenthesized body
+    let index = 6;
+    let events = 0;
+    while (word(index) === 'ADD') {
+        const clause = word(index + 1);
+        if (clause !== 'EVENT' && clause !== 'TARGET') {
+            return `expected EVENT or TARGET after ADD`;
+        }
+        if (tokens[index + 2]?.kind !== 'word') {
+            return `expected the name of the ${clause.toLowerCase()} after ADD ${clause}`;
+        }
+        if (clause === 'EVENT') {
+            events++;
+        }
+        index += 3;
+
+        if (tokens[index]?.kind === 'group') {
+            index++;
+        }
+        if (tokens[index]?.kind === ',') {
+            index++;
+        }
+    }
+
+    if (events === 0) {
+        return 'must add at least one event';
+    }
+
+    if (word(index) === 'WITH') {
+        if (tokens[index + 1]?.kind !== 'group') {
+            return 'expected session options in parentheses after WITH';
+        }
+        index += 2;
+    }
+
+    if (tokens[index]?.kind === ';') {
+        index++;
+    }
+
+    if (index < tokens.length) {
+        return `must hold a single CREATE EVENT SESSION statement; found '${describe(index)}' after the session definition`;
+    }
+
+    return undefined;
+}
+
+/**
+ * Split a statement into its top-level tokens
+ * Comments are dropped; strings, bracketed or quoted identifiers and parenthesized groups are kept whole
+ */
+function tokenizeTopLevel(statement: string): StatementToken[] {
+    const tokens: StatementToken[] = [];
+    let depth = 0;
+    let groupStart = 0;
+    let word = '';
+    let index = 0;
+
+    const endWord = () => {
+        if (word) {
+            tokens.push({ kind: 'word', text: word });
+            word = '';
+        }
+    };
+
+    while (index < statement.length) {
+        const char = statement[index];
+
+        if (char === '-' && statement[index + 1] === '-') {
+            endWord();
+            const end = statement.indexOf('\n', index);
+            index = end < 0 ? statement.length : end + 1;
+            continue;
+        }
+
+        if (char === '/' && statement[index + 1] === '*') {
+            endWord();
+            index = skipBlockComment(statement, index);
+            continue;
+        }
+
+        if (char === '\'' || char === '"' || char === '[') {
+            const end = skipQuoted(statement, index, char === '[' ? ']' : char);
+            if (depth === 0) {
+                word += statement.substring(index, end);
+            }
+            index = end;
+            continue;
+        }
+
+        if (char === '(') {
+            if (depth === 0) {
+                endWord();
+                groupStart = index;
+            }
+            depth++;
+        } else if (char === ')') {
+            if (depth === 0) {
+                throw new Error(`unmatched ')' at offset ${index}`);
+            }
+            depth--;
+            if (depth === 0) {
+                tokens.push({ kind: 'group', text: statement.substring(groupStart, index + 1) });
+            }
+        } else if (depth === 0) {
+            if (char === ',' || char === ';') {
+                endWord();
+                tokens.push({ kind: char, text: char });
+            } else if (/\s/.test(char)) {
+                endWord();
+            } else {
+                word += char;
+            }
+        }
+
+        index++;
+    }
+
+    if (depth > 0) {
+        throw new Error(`unclosed '(' at offset ${groupStart}`);
+    }
+    endWord();
+
+    return tokens;
+}
+
+/**
+ * Index just past a string or identifier, where a doubled closing character is an escaped one
+ */
+function skipQuoted(statement: string, start: number, close: string): number {
+    let index = start + 1;
+    while (index < statement.length) {
+        if (statement[index] === close) {
+            if (statement[index + 1] !== close) {
+                return index + 1;
+            }
+            index++;
+        }
+        index++;
+    }
+    throw new Error(`unclosed ${statement[start]} at offset ${start}`);
+}
+
+/**
+ * Index just past a block comment; T-SQL block comments nest
+ */
+function skipBlockComment(statement: string, start: number): number {
+    let depth = 0;
+    let index = start;
+    while (index < statement.length) {
+        if (statement.startsWith('/*', index)) {
+            depth++;
+            index += 2;
+        } else if (statement.startsWith('*/', index)) {
+            depth--;
+            index += 2;
+            if (depth === 0) {
+                return index;
+            }
+        } else {
+            index++;
+        }
+    }
+    throw new Error(`unclosed comment at offset ${start}`);
+}
@@ -1,45 +1,452 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ProfilerSessionTemplate } from '../models/profilerTypes';
+import {
+    ProfilerSessionTemplate,
+    TemplateSource,
+    TemplateDefinition,
+    TemplatePredicate,
+    XEventCatalog,
+    XEventEventInfo
+} from '../models/profilerTypes';
+import { validateCreateSessionStatement } from './sessionStatement';
+
+/**
+ * Folder (relative to each workspace folder) that holds shared template files
+ */
+const WORKSPACE_TEMPLATE_FOLDER = '.vscode/profiler-templates';
+
+/** Action every generated template collects so events can be read incrementally */
+const EVENT_SEQUENCE_ACTION = 'package0.event_sequence';
 
 /**
  * Service for managing profiler session templates
  */
 export class TemplateService {
     private templates: ProfilerSessionTemplate[] = [];
+    private readonly _onDidChangeTemplates = new vscode.EventEmitter<void>();
+
+    /** Fired after templates have been reloaded */
+    public readonly onDidChangeTemplates: vscode.Event<void> = this._onDidChangeTemplates.event;
 
     constructor(private context: vscode.ExtensionContext) {}
 
     /**
-     * Load all session templates from the templates directory
+     * Load all session templates: built-in, workspace (.vscode/profiler-templates and workspace settings) and user settings
+     * Templates never replace each other: one with the name of another is listed next to it, labelled by its source,
+     * so a workspace can't pass its own statement off as a built-in template
      */
     public async loadTemplates(): Promise<void> {
         try {
-            // Load built-in templates
-            const templateNames = ['Standard', 'TSQL', 'Standard_Azure'];
+            this.templates = [
+                ...await this.loadBuiltInTemplates(),
+                ...await this.loadWorkspaceTemplates(),
+                ...this.loadSettingsTemplates()
+            ];
+
+            console.log(`Loaded ${this.templates.length} profiler templates`);
+        } catch (error) {
+            console.error('Failed to load profiler templates:', error);
+            vscode.window.showErrorMessage('Failed to load profiler templates');
+        }
+    }
+
+    /**
+     * Reload templates when template files or the templates setting change
+     */
+    public watchForChanges(): void {
+        const reload = async () => {
+            await this.loadTemplates();
+            this._onDidChangeTemplates.fire();
+        };
+
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_TEMPLATE_FOLDER}/*.json`);
+        watcher.onDidCreate(reload);
+        watcher.onDidChange(reload);
+        watcher.onDidDelete(reload);
+
+        this.context.subscriptions.push(
+            watcher,
+            this._onDidChangeTemplates,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('mssql-profiler.templates')) {
+                    reload();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload),
+            vscode.workspace.onDidGrantWorkspaceTrust(reload)
+        );
+    }
 
-            for (const name of templateNames) {
-                const templatePath = path.join(
-                    this.context.extensionPath,
-                    'templates',
-                    `${name}.json`
-                );
+    /**
+     * Load the templates shipped with the extension
+     */
+    private async loadBuiltInTemplates(): Promise<ProfilerSessionTemplate[]> {
+        const templates: ProfilerSessionTemplate[] = [];
+        const templateNames = ['Standard', 'TSQL', 'Standard_Azure', 'Deadlocks', 'Deadlocks_Azure', 'Blocking'];
+
+        for (const name of templateNames) {
+            const templatePath = path.join(
+                this.context.extensionPath,
+                'templates',
+                `${name}.json`
+            );
+
+            try {
+                const uri = vscode.Uri.file(templatePath);
+                const content = await vscode.workspace.fs.readFile(uri);
+                const template = JSON.parse(content.toString()) as ProfilerSessionTemplate;
+                templates.push({ ...template, source: TemplateSource.BuiltIn });
+            } catch (error) {
+                console.error(`Failed to load template ${name}:`, error);
+            }
+        }
+
+        return templates;
+    }
+
+    /**
+     * Load template files from .vscode/profiler-templates in every workspace folder
+     * Their statements run with the credentials of whoever starts a session, so untrusted workspaces are skipped
+     */
+    private async loadWorkspaceTemplates(): Promise<ProfilerSessionTemplate[]> {
+        const templates: ProfilerSessionTemplate[] = [];
+        if (!vscode.workspace.isTrusted) {
+            return templates;
+        }
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const templateFolder = vscode.Uri.joinPath(folder.uri, WORKSPACE_TEMPLATE_FOLDER);
+
+            let entries: [string, vscode.FileType][];
+            try {
+                entries = await vscode.workspace.fs.readDirectory(templateFolder);
+            } catch {
+                continue; // Folder doesn't exist
+            }
+
+            for (const [fileName, fileType] of entries) {
+                if (fileType !== vscode.FileType.File || !fileName.toLowerCase().endsWith('.json')) {
+                    continue;
+                }
+
+                const uri = vscode.Uri.joinPath(templateFolder, fileName);
+                const label = vscode.workspace.asRelativePath(uri);
 
                 try {
-                    const uri = vscode.Uri.file(templatePath);
                     const content = await vscode.workspace.fs.readFile(uri);
-                    const template = JSON.parse(content.toString()) as ProfilerSessionTemplate;
-                    this.templates.push(template);
-                } catch (error) {
-                    console.error(`Failed to load template ${name}:`, error);
+                    const template = this.validateTemplate(JSON.parse(content.toString()), label);
+                    if (template) {
+                        templates.push({ ...template, source: TemplateSource.Workspace });
+                    }
+                } catch (error: any) {
+                    vscode.window.showWarningMessage(`Invalid profiler template ${label}: ${error?.message || 'Unknown error'}`);
+                }
+            }
+        }
+
+        return templates;
+    }
+
+    /**
+     * Load templates defined in the mssql-profiler.templates setting
+     * User settings and workspace settings are both read; templates from workspace settings count as workspace
+     * templates and are skipped in untrusted workspaces
+     */
+    private loadSettingsTemplates(): ProfilerSessionTemplate[] {
+        const setting = vscode.workspace.getConfiguration('mssql-profiler').inspect<unknown[]>('templates');
+        const templates: ProfilerSessionTemplate[] = [];
+
+        const addAll = (configured: unknown[] | undefined, source: TemplateSource, label: string) => {
+            (Array.isArray(configured) ? configured : []).forEach((value, index) => {
+                const template = this.validateTemplate(value, `${label} mssql-profiler.templates[${index}]`);
+                if (template) {
+                    templates.push({ ...template, source });
+                }
+            });
+        };
+
+        addAll(setting?.globalValue, TemplateSource.Settings, 'user setting');
+        if (vscode.workspace.isTrusted) {
+            addAll(setting?.workspaceValue, TemplateSource.Workspace, 'workspace setting');
+        }
+
+        return templates;
+    }
+
+    /**
+     * Validate a template against the rules in schemas/profiler-template.schema.json
+     * Shows a warning and returns undefined when the template is invalid
+     */
+    private validateTemplate(value: any, label: string): ProfilerSessionTemplate | undefined {
+        const errors: string[] = [];
+
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            errors.push('must be an object');
+        } else {
+            for (const property of ['name', 'defaultView', 'createStatement']) {
+                if (typeof value[property] !== 'string' || value[property].trim().length === 0) {
+                    errors.push(`'${property}' must be a non-empty string`);
                 }
             }
 
-            console.log(`Loaded ${this.templates.length} profiler templates`);
-        } catch (error) {
-            console.error('Failed to load profiler templates:', error);
-            vscode.window.showErrorMessage('Failed to load profiler templates');
+            if (value.description !== undefined && typeof value.description !== 'string') {
+                errors.push(`'description' must be a string`);
+            }
+
+            const statementError = typeof value.createStatement === 'string'
+                ? validateCreateSessionStatement(value.createStatement)
+                : undefined;
+            if (statementError) {
+                errors.push(`'createStatement' ${statementError}`);
+            }
+        }
+
+        if (errors.length > 0) {
+            vscode.window.showWarningMessage(`Invalid profiler template ${label}: ${errors.join('; ')}`);
+            return undefined;
+        }
+
+        return {
+            name: value.name,
+            description: value.description,
+            defaultView: value.defaultView,
+            createStatement: value.createStatement
+        };
+    }
+
+    /**
+     * Check a template builder definition against the server catalog
+     * Returns a list of problems (empty when the definition can be built)
+     */
+    public validateDefinition(definition: TemplateDefinition, catalog: XEventCatalog, isAzure: boolean): string[] {
+        const errors: string[] = [];
+
+        if (!definition.name.trim()) {
+            errors.push('Template name is required');
+        }
+        if (!definition.defaultView.trim()) {
+            errors.push('Default view is required');
+        }
+
+        if (definition.events.length === 0) {
+            errors.push('Select at least one event');
+        }
+        for (const name of definition.events) {
+            if (!this.findEvent(catalog, name)) {
+                errors.push(`Event '${name}' is not available on this server`);
+            }
         }
+        for (const name of definition.actions) {
+            if (!catalog.actions.some(a => `${a.package}.${a.name}` === name)) {
+                errors.push(`Action '${name}' is not available on this server`);
+            }
+        }
+
+        const events = definition.events
+            .map(name => this.findEvent(catalog, name))
+            .filter((event): event is XEventEventInfo => !!event);
+
+        definition.predicates.forEach((predicate, index) => {
+            const label = `Filter ${index + 1}`;
+            const typeName = this.getPredicateFieldType(predicate, catalog, events);
+
+            if (typeName === undefined) {
+                errors.push(`${label}: '${predicate.field}' is not a field of any selected event or a predicate source`);
+                return;
+            }
+            if (!predicate.value.trim()) {
+                errors.push(`${label}: a value is required`);
+                return;
+            }
+
+            const isText = this.isTextType(typeName);
+            if (!isText && (predicate.operator === 'LIKE' || predicate.operator === 'NOT LIKE')) {
+                errors.push(`${label}: LIKE can only be used with text fields`);
+            }
+            if (!isText && isNaN(Number(predicate.value))) {
+                errors.push(`${label}: '${predicate.field}' is numeric (${typeName})`);
+            }
+        });
+
+        if (!definition.ringBuffer && !definition.eventFile) {
+            errors.push('Select at least one target');
+        }
+        if (definition.eventFile) {
+            if (!definition.eventFile.fileName.trim()) {
+                errors.push('Event file name is required');
+            } else if (isAzure && !/^https:\/\//i.test(definition.eventFile.fileName)) {
+                errors.push('Azure SQL Database event files must be stored in blob storage (https://...)');
+            }
+            if (!(definition.eventFile.maxFileSizeMb > 0) || !(definition.eventFile.maxRolloverFiles > 0)) {
+                errors.push('Event file size and rollover count must be greater than zero');
+            }
+        }
+
+        if (!(definition.options.maxMemoryKb > 0)) {
+            errors.push('Max memory must be greater than zero');
+        }
+        if (!(definition.options.maxDispatchLatencySeconds >= 0)) {
+            errors.push('Max dispatch latency cannot be negative');
+        }
+
+        return errors;
+    }
+
+    /**
+     * Generate a session template from a template builder definition
+     * Call validateDefinition first; unknown events and fields are skipped here
+     */
+    public buildTemplate(definition: TemplateDefinition, catalog: XEventCatalog, isAzure: boolean): ProfilerSessionTemplate {
+        const actions = definition.actions.includes(EVENT_SEQUENCE_ACTION)
+            ? [...definition.actions]
+            : [EVENT_SEQUENCE_ACTION, ...definition.actions];
+
+        const events = definition.events.map(name => {
+            const event = this.findEvent(catalog, name);
+            const predicate = event ? this.buildPredicate(definition.predicates, event, catalog) : '';
+            const where = predicate ? ` WHERE (${predicate})` : '';
+            return `ADD EVENT ${name}(ACTION(${actions.join(',')})${where})`;
+        });
+
+        const targets: string[] = [];
+        if (definition.eventFile) {
+            const fileName = definition.eventFile.fileName.trim().replace(/\.xel$/i, '');
+            targets.push(
+                `ADD TARGET package0.event_file(SET filename=N'${this.escapeString(fileName)}.xel',` +
+                `max_file_size=(${definition.eventFile.maxFileSizeMb}),max_rollover_files=(${definition.eventFile.maxRolloverFiles}))`
+            );
+        }
+        if (definition.ringBuffer) {
+            targets.push('ADD TARGET package0.ring_buffer');
+        }
+
+        const options = definition.options;
+        const withOptions = [
+            `MAX_MEMORY=${options.maxMemoryKb} KB`,
+            `EVENT_RETENTION_MODE=${options.eventRetentionMode}`,
+            `MAX_DISPATCH_LATENCY=${options.maxDispatchLatencySeconds} SECONDS`,
+            'MAX_EVENT_SIZE=0 KB',
+            'MEMORY_PARTITION_MODE=NONE',
+            `TRACK_CAUSALITY=${options.trackCausality ? 'ON' : 'OFF'}`,
+            'STARTUP_STATE=OFF'
+        ];
+
+        const createStatement = `CREATE EVENT SESSION [{sessionName}] ON ${isAzure ? 'DATABASE' : 'SERVER'} ` +
+            `${events.join(', ')} ${targets.join(', ')} WITH (${withOptions.join(',')})`;
+
+        const template: ProfilerSessionTemplate = {
+            name: definition.name.trim(),
+            defaultView: definition.defaultView.trim(),
+            createStatement
+        };
+        if (definition.description?.trim()) {
+            template.description = definition.description.trim();
+        }
+
+        return template;
+    }
+
+    /**
+     * Save a template as a JSON file in .vscode/profiler-templates of a workspace folder
+     */
+    public async saveWorkspaceTemplate(template: ProfilerSessionTemplate, folder: vscode.WorkspaceFolder): Promise<vscode.Uri> {
+        const fileName = `${template.name.replace(/[^a-zA-Z0-9_-]+/g, '_')}.json`;
+        const uri = vscode.Uri.joinPath(folder.uri, WORKSPACE_TEMPLATE_FOLDER, fileName);
+
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(folder.uri, WORKSPACE_TEMPLATE_FOLDER));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(this.toStoredTemplate(template), null, 2) + '\n', 'utf8'));
+
+        return uri;
+    }
+
+    /**
+     * Save a template in the user's mssql-profiler.templates setting, replacing one with the same name
+     */
+    public async saveSettingsTemplate(template: ProfilerSessionTemplate): Promise<void> {
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const configured = config.get<any[]>('templates', []);
+
+        const templates = configured.filter(t => t?.name !== template.name);
+        templates.push(this.toStoredTemplate(template));
+
+        await config.update('templates', templates, vscode.ConfigurationTarget.Global);
+    }
+
+    /**
+     * Template as written to disk or settings (without runtime-only properties)
+     */
+    private toStoredTemplate(template: ProfilerSessionTemplate): ProfilerSessionTemplate {
+        return {
+            name: template.name,
+            ...(template.description ? { description: template.description } : {}),
+            defaultView: template.defaultView,
+            createStatement: template.createStatement
+        };
+    }
+
+    /**
+     * Build the WHERE clause of one event from the predicates that apply to it
+     */
+    private buildPredicate(predicates: TemplatePredicate[], event: XEventEventInfo, catalog: XEventCatalog): string {
+        const clauses: string[] = [];
+
+        for (const predicate of predicates) {
+            const typeName = this.getPredicateFieldType(predicate, catalog, [event]);
+            if (typeName === undefined || !predicate.value.trim()) {
+                continue; // Field not produced by this event
+            }
+
+            const field = predicate.field.includes('.')
+                ? predicate.field.split('.').map(part => `[${part}]`).join('.')
+                : `[${predicate.field}]`;
+
+            if (!this.isTextType(typeName)) {
+                clauses.push(`${field}${predicate.operator}(${Number(predicate.value)})`);
+                continue;
+            }
+
+            const value = `N'${this.escapeString(predicate.value)}'`;
+            if (predicate.operator === 'LIKE' || predicate.operator === 'NOT LIKE') {
+                const likeFunction = /ansi/i.test(typeName) ? 'like_i_sql_ansi_string' : 'like_i_sql_unicode_string';
+                const like = `[sqlserver].[${likeFunction}](${field},${value})`;
+                clauses.push(predicate.operator === 'LIKE' ? like : `NOT ${like}`);
+            } else {
+                clauses.push(`${field}${predicate.operator}${value}`);
+            }
+        }
+
+        return clauses.map(clause => `(${clause})`).join(' AND ');
+    }
+
+    /**
+     * Resolve the data type of a predicate field, either a predicate source or a field of one of the events
+     */
+    private getPredicateFieldType(predicate: TemplatePredicate, catalog: XEventCatalog, events: XEventEventInfo[]): string | undefined {
+        if (predicate.field.includes('.')) {
+            const source = catalog.predicateSources.find(s => `${s.package}.${s.name}` === predicate.field);
+            return source ? source.typeName || '' : undefined;
+        }
+
+        for (const event of events) {
+            const field = event.fields.find(f => f.name === predicate.field);
+            if (field) {
+                return field.typeName;
+            }
+        }
+
+        return undefined;
+    }
+
+    private findEvent(catalog: XEventCatalog, name: string): XEventEventInfo | undefined {
+        return catalog.events.find(e => `${e.package}.${e.name}` === name);
+    }
+
+    private isTextType(typeName: string): boolean {
+        return /string|xml|guid|sysname/i.test(typeName);
+    }
+
+    private escapeString(value: string): string {
+        return value.replace(/'/g, "''");
     }
 
     /**
@@ -50,10 +457,10 @@ export class TemplateService {
     }
 
     /**
-     * Get a template by name
+     * Get a template by name, from any source or from the given one
      */
-    public getTemplateByName(name: string): ProfilerSessionTemplate | undefined {
-        return this.templates.find(t => t.name === name);
+    public getTemplateByName(name: string, source?: TemplateSource): ProfilerSessionTemplate | undefined {
+        return this.templates.find(t => t.name === name && (!source || t.source === source));
     }
 
     /**
@@ -0,0 +1,196 @@
+import { EventQuery, EventStore, ProfilerEvent, TimelineBucket, TimelineData, TimelinePoint } from '../models/profilerTypes';
+import { EventView } from './eventView';
+
+/** Most buckets sent to the chart; longer captures use longer buckets */
+const MAX_BUCKETS = 300;
+
+/** Bucket lengths in seconds, shortest first */
+const BUCKET_SECONDS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200, 21600, 43200, 86400];
+
+/** Most events plotted individually; beyond this each event class is plotted by its highest values per bucket */
+const MAX_POINTS = 5000;
+
+/** Rows read from the view at a time */
+const READ_BATCH_SIZE = 5000;
+
+interface SecondStats {
+    counts: { [eventName: string]: number };
+    maxDuration: { [eventName: string]: number | undefined };
+    maxCpuTime: { [eventName: string]: number | undefined };
+}
+
+/**
+ * Events per second and per-event duration and CPU time of the events matching the grid's filters
+ * Kept up to date as events are captured; the grid's time range and sort order are ignored
+ */
+export class Timeline {
+    private view: EventView;
+    /** View rows already added */
+    private addedRows = 0;
+    /** Stats per second since the epoch */
+    private seconds = new Map<number, SecondStats>();
+    /** Every plotted event, or undefined once there are more than MAX_POINTS */
+    private points: TimelinePoint[] | undefined = [];
+    private eventNames = new Set<string>();
+    /** Serializes updates, which read rows from addedRows on */
+    private pending: Promise<unknown> = Promise.resolve();
+
+    constructor(store: EventStore) {
+        this.view = new EventView(store);
+    }
+
+    /**
+     * Rebuild the timeline for new grid filters
+     */
+    public setQuery(query: EventQuery): Promise<void> {
+        return this.enqueue(async () => {
+            await this.view.setQuery({ ...query, timeRange: undefined, sort: undefined });
+            this.clear();
+            await this.addNewRows();
+        });
+    }
+
+    /**
+     * Add the events captured since the last update
+     */
+    public update(): Promise<void> {
+        return this.enqueue(async () => {
+            await this.view.update();
+            await this.addNewRows();
+        });
+    }
+
+    /**
+     * Forget every event after the store has been cleared
+     */
+    public reset(): Promise<void> {
+        return this.enqueue(async () => {
+            await this.view.reset();
+            this.clear();
+        });
+    }
+
+    /**
+     * Number of events on the timeline
+     */
+    public get count(): number {
+        return this.addedRows;
+    }
+
+    /**
+     * Bucket the events for the chart
+     */
+    public getData(): TimelineData {
+        const eventNames = Array.from(this.eventNames).sort();
+        if (this.seconds.size === 0) {
+            return { bucketSeconds: 1, buckets: [], points: [], sampled: false, eventNames };
+        }
+
+        let first = Infinity;
+        let last = -Infinity;
+        for (const second of this.seconds.keys()) {
+            first = Math.min(first, second);
+            last = Math.max(last, second);
+        }
+        const bucketSeconds = BUCKET_SECONDS.find(size => (last - first + 1) / size <= MAX_BUCKETS)
+            || Math.ceil((last - first + 1) / MAX_BUCKETS);
+
+        const buckets = new Map<number, TimelineBucket>();
+        const sampledPoints = new Map<string, TimelinePoint>();
+
+        for (const [second, stats] of this.seconds) {
+            const bucketStart = Math.floor(second / bucketSeconds) * bucketSeconds;
+            let bucket = buckets.get(bucketStart);
+            if (!bucket) {
+                bucket = { time: bucketStart * 1000, counts: {} };
+                buckets.set(bucketStart, bucket);
+            }
+
+            for (const [eventName, count] of Object.entries(stats.counts)) {
+                bucket.counts[eventName] = (bucket.counts[eventName] || 0) + count;
+
+                if (!this.points) {
+                    const key = `${bucketStart}|${eventName}`;
+                    const point = sampledPoints.get(key) || { time: bucket.time, eventName };
+                    point.duration = maxDefined(point.duration, stats.maxDuration[eventName]);
+                    point.cpuTime = maxDefined(point.cpuTime, stats.maxCpuTime[eventName]);
+                    sampledPoints.set(key, point);
+                }
+            }
+        }
+
+        return {
+            bucketSeconds,
+            buckets: Array.from(buckets.values()).sort((a, b) => a.time - b.time),
+            points: this.points || Array.from(sampledPoints.values()),
+            sampled: !this.points,
+            eventNames
+        };
+    }
+
+    private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.pending.catch(() => undefined).then(operation);
+        this.pending = result;
+        return result;
+    }
+
+    private clear(): void {
+        this.addedRows = 0;
+        this.seconds.clear();
+        this.points = [];
+        this.eventNames.clear();
+    }
+
+    private async addNewRows(): Promise<void> {
+        while (this.addedRows < this.view.count) {
+            const events = await this.view.getRows(this.addedRows, READ_BATCH_SIZE);
+            if (events.length === 0) {
+                break;
+            }
+            events.forEach(event => this.addEvent(event));
+            this.addedRows += events.length;
+        }
+    }
+
+    private addEvent(event: ProfilerEvent): void {
+        const time = Date.parse(event.timestamp);
+        if (isNaN(time)) {
+            return;
+        }
+
+        const second = Math.floor(time / 1000);
+        let stats = this.seconds.get(second);
+        if (!stats) {
+            stats = { counts: {}, maxDuration: {}, maxCpuTime: {} };
+            this.seconds.set(second, stats);
+        }
+
+        const duration = toNumber(event.values['duration']);
+        const cpuTime = toNumber(event.values['cpu_time']);
+
+        stats.counts[event.name] = (stats.counts[event.name] || 0) + 1;
+        stats.maxDuration[event.name] = maxDefined(stats.maxDuration[event.name], duration);
+        stats.maxCpuTime[event.name] = maxDefined(stats.maxCpuTime[event.name], cpuTime);
+        this.eventNames.add(event.name);
+
+        if (this.points && (duration !== undefined || cpuTime !== undefined)) {
+            if (this.points.length < MAX_POINTS) {
+                this.points.push({ time, eventName: event.name, duration, cpuTime });
+            } else {
+                this.points = undefined;
+            }
+        }
+    }
+}
+
+function toNumber(value: any): number | undefined {
+    const numeric = parseFloat(value);
+    return isNaN(numeric) ? undefined : numeric;
+}
+
+function maxDefined(a: number | undefined, b: number | undefined): number | undefined {
+    if (a === undefined) {
+        return b;
+    }
+    return b === undefined ? a : Math.max(a, b);
+}
@@ -0,0 +1,67 @@
+import { ProfilerEvent, QueryMetricStats, QueryStats } from '../models/profilerTypes';
+import { EventView } from './eventView';
+import { getQueryFingerprint } from './queryFingerprint';
+
+/** Event fields aggregated per query */
+export const TOP_QUERY_METRICS = ['duration', 'cpu_time', 'logical_reads', 'writes'];
+
+interface QueryGroup {
+    text: string;
+    count: number;
+    /** Values of each metric, in capture order */
+    values: { [metric: string]: number[] };
+}
+
+/**
+ * Group the rows of a view by query fingerprint and aggregate their metrics
+ * Events without statement text or query_hash are left out
+ * Queries are ordered by total duration, highest first
+ */
+export async function buildTopQueries(view: EventView): Promise<QueryStats[]> {
+    const groups = new Map<string, QueryGroup>();
+
+    await view.scan((event: ProfilerEvent) => {
+        const query = getQueryFingerprint(event);
+        if (!query) {
+            return;
+        }
+
+        let group = groups.get(query.fingerprint);
+        if (!group) {
+            group = { text: query.text, count: 0, values: {} };
+            groups.set(query.fingerprint, group);
+        }
+
+        group.count++;
+        for (const metric of TOP_QUERY_METRICS) {
+            const value = parseFloat(event.values[metric]);
+            if (!isNaN(value)) {
+                (group.values[metric] = group.values[metric] || []).push(value);
+            }
+        }
+    });
+
+    const queries: QueryStats[] = [];
+    for (const [fingerprint, group] of groups) {
+        const metrics: { [metric: string]: QueryMetricStats } = {};
+        for (const metric of Object.keys(group.values)) {
+            metrics[metric] = aggregate(group.values[metric]);
+        }
+        queries.push({ fingerprint, text: group.text, count: group.count, metrics });
+    }
+
+    return queries.sort((a, b) => (b.metrics.duration?.total || 0) - (a.metrics.duration?.total || 0));
+}
+
+function aggregate(values: number[]): QueryMetricStats {
+    const sorted = Float64Array.from(values).sort();
+    const total = values.reduce((sum, value) => sum + value, 0);
+
+    return {
+        total,
+        avg: total / values.length,
+        max: sorted[sorted.length - 1],
+        // Nearest-rank percentile
+        p95: sorted[Math.ceil(sorted.length * 0.95) - 1]
+    };
+}
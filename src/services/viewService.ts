@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ColumnFormat, ColumnLayout, ProfilerView, ProfilerViewColumn } from '../models/profilerTypes';
+
+/** View used when a template names a view that does not exist */
+export const DEFAULT_VIEW_NAME = 'Standard View';
+
+/** globalState key holding the column layouts per template */
+const LAYOUTS_KEY = 'mssql-profiler.columnLayouts';
+
+/**
+ * Service for managing the event grid column layouts (views) selected by a template's defaultView
+ */
+export class ViewService {
+    private views: ProfilerView[] = [];
+    private readonly _onDidChangeViews = new vscode.EventEmitter<void>();
+
+    /** Fired after views have been reloaded */
+    public readonly onDidChangeViews: vscode.Event<void> = this._onDidChangeViews.event;
+
+    constructor(private context: vscode.ExtensionContext) {}
+
+    /**
+     * Load the built-in views and the views defined in the mssql-profiler.views setting
+     * Views from settings replace built-in views with the same name
+     */
+    public async loadViews(): Promise<void> {
+        const views = new Map<string, ProfilerView>();
+
+        for (const view of await this.loadBuiltInViews()) {
+            views.set(view.name, view);
+        }
+        for (const view of this.loadSettingsViews()) {
+            views.set(view.name, view);
+        }
+
+        this.views = Array.from(views.values());
+        console.log(`Loaded ${this.views.length} profiler views`);
+    }
+
+    /**
+     * Reload views when the views setting changes
+     */
+    public watchForChanges(): void {
+        this.context.subscriptions.push(
+            this._onDidChangeViews,
+            vscode.workspace.onDidChangeConfiguration(async e => {
+                if (e.affectsConfiguration('mssql-profiler.views')) {
+                    await this.loadViews();
+                    this._onDidChangeViews.fire();
+                }
+            })
+        );
+    }
+
+    /**
+     * Get all available views
+     */
+    public getViews(): ProfilerView[] {
+        return this.views;
+    }
+
+    /**
+     * Get the view for a template's defaultView, falling back to the Standard View
+     */
+    public resolveView(name: string | undefined): ProfilerView | undefined {
+        return this.views.find(v => v.name === name)
+            || this.views.find(v => v.name === DEFAULT_VIEW_NAME)
+            || this.views[0];
+    }
+
+    /**
+     * Get the column layout last used with a template
+     */
+    public getLayout(templateName: string): ColumnLayout | undefined {
+        const layouts = this.context.globalState.get<{ [templateName: string]: ColumnLayout }>(LAYOUTS_KEY, {});
+        return layouts[templateName];
+    }
+
+    /**
+     * Remember the column layout used with a template
+     */
+    public async saveLayout(templateName: string, layout: ColumnLayout): Promise<void> {
+        const layouts = this.context.globalState.get<{ [templateName: string]: ColumnLayout }>(LAYOUTS_KEY, {});
+        await this.context.globalState.update(LAYOUTS_KEY, { ...layouts, [templateName]: layout });
+    }
+
+    /**
+     * Load the views shipped with the extension
+     */
+    private async loadBuiltInViews(): Promise<ProfilerView[]> {
+        const views: ProfilerView[] = [];
+        const viewFiles = ['Standard', 'TSQL', 'Deadlocks', 'Blocking'];
+
+        for (const name of viewFiles) {
+            const viewPath = path.join(this.context.extensionPath, 'views', `${name}.json`);
+
+            try {
+                const content = await vscode.workspace.fs.readFile(vscode.Uri.file(viewPath));
+                views.push(JSON.parse(content.toString()) as ProfilerView);
+            } catch (error) {
+                console.error(`Failed to load view ${name}:`, error);
+            }
+        }
+
+        return views;
+    }
+
+    /**
+     * Load views defined in the mssql-profiler.views setting, skipping invalid entries
+     */
+    private loadSettingsViews(): ProfilerView[] {
+        const config = vscode.workspace.getConfiguration('mssql-profiler');
+        const configured = config.get<any[]>('views', []);
+        const views: ProfilerView[] = [];
+        const formats = Object.values(ColumnFormat) as string[];
+
+        configured.forEach((value, index) => {
+            const label = `mssql-profiler.views[${index}]`;
+
+            if (!value || typeof value.name !== 'string' || !value.name.trim() || !Array.isArray(value.columns)) {
+                vscode.window.showWarningMessage(`Invalid profiler view ${label}: 'name' and 'columns' are required`);
+                return;
+            }
+
+            const columns: ProfilerViewColumn[] = value.columns.filter((column: any) =>
+                column && typeof column.key === 'string' && column.key.length > 0 &&
+                (column.format === undefined || formats.includes(column.format))
+            );
+
+            if (columns.length !== value.columns.length) {
+                vscode.window.showWarningMessage(`Profiler view '${value.name}' has columns without a key or with an unknown format; they were skipped`);
+            }
+
+            views.push({ name: value.name, columns });
+        });
+
+        return views;
+    }
+}
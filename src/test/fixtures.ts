@@ -0,0 +1,19 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Fixtures stay in the source tree; tests run from the compiled out/test folder */
+const FIXTURE_FOLDER = path.resolve(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+/**
+ * Read a file from src/test/fixtures as text
+ */
+export function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURE_FOLDER, name), 'utf8');
+}
+
+/**
+ * Read a binary file from src/test/fixtures
+ */
+export function readBinaryFixture(name: string): Uint8Array {
+    return fs.readFileSync(path.join(FIXTURE_FOLDER, name));
+}
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { getBlockedProcessReport, parseBlockedProcessReport } from '../../parsers/blockedProcessParser';
+import { buildBlockingSnapshots } from '../../services/blockingChains';
+import { EventView } from '../../services/eventView';
+import { MemoryEventStore } from '../../services/eventStore';
+import { ProfilerEvent } from '../../models/profilerTypes';
+
+/**
+ * Report of a process blocked by another, as raised by the blocked process monitor
+ */
+function createReport(monitorLoop: string | undefined, blocked: string, blocking: string, waitTime = 5000): string {
+    const loop = monitorLoop ? ` monitorLoop="${monitorLoop}"` : '';
+    return `<blocked-process-report${loop}>`
+        + `<blocked-process><process id="p${blocked}" spid="${blocked}" ecid="0" status="suspended" waitresource="KEY: 5:720 (8194)" waittime="${waitTime}"`
+        + ` lockMode="U" transactionname="user_transaction" isolationlevel="read committed (2)" loginname="app" hostname="web01"`
+        + ` clientapp="Orders API" currentdbname="Sales"><executionStack/><inputbuf>\n  UPDATE dbo.Orders SET Status = 2 WHERE OrderId &lt; 10  </inputbuf></process></blocked-process>`
+        + `<blocking-process><process status="sleeping" spid="${blocking}" ecid="0" waitresource="" lockMode="X" loginname="etl"><executionStack/><inputbuf>BEGIN TRAN; UPDATE dbo.Orders SET Status = 1</inputbuf></process></blocking-process>`
+        + '</blocked-process-report>';
+}
+
+function createEvent(timestamp: string, report: string): ProfilerEvent {
+    return { name: 'blocked_process_report', timestamp, values: Object.fromEntries([['blocked_process', report]]) };
+}
+
+suite('blockedProcessParser', () => {
+    test('finds the report of an event', () => {
+        const report = createReport('10', '54', '53');
+
+        assert.strictEqual(getBlockedProcessReport(createEvent('2024-03-05T10:00:00.000Z', `\n${report}\n`)), report);
+        assert.strictEqual(getBlockedProcessReport(createEvent('2024-03-05T10:00:00.000Z', '<deadlock/>')), undefined);
+    });
+
+    test('reads the blocked and blocking processes', () => {
+        const report = parseBlockedProcessReport(createReport('10', '54', '53'));
+
+        assert.strictEqual(report.monitorLoop, '10');
+        assert.deepStrictEqual(report.blocked, {
+            spid: '54',
+            ecid: '0',
+            status: 'suspended',
+            waitResource: 'KEY: 5:720 (8194)',
+            waitTime: 5000,
+            lockMode: 'U',
+            transactionName: 'user_transaction',
+            isolationLevel: 'read committed (2)',
+            loginName: 'app',
+            hostName: 'web01',
+            clientApp: 'Orders API',
+            databaseName: 'Sales',
+            inputBuffer: 'UPDATE dbo.Orders SET Status = 2 WHERE OrderId < 10'
+        });
+        assert.strictEqual(report.blocking?.spid, '53');
+        assert.strictEqual(report.blocking?.status, 'sleeping');
+        assert.strictEqual(report.blocking?.waitResource, undefined);
+        assert.strictEqual(report.blocking?.waitTime, undefined);
+        assert.strictEqual(report.blocking?.inputBuffer, 'BEGIN TRAN; UPDATE dbo.Orders SET Status = 1');
+    });
+
+    test('links the reports of a monitor pass into chains', async () => {
+        const view = new EventView(new MemoryEventStore([
+            createEvent('2024-03-05T10:00:05.000Z', createReport('11', '55', '54', 7000)),
+            createEvent('2024-03-05T10:00:05.000Z', createReport('11', '54', '53', 9000)),
+            createEvent('2024-03-05T10:00:05.000Z', createReport('11', '56', '53', 3000)),
+            createEvent('2024-03-05T09:59:59.000Z', createReport('10', '54', '53'))
+        ]));
+
+        const snapshots = await buildBlockingSnapshots(view);
+
+        assert.deepStrictEqual(snapshots.map(snapshot => [snapshot.timestamp, snapshot.blockedCount, snapshot.maxWaitTime]), [
+            ['2024-03-05T09:59:59.000Z', 1, 5000],
+            ['2024-03-05T10:00:05.000Z', 3, 9000]
+        ]);
+
+        const [head] = snapshots[1].heads;
+        assert.strictEqual(snapshots[1].heads.length, 1);
+        assert.strictEqual(head.spid, '53');
+        assert.strictEqual(head.waitTime, undefined);
+        assert.deepStrictEqual(head.blocked.map(node => [node.spid, node.waitTime]), [['54', 9000], ['56', 3000]]);
+        assert.deepStrictEqual(head.blocked[0].blocked.map(node => node.spid), ['55']);
+    });
+
+    test('groups reports without a monitor loop by second and breaks cycles', async () => {
+        const view = new EventView(new MemoryEventStore([
+            createEvent('2024-03-05T10:00:05.100Z', createReport(undefined, '60', '61')),
+            createEvent('2024-03-05T10:00:05.900Z', createReport(undefined, '61', '60'))
+        ]));
+
+        const snapshots = await buildBlockingSnapshots(view);
+
+        assert.strictEqual(snapshots.length, 1);
+        assert.strictEqual(snapshots[0].blockedCount, 2);
+        assert.deepStrictEqual(snapshots[0].heads.map(node => [node.spid, node.blocked.map(blocked => blocked.spid)]), [['61', ['60']]]);
+    });
+});
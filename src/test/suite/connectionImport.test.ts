@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { parseAzureDataStudioSettings, parseMssqlConnections, parseRegisteredServers } from '../../services/connectionImport';
+
+suite('connectionImport', () => {
+    test('reads Azure Data Studio settings with comments and trailing commas', () => {
+        const settings = `{
+            // Connections
+            "workbench.colorTheme": "Default Dark // not a comment",
+            "datasource.connectionGroups": [
+                { "id": "root", "name": "ROOT" },
+                { "id": "prod", "name": "Prod", "parentId": "root" }, /* production servers */
+                { "id": "eu", "name": "EU", "parentId": "prod", }, // note
+            ],
+            "datasource.connections": [
+                {
+                    "providerName": "MSSQL",
+                    "groupId": "eu",
+                    "options": {
+                        "server": "db01\\\\SQLEXPRESS",
+                        "database": "Sales",
+                        "authenticationType": "SqlLogin",
+                        "user": "app",
+                        "encrypt": true, // note
+                    },
+                },
+                { "providerName": "PGSQL", "options": { "server": "pg01" } },
+            ],
+        }`;
+
+        assert.deepStrictEqual(parseAzureDataStudioSettings(settings), [{
+            name: 'db01 / Sales',
+            serverName: 'db01',
+            databaseName: 'Sales',
+            authenticationType: 'SqlLogin',
+            userName: 'app',
+            clientId: undefined,
+            tenantId: undefined,
+            group: 'Prod/EU',
+            options: { instanceName: 'SQLEXPRESS', encrypt: 'mandatory' }
+        }]);
+    });
+
+    test('keeps commas and comment markers inside strings', () => {
+        const [connection] = parseAzureDataStudioSettings(
+            '{ "datasource.connections": [{ "options": { "server": "db01", "profileName": "a, ]\\" /* b */ // c", }, }] }'
+        );
+
+        assert.strictEqual(connection.name, 'a, ]" /* b */ // c');
+        assert.strictEqual(parseAzureDataStudioSettings('{ "datasource.connections": [{ "options": { "server": "db01", "database": "a,}" } }] }')[0].databaseName, 'a,}');
+    });
+
+    test('reads vscode-mssql connections given by connection string', () => {
+        const [connection] = parseMssqlConnections([
+            { profileName: 'Reporting', connectionString: 'Server=tcp:db02,1500;Database=Reports;Integrated Security=true;Encrypt=Strict' },
+            { profileName: 'No server' }
+        ]);
+
+        assert.deepStrictEqual(connection, {
+            name: 'Reporting',
+            serverName: 'db02',
+            databaseName: 'Reports',
+            authenticationType: 'Integrated',
+            userName: undefined,
+            clientId: undefined,
+            tenantId: undefined,
+            group: undefined,
+            options: { port: 1500, encrypt: 'strict' }
+        });
+    });
+
+    test('reads database engine servers from SSMS registered servers', () => {
+        const connections = parseRegisteredServers(`<?xml version="1.0"?>
+            <model xmlns="http://schemas.serviceml.org/smlif/2007/02">
+                <RegisteredServers:RegisteredServer xmlns:RegisteredServers="http://schemas.microsoft.com/sqlserver/RegisteredServers/2007/08">
+                    <RegisteredServers:Parent><sfc:Reference xmlns:sfc="urn:sfc"><sml:Uri xmlns:sml="urn:sml">/RegisteredServersStore/ServerGroup/DatabaseEngineServerGroup/ServerGroup/Prod</sml:Uri></sfc:Reference></RegisteredServers:Parent>
+                    <RegisteredServers:Name>Orders</RegisteredServers:Name>
+                    <RegisteredServers:ServerName>db03,1433</RegisteredServers:ServerName>
+                    <RegisteredServers:ConnectionStringWithEncryptedPassword>data source=db03,1433;initial catalog=Orders;integrated security=True;pooling=False</RegisteredServers:ConnectionStringWithEncryptedPassword>
+                    <RegisteredServers:ServerType>DatabaseEngine</RegisteredServers:ServerType>
+                </RegisteredServers:RegisteredServer>
+            </model>`);
+
+        assert.deepStrictEqual(connections.map(connection => [connection.name, connection.serverName, connection.databaseName, connection.authenticationType, connection.group, connection.options]), [
+            ['Orders', 'db03', 'Orders', 'Integrated', 'Prod', { port: 1433 }]
+        ]);
+    });
+});
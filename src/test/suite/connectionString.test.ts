@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { looksLikeConnectionString, parseConnectionString, parseServerName } from '../../services/connectionString';
+
+suite('connectionString', () => {
+    test('recognizes connection strings entered as server names', () => {
+        assert.ok(looksLikeConnectionString('Server=tcp:db.example.com,1433;Database=Sales'));
+        assert.ok(looksLikeConnectionString('Persist Security Info=False; Data Source = db01'));
+        assert.ok(!looksLikeConnectionString('db01\\SQLEXPRESS'));
+        assert.ok(!looksLikeConnectionString('my-server=1'));
+    });
+
+    test('splits server names into host, instance and port', () => {
+        assert.deepStrictEqual(parseServerName('db01\\SQLEXPRESS'), { host: 'db01', instanceName: 'SQLEXPRESS', port: undefined });
+        assert.deepStrictEqual(parseServerName(' tcp:db.example.com, 1433 '), { host: 'db.example.com', instanceName: undefined, port: 1433 });
+        assert.deepStrictEqual(parseServerName('db01:14330'), { host: 'db01', instanceName: undefined, port: 14330 });
+        assert.deepStrictEqual(parseServerName('.\\'), { host: 'localhost', instanceName: undefined, port: undefined });
+        assert.deepStrictEqual(parseServerName('(local)\\DEV,1500'), { host: 'localhost', instanceName: 'DEV', port: 1500 });
+    });
+
+    test('reads a SQL login connection string', () => {
+        const parsed = parseConnectionString(
+            'Server=tcp:db.example.com,1433; Initial Catalog=Sales;User ID=app;Password=secret;'
+            + 'Encrypt=True;TrustServerCertificate=no;Connection Timeout=30;Application Name=Orders API'
+        );
+
+        assert.deepStrictEqual(parsed, {
+            serverName: 'db.example.com',
+            databaseName: 'Sales',
+            userName: 'app',
+            password: 'secret',
+            authenticationType: 'SqlLogin',
+            options: {
+                port: 1433,
+                encrypt: 'mandatory',
+                trustServerCertificate: false,
+                connectTimeout: 30,
+                applicationName: 'Orders API'
+            }
+        });
+    });
+
+    test('reads quoted and braced values', () => {
+        const parsed = parseConnectionString('Data Source=db01\\DEV;Password="a;b""c";Database={Sales}};Archive};User Id=\'o\'\'brien\'');
+
+        assert.strictEqual(parsed.serverName, 'db01');
+        assert.strictEqual(parsed.options.instanceName, 'DEV');
+        assert.strictEqual(parsed.password, 'a;b"c');
+        assert.strictEqual(parsed.databaseName, 'Sales};Archive');
+        assert.strictEqual(parsed.userName, 'o\'brien');
+    });
+
+    test('integrated security overrides the user ID', () => {
+        const parsed = parseConnectionString('Server=.;Database=master;Integrated Security=SSPI;User ID=ignored');
+
+        assert.strictEqual(parsed.serverName, 'localhost');
+        assert.strictEqual(parsed.authenticationType, 'Integrated');
+        assert.strictEqual(parsed.userName, 'ignored');
+        assert.strictEqual(parsed.clientId, undefined);
+    });
+
+    test('reads the client ID of Entra ID authentication from the user ID', () => {
+        const parsed = parseConnectionString(
+            'Server=tcp:sales.database.windows.net;Authentication=Active Directory Service Principal;User Id=11111111-2222-3333-4444-555555555555;Password=client-secret'
+        );
+
+        assert.strictEqual(parsed.authenticationType, 'AzureServicePrincipal');
+        assert.strictEqual(parsed.clientId, '11111111-2222-3333-4444-555555555555');
+        assert.strictEqual(parsed.userName, undefined);
+        assert.strictEqual(parsed.password, 'client-secret');
+        assert.strictEqual(parseConnectionString('Server=s;Authentication=ActiveDirectoryMSI').authenticationType, 'AzureManagedIdentity');
+    });
+
+    test('leaves settings with invalid values unset', () => {
+        const parsed = parseConnectionString('Server=db01;Encrypt=Sometimes;TrustServerCertificate=maybe;Connect Timeout=-1;Command Timeout=abc;Encrypt=Strict');
+
+        assert.deepStrictEqual(parsed.options, {
+            encrypt: 'strict',
+            trustServerCertificate: undefined,
+            connectTimeout: undefined,
+            requestTimeout: undefined
+        });
+        assert.strictEqual(parsed.authenticationType, undefined);
+    });
+});
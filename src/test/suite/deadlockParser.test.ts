@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { getDeadlockReport, parseDeadlockGraph, toXdl } from '../../parsers/deadlockParser';
+import { XEventParser } from '../../parsers/xeventParser';
+import { ProfilerEvent } from '../../models/profilerTypes';
+import { readFixture } from '../fixtures';
+
+/** Deadlock graph of the xml_deadlock_report event in the deadlock fixture */
+function readDeadlockReport(): string {
+    const [event] = XEventParser.parse(readFixture('ring-buffer-deadlock.xml')).events;
+    const report = getDeadlockReport(event);
+    assert.ok(report, 'fixture event carries a deadlock graph');
+    return report;
+}
+
+function createEvent(values: Array<[string, any]>): ProfilerEvent {
+    return { name: 'xml_deadlock_report', timestamp: '2024-03-05T12:30:45.678Z', values: Object.fromEntries(values) };
+}
+
+suite('deadlockParser', () => {
+    test('finds the deadlock graph of an event', () => {
+        assert.strictEqual(getDeadlockReport(createEvent([['xml_report', '  <deadlock><process-list/></deadlock>\n']])), '<deadlock><process-list/></deadlock>');
+        assert.strictEqual(getDeadlockReport(createEvent([['deadlock_graph', '<deadlock-list/>']])), '<deadlock-list/>');
+        assert.strictEqual(getDeadlockReport(createEvent([['xml_report', '<deadlockish/>']])), undefined);
+        assert.strictEqual(getDeadlockReport(createEvent([['xml_report', 42]])), undefined);
+    });
+
+    test('reads processes, their statements and input buffers', () => {
+        const graph = parseDeadlockGraph(readDeadlockReport());
+
+        assert.deepStrictEqual(graph.victims, ['process1a2b3c']);
+        assert.deepStrictEqual(
+            graph.processes.map(process => [process.id, process.spid, process.isVictim, process.waitTime, process.isolationLevel]),
+            [
+                ['process1a2b3c', '54', true, '4127', 'read committed (2)'],
+                ['process4d5e6f', '55', false, undefined, undefined]
+            ]
+        );
+
+        const [victim, survivor] = graph.processes;
+        assert.deepStrictEqual(victim.statements, ['UPDATE dbo.Orders SET Status = 2 WHERE OrderId = 1']);
+        assert.strictEqual(victim.inputBuffer, 'UPDATE dbo.Orders SET Note = N\'x < y & "z"\' WHERE OrderId = 1');
+        assert.deepStrictEqual(survivor.statements, []);
+        assert.strictEqual(survivor.inputBuffer, 'UPDATE dbo.Customers SET Name = N\'Bob\' WHERE CustomerId = 7');
+    });
+
+    test('reads resources with their owners and waiters', () => {
+        const graph = parseDeadlockGraph(readDeadlockReport());
+
+        assert.deepStrictEqual(graph.resources, [{
+            id: 'lock1',
+            type: 'keylock',
+            objectName: 'Sales.dbo.Orders',
+            indexName: 'PK_Orders',
+            mode: 'X',
+            owners: [{ processId: 'process4d5e6f', mode: 'X' }],
+            waiters: [{ processId: 'process1a2b3c', mode: 'U', requestType: 'wait' }]
+        }]);
+    });
+
+    test('reads the victim attribute of .xdl documents', () => {
+        const graph = parseDeadlockGraph(
+            '<deadlock-list><deadlock victim="p2"><process-list><process id="p1" currentdb="6"/><process id="p2" currentdbname="Sales"/></process-list>'
+            + '<resource-list><exchangeEvent id="Pipe1" WaitType="e_waitPipeGetRow"><owner-list/><waiter-list/></exchangeEvent></resource-list></deadlock></deadlock-list>'
+        );
+
+        assert.deepStrictEqual(graph.victims, ['p2']);
+        assert.deepStrictEqual(graph.processes.map(process => [process.id, process.isVictim, process.databaseName]), [['p1', false, '6'], ['p2', true, 'Sales']]);
+        assert.deepStrictEqual(graph.resources.map(resource => [resource.id, resource.type]), [['Pipe1', 'exchangeEvent']]);
+    });
+
+    test('wraps a reported deadlock into an .xdl document naming its victim', () => {
+        const xdl = toXdl(readDeadlockReport());
+
+        assert.ok(xdl.startsWith('<deadlock-list>\n<deadlock victim="process1a2b3c"><victim-list>'));
+        assert.ok(xdl.endsWith('</deadlock>\n</deadlock-list>\n'));
+        assert.deepStrictEqual(parseDeadlockGraph(xdl).victims, ['process1a2b3c']);
+    });
+
+    test('leaves .xdl documents and existing victim attributes unchanged', () => {
+        const list = '<deadlock-list><deadlock victim="p1"/></deadlock-list>';
+        assert.strictEqual(toXdl(`\n${list}\n`), list);
+        assert.strictEqual(
+            toXdl('<deadlock victim="p1"><victim-list><victimProcess id="p1"/></victim-list></deadlock>'),
+            '<deadlock-list>\n<deadlock victim="p1"><victim-list><victimProcess id="p1"/></victim-list></deadlock>\n</deadlock-list>\n'
+        );
+    });
+});
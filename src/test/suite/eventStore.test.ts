@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfilerEvent } from '../../models/profilerTypes';
+import { FileEventStore } from '../../services/eventStore';
+
+function event(index: number, text = `SELECT ${index}`): ProfilerEvent {
+    return {
+        name: index % 2 === 0 ? 'sql_batch_completed' : 'rpc_completed',
+        timestamp: `2024-01-01T00:00:${String(index % 60).padStart(2, '0')}.000Z`,
+        values: { text, index }
+    };
+}
+
+function events(first: number, count: number): ProfilerEvent[] {
+    return Array.from({ length: count }, (_, offset) => event(first + offset));
+}
+
+suite('FileEventStore', () => {
+    let folder: string;
+    let store: FileEventStore;
+
+    setup(async () => {
+        folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'event-store-test-'));
+        store = await FileEventStore.create(folder, 'Profiler: test/session');
+    });
+
+    teardown(async () => {
+        await store.dispose();
+        await fs.promises.rm(folder, { recursive: true, force: true });
+    });
+
+    test('creates its file in the folder with a file-safe name', () => {
+        assert.strictEqual(path.dirname(store.filePath), folder);
+        assert.match(path.basename(store.filePath), /^Profiler_test_session-\d+\.jsonl$/);
+        assert.ok(fs.existsSync(store.filePath));
+    });
+
+    test('reads any position through the offset index, including multi-byte text', async () => {
+        await store.append([event(0), event(1, 'SELECT N\'日本語 — ünïcode\''), event(2)]);
+        await store.append([event(3, 'x'.repeat(10000)), event(4)]);
+
+        assert.strictEqual(store.count, 5);
+        assert.deepStrictEqual(await store.read(1, 1), [event(1, 'SELECT N\'日本語 — ünïcode\'')]);
+        assert.deepStrictEqual(await store.read(2, 2), [event(2), event(3, 'x'.repeat(10000))]);
+        assert.deepStrictEqual(await store.read(4, 1), [event(4)]);
+        assert.deepStrictEqual(await store.read(0, 5), await store.read(-3, 100));
+        assert.deepStrictEqual(await store.read(5, 10), []);
+        assert.strictEqual((await fs.promises.stat(store.filePath)).size,
+            [event(0), event(1, 'SELECT N\'日本語 — ünïcode\''), event(2), event(3, 'x'.repeat(10000)), event(4)]
+                .reduce((size, e) => size + Buffer.byteLength(JSON.stringify(e) + '\n'), 0));
+    });
+
+    test('reads positions in the order given and skips positions out of range', async () => {
+        await store.append(events(0, 10));
+
+        const read = await store.readPositions([7, 2, -1, 9, 10, 2]);
+
+        assert.deepStrictEqual(read.map(e => e.values.index), [7, 2, 9, 2]);
+    });
+
+    test('scans every event in capture order with its position', async () => {
+        await store.append(events(0, 3));
+        await store.append(events(3, 4));
+
+        const scanned: Array<[number, number]> = [];
+        await store.scan((e, position) => scanned.push([position, e.values.index]));
+
+        assert.deepStrictEqual(scanned, [[0, 0], [1, 1], [2, 2], [3, 3], [4, 4], [5, 5], [6, 6]]);
+    });
+
+    test('runs operations in the order they were called without waiting on each other', async () => {
+        const firstAppend = store.append(events(0, 2));
+        const readAfterFirst = store.read(0, 10);
+        const secondAppend = store.append(events(2, 2));
+        const positions = store.readPositions([3, 0]);
+        const scanned: number[] = [];
+        const scan = store.scan(e => scanned.push(e.values.index));
+        const cleared = store.clear();
+        const afterClear = store.read(0, 10);
+
+        await Promise.all([firstAppend, secondAppend, scan, cleared]);
+
+        assert.deepStrictEqual((await readAfterFirst).map(e => e.values.index), [0, 1]);
+        assert.deepStrictEqual((await positions).map(e => e.values.index), [3, 0]);
+        assert.deepStrictEqual(scanned, [0, 1, 2, 3]);
+        assert.deepStrictEqual(await afterClear, []);
+    });
+
+    test('ignores empty appends', async () => {
+        await store.append([]);
+
+        assert.strictEqual(store.count, 0);
+        assert.deepStrictEqual(await store.read(0, 1), []);
+    });
+
+    test('clears the file, the index and the catalog, then appends from the start', async () => {
+        await store.append([event(0), event(1)]);
+        assert.deepStrictEqual(store.getEventNames(), ['rpc_completed', 'sql_batch_completed']);
+
+        await store.clear();
+
+        assert.strictEqual(store.count, 0);
+        assert.strictEqual((await fs.promises.stat(store.filePath)).size, 0);
+        assert.deepStrictEqual(store.getEventNames(), []);
+        assert.deepStrictEqual(store.getFieldKeys(), []);
+
+        await store.append([event(5)]);
+
+        assert.strictEqual(store.count, 1);
+        assert.deepStrictEqual(await store.read(0, 1), [event(5)]);
+        assert.deepStrictEqual(store.getEventNames(), ['rpc_completed']);
+        assert.deepStrictEqual(store.getFieldKeys().sort(), ['index', 'text']);
+    });
+
+    test('grows the offset index past its initial size', async () => {
+        // The index starts with room for 1023 events; cross it inside a batch and across batches
+        await store.append(events(0, 1000));
+        await store.append(events(1000, 100));
+        await store.append(events(1100, 2000));
+
+        assert.strictEqual(store.count, 3100);
+        assert.deepStrictEqual(await store.read(1020, 6), events(1020, 6));
+        assert.deepStrictEqual(await store.read(3099, 1), [event(3099)]);
+        assert.deepStrictEqual((await store.readPositions([2048, 1023, 0])).map(e => e.values.index), [2048, 1023, 0]);
+
+        let scanned = 0;
+        await store.scan((e, position) => {
+            assert.strictEqual(e.values.index, position);
+            scanned++;
+        });
+        assert.strictEqual(scanned, 3100);
+    });
+
+    test('removes its file when disposed and rejects later operations', async () => {
+        await store.append(events(0, 2));
+
+        await store.dispose();
+
+        assert.strictEqual(fs.existsSync(store.filePath), false);
+        assert.strictEqual(store.count, 0);
+        await assert.rejects(store.read(0, 1), /disposed/);
+        await assert.rejects(store.append(events(2, 1)), /disposed/);
+
+        // Leave teardown a store of its own to dispose
+        store = await FileEventStore.create(folder, 'teardown');
+    });
+});
@@ -0,0 +1,227 @@
+import * as assert from 'assert';
+import { CaptureTarget, ProfilerEvent } from '../../models/profilerTypes';
+import {
+    SessionWatermark,
+    countDroppedEvents,
+    resetAfterSessionRestart,
+    takeEventsAfterHighWaterMark,
+    takeUnseenEvents
+} from '../../services/eventWatermark';
+
+function session(changes: Partial<SessionWatermark> = {}): SessionWatermark {
+    return {
+        name: 'test',
+        tracksEventSequence: true,
+        lastEventSequence: 0,
+        missedEventCount: 0,
+        ...changes
+    };
+}
+
+function sequenced(sequence: number): ProfilerEvent {
+    return {
+        name: 'sql_batch_completed',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        values: Object.fromEntries([['event_sequence', String(sequence)]])
+    };
+}
+
+function timed(timestamp: string, text: string): ProfilerEvent {
+    return { name: 'sql_batch_completed', timestamp, values: { text } };
+}
+
+function sequences(events: ProfilerEvent[]): number[] {
+    return events.map(event => Number(event.values['event_sequence']));
+}
+
+function texts(events: ProfilerEvent[]): string[] {
+    return events.map(event => event.values['text']);
+}
+
+suite('eventWatermark', () => {
+    suite('takeEventsAfterHighWaterMark', () => {
+        test('keeps events above the high-water mark in sequence order', () => {
+            const state = session();
+
+            assert.deepStrictEqual(sequences(takeEventsAfterHighWaterMark(state, [sequenced(2), sequenced(1), sequenced(3)])), [1, 2, 3]);
+            assert.deepStrictEqual(sequences(takeEventsAfterHighWaterMark(state, [sequenced(2), sequenced(3), sequenced(5), sequenced(4)])), [4, 5]);
+            assert.strictEqual(state.lastEventSequence, 5);
+            assert.strictEqual(state.missedEventCount, 0);
+        });
+
+        test('ignores events without an event_sequence', () => {
+            const state = session();
+            const unsequenced: ProfilerEvent = { name: 'login', timestamp: '', values: {} };
+
+            assert.deepStrictEqual(sequences(takeEventsAfterHighWaterMark(state, [unsequenced, sequenced(1)])), [1]);
+        });
+
+        test('counts skipped sequence numbers as missed', () => {
+            const state = session();
+
+            takeEventsAfterHighWaterMark(state, [sequenced(1), sequenced(2), sequenced(5)]);
+            assert.strictEqual(state.missedEventCount, 2);
+
+            takeEventsAfterHighWaterMark(state, [sequenced(5), sequenced(9)]);
+            assert.strictEqual(state.missedEventCount, 5);
+            assert.strictEqual(state.lastEventSequence, 9);
+        });
+
+        test('counts the sequence numbers before the first event of a session it created', () => {
+            const state = session();
+
+            takeEventsAfterHighWaterMark(state, [sequenced(4)]);
+
+            assert.strictEqual(state.missedEventCount, 3);
+        });
+
+        test('does not count events an attached session captured before the first read as missed', () => {
+            const state = session({ attached: true });
+
+            assert.deepStrictEqual(sequences(takeEventsAfterHighWaterMark(state, [sequenced(1000), sequenced(1001)])), [1000, 1001]);
+            assert.strictEqual(state.missedEventCount, 0);
+
+            takeEventsAfterHighWaterMark(state, [sequenced(1003)]);
+            assert.strictEqual(state.missedEventCount, 1);
+        });
+    });
+
+    suite('takeUnseenEvents', () => {
+        test('keeps every event on the first read and events after the watermark later', () => {
+            const state = session({ tracksEventSequence: false });
+
+            const first = takeUnseenEvents(state, [
+                timed('2024-01-01T00:00:01.000Z', 'a'),
+                timed('2024-01-01T00:00:02.000Z', 'b')
+            ]);
+            const second = takeUnseenEvents(state, [
+                timed('2024-01-01T00:00:01.000Z', 'a'),
+                timed('2024-01-01T00:00:02.000Z', 'b'),
+                timed('2024-01-01T00:00:03.000Z', 'c')
+            ]);
+
+            assert.deepStrictEqual(texts(first), ['a', 'b']);
+            assert.deepStrictEqual(texts(second), ['c']);
+            assert.strictEqual(state.timestampWatermark?.timestamp, '2024-01-01T00:00:03.000Z');
+        });
+
+        test('tells apart events sharing the watermark timestamp across polls by content and count', () => {
+            const state = session({ tracksEventSequence: false });
+            const at = '2024-01-01T00:00:05.000Z';
+
+            takeUnseenEvents(state, [timed(at, 'a'), timed(at, 'b')]);
+            const second = takeUnseenEvents(state, [timed(at, 'a'), timed(at, 'b'), timed(at, 'a'), timed(at, 'c')]);
+            const third = takeUnseenEvents(state, [timed(at, 'a'), timed(at, 'b'), timed(at, 'a'), timed(at, 'c')]);
+
+            assert.deepStrictEqual(texts(second), ['a', 'c']);
+            assert.deepStrictEqual(texts(third), []);
+            assert.deepStrictEqual(state.timestampWatermark?.seenAtTimestamp, Object.fromEntries([
+                ['sql_batch_completed|{"text":"a"}', 2],
+                ['sql_batch_completed|{"text":"b"}', 1],
+                ['sql_batch_completed|{"text":"c"}', 1]
+            ]));
+        });
+
+        test('drops events older than the watermark and events without a timestamp', () => {
+            const state = session({ tracksEventSequence: false });
+            takeUnseenEvents(state, [timed('2024-01-01T00:00:05.000Z', 'a')]);
+
+            const read = takeUnseenEvents(state, [
+                timed('2024-01-01T00:00:04.000Z', 'old'),
+                timed('', 'untimed'),
+                timed('2024-01-01T00:00:06.000Z', 'new')
+            ]);
+
+            assert.deepStrictEqual(texts(read), ['new']);
+        });
+
+        test('keeps the watermark when nothing was read', () => {
+            const state = session({ tracksEventSequence: false });
+            takeUnseenEvents(state, [timed('2024-01-01T00:00:05.000Z', 'a')]);
+            const watermark = state.timestampWatermark;
+
+            assert.deepStrictEqual(takeUnseenEvents(state, []), []);
+            assert.strictEqual(state.timestampWatermark, watermark);
+        });
+    });
+
+    suite('countDroppedEvents', () => {
+        test('counts the increase of the ring buffer droppedCount since the last poll', () => {
+            const state = session({ tracksEventSequence: false });
+
+            countDroppedEvents(state, 0);
+            countDroppedEvents(state, 4);
+            countDroppedEvents(state, 4);
+            countDroppedEvents(state, 10);
+
+            assert.strictEqual(state.missedEventCount, 10);
+            assert.strictEqual(state.ringBufferDroppedCount, 10);
+        });
+
+        test('counts events a session it created dropped before the first poll', () => {
+            const state = session({ tracksEventSequence: false });
+
+            countDroppedEvents(state, 3);
+
+            assert.strictEqual(state.missedEventCount, 3);
+        });
+
+        test('does not count events an attached session dropped before the first poll', () => {
+            const state = session({ tracksEventSequence: false, attached: true });
+
+            countDroppedEvents(state, 50);
+            countDroppedEvents(state, 52);
+
+            assert.strictEqual(state.missedEventCount, 2);
+        });
+
+        test('leaves dropped events of sessions with event_sequence to the sequence gaps', () => {
+            const state = session();
+
+            countDroppedEvents(state, 7);
+
+            assert.strictEqual(state.missedEventCount, 0);
+            assert.strictEqual(state.ringBufferDroppedCount, 7);
+        });
+    });
+
+    suite('resetAfterSessionRestart', () => {
+        test('tracks the new event_sequence numbering after the old events were read to their end', () => {
+            const state = session({ lastEventSequence: 40 });
+
+            // Events the session wrote to its files before it stopped are read first
+            assert.deepStrictEqual(sequences(takeEventsAfterHighWaterMark(state, [sequenced(41), sequenced(42)])), [41, 42]);
+            resetAfterSessionRestart(state, CaptureTarget.EventFile);
+            const restarted = takeEventsAfterHighWaterMark(state, [sequenced(1), sequenced(2)]);
+
+            assert.deepStrictEqual(sequences(restarted), [1, 2]);
+            assert.strictEqual(state.lastEventSequence, 2);
+            assert.strictEqual(state.missedEventCount, 0);
+        });
+
+        test('would drop the events of the restarted session without the reset', () => {
+            const state = session({ lastEventSequence: 42 });
+
+            assert.deepStrictEqual(takeEventsAfterHighWaterMark(state, [sequenced(1), sequenced(2)]), []);
+        });
+
+        test('starts the dropped count again for a ring buffer, which the restart emptied', () => {
+            const state = session({ tracksEventSequence: false, lastEventSequence: 0, ringBufferDroppedCount: 25 });
+
+            resetAfterSessionRestart(state, CaptureTarget.RingBuffer);
+            countDroppedEvents(state, 3);
+
+            assert.strictEqual(state.ringBufferDroppedCount, 3);
+            assert.strictEqual(state.missedEventCount, 3);
+        });
+
+        test('keeps the dropped count of an event_file session', () => {
+            const state = session({ lastEventSequence: 10, ringBufferDroppedCount: 25 });
+
+            resetAfterSessionRestart(state, CaptureTarget.EventFile);
+
+            assert.strictEqual(state.lastEventSequence, 0);
+            assert.strictEqual(state.ringBufferDroppedCount, 25);
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import { ProfilerEvent } from '../../models/profilerTypes';
+import { compileFilter, parseFilter, validateFilter } from '../../services/filterExpression';
+
+/**
+ * Event with values given as [field, value] pairs, as XEvent field names aren't camelCase
+ */
+function createEvent(name: string, timestamp: string, values: Array<[string, any]>): ProfilerEvent {
+    return { name, timestamp, values: Object.fromEntries(values) };
+}
+
+const batch = createEvent('sql_batch_completed', '2024-05-01T10:30:15.250Z', [
+    ['duration', '750000'],
+    ['cpu_time', 1200],
+    ['client_app_name', 'MyApp - Orders'],
+    ['database_name', 'Sales'],
+    ['batch_text', 'SELECT * FROM dbo.Orders WHERE Note = \'it\'\'s\''],
+    ['session_id', 57]
+]);
+
+const reset = createEvent('rpc_completed', '2024-05-01T10:45:00.000Z', [
+    ['duration', '20'],
+    ['client_app_name', 'Core Microsoft SqlClient Data Provider'],
+    ['database_name', 'master'],
+    ['statement', 'exec sp_reset_connection'],
+    ['session_id', 61]
+]);
+
+/**
+ * Names of the events an expression matches
+ */
+function matching(expression: string): string[] {
+    const predicate = compileFilter(expression);
+    return [batch, reset].filter(predicate).map(event => event.name);
+}
+
+suite('filterExpression', () => {
+    test('an empty expression matches every event', () => {
+        assert.strictEqual(parseFilter('   '), undefined);
+        assert.deepStrictEqual(matching(''), ['sql_batch_completed', 'rpc_completed']);
+    });
+
+    test('compares numbers with duration units in microseconds', () => {
+        assert.deepStrictEqual(matching('duration > 500ms'), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('duration >= 0.75s'), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('duration < 1min AND duration <= 20us'), ['rpc_completed']);
+        assert.deepStrictEqual(matching('cpu_time = 1200'), ['sql_batch_completed']);
+    });
+
+    test('compares strings without regard to case', () => {
+        assert.deepStrictEqual(matching('database_name = \'sales\''), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('database_name <> "SALES"'), ['rpc_completed']);
+        assert.deepStrictEqual(matching('client_app_name STARTSWITH \'myapp\''), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('client_app_name ENDSWITH \'provider\''), ['rpc_completed']);
+        assert.deepStrictEqual(matching('statement CONTAINS \'RESET\''), ['rpc_completed']);
+    });
+
+    test('reads doubled quotes inside strings', () => {
+        assert.deepStrictEqual(matching('batch_text CONTAINS \'Note = \'\'it\''), ['sql_batch_completed']);
+    });
+
+    test('matches LIKE patterns with wildcards and character classes', () => {
+        assert.deepStrictEqual(matching('client_app_name LIKE \'MyApp%\''), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('database_name LIKE \'_ales\''), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('database_name LIKE \'[a-m]%\''), ['rpc_completed']);
+        assert.deepStrictEqual(matching('database_name LIKE \'[^a-m]%\''), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('batch_text LIKE \'%dbo.Orders%\''), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('client_app_name NOT LIKE \'MyApp%\''), ['rpc_completed']);
+    });
+
+    test('matches regular expressions', () => {
+        assert.deepStrictEqual(matching('statement MATCHES /sp_\\w+_connection/'), ['rpc_completed']);
+        assert.deepStrictEqual(matching('batch_text MATCHES /^select/i'), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('batch_text MATCHES /^select/'), []);
+    });
+
+    test('checks lists and missing fields', () => {
+        assert.deepStrictEqual(matching('session_id IN (57, 58)'), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('database_name IN (\'master\', \'model\')'), ['rpc_completed']);
+        assert.deepStrictEqual(matching('statement IS NULL'), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('statement IS NOT NULL'), ['rpc_completed']);
+    });
+
+    test('refers to the event class and time by name and timestamp', () => {
+        assert.deepStrictEqual(matching('name = \'rpc_completed\''), ['rpc_completed']);
+        assert.deepStrictEqual(matching('timestamp > \'2024-05-01T10:40:00Z\''), ['rpc_completed']);
+    });
+
+    test('matches field names without regard to case, or in brackets', () => {
+        assert.deepStrictEqual(matching('Database_Name = \'Sales\''), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('[client_app_name] LIKE \'Core%\''), ['rpc_completed']);
+    });
+
+    test('NOT binds tighter than AND, which binds tighter than OR', () => {
+        assert.deepStrictEqual(matching('NOT statement CONTAINS \'reset\' AND duration > 1ms'), ['sql_batch_completed']);
+        assert.deepStrictEqual(matching('session_id = 61 OR database_name = \'Sales\' AND duration < 1ms'), ['rpc_completed']);
+        assert.deepStrictEqual(matching('(session_id = 61 OR database_name = \'Sales\') AND duration < 1ms'), ['rpc_completed']);
+        assert.deepStrictEqual(matching('NOT (session_id = 61 OR session_id = 57)'), []);
+    });
+
+    test('builds a tree of the expression', () => {
+        assert.deepStrictEqual(parseFilter('NOT session_id = 57'), {
+            kind: 'not',
+            operand: { kind: 'compare', field: 'session_id', operator: '=', value: { type: 'number', value: 57 } }
+        });
+    });
+
+    test('reports syntax errors with their position', () => {
+        assert.strictEqual(validateFilter('duration > 500ms'), undefined);
+
+        const unterminated = validateFilter('database_name = \'Sales');
+        assert.ok(unterminated);
+        assert.strictEqual(unterminated.position, 16);
+
+        const unit = validateFilter('duration > 5 weeks');
+        assert.ok(unit);
+
+        const badUnit = validateFilter('duration > 5parsecs');
+        assert.ok(badUnit);
+        assert.match(badUnit.message, /Unknown unit 'parsecs'/);
+        assert.strictEqual(badUnit.position, 11);
+
+        assert.ok(validateFilter('(duration > 1'));
+        assert.ok(validateFilter('duration >'));
+        assert.ok(validateFilter('duration ~ 1'));
+    });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { ProfilerEvent } from '../../models/profilerTypes';
+import { getQueryFingerprint, normalizeQueryText } from '../../services/queryFingerprint';
+
+function createEvent(values: Array<[string, any]>): ProfilerEvent {
+    return { name: 'sql_statement_completed', timestamp: '2024-05-01T10:00:00.000Z', values: Object.fromEntries(values) };
+}
+
+suite('queryFingerprint', () => {
+    test('replaces literals and collapses whitespace and case', () => {
+        assert.strictEqual(
+            normalizeQueryText('SELECT  *\r\n  FROM dbo.Orders\tWHERE OrderId = 42 AND Status = N\'Shipped\' AND Total > 1.5e3;'),
+            'select * from dbo.orders where orderid=? and status=? and total>?'
+        );
+    });
+
+    test('executions that differ only in values share the same text', () => {
+        const first = normalizeQueryText('select name from t where id = 1 and code = 0x1F and note = \'it\'\'s\'');
+        const second = normalizeQueryText('SELECT name FROM t WHERE id=2 AND code=0xABCD AND note=\'other\'');
+
+        assert.strictEqual(first, second);
+        assert.strictEqual(first, 'select name from t where id=? and code=? and note=?');
+    });
+
+    test('collapses lists of literals', () => {
+        assert.strictEqual(normalizeQueryText('SELECT * FROM t WHERE id IN (1, 2, 3)'), 'select * from t where id in(?)');
+        assert.strictEqual(
+            normalizeQueryText('INSERT INTO t (a, b) VALUES (1, \'x\'), (2, \'y\'), (3, \'z\')'),
+            'insert into t(a,b) values(?)'
+        );
+    });
+
+    test('removes comments but keeps bracketed identifiers', () => {
+        assert.strictEqual(
+            normalizeQueryText('/* report */ SELECT [Order Id], [1st] -- first\nFROM [dbo].[Order Details]'),
+            'select [order id],[1st] from [dbo].[order details]'
+        );
+    });
+
+    test('reduces sp_executesql calls to the statement they run', () => {
+        const call = 'exec sp_executesql N\'SELECT * FROM t WHERE name = @p0 AND kind = \'\'a\'\'\', N\'@p0 nvarchar(10)\', @p0 = N\'Bob\'';
+
+        assert.strictEqual(normalizeQueryText(call), 'select * from t where name=@p0 and kind=?');
+        assert.strictEqual(
+            normalizeQueryText('EXECUTE [sys].[sp_executesql] N\'SELECT * FROM t WHERE name = @p0\', N\'@p0 int\', @p0 = 7'),
+            normalizeQueryText('SELECT * FROM t WHERE name = @p0')
+        );
+    });
+
+    test('fingerprints by statement, then batch text, then query_hash', () => {
+        assert.deepStrictEqual(
+            getQueryFingerprint(createEvent([['statement', 'SELECT 1'], ['batch_text', 'SELECT 1; SELECT 2'], ['query_hash', '123']])),
+            { fingerprint: 'text:select ?', text: 'select ?' }
+        );
+        assert.deepStrictEqual(
+            getQueryFingerprint(createEvent([['batch_text', 'SELECT 2'], ['query_hash', '123']])),
+            { fingerprint: 'text:select ?', text: 'select ?' }
+        );
+        assert.deepStrictEqual(
+            getQueryFingerprint(createEvent([['statement', '  '], ['query_hash', '-3121556291893357911']])),
+            { fingerprint: 'hash:-3121556291893357911', text: 'query_hash -3121556291893357911' }
+        );
+    });
+
+    test('events without text or a query hash have no fingerprint', () => {
+        assert.strictEqual(getQueryFingerprint(createEvent([['query_hash', '0']])), undefined);
+        assert.strictEqual(getQueryFingerprint(createEvent([['error_number', 2627]])), undefined);
+    });
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { MAX_RECONNECT_ATTEMPTS, getReconnectDelay } from '../../services/reconnect';
+
+suite('reconnect', () => {
+    test('doubles the delay with every attempt, starting at one second', () => {
+        assert.deepStrictEqual([1, 2, 3, 4, 5, 6].map(getReconnectDelay), [1000, 2000, 4000, 8000, 16000, 32000]);
+    });
+
+    test('waits at most a minute between attempts', () => {
+        assert.strictEqual(getReconnectDelay(7), 60000);
+        assert.strictEqual(getReconnectDelay(MAX_RECONNECT_ATTEMPTS), 60000);
+        assert.strictEqual(getReconnectDelay(100), 60000);
+    });
+
+    test('gives up after about five minutes of attempts', () => {
+        let total = 0;
+        for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+            total += getReconnectDelay(attempt);
+        }
+
+        assert.ok(total >= 4 * 60000 && total <= 6 * 60000, `${total} ms`);
+    });
+});
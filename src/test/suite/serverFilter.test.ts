@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { EventQuery } from '../../models/profilerTypes';
+import { buildServerFilter, combinePredicates } from '../../services/serverFilter';
+
+function query(expression: string, databases: string[] = []): EventQuery {
+    return { eventTypes: [], databases, textSearch: '', expression };
+}
+
+suite('serverFilter', () => {
+    test('translates the database filter into one clause', () => {
+        const filter = buildServerFilter(query('', ['Sales', 'O\'Brien']));
+
+        assert.deepStrictEqual(filter.clauses, [
+            { predicate: '[sqlserver].[database_name]=N\'Sales\' OR [sqlserver].[database_name]=N\'O\'\'Brien\'' }
+        ]);
+        assert.deepStrictEqual(filter.skipped, []);
+    });
+
+    test('translates string comparisons on global fields', () => {
+        const filter = buildServerFilter(query(
+            'client_app_name STARTSWITH \'My_App\' AND login_name = \'sa\' AND nt_username LIKE \'CONTOSO%\''
+        ));
+
+        assert.deepStrictEqual(filter.clauses.map(clause => clause.predicate), [
+            '[sqlserver].[like_i_sql_unicode_string]([sqlserver].[client_app_name],N\'My[_]App%\')',
+            '[sqlserver].[server_principal_name]=N\'sa\'',
+            '[sqlserver].[like_i_sql_unicode_string]([sqlserver].[nt_user],N\'CONTOSO%\')'
+        ]);
+    });
+
+    test('translates duration comparisons for the events that have a duration', () => {
+        const filter = buildServerFilter(query('duration > 500ms AND duration != 1s'));
+
+        assert.deepStrictEqual(filter.clauses, [
+            { predicate: '[duration]>(500000)', eventField: 'duration' },
+            { predicate: '[duration]<>(1000000)', eventField: 'duration' }
+        ]);
+    });
+
+    test('translates OR, NOT and IN when every part can be translated', () => {
+        const filter = buildServerFilter(query(
+            'database_name IN (\'Sales\', \'HR\') AND NOT (client_app_name = \'a\' OR client_app_name = \'b\')'
+        ));
+
+        assert.deepStrictEqual(filter.clauses.map(clause => clause.predicate), [
+            '[sqlserver].[database_name]=N\'Sales\' OR [sqlserver].[database_name]=N\'HR\'',
+            'NOT (([sqlserver].[client_app_name]=N\'a\') OR ([sqlserver].[client_app_name]=N\'b\'))'
+        ]);
+        assert.deepStrictEqual(filter.skipped, []);
+    });
+
+    test('leaves conditions it cannot translate to the grid', () => {
+        const filter = buildServerFilter({
+            eventTypes: ['rpc_completed'],
+            databases: [],
+            textSearch: 'orders',
+            expression: 'statement CONTAINS \'x\' AND (cpu_time > 1s OR client_app_name = \'a\') AND database_name = \'Sales\''
+        });
+
+        assert.deepStrictEqual(filter.clauses.map(clause => clause.predicate), ['[sqlserver].[database_name]=N\'Sales\'']);
+        assert.deepStrictEqual(filter.skipped, [
+            'Event types: rpc_completed',
+            'Text search: \'orders\'',
+            'statement CONTAINS \'x\'',
+            '(cpu_time > 1000000 OR client_app_name = \'a\')'
+        ]);
+    });
+
+    test('adds clauses to an event\'s own predicate', () => {
+        const clauses = [
+            { predicate: '[sqlserver].[database_name]=N\'Sales\'' },
+            { predicate: '[duration]>(500000)', eventField: 'duration' }
+        ];
+
+        assert.strictEqual(
+            combinePredicates('[sqlserver].[is_system]=(0)', clauses, ['duration', 'cpu_time']),
+            '([sqlserver].[is_system]=(0)) AND ([sqlserver].[database_name]=N\'Sales\') AND ([duration]>(500000))'
+        );
+        // Events without a duration column only get the global clauses
+        assert.strictEqual(combinePredicates(undefined, clauses, ['error_number']), '[sqlserver].[database_name]=N\'Sales\'');
+        assert.strictEqual(combinePredicates('[severity]>(10)', [], []), '[severity]>(10)');
+        assert.strictEqual(combinePredicates(undefined, [], []), '');
+    });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateCreateSessionStatement } from '../../services/sessionStatement';
+
+/** Built-in templates, read from the source tree like the fixtures */
+const TEMPLATE_FOLDER = path.resolve(__dirname, '..', '..', '..', 'templates');
+
+const SESSION = 'CREATE EVENT SESSION [{sessionName}] ON SERVER ADD EVENT sqlserver.rpc_completed(ACTION(package0.event_sequence) '
+    + 'WHERE ([sqlserver].[client_app_name] = N\'it\'\'s; GO\')) ADD TARGET package0.ring_buffer WITH (STARTUP_STATE=OFF)';
+
+suite('sessionStatement', () => {
+    test('accepts every built-in template', () => {
+        for (const file of fs.readdirSync(TEMPLATE_FOLDER)) {
+            const template = JSON.parse(fs.readFileSync(path.join(TEMPLATE_FOLDER, file), 'utf8'));
+            assert.strictEqual(validateCreateSessionStatement(template.createStatement), undefined, file);
+        }
+    });
+
+    test('accepts session definitions with strings, comments and a closing semicolon', () => {
+        assert.strictEqual(validateCreateSessionStatement(SESSION), undefined);
+        assert.strictEqual(validateCreateSessionStatement(`${SESSION};\n`), undefined);
+        assert.strictEqual(
+            validateCreateSessionStatement('-- RPCs\nCREATE EVENT SESSION [{sessionName}] ON DATABASE /* all /* nested */ */ '
+                + 'ADD EVENT [sqlserver].[rpc_completed], ADD EVENT sqlserver.sql_batch_completed ADD TARGET package0.ring_buffer'),
+            undefined
+        );
+    });
+
+    test('rejects statements after the session definition', () => {
+        assert.match(validateCreateSessionStatement(`${SESSION}; DROP LOGIN [dba]`)!, /found 'DROP' after the session definition/);
+        assert.match(validateCreateSessionStatement(`${SESSION} EXEC xp_cmdshell 'whoami'`)!, /found 'EXEC'/);
+        assert.match(validateCreateSessionStatement(`${SESSION}\nGO\nALTER LOGIN sa ENABLE`)!, /found 'GO'/);
+        assert.match(validateCreateSessionStatement(`${SESSION};;`)!, /found ';'/);
+        assert.match(validateCreateSessionStatement(`${SESSION} (SELECT 1)`)!, /found '\(\.\.\.\)'/);
+    });
+
+    test('rejects statements that are not a session definition', () => {
+        assert.match(validateCreateSessionStatement('DROP EVENT SESSION [{sessionName}] ON SERVER')!, /must start with/);
+        assert.match(validateCreateSessionStatement('CREATE EVENT SESSION [Fixed] ON SERVER ADD EVENT sqlserver.login')!, /must start with/);
+        assert.match(validateCreateSessionStatement('CREATE EVENT SESSION [{sessionName}] ON SERVER ADD TARGET package0.ring_buffer')!, /at least one event/);
+        assert.match(validateCreateSessionStatement('CREATE EVENT SESSION [{sessionName}] ON SERVER ADD LOGIN x')!, /EVENT or TARGET/);
+        assert.match(validateCreateSessionStatement('CREATE EVENT SESSION [{sessionName}] ON SERVER ADD EVENT x WITH STARTUP_STATE=OFF')!, /in parentheses after WITH/);
+    });
+
+    test('rejects unterminated strings, identifiers, comments and parentheses', () => {
+        assert.match(validateCreateSessionStatement(`${SESSION.slice(0, -1)} '`)!, /unclosed '/);
+        assert.match(validateCreateSessionStatement('CREATE EVENT SESSION [{sessionName} ON SERVER')!, /unclosed \[/);
+        assert.match(validateCreateSessionStatement(`${SESSION} /* ; DROP LOGIN x`)!, /unclosed comment/);
+        assert.match(validateCreateSessionStatement('CREATE EVENT SESSION [{sessionName}] ON SERVER ADD EVENT x(ACTION(a)')!, /unclosed '\('/);
+        assert.match(validateCreateSessionStatement(`${SESSION})`)!, /unmatched '\)'/);
+    });
+});
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import { parseShowplan } from '../../parsers/showplanParser';
+import { canHavePlan, findPlanEvent, getShowplanXml } from '../../services/planCorrelation';
+import { MemoryEventStore } from '../../services/eventStore';
+import { ProfilerEvent } from '../../models/profilerTypes';
+import { readFixture } from '../fixtures';
+
+const ACTIVITY_A = '0D3C9AEF-5B2F-4E1A-9C44-2B7E6A1D8F00';
+const ACTIVITY_B = '7A1E2C3D-4B5F-4A6B-8C9D-0E1F2A3B4C5D';
+
+function createEvent(name: string, values: Array<[string, any]>): ProfilerEvent {
+    return { name, timestamp: '2024-03-05T10:00:00.000Z', values: Object.fromEntries(values) };
+}
+
+function createPlan(sessionId: number, activity?: string, nodeId = '0'): ProfilerEvent {
+    const values: Array<[string, any]> = [
+        ['session_id', sessionId],
+        ['showplan_xml', `<ShowPlanXML><QueryPlan><RelOp NodeId="${nodeId}"/></QueryPlan></ShowPlanXML>`]
+    ];
+    if (activity) {
+        values.push(['attach_activity_id', `${activity}-1`]);
+    }
+    return createEvent('query_post_execution_showplan', values);
+}
+
+function createStatement(sessionId: number, activity?: string, sequence = 1): ProfilerEvent {
+    const values: Array<[string, any]> = [['session_id', sessionId], ['event_sequence', sequence]];
+    if (activity) {
+        values.push(['attach_activity_id', `${activity}-2`]);
+    }
+    return createEvent('sql_statement_completed', values);
+}
+
+suite('showplanParser', () => {
+    test('reads statements and their warnings', () => {
+        const plan = parseShowplan(readFixture('showplan-actual.xml'));
+
+        assert.deepStrictEqual(
+            plan.statements.map(statement => [statement.text, statement.statementType, statement.subtreeCost, statement.root !== undefined]),
+            [
+                ['SELECT o.OrderId, c.Name\r\nFROM dbo.Orders o JOIN dbo.Customers c ON c.CustomerId = o.CustomerId', 'SELECT', 1, true],
+                ['SET NOCOUNT ON', 'SET ON/OFF', undefined, false]
+            ]
+        );
+        assert.deepStrictEqual(plan.statements[0].warnings, [
+            'Type conversion in CONVERT_IMPLICIT(nvarchar(20),[o].[Code],0) may affect Seek Plan',
+            'Memory grant: Excessive Grant'
+        ]);
+    });
+
+    test('builds the operator tree with actual counters summed over threads', () => {
+        const root = parseShowplan(readFixture('showplan-actual.xml')).statements[0].root!;
+
+        assert.deepStrictEqual(
+            [root, ...root.children].map(operator => [operator.nodeId, operator.physicalOp, operator.logicalOp, operator.object, operator.estimatedRows, operator.actualRows, operator.actualExecutions]),
+            [
+                ['0', 'Hash Match', 'Inner Join', undefined, 100, 120, 2],
+                ['1', 'Clustered Index Scan', 'Clustered Index Scan', 'dbo.Orders.PK_Orders', 1000, 1000, 1],
+                ['2', 'Index Seek', 'Index Seek', 'dbo.Customers.IX_Customers_Name', 10, undefined, undefined]
+            ]
+        );
+        assert.deepStrictEqual(root.warnings, ['Spill to tempdb (level 2)', 'Hash spill']);
+        assert.deepStrictEqual(root.children[1].warnings, ['No join predicate']);
+    });
+
+    test('charges each operator the cost of its own work', () => {
+        const root = parseShowplan(readFixture('showplan-actual.xml')).statements[0].root!;
+
+        assert.deepStrictEqual([root, ...root.children].map(operator => Math.round(operator.costPercent)), [10, 60, 30]);
+    });
+});
+
+suite('planCorrelation', () => {
+    test('recognizes plan events and events that can have a plan', () => {
+        assert.ok(getShowplanXml(createPlan(51)));
+        assert.strictEqual(getShowplanXml(createEvent('query_post_execution_showplan', [['showplan_xml', 'n/a']])), undefined);
+        assert.ok(canHavePlan(createStatement(51)));
+        assert.ok(canHavePlan(createEvent('rpc_completed', [])));
+        assert.ok(!canHavePlan(createEvent('login', [])));
+    });
+
+    test('takes the latest plan of the statement\'s session', async () => {
+        const plan = createPlan(51, undefined, 'latest');
+        const statement = createStatement(51);
+        const store = new MemoryEventStore([createPlan(51, undefined, 'older'), plan, createPlan(52), createStatement(52), statement]);
+
+        assert.strictEqual(await findPlanEvent(store, statement, 4), plan);
+    });
+
+    test('ignores plans raised before the session\'s previous statement', async () => {
+        const statement = createStatement(51, undefined, 2);
+        const store = new MemoryEventStore([createPlan(51), createStatement(51, undefined, 1), statement]);
+
+        assert.strictEqual(await findPlanEvent(store, statement, 2), undefined);
+    });
+
+    test('matches plans by activity when causality is tracked', async () => {
+        const plan = createPlan(51, ACTIVITY_A);
+        const statement = createStatement(51, ACTIVITY_A);
+        const store = new MemoryEventStore([plan, createPlan(51, ACTIVITY_B), createStatement(51, ACTIVITY_B), statement]);
+
+        assert.strictEqual(await findPlanEvent(store, statement, 3), plan);
+    });
+
+    test('returns plan events as their own plan', async () => {
+        const plan = createPlan(51);
+        assert.strictEqual(await findPlanEvent(new MemoryEventStore(), plan, 0), plan);
+    });
+
+    test('finds nothing when the statement is no longer at its position', async () => {
+        const statement = createStatement(51);
+        const store = new MemoryEventStore([createPlan(51), createStatement(52), statement]);
+
+        assert.strictEqual(await findPlanEvent(store, statement, 1), undefined);
+        assert.strictEqual(await findPlanEvent(store, statement, 3), undefined);
+    });
+
+    test('searches a bounded window before the statement', async () => {
+        const statement = createStatement(51);
+        const unrelated = Array.from({ length: 20000 }, () => createStatement(60));
+        const store = new MemoryEventStore([createPlan(51), ...unrelated, statement]);
+
+        assert.strictEqual(await findPlanEvent(store, statement, 20001), undefined);
+        assert.ok(await findPlanEvent(new MemoryEventStore([createPlan(51), ...unrelated.slice(1), statement]), statement, 20000));
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { XelFileReader } from '../../parsers/xelFileReader';
+import { XEventParser } from '../../parsers/xeventParser';
+import { readBinaryFixture } from '../fixtures';
+
+suite('XelFileReader', () => {
+    test('decodes every event of every buffer in file order', () => {
+        const result = XelFileReader.read(readBinaryFixture('sample.xel'));
+
+        assert.strictEqual(result.formatVersion, 2);
+        assert.strictEqual(result.skippedBuffers, 0);
+        // The event the metadata doesn't define is skipped
+        assert.deepStrictEqual(
+            result.events.map(event => [event.name, event.package, event.timestamp]),
+            [
+                ['sql_batch_completed', 'sqlserver', '2024-03-05T10:15:30.1234567Z'],
+                ['xml_deadlock_report', 'sqlserver', '2024-03-05T10:15:31.0000000Z'],
+                ['login', 'sqlserver', '2024-03-05T10:15:32.7890001Z']
+            ]
+        );
+    });
+
+    test('decodes fixed-size columns, variable-length columns and actions', () => {
+        const [batch] = XelFileReader.read(readBinaryFixture('sample.xel')).events;
+
+        assert.deepStrictEqual(batch.values, Object.fromEntries([
+            ['duration', '1500000'],
+            ['cpu_time', '1200'],
+            ['result_text', 'Abort'],
+            ['result', '2'],
+            ['row_count', -1],
+            ['batch_text', 'SELECT N\'Größe €\', \'😀\' FROM dbo.Orders WHERE Id = 42'],
+            ['event_sequence', '18446744073709551615'],
+            ['session_id', 54],
+            ['client_app_name', 'SQLCMD'],
+            ['attach_activity_id', '8F2A1C3E-4B5D-4E6F-9A0B-1C2D3E4F5A6B-7'],
+            ['client_hostname', 'webé01']
+        ]));
+        assert.strictEqual(batch.fieldTypes?.['result'], 'batch_result');
+        assert.strictEqual(batch.fieldTypes?.['batch_text'], 'unicode_string');
+    });
+
+    test('decodes xml, boolean, guid and binary values', () => {
+        const [, deadlock, login] = XelFileReader.read(readBinaryFixture('sample.xel')).events;
+
+        assert.strictEqual(deadlock.values['xml_report'], '<deadlock><victim-list><victimProcess id="process1"/></victim-list></deadlock>');
+        assert.strictEqual(login.values['is_cached'], true);
+        assert.strictEqual(login.values['database_guid'], '0D3C9AEF-5B2F-4E1A-9C44-2B7E6A1D8F00');
+        assert.strictEqual(login.values['options'], '0x2000AB');
+        assert.strictEqual(login.values['database_name'], 'Sales');
+    });
+
+    test('produces the same values and types as the XML of the same event', () => {
+        const field = (kind: string, name: string, type: string, value: string, text?: string) =>
+            `<${kind} name="${name}"><type name="${type}" package="package0"></type><value>${value}</value>${text ? `<text>${text}</text>` : ''}</${kind}>`;
+        const xml = '<event name="sql_batch_completed" package="sqlserver" timestamp="2024-03-05T10:15:30.1234567Z">'
+            + field('data', 'duration', 'uint64', '1500000')
+            + field('data', 'cpu_time', 'uint64', '1200')
+            + field('data', 'result', 'batch_result', '2', 'Abort')
+            + field('data', 'row_count', 'int32', '-1')
+            + field('data', 'batch_text', 'unicode_string', 'SELECT N\'Größe €\', \'😀\' FROM dbo.Orders WHERE Id = 42   \r\n')
+            + field('action', 'event_sequence', 'uint64', '18446744073709551615')
+            + field('action', 'session_id', 'uint16', '54')
+            + field('action', 'client_app_name', 'unicode_string', 'SQLCMD')
+            + field('action', 'attach_activity_id', 'activity_id', '{8f2a1c3e-4b5d-4e6f-9a0b-1c2d3e4f5a6b}-7')
+            + field('action', 'client_hostname', 'ansi_string', 'webé01')
+            + '</event>';
+
+        const [fromFile] = XelFileReader.read(readBinaryFixture('sample.xel')).events;
+        const [fromXml] = XEventParser.parse(xml).events;
+
+        assert.deepStrictEqual(fromFile, fromXml);
+    });
+
+    test('reads arrays that start inside a larger buffer', () => {
+        const file = readBinaryFixture('sample.xel');
+        const padded = new Uint8Array(file.length + 100);
+        padded.set(file, 100);
+
+        assert.deepStrictEqual(XelFileReader.read(padded.subarray(100)).events, XelFileReader.read(file).events);
+    });
+
+    test('skips damaged buffers and keeps reading the rest of the file', () => {
+        const result = XelFileReader.read(readBinaryFixture('damaged.xel'));
+
+        assert.strictEqual(result.skippedBuffers, 2);
+        assert.deepStrictEqual(result.events.map(event => [event.name, event.values['event_sequence']]), [['login', '3']]);
+    });
+
+    test('rejects files that are not .xel files', () => {
+        assert.throws(() => XelFileReader.read(new Uint8Array(100)), /too small/);
+        assert.throws(() => XelFileReader.read(new Uint8Array(1024)), /signature mismatch/);
+
+        const truncated = readBinaryFixture('sample.xel').slice(0, 600);
+        assert.throws(() => XelFileReader.read(truncated), /Metadata section extends past the end of the file/);
+    });
+});
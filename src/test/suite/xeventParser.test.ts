@@ -0,0 +1,175 @@
+import * as assert from 'assert';
+import { XEventParser } from '../../parsers/xeventParser';
+import { XmlStreamParser } from '../../parsers/xmlStreamParser';
+import { readFixture } from '../fixtures';
+
+/**
+ * Parse a document fed to the parser in chunks of the given size
+ */
+function parseInChunks(xml: string, size: number) {
+    const parser = new XEventParser();
+    for (let position = 0; position < xml.length; position += size) {
+        parser.write(xml.substring(position, position + size));
+    }
+    return parser.end();
+}
+
+suite('XEventParser', () => {
+    test('reads the ring buffer header', () => {
+        const { target } = XEventParser.parse(readFixture('ring-buffer-cdata.xml'));
+
+        assert.deepStrictEqual(target, {
+            truncated: true,
+            totalEventsProcessed: 1540,
+            eventCount: 2,
+            droppedCount: 12,
+            memoryUsed: 4194304
+        });
+    });
+
+    test('reads event names, packages and timestamps in document order', () => {
+        const { events } = XEventParser.parse(readFixture('ring-buffer-standard.xml'));
+
+        assert.deepStrictEqual(
+            events.map(event => [event.name, event.package, event.timestamp]),
+            [
+                ['sql_batch_completed', 'sqlserver', '2024-03-05T10:15:30.123Z'],
+                ['rpc_completed', 'sqlserver', '2024-03-05T10:15:31.456Z'],
+                ['login', 'sqlserver', '2024-03-05T10:15:32.789Z']
+            ]
+        );
+    });
+
+    test('decodes named and numeric entities', () => {
+        const [batch] = XEventParser.parse(readFixture('ring-buffer-standard.xml')).events;
+
+        assert.strictEqual(
+            batch.values['batch_text'],
+            'SELECT name FROM sys.objects WHERE object_id < 100 AND name <> N\'a&b\' -- "quoted" ☺'
+        );
+    });
+
+    test('converts values by their XEvent type', () => {
+        const [batch, rpc, login] = XEventParser.parse(readFixture('ring-buffer-standard.xml')).events;
+
+        // Numbers that fit in a double stay numbers; 64-bit integers are kept as exact strings
+        assert.strictEqual(batch.values['session_id'], 57);
+        assert.strictEqual(batch.values['database_id'], 5);
+        assert.strictEqual(batch.values['cpu_time'], '15000');
+        assert.strictEqual(batch.values['duration'], '18446744073709551615');
+        assert.strictEqual(rpc.values['transaction_id'], '-9223372036854775808');
+        assert.strictEqual(rpc.values['query_hash_signed'], '-3121556291893357911');
+
+        assert.strictEqual(rpc.values['is_system'], false);
+        assert.strictEqual(login.values['is_cached'], true);
+        assert.strictEqual(rpc.values['client_connection_id'], '0A9B8C7D-6E5F-4A3B-2C1D-0E9F8A7B6C5D');
+        assert.strictEqual(batch.values['attach_activity_id'], '6C7E6E0A-3F7B-4C9D-A1B2-0E1F2A3B4C5D-3');
+        assert.strictEqual(rpc.values['data_stream'], '0x16000000120000000200');
+        assert.strictEqual(rpc.values['plan_handle'], '0x06000500D1B0F7');
+        assert.strictEqual(login.values['options_text'], '');
+        assert.strictEqual(login.values['nt_username'], 'CONTOSO\\alice');
+
+        assert.strictEqual(batch.fieldTypes?.['duration'], 'uint64');
+        assert.strictEqual(rpc.fieldTypes?.['client_connection_id'], 'guid');
+    });
+
+    test('keeps map keys and their text', () => {
+        const [batch] = XEventParser.parse(readFixture('ring-buffer-standard.xml')).events;
+        const [statement, error] = XEventParser.parse(readFixture('ring-buffer-cdata.xml')).events;
+
+        assert.strictEqual(batch.values['result'], '0');
+        assert.strictEqual(batch.values['result_text'], 'OK');
+        assert.strictEqual(statement.values['wait_type'], '179');
+        assert.strictEqual(statement.values['wait_type_text'], 'ASYNC_NETWORK_IO');
+        assert.strictEqual(error.values['category_text'], 'SERVER');
+    });
+
+    test('reads CDATA values literally, including </value> and markup', () => {
+        const [statement] = XEventParser.parse(readFixture('ring-buffer-cdata.xml')).events;
+
+        assert.strictEqual(
+            statement.values['statement'],
+            '    SELECT \'</value>\' AS closing_tag, \'<![CDATA[\' AS cdata_start, 1 & 3 AS bits'
+        );
+        assert.strictEqual(statement.values['event_sequence'], '77');
+    });
+
+    test('reads entity-encoded </value> inside a value', () => {
+        const [, error] = XEventParser.parse(readFixture('ring-buffer-cdata.xml')).events;
+
+        assert.strictEqual(error.values['error_number'], 2627);
+        assert.match(error.values['message'], /The duplicate key value is \(<\/value>\)\.$/);
+        assert.strictEqual(error.values['event_sequence'], '78');
+    });
+
+    test('keeps a nested xml_deadlock_report as a sub-document', () => {
+        const [deadlock] = XEventParser.parse(readFixture('ring-buffer-deadlock.xml')).events;
+        const report: string = deadlock.values['xml_report'];
+
+        assert.ok(report.startsWith('<deadlock><victim-list><victimProcess id="process1a2b3c"/></victim-list>'));
+        assert.ok(report.endsWith('</resource-list></deadlock>'));
+        assert.ok(report.includes('<executionStack/>'));
+        assert.ok(report.includes('waitresource="KEY: 5:72057594043236352 (8194443284a0)"'));
+        assert.ok(report.includes('N\'x &lt; y &amp; &quot;z&quot;\''));
+        assert.ok(report.includes('UPDATE dbo.Orders SET Status = 2 WHERE OrderId = 1</frame>'));
+        assert.strictEqual(deadlock.values['event_sequence'], '5');
+    });
+
+    test('the sub-document is well-formed XML', () => {
+        const [deadlock] = XEventParser.parse(readFixture('ring-buffer-deadlock.xml')).events;
+        const elements: string[] = [];
+        let inputBuffer = '';
+
+        const parser = new XmlStreamParser({
+            onOpenTag: name => elements.push(name),
+            onText: text => {
+                if (elements[elements.length - 1] === 'inputbuf') {
+                    inputBuffer += text;
+                }
+            }
+        });
+        parser.write(deadlock.values['xml_report']);
+        parser.end();
+
+        assert.strictEqual(elements.filter(name => name === 'process').length, 2);
+        assert.ok(inputBuffer.includes('UPDATE dbo.Orders SET Note = N\'x < y & "z"\' WHERE OrderId = 1'));
+    });
+
+    test('reads consecutive event_data documents from an event file', () => {
+        const { events, target } = XEventParser.parse(readFixture('event-file-rows.xml'));
+
+        assert.strictEqual(target, undefined);
+        assert.deepStrictEqual(events.map(event => event.values['batch_text']), ['SELECT 1', 'SELECT 2']);
+        assert.deepStrictEqual(events.map(event => event.values['event_sequence']), ['1', '2']);
+    });
+
+    test('gives the same events however the input is split', () => {
+        for (const fixture of ['ring-buffer-standard.xml', 'ring-buffer-cdata.xml', 'ring-buffer-deadlock.xml']) {
+            const xml = readFixture(fixture);
+            const expected = XEventParser.parse(xml).events;
+
+            for (const size of [1, 2, 3, 7, 64]) {
+                assert.deepStrictEqual(parseInChunks(xml, size).events, expected, `${fixture} in chunks of ${size}`);
+            }
+        }
+    });
+
+    test('reports each event as it completes', () => {
+        const names: string[] = [];
+        const parser = new XEventParser(event => names.push(event.name));
+        const xml = readFixture('ring-buffer-standard.xml');
+
+        parser.write(xml.substring(0, xml.indexOf('<event name="rpc_completed"')));
+        assert.deepStrictEqual(names, ['sql_batch_completed']);
+
+        parser.write(xml.substring(xml.indexOf('<event name="rpc_completed"')));
+        parser.end();
+        assert.deepStrictEqual(names, ['sql_batch_completed', 'rpc_completed', 'login']);
+    });
+
+    test('fails on a truncated document', () => {
+        const xml = readFixture('ring-buffer-standard.xml');
+
+        assert.throws(() => XEventParser.parse(xml.substring(0, xml.length / 2)));
+    });
+});
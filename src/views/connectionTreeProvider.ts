@@ -1,53 +1,238 @@
 import * as vscode from 'vscode';
-import { ConnectionManager } from '../services/connectionManager';
+import { ConnectionGroup, ConnectionManager, ConnectionProfile, getGroupName, getParentGroupPath, normalizeGroupPath } from '../services/connectionManager';
+import { ProfilerService } from '../services/profilerService';
+import { ServerEventSessionInfo } from '../models/profilerTypes';
+
+/** Data transfer type of connections and groups dragged within the Connections view */
+const CONNECTION_MIME_TYPE = 'application/vnd.code.tree.mssql-profiler-connections';
 
 export class ConnectionTreeItem extends vscode.TreeItem {
     constructor(
         public readonly id: string,
         public readonly label: string,
         public readonly description: string,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly profile?: ConnectionProfile,
+        color?: string
     ) {
         super(label, collapsibleState);
         this.contextValue = 'connection';
-        this.iconPath = new vscode.ThemeIcon('database');
-        this.tooltip = `${label}\n${description}`;
+        this.iconPath = new vscode.ThemeIcon('database', color ? new vscode.ThemeColor(color) : undefined);
+        this.tooltip = profile?.group ? `${label}\n${description}\nGroup: ${profile.group}` : `${label}\n${description}`;
+    }
+}
+
+export class ConnectionGroupTreeItem extends vscode.TreeItem {
+    constructor(public readonly group: ConnectionGroup) {
+        super(getGroupName(group.name), vscode.TreeItemCollapsibleState.Expanded);
+        this.id = `group:${group.name}`;
+        this.contextValue = 'connectionGroup';
+        this.iconPath = new vscode.ThemeIcon('folder', group.color ? new vscode.ThemeColor(group.color) : undefined);
+        this.tooltip = group.name;
+    }
+}
+
+/**
+ * Sessions or Databases node under a server
+ */
+export class ServerFolderTreeItem extends vscode.TreeItem {
+    constructor(public readonly profile: ConnectionProfile, public readonly kind: 'sessions' | 'databases') {
+        super(kind === 'sessions' ? 'Sessions' : 'Databases', vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${profile.id}:${kind}`;
+        this.contextValue = kind;
+        this.iconPath = new vscode.ThemeIcon(kind === 'sessions' ? 'pulse' : 'folder-library');
+    }
+}
+
+/**
+ * Event session running on a server
+ */
+export class ServerSessionTreeItem extends vscode.TreeItem {
+    constructor(public readonly profile: ConnectionProfile, public readonly serverSession: ServerEventSessionInfo, profiling: boolean) {
+        super(serverSession.name, vscode.TreeItemCollapsibleState.None);
+        this.id = `${profile.id}:session:${serverSession.name}`;
+        // Only sessions with a target that can be read from can be attached to
+        const readable = serverSession.targets.includes('ring_buffer') || serverSession.targets.includes('event_file');
+        this.contextValue = readable && !profiling ? 'serverSession' : 'serverSessionUnreadable';
+        this.iconPath = new vscode.ThemeIcon('record', new vscode.ThemeColor('testing.runAction'));
+        this.description = profiling ? `${serverSession.targets.join(', ')} - open in profiler` : serverSession.targets.join(', ');
+        this.tooltip = serverSession.eventFilePath
+            ? `${serverSession.name}\nTargets: ${serverSession.targets.join(', ')}\nFile: ${serverSession.eventFilePath}`
+            : `${serverSession.name}\nTargets: ${serverSession.targets.join(', ')}`;
     }
 }
 
-export class ConnectionTreeProvider implements vscode.TreeDataProvider<ConnectionTreeItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<ConnectionTreeItem | undefined | void> = new vscode.EventEmitter<ConnectionTreeItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<ConnectionTreeItem | undefined | void> = this._onDidChangeTreeData.event;
+/**
+ * Database of a server, or a message shown in place of a node's children
+ */
+export class ServerItemTreeItem extends vscode.TreeItem {
+    constructor(id: string, label: string, icon: string, description?: string) {
+        super(label, vscode.TreeItemCollapsibleState.None);
+        this.id = id;
+        this.contextValue = 'serverItem';
+        this.iconPath = new vscode.ThemeIcon(icon);
+        this.description = description;
+        this.tooltip = description ? `${label}\n${description}` : label;
+    }
+}
 
-    constructor(private connectionManager: ConnectionManager) {}
+export class ConnectionTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.TreeDragAndDropController<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    readonly dragMimeTypes = [CONNECTION_MIME_TYPE];
+    readonly dropMimeTypes = [CONNECTION_MIME_TYPE];
+
+    constructor(private connectionManager: ConnectionManager, private profilerService: ProfilerService) {}
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: ConnectionTreeItem): vscode.TreeItem {
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(element?: ConnectionTreeItem): Promise<ConnectionTreeItem[]> {
-        if (!element) {
-            // Root level - show all saved connections
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (!element || element instanceof ConnectionGroupTreeItem) {
+            // Groups first, then the connections of the group (or the top level)
+            const path = element instanceof ConnectionGroupTreeItem ? element.group.name : undefined;
+            const groups = this.connectionManager.getConnectionGroups();
             const profiles = await this.connectionManager.getSavedProfiles();
 
-            if (profiles.length === 0) {
-                return [];
+            const childGroups = groups
+                .filter(group => getParentGroupPath(group.name) === path)
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(group => new ConnectionGroupTreeItem(group));
+
+            const color = path ? getGroupColor(groups, path) : undefined;
+            const connections = profiles
+                .filter(profile => normalizeGroupPath(profile.group) === path)
+                .map(profile =>
+                    new ConnectionTreeItem(
+                        profile.id,
+                        profile.name,
+                        `${profile.serverName} / ${profile.databaseName}`,
+                        vscode.TreeItemCollapsibleState.Collapsed,
+                        profile,
+                        color
+                    )
+                );
+
+            return [...childGroups, ...connections];
+        }
+
+        if (element instanceof ConnectionTreeItem && element.profile) {
+            return [
+                new ServerFolderTreeItem(element.profile, 'sessions'),
+                new ServerFolderTreeItem(element.profile, 'databases')
+            ];
+        }
+
+        if (element instanceof ServerFolderTreeItem) {
+            return this.getServerChildren(element);
+        }
+
+        return [];
+    }
+
+    async handleDrag(source: readonly vscode.TreeItem[], dataTransfer: vscode.DataTransfer): Promise<void> {
+        const items = source
+            .map(item => {
+                if (item instanceof ConnectionTreeItem) {
+                    return { profileId: item.id };
+                }
+                if (item instanceof ConnectionGroupTreeItem) {
+                    return { group: item.group.name };
+                }
+                return undefined;
+            })
+            .filter(item => item);
+
+        if (items.length > 0) {
+            dataTransfer.set(CONNECTION_MIME_TYPE, new vscode.DataTransferItem(items));
+        }
+    }
+
+    async handleDrop(target: vscode.TreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const transferItem = dataTransfer.get(CONNECTION_MIME_TYPE);
+        if (!transferItem) {
+            return;
+        }
+
+        // Dropping on a connection moves into that connection's group; dropping on empty space moves to the top level
+        let group: string | undefined;
+        if (target instanceof ConnectionGroupTreeItem) {
+            group = target.group.name;
+        } else if (target instanceof ConnectionTreeItem) {
+            group = normalizeGroupPath(target.profile?.group);
+        } else if (target) {
+            return;
+        }
+
+        const items: Array<{ profileId?: string; group?: string }> = transferItem.value;
+        const profileIds = items.filter(item => item.profileId).map(item => item.profileId!);
+        let moved = profileIds.length > 0 && await this.connectionManager.moveProfiles(profileIds, group);
+
+        for (const item of items) {
+            if (item.group) {
+                moved = await this.connectionManager.moveConnectionGroup(item.group, group) || moved;
             }
+        }
 
-            return profiles.map(profile =>
-                new ConnectionTreeItem(
-                    profile.id,
-                    profile.name,
-                    `${profile.serverName} / ${profile.databaseName}`,
-                    vscode.TreeItemCollapsibleState.None
+        if (moved) {
+            this.refresh();
+        }
+    }
+
+    /**
+     * Running event sessions or databases of a server, or what went wrong connecting to it
+     */
+    private async getServerChildren(element: ServerFolderTreeItem): Promise<vscode.TreeItem[]> {
+        const profile = element.profile;
+
+        try {
+            const connection = await this.connectionManager.getProfileConnection(profile);
+
+            if (element.kind === 'sessions') {
+                const profiled = new Set(
+                    this.profilerService.getAllSessions()
+                        .filter(session => session.connection.serverName === profile.serverName)
+                        .map(session => session.name)
+                );
+                const sessions = (await this.profilerService.listServerSessions(connection)).filter(session => session.isRunning);
+                if (sessions.length === 0) {
+                    return [new ServerItemTreeItem(`${element.id}:empty`, 'No running event sessions', 'info')];
+                }
+                return sessions.map(session => new ServerSessionTreeItem(profile, session, profiled.has(session.name)));
+            }
+
+            const databases = await this.profilerService.listDatabases(connection);
+            return databases.map(database =>
+                new ServerItemTreeItem(
+                    `${element.id}:${database.name}`,
+                    database.name,
+                    'database',
+                    database.state === 'ONLINE' ? undefined : database.state
                 )
             );
+        } catch (error: any) {
+            const message = error?.message || 'Unknown error';
+            console.error(`Failed to list ${element.kind} of ${profile.name}:`, error);
+            return [new ServerItemTreeItem(`${element.id}:error`, 'Failed to connect', 'error', message)];
         }
+    }
+}
 
-        return [];
+/**
+ * Color of a group, or of its nearest parent group with one
+ */
+function getGroupColor(groups: ConnectionGroup[], path: string): string | undefined {
+    for (let current: string | undefined = path; current; current = getParentGroupPath(current)) {
+        const color = groups.find(group => group.name === current)?.color;
+        if (color) {
+            return color;
+        }
     }
+    return undefined;
 }
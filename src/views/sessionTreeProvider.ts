@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { ProfilerService } from '../services/profilerService';
-import { SessionState } from '../models/profilerTypes';
+import { ConnectionStatus, SessionState } from '../models/profilerTypes';
 
 export class SessionTreeItem extends vscode.TreeItem {
     constructor(
@@ -8,7 +8,9 @@ export class SessionTreeItem extends vscode.TreeItem {
         public readonly state: SessionState,
         public readonly connectionInfo: string,
         public readonly eventCount: number,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly missedEventCount: number,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly connectionStatus?: ConnectionStatus
     ) {
         super(sessionName, collapsibleState);
         this.contextValue = 'session';
@@ -24,6 +26,22 @@ export class SessionTreeItem extends vscode.TreeItem {
 
         this.description = `${connectionInfo} - ${eventCount} events`;
         this.tooltip = `Session: ${sessionName}\nState: ${state}\nConnection: ${connectionInfo}\nEvents: ${eventCount}`;
+
+        if (missedEventCount > 0) {
+            this.description += ` (${missedEventCount} missed)`;
+            this.tooltip += `\nMissed (sequence gaps or dropped): ${missedEventCount}`;
+        }
+
+        // A lost connection outweighs the session state
+        if (connectionStatus?.health === 'reconnecting') {
+            this.iconPath = new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('editorWarning.foreground'));
+            this.description += ` - reconnecting (${connectionStatus.attempt}/${connectionStatus.maxAttempts})`;
+            this.tooltip += `\nConnection lost: ${connectionStatus.error || 'Unknown error'}\nReconnecting (attempt ${connectionStatus.attempt} of ${connectionStatus.maxAttempts})`;
+        } else if (connectionStatus?.health === 'disconnected') {
+            this.iconPath = new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('errorForeground'));
+            this.description += ' - disconnected';
+            this.tooltip += `\nDisconnected: ${connectionStatus.error || 'Unknown error'}`;
+        }
     }
 }
 
@@ -55,8 +73,10 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<SessionTreeI
                     session.name,
                     session.state,
                     `${session.connection.serverName}/${session.connection.databaseName}`,
-                    session.events.length,
-                    vscode.TreeItemCollapsibleState.None
+                    session.store.count,
+                    session.missedEventCount,
+                    vscode.TreeItemCollapsibleState.None,
+                    session.connectionStatus
                 )
             );
         }
@@ -2,7 +2,11 @@ import * as React from 'react';
 import { EventGrid } from './components/EventGrid';
 import { Toolbar } from './components/Toolbar';
 import { FilterBar, FilterOptions } from './components/FilterBar';
-import { ProfilerEvent, SessionState } from '../models/profilerTypes';
+import { TopQueriesView } from './components/TopQueriesView';
+import { BlockingView } from './components/BlockingView';
+import { PLAN_EVENTS } from '../services/planCorrelation';
+import { Timeline } from './components/Timeline';
+import { ActivityTreeRow, BlockingSnapshot, ColumnLayout, ConnectionStatus, EventQuery, ProfilerEvent, ProfilerView, ProfilerViewColumn, QueryStats, SavedFilter, ServerFilter, SessionState, TimelineData } from '../models/profilerTypes';
 
 interface VSCodeApi {
     postMessage(message: any): void;
@@ -14,18 +18,88 @@ declare function acquireVsCodeApi(): VSCodeApi;
 
 const vscode = acquireVsCodeApi();
 
+/** Rows requested from the extension at a time */
+const PAGE_SIZE = 200;
+
+/** Pages kept by the webview; those farthest from the visible rows are dropped first */
+const MAX_CACHED_PAGES = 50;
+
+/** Rows of a page, with their place in the activity trees when the grid groups by activity */
+interface RowPage {
+    events: ProfilerEvent[];
+    /** Store position of each event */
+    positions: number[];
+    tree?: ActivityTreeRow[];
+}
+
 export const App: React.FC = () => {
-    const [events, setEvents] = React.useState<ProfilerEvent[]>([]);
+    const [rowCount, setRowCount] = React.useState<number>(0);
+    const [eventCount, setEventCount] = React.useState<number>(0);
+    const [visibleRange, setVisibleRange] = React.useState<{ first: number; last: number }>({ first: 0, last: 0 });
+    const [pageVersion, setPageVersion] = React.useState<number>(0);
+    const [sort, setSort] = React.useState<EventQuery['sort']>(undefined);
     const [sessionState, setSessionState] = React.useState<SessionState>(SessionState.Stopped);
+    const [connectionStatus, setConnectionStatus] = React.useState<ConnectionStatus | undefined>(undefined);
     const [sessionName, setSessionName] = React.useState<string>('');
-    const [maxEvents, setMaxEvents] = React.useState<number>(1000);
+    const [readOnly, setReadOnly] = React.useState<boolean>(false);
+    const [canAlterSession, setCanAlterSession] = React.useState<boolean>(false);
+    const [serverFilter, setServerFilter] = React.useState<ServerFilter | undefined>(undefined);
+    const [captureInfo, setCaptureInfo] = React.useState<string>('');
+    const [missedEvents, setMissedEvents] = React.useState<number>(0);
     const [availableDatabases, setAvailableDatabases] = React.useState<string[]>([]);
+    const [views, setViews] = React.useState<ProfilerView[]>([]);
+    const [savedFilters, setSavedFilters] = React.useState<SavedFilter[]>([]);
+    const [fieldKeys, setFieldKeys] = React.useState<string[]>([]);
+    const [availableEventTypes, setAvailableEventTypes] = React.useState<string[]>([]);
+    const [layout, setLayout] = React.useState<ColumnLayout>(vscode.getState()?.layout || { viewName: '' });
+    const [tab, setTab] = React.useState<'events' | 'topQueries' | 'blocking'>('events');
+    const [topQueries, setTopQueries] = React.useState<{ queries: QueryStats[]; totalQueries: number } | undefined>(undefined);
+    const [blocking, setBlocking] = React.useState<{ snapshots: BlockingSnapshot[]; totalSnapshots: number } | undefined>(undefined);
+    const [plan, setPlan] = React.useState<{ event: ProfilerEvent; xml?: string; loading: boolean } | undefined>(undefined);
+    /** Latest plan lookup; replies to earlier ones are ignored */
+    const planRequest = React.useRef(0);
+    /** Query whose events the grid is limited to, chosen in Top Queries */
+    const [drillDown, setDrillDown] = React.useState<QueryStats | undefined>(undefined);
+    const [groupByActivity, setGroupByActivity] = React.useState<boolean>(!!vscode.getState()?.groupByActivity);
+    const [timelineVisible, setTimelineVisible] = React.useState<boolean>(!!vscode.getState()?.timelineVisible);
+    const [timelineData, setTimelineData] = React.useState<TimelineData | undefined>(undefined);
+    /** Time range chosen on the timeline */
+    const [timeRange, setTimeRange] = React.useState<EventQuery['timeRange']>(undefined);
     const [filters, setFilters] = React.useState<FilterOptions>({
         eventTypes: [],
         textSearch: '',
-        databaseFilter: []  // Start with empty, will be populated with all databases
+        databaseFilter: [],  // Start with empty, will be populated with all databases
+        expression: ''
     });
 
+    // Pages of rows read from the extension's event store, by page index
+    const pages = React.useRef(new Map<number, RowPage>());
+    const requestedPages = React.useRef(new Set<number>());
+    const rowsVersion = React.useRef(0);
+
+    // Apply a row count change; a reset means cached pages no longer match their row indexes
+    const handleRowsChanged = (message: any) => {
+        if (message.reset || message.rowsVersion !== rowsVersion.current) {
+            rowsVersion.current = message.rowsVersion;
+            pages.current.clear();
+            requestedPages.current.clear();
+        } else {
+            // Rows were only appended; the last page may have been partial
+            for (const [index, page] of pages.current) {
+                if (page.events.length < PAGE_SIZE) {
+                    pages.current.delete(index);
+                }
+            }
+        }
+
+        setRowCount(message.rowCount);
+        setEventCount(message.eventCount);
+        setFieldKeys(message.fieldKeys || []);
+        setAvailableEventTypes(message.eventTypes || []);
+        setMissedEvents(message.missedEvents || 0);
+        setPageVersion(v => v + 1);
+    };
+
     // Handle messages from extension
     React.useEffect(() => {
         const handleMessage = (event: MessageEvent) => {
@@ -35,26 +109,75 @@ export const App: React.FC = () => {
                 case 'init':
                     setSessionName(message.sessionName);
                     setSessionState(message.sessionState);
-                    setMaxEvents(message.maxEvents);
-                    if (message.events) {
-                        setEvents(message.events);
-                    }
+                    setConnectionStatus(message.connectionStatus);
+                    setReadOnly(!!message.readOnly);
+                    setCanAlterSession(!!message.canAlterSession);
+                    setServerFilter(message.serverFilter);
+                    setCaptureInfo(message.captureInfo || '');
+                    handleRowsChanged({ ...message, reset: true });
                     if (message.databases) {
                         setAvailableDatabases(message.databases);
                     }
+                    setViews(message.views || []);
+                    setSavedFilters(message.savedFilters || []);
+                    // Layout kept by this webview wins over the one remembered for the template
+                    if (!vscode.getState()?.layout) {
+                        setLayout(message.layout || { viewName: message.defaultView || '' });
+                    }
+                    break;
+
+                case 'viewsUpdated':
+                    setViews(message.views || []);
+                    break;
+
+                case 'savedFiltersUpdated':
+                    setSavedFilters(message.savedFilters || []);
                     break;
 
-                case 'eventsUpdated':
-                    setEvents(message.events);
+                case 'rowsChanged':
+                    handleRowsChanged(message);
+                    break;
+
+                case 'rows':
+                    // Pages read before the rows changed are stale
+                    if (message.rowsVersion === rowsVersion.current) {
+                        const pageIndex = Math.floor(message.start / PAGE_SIZE);
+                        pages.current.set(pageIndex, { events: message.events, positions: message.positions, tree: message.tree });
+                        requestedPages.current.delete(pageIndex);
+                        setPageVersion(v => v + 1);
+                    }
                     break;
 
                 case 'stateChanged':
                     setSessionState(message.state);
                     break;
 
-                case 'clear':
-                    setEvents([]);
+                case 'connectionStatus':
+                    setConnectionStatus(message.status);
+                    break;
+
+                case 'serverFilterChanged':
+                    setServerFilter(message.serverFilter);
+                    break;
+
+                case 'timeline':
+                    setTimelineData(message.data);
+                    break;
+
+                case 'topQueries':
+                    setTopQueries({ queries: message.queries, totalQueries: message.totalQueries });
                     break;
+
+                case 'blocking':
+                    setBlocking({ snapshots: message.snapshots, totalSnapshots: message.totalSnapshots });
+                    break;
+
+                case 'plan':
+                    if (message.requestId === planRequest.current) {
+                        setPlan(current => current && { ...current, xml: message.xml, loading: false });
+                    }
+                    break;
+
             }
         };
 
@@ -91,12 +214,29 @@ export const App: React.FC = () => {
         vscode.postMessage({ type: 'reconnect' });
     };
 
-    // Get unique event types for filter options
-    const availableEventTypes = React.useMemo(() => {
-        const types = new Set<string>();
-        events.forEach(event => types.add(event.name));
-        return Array.from(types).sort();
-    }, [events]);
+    const currentView = React.useMemo(() => {
+        return views.find(v => v.name === layout.viewName) || views[0];
+    }, [views, layout.viewName]);
+
+    const updateLayout = (newLayout: ColumnLayout) => {
+        setLayout(newLayout);
+        vscode.setState({ ...vscode.getState(), layout: newLayout });
+        vscode.postMessage({ type: 'layoutChanged', layout: newLayout });
+    };
+
+    // Switching views discards column customizations
+    const handleViewChange = (viewName: string) => {
+        updateLayout({ viewName });
+    };
+
+    const handleColumnsChange = (columns: ProfilerViewColumn[]) => {
+        updateLayout({ viewName: currentView?.name || layout.viewName, columns });
+    };
+
+    const columns = layout.columns || currentView?.columns || [];
+
+    // Every field seen in the captured events, for the column chooser
+    const availableColumnKeys = React.useMemo(() => ['name', 'timestamp', ...fieldKeys], [fieldKeys]);
 
     // Auto-select all databases when available databases change
     React.useEffect(() => {
@@ -105,50 +245,118 @@ export const App: React.FC = () => {
         }
     }, [availableDatabases]);
 
-    // Filter events based on filter settings
-    const filteredEvents = React.useMemo(() => {
-        let filtered = events;
+    // Filtering and sorting run in the extension over every captured event
+    React.useEffect(() => {
+        const allDatabases = filters.databaseFilter.length >= availableDatabases.length;
+        const query: EventQuery = {
+            eventTypes: filters.eventTypes,
+            databases: allDatabases ? [] : filters.databaseFilter,
+            textSearch: filters.textSearch,
+            expression: filters.expression,
+            fingerprint: drillDown?.fingerprint,
+            timeRange,
+            sort: groupByActivity ? undefined : sort,
+            groupByActivity
+        };
+        vscode.postMessage({ type: 'query', query });
+    }, [filters, availableDatabases, sort, drillDown, timeRange, groupByActivity]);
 
-        // Filter by event type
-        if (filters.eventTypes.length > 0) {
-            filtered = filtered.filter(event => filters.eventTypes.includes(event.name));
+    React.useEffect(() => {
+        vscode.setState({ ...vscode.getState(), groupByActivity });
+    }, [groupByActivity]);
+
+    // The extension only keeps the timeline up to date while it is shown
+    React.useEffect(() => {
+        vscode.setState({ ...vscode.getState(), timelineVisible });
+        if (!timelineVisible) {
+            setTimelineData(undefined);
         }
+        vscode.postMessage({ type: 'showTimeline', visible: timelineVisible });
+    }, [timelineVisible]);
+
+    // Aggregate queries over the filtered events whenever Top Queries is shown or the filters change
+    const refreshTopQueries = () => {
+        setTopQueries(undefined);
+        vscode.postMessage({ type: 'getTopQueries' });
+    };
 
-        // Filter by database (only if specific databases are selected, not all)
-        if (filters.databaseFilter.length > 0 && filters.databaseFilter.length < availableDatabases.length) {
-            filtered = filtered.filter(event => {
-                const dbName = event.values['database_name'];
-                return dbName && filters.databaseFilter.includes(String(dbName));
-            });
+    React.useEffect(() => {
+        if (tab === 'topQueries') {
+            refreshTopQueries();
         }
+    }, [tab, filters, availableDatabases, timeRange]);
+
+    // Rebuild the blocking chains whenever Blocking is shown or the filters change
+    const refreshBlocking = () => {
+        setBlocking(undefined);
+        vscode.postMessage({ type: 'getBlocking' });
+    };
 
-        // Filter by text search (search all fields)
-        if (filters.textSearch) {
-            const searchLower = filters.textSearch.toLowerCase();
-            filtered = filtered.filter(event => {
-                // Search in event name
-                if (event.name.toLowerCase().includes(searchLower)) return true;
-
-                // Search in timestamp
-                if (event.timestamp.toLowerCase().includes(searchLower)) return true;
-
-                // Search in all values
-                return Object.values(event.values).some(value =>
-                    String(value).toLowerCase().includes(searchLower)
-                );
-            });
+    React.useEffect(() => {
+        if (tab === 'blocking') {
+            refreshBlocking();
         }
+    }, [tab, filters, availableDatabases, timeRange]);
 
-        return filtered;
-    }, [events, filters]);
+    // Request the pages covering the visible rows and drop pages far away from them
+    React.useEffect(() => {
+        const firstPage = Math.floor(visibleRange.first / PAGE_SIZE);
+        const lastPage = Math.floor(Math.max(visibleRange.first, visibleRange.last - 1) / PAGE_SIZE);
+
+        for (let index = firstPage; index <= lastPage && index * PAGE_SIZE < rowCount; index++) {
+            if (!pages.current.has(index) && !requestedPages.current.has(index)) {
+                requestedPages.current.add(index);
+                vscode.postMessage({ type: 'getRows', start: index * PAGE_SIZE, count: PAGE_SIZE });
+            }
+        }
+
+        if (pages.current.size > MAX_CACHED_PAGES) {
+            const distance = (index: number) => Math.abs(index - firstPage);
+            const farthest = Array.from(pages.current.keys()).sort((a, b) => distance(b) - distance(a));
+            for (const index of farthest.slice(0, pages.current.size - MAX_CACHED_PAGES)) {
+                pages.current.delete(index);
+            }
+        }
+    }, [visibleRange, rowCount, pageVersion]);
+
+    const handleRequestPlan = (event: ProfilerEvent) => {
+        const requestId = ++planRequest.current;
+        const page = Array.from(pages.current.values()).find(cached => cached.events.includes(event));
+        if (!page) {
+            setPlan({ event, loading: false });
+            return;
+        }
+
+        setPlan({ event, loading: true });
+        vscode.postMessage({ type: 'getPlan', event, position: page.positions[page.events.indexOf(event)], requestId });
+    };
+
+    const getRow = (index: number): ProfilerEvent | undefined => {
+        return pages.current.get(Math.floor(index / PAGE_SIZE))?.events[index % PAGE_SIZE];
+    };
+
+    const getTreeRow = (index: number): ActivityTreeRow | undefined => {
+        return pages.current.get(Math.floor(index / PAGE_SIZE))?.tree?.[index % PAGE_SIZE];
+    };
 
     return (
         <div className="profiler-container">
             <div className="profiler-header">
                 <h2>SQL Server Profiler - {sessionName}</h2>
+                {captureInfo && <div className="capture-info">{captureInfo}</div>}
             </div>
             <Toolbar
                 sessionState={sessionState}
+                connectionStatus={connectionStatus}
+                readOnly={readOnly}
+                views={views.map(v => v.name)}
+                currentView={currentView?.name || ''}
+                onViewChange={handleViewChange}
+                availableColumnKeys={availableColumnKeys}
+                columns={columns}
+                columnsCustomized={!!layout.columns}
+                onColumnsChange={handleColumnsChange}
+                onResetColumns={() => handleViewChange(currentView?.name || layout.viewName)}
                 onStart={handleStart}
                 onStop={handleStop}
                 onPause={handlePause}
@@ -159,13 +367,94 @@ export const App: React.FC = () => {
             <FilterBar
                 availableEventTypes={availableEventTypes}
                 availableDatabases={availableDatabases}
+                fieldKeys={availableColumnKeys}
+                savedFilters={savedFilters}
                 filters={filters}
                 onFilterChange={setFilters}
+                onSaveFilter={(expression, name) => vscode.postMessage({ type: 'saveFilter', expression, name })}
+                onDeleteFilter={(name) => vscode.postMessage({ type: 'deleteFilter', name })}
+                canApplyServerFilter={canAlterSession}
+                serverFilter={serverFilter}
+                onApplyServerFilter={() => vscode.postMessage({ type: 'applyServerFilter' })}
             />
-            <EventGrid
-                events={filteredEvents}
-                maxEvents={maxEvents}
+            <Timeline
+                data={timelineData}
+                visible={timelineVisible}
+                onVisibleChange={setTimelineVisible}
+                timeRange={timeRange}
+                onTimeRangeChange={setTimeRange}
             />
+            <div className="view-tabs">
+                <button
+                    className={`view-tab ${tab === 'events' ? 'active' : ''}`}
+                    onClick={() => setTab('events')}
+                >
+                    Events
+                </button>
+                <button
+                    className={`view-tab ${tab === 'topQueries' ? 'active' : ''}`}
+                    onClick={() => setTab('topQueries')}
+                >
+                    Top Queries
+                </button>
+                {(tab === 'blocking' || availableEventTypes.includes('blocked_process_report')) && (
+                    <button
+                        className={`view-tab ${tab === 'blocking' ? 'active' : ''}`}
+                        onClick={() => setTab('blocking')}
+                    >
+                        Blocking
+                    </button>
+                )}
+                {tab === 'events' && drillDown && (
+                    <span className="drill-down" title={drillDown.text}>
+                        Query: <span className="drill-down-text">{drillDown.text}</span>
+                        <button
+                            className="filter-clear"
+                            onClick={() => setDrillDown(undefined)}
+                            title="Show the events of every query"
+                        >
+                            Clear
+                        </button>
+                    </span>
+                )}
+            </div>
+            {tab === 'blocking' ? (
+                <BlockingView
+                    snapshots={blocking?.snapshots}
+                    totalSnapshots={blocking?.totalSnapshots || 0}
+                    onRefresh={refreshBlocking}
+                />
+            ) : tab === 'topQueries' ? (
+                <TopQueriesView
+                    queries={topQueries?.queries}
+                    totalQueries={topQueries?.totalQueries || 0}
+                    onRefresh={refreshTopQueries}
+                    onShowEvents={(query) => {
+                        setDrillDown(query);
+                        setTab('events');
+                    }}
+                />
+            ) : (
+                <EventGrid
+                    rowCount={rowCount}
+                    getRow={getRow}
+                    eventCount={eventCount}
+                    missedEvents={missedEvents}
+                    columns={columns}
+                    onColumnsChange={handleColumnsChange}
+                    sort={groupByActivity ? undefined : sort}
+                    onSortChange={setSort}
+                    groupByActivity={groupByActivity}
+                    onGroupByActivityChange={setGroupByActivity}
+                    getTreeRow={getTreeRow}
+                    onToggleActivity={(id) => vscode.postMessage({ type: 'toggleActivity', id })}
+                    onVisibleRangeChange={(first, last) => setVisibleRange({ first, last })}
+                    onSaveDeadlock={(xml) => vscode.postMessage({ type: 'saveDeadlock', xml })}
+                    plan={plan}
+                    onRequestPlan={availableEventTypes.some(name => PLAN_EVENTS.includes(name)) ? handleRequestPlan : undefined}
+                    onSavePlan={(xml) => vscode.postMessage({ type: 'savePlan', xml })}
+                />
+            )}
         </div>
     );
 };
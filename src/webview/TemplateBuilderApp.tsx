@@ -0,0 +1,202 @@
+import * as React from 'react';
+import { XEventObjectList } from './components/XEventObjectList';
+import { PredicateEditor } from './components/PredicateEditor';
+import { SessionOptionsForm } from './components/SessionOptionsForm';
+import { TemplateDefinition, XEventCatalog } from '../models/profilerTypes';
+
+interface VSCodeApi {
+    postMessage(message: any): void;
+    getState(): any;
+    setState(state: any): void;
+}
+
+declare function acquireVsCodeApi(): VSCodeApi;
+
+const vscode = acquireVsCodeApi();
+
+export const TemplateBuilderApp: React.FC = () => {
+    const [serverName, setServerName] = React.useState<string>('');
+    const [isAzure, setIsAzure] = React.useState<boolean>(false);
+    const [catalog, setCatalog] = React.useState<XEventCatalog | undefined>(undefined);
+    const [catalogError, setCatalogError] = React.useState<string>('');
+    const [definition, setDefinition] = React.useState<TemplateDefinition | undefined>(undefined);
+    const [createStatement, setCreateStatement] = React.useState<string>('');
+    const [errors, setErrors] = React.useState<string[]>([]);
+
+    // Handle messages from extension
+    React.useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+
+            switch (message.type) {
+                case 'init':
+                    setServerName(message.serverName);
+                    setIsAzure(!!message.isAzure);
+                    break;
+
+                case 'catalog':
+                    setCatalog(message.catalog);
+                    setDefinition(vscode.getState()?.definition || message.definition);
+                    break;
+
+                case 'catalogError':
+                    setCatalogError(message.message);
+                    break;
+
+                case 'preview':
+                    setCreateStatement(message.createStatement);
+                    setErrors(message.errors || []);
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    // Notify extension when ready
+    React.useEffect(() => {
+        vscode.postMessage({ type: 'ready' });
+    }, []);
+
+    // Regenerate the statement and keep the definition across reloads
+    React.useEffect(() => {
+        if (definition) {
+            vscode.setState({ definition });
+            vscode.postMessage({ type: 'update', definition });
+        }
+    }, [definition]);
+
+    const packages = React.useMemo(() => {
+        return catalog ? catalog.packages.map(p => p.name) : [];
+    }, [catalog]);
+
+    if (catalogError) {
+        return (
+            <div className="builder-container">
+                <div className="builder-message error">Failed to load the Extended Events catalog: {catalogError}</div>
+            </div>
+        );
+    }
+
+    if (!catalog || !definition) {
+        return (
+            <div className="builder-container">
+                <div className="builder-message">Loading Extended Events catalog from {serverName || 'server'}...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="builder-container">
+            <div className="profiler-header">
+                <h2>Session Template Builder - {serverName}</h2>
+                <div className="capture-info">
+                    {catalog.events.length} events, {catalog.actions.length} actions available{isAzure ? ' (database scoped)' : ''}
+                </div>
+            </div>
+            <div className="toolbar">
+                <div className="toolbar-group">
+                    <button
+                        className="toolbar-button"
+                        onClick={() => vscode.postMessage({ type: 'use', definition })}
+                        disabled={errors.length > 0}
+                        title="Create and start a profiler session with this template"
+                    >
+                        <span className="codicon codicon-play"></span>
+                        Start Session
+                    </button>
+                    <button
+                        className="toolbar-button"
+                        onClick={() => vscode.postMessage({ type: 'save', definition })}
+                        disabled={errors.length > 0}
+                        title="Save as a custom template"
+                    >
+                        <span className="codicon codicon-export"></span>
+                        Save Template
+                    </button>
+                </div>
+            </div>
+            <div className="builder-content">
+                <div className="builder-column">
+                    <div className="builder-section">
+                        <div className="builder-form">
+                            <label className="builder-field">
+                                <span>Name</span>
+                                <input
+                                    type="text"
+                                    className="builder-input"
+                                    value={definition.name}
+                                    onChange={(e) => setDefinition({ ...definition, name: e.target.value })}
+                                />
+                            </label>
+                            <label className="builder-field">
+                                <span>Description</span>
+                                <input
+                                    type="text"
+                                    className="builder-input"
+                                    value={definition.description || ''}
+                                    onChange={(e) => setDefinition({ ...definition, description: e.target.value })}
+                                />
+                            </label>
+                            <label className="builder-field">
+                                <span>Default view</span>
+                                <input
+                                    type="text"
+                                    className="builder-input"
+                                    list="builder-views"
+                                    value={definition.defaultView}
+                                    onChange={(e) => setDefinition({ ...definition, defaultView: e.target.value })}
+                                />
+                                <datalist id="builder-views">
+                                    <option value="Standard View" />
+                                    <option value="TSQL View" />
+                                </datalist>
+                            </label>
+                        </div>
+                    </div>
+                    <XEventObjectList
+                        title="Events"
+                        objects={catalog.events}
+                        packages={packages}
+                        selected={definition.events}
+                        onChange={(events) => setDefinition({ ...definition, events })}
+                    />
+                    <XEventObjectList
+                        title="Actions"
+                        objects={catalog.actions}
+                        packages={packages}
+                        selected={definition.actions}
+                        onChange={(actions) => setDefinition({ ...definition, actions })}
+                    />
+                </div>
+                <div className="builder-column">
+                    <PredicateEditor
+                        catalog={catalog}
+                        selectedEvents={definition.events}
+                        predicates={definition.predicates}
+                        onChange={(predicates) => setDefinition({ ...definition, predicates })}
+                    />
+                    <SessionOptionsForm
+                        definition={definition}
+                        isAzure={isAzure}
+                        onChange={setDefinition}
+                    />
+                    <div className="builder-section">
+                        <div className="builder-section-header">
+                            <h3>Generated Statement</h3>
+                        </div>
+                        {errors.length > 0 && (
+                            <ul className="builder-errors">
+                                {errors.map((error, index) => (
+                                    <li key={index}>{error}</li>
+                                ))}
+                            </ul>
+                        )}
+                        <pre className="builder-preview">{createStatement}</pre>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,172 @@
+import * as React from 'react';
+import { BlockingNode, BlockingSnapshot } from '../../models/profilerTypes';
+
+interface BlockingViewProps {
+    /** Blocking chains per blocked process monitor pass, oldest first; undefined while they are being built */
+    snapshots: BlockingSnapshot[] | undefined;
+    /** Number of passes, including those not sent */
+    totalSnapshots: number;
+    onRefresh: () => void;
+}
+
+interface HeadBlockerSummary {
+    spid: string;
+    firstSeen: string;
+    lastSeen: string;
+    /** Passes the process was a head blocker in */
+    passes: number;
+    /** Most processes blocked behind it in a pass */
+    maxBlocked: number;
+    maxWaitTime: number;
+    sql: string;
+    /** Index of the last pass the process was a head blocker in */
+    lastSnapshot: number;
+}
+
+const formatTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? timestamp : date.toLocaleTimeString();
+};
+
+const formatWait = (ms: number | undefined) => ms === undefined ? '' : `${(ms / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })} s`;
+
+const countBlocked = (node: BlockingNode): number => node.blocked.reduce((count, child) => count + 1 + countBlocked(child), 0);
+
+const maxWait = (node: BlockingNode): number => node.blocked.reduce((max, child) => Math.max(max, child.waitTime || 0, maxWait(child)), 0);
+
+/**
+ * Head blockers over the capture, and the blocking chains of each blocked process monitor pass
+ * rebuilt from blocked_process_report events
+ */
+export const BlockingView: React.FC<BlockingViewProps> = ({ snapshots, totalSnapshots, onRefresh }) => {
+    const [selectedIndex, setSelectedIndex] = React.useState<number | undefined>(undefined);
+
+    // Go back to the latest pass when the chains are rebuilt
+    React.useEffect(() => setSelectedIndex(undefined), [snapshots]);
+
+    const headBlockers = React.useMemo(() => {
+        const summaries = new Map<string, HeadBlockerSummary>();
+        (snapshots || []).forEach((snapshot, index) => {
+            for (const head of snapshot.heads) {
+                const blocked = countBlocked(head);
+                const wait = maxWait(head);
+                const summary = summaries.get(head.spid);
+                if (!summary) {
+                    summaries.set(head.spid, {
+                        spid: head.spid,
+                        firstSeen: snapshot.timestamp,
+                        lastSeen: snapshot.timestamp,
+                        passes: 1,
+                        maxBlocked: blocked,
+                        maxWaitTime: wait,
+                        sql: head.sql,
+                        lastSnapshot: index
+                    });
+                } else {
+                    summary.lastSeen = snapshot.timestamp;
+                    summary.passes++;
+                    summary.maxBlocked = Math.max(summary.maxBlocked, blocked);
+                    summary.maxWaitTime = Math.max(summary.maxWaitTime, wait);
+                    summary.sql = head.sql || summary.sql;
+                    summary.lastSnapshot = index;
+                }
+            }
+        });
+        return Array.from(summaries.values()).sort((a, b) => b.maxWaitTime - a.maxWaitTime);
+    }, [snapshots]);
+
+    // Show the latest pass until another one is picked
+    const selected = snapshots && snapshots.length > 0
+        ? snapshots[selectedIndex !== undefined && selectedIndex < snapshots.length ? selectedIndex : snapshots.length - 1]
+        : undefined;
+
+    const renderNode = (node: BlockingNode, depth: number): React.ReactElement => (
+        <div key={node.spid} className="blocking-node" style={{ marginLeft: depth > 0 ? 20 : 0 }}>
+            <div className={`blocking-node-header ${depth === 0 ? 'head' : ''}`}>
+                <span className="blocking-spid">SPID {node.spid}</span>
+                {depth === 0 && <span className="blocking-head-badge">Head blocker</span>}
+                {node.status && <span className="blocking-attribute">{node.status}</span>}
+                {node.lockMode && depth > 0 && <span className="blocking-attribute">Requested: {node.lockMode}</span>}
+                {node.waitTime !== undefined && <span className="blocking-attribute">Waiting {formatWait(node.waitTime)}</span>}
+                {node.waitResource && <span className="blocking-attribute" title="Wait resource">{node.waitResource}</span>}
+                <span className="blocking-attribute">
+                    {[node.databaseName, node.loginName, node.hostName, node.clientApp].filter(Boolean).join(' · ')}
+                </span>
+            </div>
+            {node.sql && <pre className="blocking-sql">{node.sql}</pre>}
+            {node.blocked.map(child => renderNode(child, depth + 1))}
+        </div>
+    );
+
+    return (
+        <div className="top-queries blocking">
+            <div className="top-queries-toolbar">
+                <span className="top-queries-count">
+                    {snapshots && (totalSnapshots > snapshots.length
+                        ? `Latest ${snapshots.length.toLocaleString()} of ${totalSnapshots.toLocaleString()} monitor passes`
+                        : `${totalSnapshots.toLocaleString()} monitor passes`)}
+                </span>
+                <button className="filter-clear" onClick={onRefresh} disabled={!snapshots}>
+                    Refresh
+                </button>
+            </div>
+            {!snapshots ? (
+                <div className="blocking-empty">Rebuilding blocking chains...</div>
+            ) : snapshots.length === 0 ? (
+                <div className="blocking-empty">No blocked_process_report events match the current filters.</div>
+            ) : (
+                <div className="blocking-content">
+                    <table className="event-grid blocking-heads">
+                        <thead>
+                            <tr>
+                                <th>Head Blocker</th>
+                                <th>First Seen</th>
+                                <th>Last Seen</th>
+                                <th className="top-queries-stat-column">Passes</th>
+                                <th className="top-queries-stat-column">Max Blocked</th>
+                                <th className="top-queries-stat-column">Longest Wait</th>
+                                <th>SQL</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {headBlockers.map(head => (
+                                <tr
+                                    key={head.spid}
+                                    onClick={() => setSelectedIndex(head.lastSnapshot)}
+                                    title="Show the last pass this process was blocking in"
+                                >
+                                    <td>SPID {head.spid}</td>
+                                    <td>{formatTime(head.firstSeen)}</td>
+                                    <td>{formatTime(head.lastSeen)}</td>
+                                    <td className="top-queries-stat-column">{head.passes.toLocaleString()}</td>
+                                    <td className="top-queries-stat-column">{head.maxBlocked.toLocaleString()}</td>
+                                    <td className="top-queries-stat-column">{formatWait(head.maxWaitTime)}</td>
+                                    <td className="top-queries-text-column">{head.sql}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="blocking-panes">
+                        <div className="blocking-snapshots">
+                            {snapshots.map((snapshot, index) => (
+                                <div
+                                    key={index}
+                                    className={`blocking-snapshot ${snapshot === selected ? 'selected' : ''}`}
+                                    onClick={() => setSelectedIndex(index)}
+                                >
+                                    <span>{formatTime(snapshot.timestamp)}</span>
+                                    <span className="blocking-attribute">
+                                        {snapshot.blockedCount} blocked, {formatWait(snapshot.maxWaitTime)}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="blocking-chains">
+                            {selected && selected.heads.map(head => renderNode(head, 0))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,109 @@
+import * as React from 'react';
+import { ProfilerViewColumn } from '../../models/profilerTypes';
+
+interface ColumnChooserProps {
+    /** Every field seen in the captured events */
+    availableKeys: string[];
+    columns: ProfilerViewColumn[];
+    customized: boolean;
+    onColumnsChange: (columns: ProfilerViewColumn[]) => void;
+    onReset: () => void;
+}
+
+/** Width given to columns added from the chooser */
+const NEW_COLUMN_WIDTH = 150;
+
+/**
+ * Dropdown listing every captured field, used to show and hide grid columns
+ */
+export const ColumnChooser: React.FC<ColumnChooserProps> = ({
+    availableKeys,
+    columns,
+    customized,
+    onColumnsChange,
+    onReset
+}) => {
+    const [isOpen, setIsOpen] = React.useState(false);
+    const [search, setSearch] = React.useState('');
+    const dropdownRef = React.useRef<HTMLDivElement>(null);
+
+    // Close dropdown when clicking outside
+    React.useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    // Visible columns first (in grid order), then the remaining fields alphabetically
+    const keys = React.useMemo(() => {
+        const visible = columns.map(col => col.key);
+        const hidden = availableKeys.filter(key => !visible.includes(key)).sort();
+        const searchLower = search.toLowerCase();
+        return [...visible, ...hidden].filter(key => key.toLowerCase().includes(searchLower));
+    }, [availableKeys, columns, search]);
+
+    const handleToggle = (key: string) => {
+        if (columns.some(col => col.key === key)) {
+            onColumnsChange(columns.filter(col => col.key !== key));
+        } else {
+            onColumnsChange([...columns, { key, label: key, width: NEW_COLUMN_WIDTH }]);
+        }
+    };
+
+    return (
+        <div className="column-chooser" ref={dropdownRef}>
+            <button
+                className="toolbar-button"
+                onClick={() => setIsOpen(!isOpen)}
+                title="Choose columns"
+            >
+                <span className="codicon codicon-list-selection"></span>
+                Columns
+            </button>
+            {isOpen && (
+                <div className="column-chooser-dropdown">
+                    <div className="column-chooser-header">
+                        <input
+                            type="text"
+                            className="filter-input"
+                            placeholder="Search fields..."
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                        />
+                        <button
+                            className="filter-clear"
+                            onClick={onReset}
+                            disabled={!customized}
+                            title="Restore the columns of the selected view"
+                        >
+                            Reset
+                        </button>
+                    </div>
+                    <div className="column-chooser-items">
+                        {keys.map(key => {
+                            const column = columns.find(col => col.key === key);
+                            return (
+                                <label key={key} className="filter-checkbox column-chooser-item">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!column}
+                                        onChange={() => handleToggle(key)}
+                                    />
+                                    <span>{column?.label && column.label !== key ? `${column.label} (${key})` : key}</span>
+                                </label>
+                            );
+                        })}
+                    </div>
+                    <div className="column-chooser-hint">Drag headers to reorder, drag header edges to resize</div>
+                </div>
+            )}
+        </div>
+    );
+};
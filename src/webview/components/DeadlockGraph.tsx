@@ -0,0 +1,201 @@
+import * as React from 'react';
+import { DeadlockGraph as DeadlockGraphData, DeadlockProcess, DeadlockResource, parseDeadlockGraph } from '../../parsers/deadlockParser';
+
+interface DeadlockGraphProps {
+    /** Deadlock graph XML of an xml_deadlock_report event */
+    xml: string;
+    /** Save the graph as an .xdl file */
+    onSave: (xml: string) => void;
+}
+
+/** Graph layout in px */
+const NODE_WIDTH = 180;
+const NODE_GAP = 40;
+const PROCESS_TOP = 16;
+const PROCESS_HEIGHT = 64;
+const RESOURCE_TOP = 180;
+const RESOURCE_HEIGHT = 60;
+const GRAPH_HEIGHT = RESOURCE_TOP + RESOURCE_HEIGHT + 16;
+/** Horizontal bend of edges, so owner and waiter edges between the same nodes don't overlap */
+const EDGE_BEND = 40;
+
+const RESOURCE_TYPES: { [type: string]: string } = {
+    keylock: 'Key Lock',
+    pagelock: 'Page Lock',
+    ridlock: 'RID Lock',
+    objectlock: 'Object Lock',
+    hobtlock: 'HoBT Lock',
+    extentlock: 'Extent Lock',
+    databaselock: 'Database Lock',
+    filelock: 'File Lock',
+    allocunitlock: 'Allocation Unit Lock',
+    applicationlock: 'Application Lock',
+    metadatalock: 'Metadata Lock',
+    exchangeEvent: 'Exchange Event',
+    threadpool: 'Thread Pool',
+    resourceWait: 'Resource Wait'
+};
+
+/** Schema and object of a three-part object name */
+const shortObjectName = (name: string | undefined) => name ? name.split('.').slice(-2).join('.') : '';
+
+/**
+ * Processes (ovals) and resources (boxes) of a deadlock with owner and waiter edges,
+ * followed by the details and input buffer of each process
+ */
+export const DeadlockGraph: React.FC<DeadlockGraphProps> = ({ xml, onSave }) => {
+    const graph = React.useMemo((): DeadlockGraphData | undefined => {
+        try {
+            return parseDeadlockGraph(xml);
+        } catch (error) {
+            console.error('Failed to parse deadlock graph:', error);
+            return undefined;
+        }
+    }, [xml]);
+
+    if (!graph || graph.processes.length === 0) {
+        return <div className="details-section-error">The deadlock graph could not be read.</div>;
+    }
+
+    const columns = Math.max(graph.processes.length, graph.resources.length);
+    const width = columns * (NODE_WIDTH + NODE_GAP) + NODE_GAP;
+
+    // Center each row
+    const rowX = (index: number, count: number) => {
+        const rowWidth = count * (NODE_WIDTH + NODE_GAP) - NODE_GAP;
+        return (width - rowWidth) / 2 + index * (NODE_WIDTH + NODE_GAP);
+    };
+
+    const processX = new Map<string, number>();
+    graph.processes.forEach((process, index) => processX.set(process.id, rowX(index, graph.processes.length)));
+
+    const renderEdge = (key: string, resourceIndex: number, processId: string, label: string, isOwner: boolean) => {
+        const x = processX.get(processId);
+        if (x === undefined) {
+            return null;
+        }
+
+        const processPoint = { x: x + NODE_WIDTH / 2, y: PROCESS_TOP + PROCESS_HEIGHT };
+        const resourcePoint = { x: rowX(resourceIndex, graph.resources.length) + NODE_WIDTH / 2, y: RESOURCE_TOP };
+        // Owner edges point from the resource to the process holding it, waiter edges from the process to the resource
+        const [from, to] = isOwner ? [resourcePoint, processPoint] : [processPoint, resourcePoint];
+        const control = {
+            x: (from.x + to.x) / 2 + (isOwner ? EDGE_BEND : -EDGE_BEND),
+            y: (from.y + to.y) / 2
+        };
+        const labelPoint = {
+            x: 0.25 * from.x + 0.5 * control.x + 0.25 * to.x,
+            y: 0.25 * from.y + 0.5 * control.y + 0.25 * to.y
+        };
+
+        return (
+            <g key={key} className={isOwner ? 'deadlock-edge owner' : 'deadlock-edge waiter'}>
+                <path d={`M ${from.x} ${from.y} Q ${control.x} ${control.y} ${to.x} ${to.y}`} markerEnd="url(#deadlock-arrow)" />
+                <text x={labelPoint.x} y={labelPoint.y} textAnchor="middle">{label}</text>
+            </g>
+        );
+    };
+
+    const renderProcess = (process: DeadlockProcess) => {
+        const x = processX.get(process.id)!;
+        const cx = x + NODE_WIDTH / 2;
+        const cy = PROCESS_TOP + PROCESS_HEIGHT / 2;
+
+        return (
+            <g key={process.id} className={`deadlock-process ${process.isVictim ? 'victim' : ''}`}>
+                <title>{process.inputBuffer || process.id}</title>
+                <ellipse cx={cx} cy={cy} rx={NODE_WIDTH / 2} ry={PROCESS_HEIGHT / 2} />
+                {process.isVictim && (
+                    <>
+                        <line x1={cx - 50} y1={cy - 24} x2={cx + 50} y2={cy + 24} />
+                        <line x1={cx - 50} y1={cy + 24} x2={cx + 50} y2={cy - 24} />
+                    </>
+                )}
+                <text x={cx} y={cy - 12} textAnchor="middle" className="deadlock-node-title">
+                    SPID {process.spid || '?'}{process.isVictim ? ' (victim)' : ''}
+                </text>
+                <text x={cx} y={cy + 4} textAnchor="middle">{process.lockMode ? `Requested: ${process.lockMode}` : ''}</text>
+                <text x={cx} y={cy + 18} textAnchor="middle">{process.logUsed ? `Log used: ${process.logUsed}` : ''}</text>
+            </g>
+        );
+    };
+
+    const renderResource = (resource: DeadlockResource, index: number) => {
+        const x = rowX(index, graph.resources.length);
+
+        return (
+            <g key={resource.id || index} className="deadlock-resource">
+                <title>{[resource.objectName, resource.indexName].filter(Boolean).join(' / ') || resource.type}</title>
+                <rect x={x} y={RESOURCE_TOP} width={NODE_WIDTH} height={RESOURCE_HEIGHT} rx={3} />
+                <text x={x + NODE_WIDTH / 2} y={RESOURCE_TOP + 18} textAnchor="middle" className="deadlock-node-title">
+                    {RESOURCE_TYPES[resource.type] || resource.type}
+                </text>
+                <text x={x + NODE_WIDTH / 2} y={RESOURCE_TOP + 34} textAnchor="middle">{shortObjectName(resource.objectName)}</text>
+                <text x={x + NODE_WIDTH / 2} y={RESOURCE_TOP + 50} textAnchor="middle">{resource.indexName || ''}</text>
+            </g>
+        );
+    };
+
+    return (
+        <div className="deadlock-graph">
+            <div className="details-section-header">
+                <h4>Deadlock Graph</h4>
+                <button className="filter-clear" onClick={() => onSave(xml)} title="Save as an .xdl file that SSMS can open">
+                    Save as .xdl
+                </button>
+            </div>
+            <div className="deadlock-graph-canvas">
+                <svg width={width} height={GRAPH_HEIGHT}>
+                    <defs>
+                        <marker id="deadlock-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" />
+                        </marker>
+                    </defs>
+                    {graph.resources.map((resource, index) => (
+                        <React.Fragment key={`edges-${resource.id || index}`}>
+                            {resource.owners.map((owner, ownerIndex) =>
+                                renderEdge(`owner-${ownerIndex}`, index, owner.processId, `Owner: ${owner.mode || '?'}`, true))}
+                            {resource.waiters.map((waiter, waiterIndex) =>
+                                renderEdge(`waiter-${waiterIndex}`, index, waiter.processId, `Waits: ${waiter.mode || '?'}`, false))}
+                        </React.Fragment>
+                    ))}
+                    {graph.processes.map(renderProcess)}
+                    {graph.resources.map(renderResource)}
+                </svg>
+            </div>
+            {graph.processes.map(process => (
+                <div key={process.id} className={`deadlock-process-details ${process.isVictim ? 'victim' : ''}`}>
+                    <div className="deadlock-process-title">
+                        SPID {process.spid || '?'} {process.isVictim && <span className="deadlock-victim-badge">Victim</span>}
+                    </div>
+                    <div className="deadlock-process-info">
+                        {[
+                            ['Login', process.loginName],
+                            ['Host', process.hostName],
+                            ['Application', process.clientApp],
+                            ['Database', process.databaseName],
+                            ['Isolation', process.isolationLevel],
+                            ['Transaction', process.transactionName],
+                            ['Lock mode', process.lockMode],
+                            ['Wait resource', process.waitResource],
+                            ['Wait time (ms)', process.waitTime]
+                        ].filter(([, value]) => value).map(([label, value]) => (
+                            <div key={label} className="detail-row">
+                                <span className="detail-label">{label}:</span>
+                                <span className="detail-value">{value}</span>
+                            </div>
+                        ))}
+                    </div>
+                    {process.statements.length > 0 && (
+                        <>
+                            <div className="details-sql-label">Statement</div>
+                            <pre className="details-sql">{process.statements[0]}</pre>
+                        </>
+                    )}
+                    <div className="details-sql-label">Input buffer</div>
+                    <pre className="details-sql">{process.inputBuffer}</pre>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -1,124 +1,235 @@
 import * as React from 'react';
-import { ProfilerEvent } from '../../models/profilerTypes';
+import { ActivityTreeRow, ColumnFormat, EventQuery, ProfilerEvent, ProfilerViewColumn } from '../../models/profilerTypes';
+import { getColumnValue } from '../../services/eventView';
+import { getDeadlockReport } from '../../parsers/deadlockParser';
+import { canHavePlan, getShowplanXml } from '../../services/planCorrelation';
+import { DeadlockGraph } from './DeadlockGraph';
+import { PlanView } from './PlanView';
 
 interface EventGridProps {
-    events: ProfilerEvent[];
-    maxEvents: number;
+    /** Number of rows matching the filters */
+    rowCount: number;
+    /** Row at an index, or undefined while its page is being read */
+    getRow: (index: number) => ProfilerEvent | undefined;
+    /** Number of events captured, including those filtered out */
+    eventCount: number;
+    missedEvents: number;
+    columns: ProfilerViewColumn[];
+    onColumnsChange: (columns: ProfilerViewColumn[]) => void;
+    sort: EventQuery['sort'];
+    onSortChange: (sort: EventQuery['sort']) => void;
+    /** Whether rows are shown as activity trees; columns cannot be sorted then */
+    groupByActivity: boolean;
+    onGroupByActivityChange: (groupByActivity: boolean) => void;
+    /** Place of the row at an index in its activity tree, when grouped by activity */
+    getTreeRow: (index: number) => ActivityTreeRow | undefined;
+    /** Expand or collapse the events nested under a row */
+    onToggleActivity: (id: number) => void;
+    /** Called with the rows to render, [first, last) */
+    onVisibleRangeChange: (first: number, last: number) => void;
+    /** Save a deadlock graph as an .xdl file */
+    onSaveDeadlock: (xml: string) => void;
+    /** Plan found for an event; xml is undefined when none was captured */
+    plan: { event: ProfilerEvent; xml?: string; loading: boolean } | undefined;
+    /** Look up the plan of a statement; undefined when the session captures no plans */
+    onRequestPlan?: (event: ProfilerEvent) => void;
+    /** Save an execution plan as a .sqlplan file */
+    onSavePlan: (xml: string) => void;
 }
 
-interface Column {
-    key: string;
-    label: string;
-    width: string;
-}
+/** Columns shown when no view is available */
+const FALLBACK_COLUMNS: ProfilerViewColumn[] = [
+    { key: 'name', label: 'Event Class', width: 200 },
+    { key: 'timestamp', label: 'Start Time', width: 180, format: ColumnFormat.Timestamp }
+];
 
-export const EventGrid: React.FC<EventGridProps> = ({ events, maxEvents }) => {
-    const [selectedRow, setSelectedRow] = React.useState<number | null>(null);
-    const [sortColumn, setSortColumn] = React.useState<string | null>(null);
-    const [sortDirection, setSortDirection] = React.useState<'asc' | 'desc'>('asc');
-
-    // Define columns dynamically based on event data
-    const columns: Column[] = React.useMemo(() => {
-        if (events.length === 0) {
-            return [
-                { key: 'name', label: 'Event Class', width: '200px' },
-                { key: 'timestamp', label: 'Start Time', width: '180px' },
-            ];
-        }
+/** Width of columns that don't define one, and the narrowest a column can be resized to */
+const DEFAULT_COLUMN_WIDTH = 150;
+const MIN_COLUMN_WIDTH = 40;
 
-        // Get all unique keys from all events
-        const allKeys = new Set<string>();
-        events.forEach(event => {
-            allKeys.add('name');
-            allKeys.add('timestamp');
-            Object.keys(event.values).forEach(key => allKeys.add(key));
-        });
+/** Height of a body row in px; must match .event-grid tbody tr in profiler.css */
+const ROW_HEIGHT = 28;
 
-        // Define column order and labels
-        const columnOrder: Array<{ key: string; label: string; width: string }> = [
-            { key: 'name', label: 'Event Class', width: '200px' },
-            { key: 'timestamp', label: 'Start Time', width: '180px' },
-            { key: 'batch_text', label: 'Text Data', width: '400px' },
-            { key: 'statement', label: 'Statement', width: '400px' },
-            { key: 'database_id', label: 'Database ID', width: '100px' },
-            { key: 'duration', label: 'Duration (ms)', width: '120px' },
-            { key: 'cpu_time', label: 'CPU (ms)', width: '100px' },
-            { key: 'physical_reads', label: 'Reads', width: '100px' },
-            { key: 'logical_reads', label: 'Logical Reads', width: '120px' },
-            { key: 'writes', label: 'Writes', width: '100px' },
-            { key: 'row_count', label: 'Rows', width: '80px' },
-            { key: 'server_principal_name', label: 'Login Name', width: '150px' },
-            { key: 'client_app_name', label: 'Application', width: '150px' },
-            { key: 'session_id', label: 'Session', width: '80px' },
-        ];
-
-        return columnOrder.filter(col => allKeys.has(col.key));
-    }, [events]);
-
-    // Sort events
-    const sortedEvents = React.useMemo(() => {
-        if (!sortColumn) return events;
-
-        return [...events].sort((a, b) => {
-            let aVal = sortColumn === 'name' ? a.name :
-                       sortColumn === 'timestamp' ? a.timestamp :
-                       a.values[sortColumn] || '';
-            let bVal = sortColumn === 'name' ? b.name :
-                       sortColumn === 'timestamp' ? b.timestamp :
-                       b.values[sortColumn] || '';
-
-            // Convert to numbers for numeric columns
-            if (['duration', 'cpu_time', 'physical_reads', 'logical_reads', 'writes'].includes(sortColumn)) {
-                aVal = parseFloat(aVal as string) || 0;
-                bVal = parseFloat(bVal as string) || 0;
-            }
+/**
+ * Tallest the scroll area is made, in px; Chromium stops laying out elements at about 33.5M px
+ * Longer grids are scrolled proportionally, each px of scrolling moving more than a px through the rows
+ */
+const MAX_SCROLL_HEIGHT = 15000000;
 
-            if (aVal < bVal) return sortDirection === 'asc' ? -1 : 1;
-            if (aVal > bVal) return sortDirection === 'asc' ? 1 : -1;
-            return 0;
-        });
-    }, [events, sortColumn, sortDirection]);
+/** Rows rendered above and below the visible range to avoid blank flashes while scrolling */
+const OVERSCAN_ROWS = 10;
+
+/** Indentation in px of each level of an activity tree */
+const TREE_INDENT = 16;
+
+export const EventGrid: React.FC<EventGridProps> = ({
+    rowCount,
+    getRow,
+    eventCount,
+    missedEvents,
+    columns: viewColumns,
+    onColumnsChange,
+    sort,
+    onSortChange,
+    groupByActivity,
+    onGroupByActivityChange,
+    getTreeRow,
+    onToggleActivity,
+    onVisibleRangeChange,
+    onSaveDeadlock,
+    plan,
+    onRequestPlan,
+    onSavePlan
+}) => {
+    const [selectedEvent, setSelectedEvent] = React.useState<ProfilerEvent | null>(null);
+    const [dragKey, setDragKey] = React.useState<string | null>(null);
+    const [dropKey, setDropKey] = React.useState<string | null>(null);
+    const [resizing, setResizing] = React.useState<{ key: string; width: number } | null>(null);
+    const [scrollTop, setScrollTop] = React.useState(0);
+    const [viewportHeight, setViewportHeight] = React.useState(0);
+    const wrapperRef = React.useRef<HTMLDivElement>(null);
+    /** Keep the newest events in view while scrolled to the bottom */
+    const followRef = React.useRef(true);
+
+    // Track the height of the scroll area so only the rows that fit are rendered
+    React.useEffect(() => {
+        const wrapper = wrapperRef.current;
+        if (!wrapper) return;
+
+        setViewportHeight(wrapper.clientHeight);
+        const observer = new ResizeObserver(() => setViewportHeight(wrapper.clientHeight));
+        observer.observe(wrapper);
+        return () => observer.disconnect();
+    }, []);
+
+    const baseColumns = viewColumns.length > 0 ? viewColumns : FALLBACK_COLUMNS;
+
+    // Show the width being dragged before it is committed
+    const columns: ProfilerViewColumn[] = React.useMemo(() => {
+        return resizing ? baseColumns.map(col => col.key === resizing.key ? { ...col, width: resizing.width } : col) : baseColumns;
+    }, [baseColumns, resizing]);
+
+    const tableWidth = columns.reduce((total, col) => total + (col.width || DEFAULT_COLUMN_WIDTH), 0);
 
-    const handleSort = (columnKey: string) => {
-        if (sortColumn === columnKey) {
-            setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    const sortColumn = sort?.column.key;
+    const sortDirection = sort?.direction;
+
+    const handleSort = (column: ProfilerViewColumn) => {
+        if (groupByActivity) {
+            return;
+        }
+        if (sortColumn === column.key) {
+            onSortChange({ column, direction: sortDirection === 'asc' ? 'desc' : 'asc' });
         } else {
-            setSortColumn(columnKey);
-            setSortDirection('asc');
+            onSortChange({ column, direction: 'asc' });
         }
     };
 
-    const formatValue = (value: any, columnKey: string): string => {
-        if (value === null || value === undefined || value === '') {
-            return '';
+    // Drag a header onto another header to move it there
+    const handleDrop = (targetKey: string) => {
+        if (dragKey && dragKey !== targetKey) {
+            const moved = columns.find(col => col.key === dragKey)!;
+            const remaining = columns.filter(col => col.key !== dragKey);
+            const targetIndex = remaining.findIndex(col => col.key === targetKey);
+            onColumnsChange([...remaining.slice(0, targetIndex), moved, ...remaining.slice(targetIndex)]);
         }
+        setDragKey(null);
+        setDropKey(null);
+    };
 
-        // Format duration and CPU time
-        if (['duration', 'cpu_time'].includes(columnKey)) {
-            const ms = parseFloat(value) / 1000; // Convert microseconds to milliseconds
-            return ms.toFixed(2);
-        }
+    // Drag the right edge of a header to resize the column
+    const handleResizeStart = (e: React.MouseEvent, column: ProfilerViewColumn) => {
+        e.preventDefault();
+        e.stopPropagation();
 
-        // Format timestamp
-        if (columnKey === 'timestamp') {
-            const date = new Date(value);
-            return date.toLocaleString();
-        }
+        const startX = e.clientX;
+        const startWidth = column.width || DEFAULT_COLUMN_WIDTH;
+        let width = startWidth;
+
+        const handleMouseMove = (moveEvent: MouseEvent) => {
+            width = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX);
+            setResizing({ key: column.key, width });
+        };
 
-        return String(value);
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove);
+            document.removeEventListener('mouseup', handleMouseUp);
+            setResizing(null);
+            if (width !== startWidth) {
+                onColumnsChange(baseColumns.map(col => col.key === column.key ? { ...col, width } : col));
+            }
+        };
+
+        document.addEventListener('mousemove', handleMouseMove);
+        document.addEventListener('mouseup', handleMouseUp);
     };
 
-    const getCellValue = (event: ProfilerEvent, columnKey: string): string => {
-        if (columnKey === 'name') {
-            return event.name;
+    const formatValue = (value: any, format: ColumnFormat | undefined): string => {
+        if (value === null || value === undefined || value === '') {
+            return '';
         }
-        if (columnKey === 'timestamp') {
-            return formatValue(event.timestamp, columnKey);
+
+        switch (format) {
+            case ColumnFormat.Duration: {
+                const ms = parseFloat(value) / 1000; // Convert microseconds to milliseconds
+                return isNaN(ms) ? String(value) : ms.toFixed(2);
+            }
+            case ColumnFormat.Number: {
+                const numeric = Number(value);
+                return isNaN(numeric) ? String(value) : numeric.toLocaleString();
+            }
+            case ColumnFormat.Timestamp:
+                return new Date(value).toLocaleString();
+            default:
+                return String(value);
         }
-        return formatValue(event.values[columnKey], columnKey);
     };
 
-    const selectedEvent = selectedRow !== null ? sortedEvents[selectedRow] : null;
+    const getCellValue = (event: ProfilerEvent, column: ProfilerViewColumn): string => {
+        return formatValue(getColumnValue(event, column), column.format);
+    };
+
+    // Map the scroll position onto the rows, scaled when the rows are taller than the scroll area can be
+    const rowsHeight = rowCount * ROW_HEIGHT;
+    const scrollHeight = Math.min(rowsHeight, MAX_SCROLL_HEIGHT);
+    const scrollRange = scrollHeight - viewportHeight;
+    const rowsTop = scrollRange > 0 && rowsHeight > scrollHeight
+        ? Math.min(scrollTop, scrollRange) * (rowsHeight - viewportHeight) / scrollRange
+        : scrollTop;
+    /** How far the rendered rows are moved up to sit in the visible part of the scroll area */
+    const rowsShift = Math.max(0, rowsTop - scrollTop);
+
+    // Rows in (or near) the visible part of the scroll area, kept within the scroll area's height
+    const firstRow = Math.max(0, Math.floor(rowsTop / ROW_HEIGHT) - OVERSCAN_ROWS, Math.ceil(rowsShift / ROW_HEIGHT));
+    const lastRow = Math.min(
+        rowCount,
+        Math.ceil((rowsTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS,
+        Math.floor((scrollHeight + rowsShift) / ROW_HEIGHT)
+    );
+    const topSpacerHeight = firstRow * ROW_HEIGHT - rowsShift;
+    const bottomSpacerHeight = scrollHeight - topSpacerHeight - (lastRow - firstRow) * ROW_HEIGHT;
+    const visibleRows: number[] = [];
+    for (let index = firstRow; index < lastRow; index++) {
+        visibleRows.push(index);
+    }
+
+    React.useEffect(() => {
+        onVisibleRangeChange(firstRow, lastRow);
+    }, [firstRow, lastRow]);
+
+    // Scroll new events into view when following the end of a capture-ordered grid
+    React.useEffect(() => {
+        const wrapper = wrapperRef.current;
+        if (wrapper && followRef.current && !sort) {
+            wrapper.scrollTop = wrapper.scrollHeight;
+        }
+    }, [rowCount, sort]);
+
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        const wrapper = e.currentTarget;
+        followRef.current = wrapper.scrollTop + wrapper.clientHeight >= wrapper.scrollHeight - ROW_HEIGHT;
+        setScrollTop(wrapper.scrollTop);
+    };
 
     const copyToClipboard = (text: string) => {
         navigator.clipboard.writeText(text).then(() => {
@@ -139,63 +250,166 @@ export const EventGrid: React.FC<EventGridProps> = ({ events, maxEvents }) => {
         }
     };
 
+    // Indent the first cell of a row by its depth in the activity tree
+    const renderTreeToggle = (treeRow: ActivityTreeRow) => (
+        <span className="tree-indent" style={{ paddingLeft: `${treeRow.depth * TREE_INDENT}px` }}>
+            {treeRow.descendants > 0 ? (
+                <button
+                    className="tree-toggle"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleActivity(treeRow.id);
+                    }}
+                    title={treeRow.collapsed ? `Show ${treeRow.descendants} nested events` : 'Hide nested events'}
+                >
+                    <span className={`codicon ${treeRow.collapsed ? 'codicon-chevron-right' : 'codicon-chevron-down'}`}></span>
+                </button>
+            ) : (
+                <span className="tree-toggle-spacer"></span>
+            )}
+        </span>
+    );
+
+    const deadlockReport = selectedEvent ? getDeadlockReport(selectedEvent) : undefined;
+    const showplanXml = selectedEvent ? getShowplanXml(selectedEvent) : undefined;
+    const selectedPlan = !showplanXml && selectedEvent && plan?.event === selectedEvent ? plan : undefined;
+
+    // Look up the plan of a selected statement
+    React.useEffect(() => {
+        if (selectedEvent && onRequestPlan && canHavePlan(selectedEvent)) {
+            onRequestPlan(selectedEvent);
+        }
+    }, [selectedEvent]);
+
     return (
         <div className="event-grid-container">
             <div className="event-count">
-                Events: {events.length} {maxEvents > 0 && `(max ${maxEvents})`}
+                Events: {rowCount.toLocaleString()} {rowCount !== eventCount && `(of ${eventCount.toLocaleString()} captured)`}
+                {missedEvents > 0 && (
+                    <span
+                        className="missed-events"
+                        title="Events lost before they were read: gaps in event_sequence, or events the ring buffer reports as dropped"
+                    >
+                        <span className="codicon codicon-warning"></span>
+                        {missedEvents} missed
+                    </span>
+                )}
+                <label
+                    className="group-by-activity"
+                    title="Nest statements under the batch or RPC that ran them (attach_activity_id, captured with TRACK_CAUSALITY=ON)"
+                >
+                    <input
+                        type="checkbox"
+                        checked={groupByActivity}
+                        onChange={(e) => onGroupByActivityChange(e.target.checked)}
+                    />
+                    Group by activity
+                </label>
             </div>
             <div className="event-grid-content">
-                <div className="event-grid-wrapper">
-                    <table className="event-grid">
+                <div
+                    className="event-grid-wrapper"
+                    ref={wrapperRef}
+                    onScroll={handleScroll}
+                >
+                    <table className="event-grid" style={{ width: `${tableWidth}px` }}>
                         <thead>
                             <tr>
                                 {columns.map(col => (
                                     <th
                                         key={col.key}
-                                        style={{ width: col.width }}
-                                        onClick={() => handleSort(col.key)}
-                                        className={sortColumn === col.key ? 'sorted' : ''}
+                                        style={{ width: `${col.width || DEFAULT_COLUMN_WIDTH}px` }}
+                                        onClick={() => handleSort(col)}
+                                        className={[
+                                            groupByActivity ? 'unsortable' : '',
+                                            sortColumn === col.key ? 'sorted' : '',
+                                            dropKey === col.key ? 'drag-over' : ''
+                                        ].join(' ').trim()}
+                                        title={col.label && col.label !== col.key ? `${col.label} (${col.key})` : col.key}
+                                        draggable
+                                        onDragStart={() => setDragKey(col.key)}
+                                        onDragOver={(e) => {
+                                            e.preventDefault();
+                                            setDropKey(col.key);
+                                        }}
+                                        onDragLeave={() => setDropKey(null)}
+                                        onDrop={() => handleDrop(col.key)}
+                                        onDragEnd={() => {
+                                            setDragKey(null);
+                                            setDropKey(null);
+                                        }}
                                     >
-                                        {col.label}
+                                        {col.label || col.key}
                                         {sortColumn === col.key && (
                                             <span className="sort-indicator">
                                                 {sortDirection === 'asc' ? ' ▲' : ' ▼'}
                                             </span>
                                         )}
+                                        <span
+                                            className="column-resizer"
+                                            onMouseDown={(e) => handleResizeStart(e, col)}
+                                            onClick={(e) => e.stopPropagation()}
+                                        ></span>
                                     </th>
                                 ))}
                             </tr>
                         </thead>
                         <tbody>
-                            {sortedEvents.length === 0 ? (
-                                <tr>
+                            {rowCount === 0 ? (
+                                <tr className="empty-row">
                                     <td colSpan={columns.length} className="empty-message">
-                                        No events captured yet. Start profiling to see events.
+                                        {eventCount > 0
+                                            ? 'No events match the current filters.'
+                                            : 'No events captured yet. Start profiling to see events.'}
                                     </td>
                                 </tr>
                             ) : (
-                                sortedEvents.map((event, index) => (
-                                    <tr
-                                        key={index}
-                                        className={selectedRow === index ? 'selected' : ''}
-                                        onClick={() => setSelectedRow(index)}
-                                    >
-                                        {columns.map(col => (
-                                            <td
-                                                key={col.key}
-                                                title={getCellValue(event, col.key)}
+                                <>
+                                    {topSpacerHeight > 0 && (
+                                        <tr className="spacer-row" style={{ height: `${topSpacerHeight}px` }}>
+                                            <td colSpan={columns.length}></td>
+                                        </tr>
+                                    )}
+                                    {visibleRows.map(index => {
+                                        const event = getRow(index);
+                                        if (!event) {
+                                            return (
+                                                <tr key={index} className="loading-row">
+                                                    <td colSpan={columns.length}>Loading...</td>
+                                                </tr>
+                                            );
+                                        }
+                                        const treeRow = groupByActivity ? getTreeRow(index) : undefined;
+                                        return (
+                                            <tr
+                                                key={index}
+                                                className={selectedEvent === event ? 'selected' : ''}
+                                                onClick={() => setSelectedEvent(event)}
                                             >
-                                                {getCellValue(event, col.key)}
-                                            </td>
-                                        ))}
-                                    </tr>
-                                ))
+                                                {columns.map((col, columnIndex) => {
+                                                    const value = getCellValue(event, col);
+                                                    return (
+                                                        <td key={col.key} title={value}>
+                                                            {treeRow && columnIndex === 0 && renderTreeToggle(treeRow)}
+                                                            {value}
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        );
+                                    })}
+                                    {bottomSpacerHeight > 0 && (
+                                        <tr className="spacer-row" style={{ height: `${bottomSpacerHeight}px` }}>
+                                            <td colSpan={columns.length}></td>
+                                        </tr>
+                                    )}
+                                </>
                             )}
                         </tbody>
                     </table>
                 </div>
                 {selectedEvent && (
-                    <div className="event-details-panel">
+                    <div className={`event-details-panel ${deadlockReport || showplanXml || selectedPlan?.xml ? 'wide' : ''}`}>
                         <div className="details-header">
                             <h3>Event Details</h3>
                             <div className="details-header-actions">
@@ -208,7 +422,7 @@ export const EventGrid: React.FC<EventGridProps> = ({ events, maxEvents }) => {
                                 </button>
                                 <button
                                     className="close-details"
-                                    onClick={() => setSelectedRow(null)}
+                                    onClick={() => setSelectedEvent(null)}
                                     title="Close details"
                                 >
                                     ✕
@@ -216,6 +430,21 @@ export const EventGrid: React.FC<EventGridProps> = ({ events, maxEvents }) => {
                             </div>
                         </div>
                         <div className="details-content">
+                            {deadlockReport && (
+                                <DeadlockGraph xml={deadlockReport} onSave={onSaveDeadlock} />
+                            )}
+                            {showplanXml && (
+                                <PlanView xml={showplanXml} onSave={onSavePlan} />
+                            )}
+                            {selectedPlan && (
+                                selectedPlan.loading ? (
+                                    <div className="details-section-error">Looking for the execution plan...</div>
+                                ) : selectedPlan.xml ? (
+                                    <PlanView xml={selectedPlan.xml} onSave={onSavePlan} />
+                                ) : (
+                                    <div className="details-section-error">No execution plan was captured for this event.</div>
+                                )
+                            )}
                             <div className="detail-row">
                                 <span className="detail-label">Event Class:</span>
                                 <span className="detail-value">{selectedEvent.name}</span>
@@ -229,10 +458,10 @@ export const EventGrid: React.FC<EventGridProps> = ({ events, maxEvents }) => {
                             </div>
                             <div className="detail-row">
                                 <span className="detail-label">Timestamp:</span>
-                                <span className="detail-value">{formatValue(selectedEvent.timestamp, 'timestamp')}</span>
+                                <span className="detail-value">{formatValue(selectedEvent.timestamp, ColumnFormat.Timestamp)}</span>
                                 <button
                                     className="copy-value-button"
-                                    onClick={() => copyToClipboard(formatValue(selectedEvent.timestamp, 'timestamp'))}
+                                    onClick={() => copyToClipboard(formatValue(selectedEvent.timestamp, ColumnFormat.Timestamp))}
                                     title="Copy value"
                                 >
                                     <span className="codicon codicon-copy"></span>
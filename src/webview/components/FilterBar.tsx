@@ -1,23 +1,43 @@
 import * as React from 'react';
+import { SavedFilter, ServerFilter } from '../../models/profilerTypes';
+import { FilterExpressionInput } from './FilterExpressionInput';
 
 export interface FilterOptions {
     eventTypes: string[];
     textSearch: string;
     databaseFilter: string[];  // Changed to array for multi-select
+    expression: string;
 }
 
 interface FilterBarProps {
     availableEventTypes: string[];
     availableDatabases: string[];
+    /** Column names offered by expression autocomplete */
+    fieldKeys: string[];
+    savedFilters: SavedFilter[];
     filters: FilterOptions;
     onFilterChange: (filters: FilterOptions) => void;
+    onSaveFilter: (expression: string, name?: string) => void;
+    onDeleteFilter: (name: string) => void;
+    /** True for live sessions created by the profiler, whose predicates can be altered */
+    canApplyServerFilter: boolean;
+    /** Filter currently applied to the session on the server */
+    serverFilter?: ServerFilter;
+    onApplyServerFilter: () => void;
 }
 
 export const FilterBar: React.FC<FilterBarProps> = ({
     availableEventTypes,
     availableDatabases,
+    fieldKeys,
+    savedFilters,
     filters,
-    onFilterChange
+    onFilterChange,
+    onSaveFilter,
+    onDeleteFilter,
+    canApplyServerFilter,
+    serverFilter,
+    onApplyServerFilter
 }) => {
     const [isExpanded, setIsExpanded] = React.useState(false);
     const [isDatabaseDropdownOpen, setIsDatabaseDropdownOpen] = React.useState(false);
@@ -55,6 +75,13 @@ export const FilterBar: React.FC<FilterBarProps> = ({
         onFilterChange({ ...filters, textSearch: text });
     };
 
+    const handleExpressionChange = (expression: string) => {
+        onFilterChange({ ...filters, expression });
+    };
+
+    // Saved filter whose expression is applied, if any
+    const currentSavedFilter = savedFilters.find(f => f.expression === filters.expression);
+
     const handleDatabaseToggle = (database: string) => {
         const newDatabases = filters.databaseFilter.includes(database)
             ? filters.databaseFilter.filter(d => d !== database)
@@ -83,13 +110,15 @@ export const FilterBar: React.FC<FilterBarProps> = ({
         onFilterChange({
             eventTypes: [],
             textSearch: '',
-            databaseFilter: []
+            databaseFilter: [],
+            expression: ''
         });
     };
 
     const hasActiveFilters = filters.eventTypes.length > 0 ||
                             filters.textSearch !== '' ||
-                            filters.databaseFilter.length > 0;
+                            filters.databaseFilter.length > 0 ||
+                            filters.expression !== '';
 
     return (
         <div className="filter-bar">
@@ -104,22 +133,85 @@ export const FilterBar: React.FC<FilterBarProps> = ({
                     {hasActiveFilters && <span className="filter-badge">{
                         filters.eventTypes.length +
                         (filters.textSearch ? 1 : 0) +
+                        (filters.expression ? 1 : 0) +
                         filters.databaseFilter.length
                     }</span>}
                 </button>
-                {hasActiveFilters && (
-                    <button
-                        className="filter-clear"
-                        onClick={handleClearFilters}
-                        title="Clear all filters"
-                    >
-                        Clear
-                    </button>
-                )}
+                <div className="filter-bar-actions">
+                    {serverFilter && (
+                        <span
+                            className="server-filter-status"
+                            title={serverFilter.clauses.map(clause => clause.predicate).join('\nAND ')}
+                        >
+                            Server filter active
+                        </span>
+                    )}
+                    {canApplyServerFilter && (hasActiveFilters || serverFilter) && (
+                        <button
+                            className="filter-clear"
+                            onClick={onApplyServerFilter}
+                            title="Add the database, application, login and duration filters to the session's predicate so the server skips other events"
+                        >
+                            Apply as server filter
+                        </button>
+                    )}
+                    {hasActiveFilters && (
+                        <button
+                            className="filter-clear"
+                            onClick={handleClearFilters}
+                            title="Clear all filters"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
             </div>
 
             {isExpanded && (
                 <div className="filter-bar-content">
+                    <div className="filter-section">
+                        <label className="filter-label">Filter Expression:</label>
+                        <div className="filter-expression-row">
+                            <FilterExpressionInput
+                                value={filters.expression}
+                                fieldKeys={fieldKeys}
+                                onApply={handleExpressionChange}
+                            />
+                            <select
+                                className="filter-select"
+                                value={currentSavedFilter?.name || ''}
+                                onChange={(e) => {
+                                    const saved = savedFilters.find(f => f.name === e.target.value);
+                                    if (saved) {
+                                        handleExpressionChange(saved.expression);
+                                    }
+                                }}
+                                title="Saved filters"
+                            >
+                                <option value="" disabled>Saved filters...</option>
+                                {savedFilters.map(f => (
+                                    <option key={f.name} value={f.name}>{f.name}</option>
+                                ))}
+                            </select>
+                            <button
+                                className="filter-icon-button"
+                                onClick={() => onSaveFilter(filters.expression, currentSavedFilter?.name)}
+                                disabled={!filters.expression}
+                                title="Save filter"
+                            >
+                                <span className="codicon codicon-save"></span>
+                            </button>
+                            <button
+                                className="filter-icon-button"
+                                onClick={() => currentSavedFilter && onDeleteFilter(currentSavedFilter.name)}
+                                disabled={!currentSavedFilter}
+                                title="Delete saved filter"
+                            >
+                                <span className="codicon codicon-trash"></span>
+                            </button>
+                        </div>
+                    </div>
+
                     <div className="filter-section">
                         <label className="filter-label">Text Search:</label>
                         <input
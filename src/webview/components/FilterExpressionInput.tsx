@@ -0,0 +1,165 @@
+import * as React from 'react';
+import { FILTER_KEYWORDS, FILTER_OPERATORS, validateFilter } from '../../services/filterExpression';
+
+interface FilterExpressionInputProps {
+    /** Expression currently applied to the grid */
+    value: string;
+    /** Column names offered by autocomplete */
+    fieldKeys: string[];
+    /** Called with valid expressions once typing pauses, or on Enter */
+    onApply: (expression: string) => void;
+}
+
+/** Delay after the last keystroke before a valid expression is applied */
+const APPLY_DELAY_MS = 400;
+
+/** Most suggestions shown at once */
+const MAX_SUGGESTIONS = 12;
+
+/**
+ * Suggestions for the word at the caret: column names where a comparison starts,
+ * operators after a column name and AND/OR after a value
+ */
+function getSuggestions(textBeforeCaret: string, fieldKeys: string[]): { word: string; items: string[] } {
+    // No suggestions inside a string literal
+    const quotes = (textBeforeCaret.match(/'/g) || []).length;
+    if (quotes % 2 === 1) {
+        return { word: '', items: [] };
+    }
+
+    const word = /[\w.@]*$/.exec(textBeforeCaret)![0];
+    const before = textBeforeCaret.substring(0, textBeforeCaret.length - word.length).trimEnd();
+    const previous = /(\[[^\]]*\]|[\w.@]+|'[^']*'|\S)$/.exec(before)?.[0] || '';
+    const previousUpper = previous.toUpperCase();
+
+    let candidates: string[];
+    if (!previous || previous === '(' || ['AND', 'OR', 'NOT'].includes(previousUpper)) {
+        candidates = fieldKeys;
+    } else if (/^[\w.@]+$/.test(previous) && !FILTER_KEYWORDS.includes(previousUpper) && isNaN(Number(previous[0]))) {
+        candidates = FILTER_OPERATORS.filter(op => /^[A-Z]/.test(op));
+    } else if (previous.startsWith('\'') || previous === ')' || /^\d/.test(previous) || previousUpper === 'NULL') {
+        candidates = ['AND', 'OR'];
+    } else {
+        candidates = [];
+    }
+
+    const wordLower = word.toLowerCase();
+    const items = candidates
+        .filter(item => item.toLowerCase().startsWith(wordLower) && item.toLowerCase() !== wordLower)
+        .slice(0, MAX_SUGGESTIONS);
+
+    return { word, items };
+}
+
+/**
+ * Text box for filter expressions with column-name autocomplete and syntax checking
+ */
+export const FilterExpressionInput: React.FC<FilterExpressionInputProps> = ({ value, fieldKeys, onApply }) => {
+    const [text, setText] = React.useState(value);
+    const [caret, setCaret] = React.useState(0);
+    const [showSuggestions, setShowSuggestions] = React.useState(false);
+    const [activeSuggestion, setActiveSuggestion] = React.useState(0);
+    const inputRef = React.useRef<HTMLInputElement>(null);
+
+    // Follow expressions set from outside (saved filters, Clear)
+    React.useEffect(() => {
+        setText(value);
+    }, [value]);
+
+    const error = React.useMemo(() => validateFilter(text), [text]);
+
+    // Apply valid expressions once typing pauses
+    React.useEffect(() => {
+        if (error || text === value) {
+            return;
+        }
+        const timer = setTimeout(() => onApply(text), APPLY_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [text, error]);
+
+    const suggestions = React.useMemo(() => {
+        return showSuggestions ? getSuggestions(text.substring(0, caret), fieldKeys) : { word: '', items: [] };
+    }, [showSuggestions, text, caret, fieldKeys]);
+
+    const acceptSuggestion = (item: string) => {
+        const start = caret - suggestions.word.length;
+        const inserted = /^[\w.@]+$/.test(item) || FILTER_OPERATORS.includes(item) ? item : `[${item}]`;
+        const newText = `${text.substring(0, start)}${inserted} ${text.substring(caret).trimStart()}`;
+        const newCaret = start + inserted.length + 1;
+
+        setText(newText);
+        setCaret(newCaret);
+        setActiveSuggestion(0);
+        requestAnimationFrame(() => inputRef.current?.setSelectionRange(newCaret, newCaret));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        const items = suggestions.items;
+
+        if (items.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setActiveSuggestion((activeSuggestion + step + items.length) % items.length);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                acceptSuggestion(items[Math.min(activeSuggestion, items.length - 1)]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                setShowSuggestions(false);
+                return;
+            }
+        }
+
+        if (e.key === 'Enter' && !error) {
+            onApply(text);
+        }
+    };
+
+    return (
+        <div className="filter-expression">
+            <input
+                ref={inputRef}
+                type="text"
+                className={`filter-input ${error ? 'invalid' : ''}`}
+                placeholder="e.g. duration > 500ms AND client_app_name LIKE 'MyApp%' AND NOT statement CONTAINS 'sp_reset_connection'"
+                value={text}
+                spellCheck={false}
+                onChange={(e) => {
+                    setText(e.target.value);
+                    setCaret(e.target.selectionStart ?? e.target.value.length);
+                    setShowSuggestions(true);
+                    setActiveSuggestion(0);
+                }}
+                onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => setShowSuggestions(false)}
+            />
+            {suggestions.items.length > 0 && (
+                <div className="filter-suggestions">
+                    {suggestions.items.map((item, index) => (
+                        <div
+                            key={item}
+                            className={`filter-suggestion ${index === activeSuggestion ? 'active' : ''}`}
+                            // Keep focus in the input
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                acceptSuggestion(item);
+                            }}
+                        >
+                            {item}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {error && text.trim() && (
+                <div className="filter-expression-error">
+                    {error.message} (at position {error.position + 1})
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,133 @@
+import * as React from 'react';
+import { ExecutionPlan, PlanOperator, parseShowplan } from '../../parsers/showplanParser';
+
+interface PlanViewProps {
+    /** Showplan XML of a plan event */
+    xml: string;
+    /** Save the plan as a .sqlplan file */
+    onSave: (xml: string) => void;
+}
+
+/** Actual rows this many times above or below the estimate are highlighted */
+const ROW_ESTIMATE_FACTOR = 10;
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+/**
+ * Whether the actual rows per execution are far from the estimate
+ */
+const isMisestimated = (operator: PlanOperator) => {
+    if (operator.actualRows === undefined || operator.estimatedRows === undefined) {
+        return false;
+    }
+    const actualPerExecution = operator.actualRows / Math.max(1, operator.actualExecutions || 1);
+    const estimated = Math.max(1, operator.estimatedRows);
+    const actual = Math.max(1, actualPerExecution);
+    return actual / estimated >= ROW_ESTIMATE_FACTOR || estimated / actual >= ROW_ESTIMATE_FACTOR;
+};
+
+/**
+ * Operator tree of an execution plan with estimated costs, estimated and actual rows and warnings
+ */
+export const PlanView: React.FC<PlanViewProps> = ({ xml, onSave }) => {
+    const [collapsed, setCollapsed] = React.useState<Set<string>>(new Set());
+
+    const plan = React.useMemo((): ExecutionPlan | undefined => {
+        try {
+            return parseShowplan(xml);
+        } catch (error) {
+            console.error('Failed to parse execution plan:', error);
+            return undefined;
+        }
+    }, [xml]);
+
+    const toggle = (key: string) => {
+        const next = new Set(collapsed);
+        if (next.has(key)) {
+            next.delete(key);
+        } else {
+            next.add(key);
+        }
+        setCollapsed(next);
+    };
+
+    const renderOperator = (operator: PlanOperator, keyPrefix: string): React.ReactElement => {
+        const key = `${keyPrefix}:${operator.nodeId}`;
+        const isCollapsed = collapsed.has(key);
+
+        return (
+            <li key={key}>
+                <div className="plan-operator">
+                    {operator.children.length > 0 ? (
+                        <button className="plan-toggle" onClick={() => toggle(key)} title={isCollapsed ? 'Expand' : 'Collapse'}>
+                            <span className={`codicon ${isCollapsed ? 'codicon-chevron-right' : 'codicon-chevron-down'}`}></span>
+                        </button>
+                    ) : (
+                        <span className="plan-toggle-spacer"></span>
+                    )}
+                    <span className="plan-operator-name">
+                        {operator.physicalOp}
+                        {operator.logicalOp && operator.logicalOp !== operator.physicalOp && ` (${operator.logicalOp})`}
+                    </span>
+                    {operator.object && <span className="plan-operator-object">{operator.object}</span>}
+                    <span className="plan-cost" title={`Estimated subtree cost: ${operator.subtreeCost}`}>
+                        <span className="plan-cost-bar" style={{ width: `${Math.min(100, operator.costPercent)}%` }}></span>
+                        <span className="plan-cost-text">{Math.round(operator.costPercent)}%</span>
+                    </span>
+                    <span
+                        className={`plan-rows ${isMisestimated(operator) ? 'misestimated' : ''}`}
+                        title="Estimated rows per execution, and actual rows over all executions"
+                    >
+                        Est {operator.estimatedRows !== undefined ? formatNumber(operator.estimatedRows) : '?'}
+                        {operator.actualRows !== undefined && (
+                            <> / Actual {formatNumber(operator.actualRows)}
+                                {(operator.actualExecutions || 0) > 1 && ` (${formatNumber(operator.actualExecutions!)} executions)`}</>
+                        )}
+                    </span>
+                    {operator.warnings.length > 0 && (
+                        <span className="plan-warning" title={operator.warnings.join('\n')}>
+                            <span className="codicon codicon-warning"></span> {operator.warnings.join('; ')}
+                        </span>
+                    )}
+                </div>
+                {!isCollapsed && operator.children.length > 0 && (
+                    <ul className="plan-tree">
+                        {operator.children.map(child => renderOperator(child, keyPrefix))}
+                    </ul>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <div className="plan-view">
+            <div className="details-section-header">
+                <h4>Execution Plan</h4>
+                <button className="filter-clear" onClick={() => onSave(xml)} title="Save as a .sqlplan file that SSMS can open">
+                    Save as .sqlplan
+                </button>
+            </div>
+            {!plan || plan.statements.length === 0 ? (
+                <div className="details-section-error">The execution plan could not be read.</div>
+            ) : plan.statements.map((statement, index) => (
+                <div key={index} className="plan-statement">
+                    <pre className="details-sql">{statement.text}</pre>
+                    <div className="plan-statement-info">
+                        {statement.statementType}
+                        {statement.subtreeCost !== undefined && ` · Estimated cost ${formatNumber(statement.subtreeCost)}`}
+                    </div>
+                    {statement.warnings.map((warning, warningIndex) => (
+                        <div key={warningIndex} className="plan-warning">
+                            <span className="codicon codicon-warning"></span> {warning}
+                        </div>
+                    ))}
+                    {statement.root && (
+                        <ul className="plan-tree plan-tree-root">
+                            {renderOperator(statement.root, String(index))}
+                        </ul>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
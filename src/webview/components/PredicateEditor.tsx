@@ -0,0 +1,131 @@
+import * as React from 'react';
+import { PredicateOperator, TemplatePredicate, XEventCatalog } from '../../models/profilerTypes';
+
+interface PredicateEditorProps {
+    catalog: XEventCatalog;
+    selectedEvents: string[];
+    predicates: TemplatePredicate[];
+    onChange: (predicates: TemplatePredicate[]) => void;
+}
+
+const OPERATORS: PredicateOperator[] = ['=', '<>', '>', '>=', '<', '<=', 'LIKE', 'NOT LIKE'];
+
+/** Common filters offered as one-click shortcuts */
+const QUICK_FILTERS: { label: string; predicate: TemplatePredicate }[] = [
+    { label: 'Database', predicate: { field: 'sqlserver.database_name', operator: '=', value: '' } },
+    { label: 'Duration', predicate: { field: 'duration', operator: '>', value: '1000000' } },
+    { label: 'App name', predicate: { field: 'sqlserver.client_app_name', operator: 'LIKE', value: '' } },
+    { label: 'Login', predicate: { field: 'sqlserver.server_principal_name', operator: '=', value: '' } }
+];
+
+/**
+ * Editor for the predicate applied to every selected event (clauses are combined with AND)
+ */
+export const PredicateEditor: React.FC<PredicateEditorProps> = ({
+    catalog,
+    selectedEvents,
+    predicates,
+    onChange
+}) => {
+    // Fields of the selected events, with the types they report
+    const eventFields = React.useMemo(() => {
+        const fields = new Map<string, string>();
+        for (const event of catalog.events) {
+            if (!selectedEvents.includes(`${event.package}.${event.name}`)) continue;
+            for (const field of event.fields) {
+                if (!fields.has(field.name)) {
+                    fields.set(field.name, field.typeName);
+                }
+            }
+        }
+        return Array.from(fields.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+    }, [catalog, selectedEvents]);
+
+    const predicateSources = React.useMemo(() => {
+        return catalog.predicateSources
+            .map(source => [`${source.package}.${source.name}`, source.typeName || ''] as [string, string])
+            .sort((a, b) => a[0].localeCompare(b[0]));
+    }, [catalog]);
+
+    const handleChange = (index: number, change: Partial<TemplatePredicate>) => {
+        onChange(predicates.map((p, i) => i === index ? { ...p, ...change } : p));
+    };
+
+    const handleRemove = (index: number) => {
+        onChange(predicates.filter((_, i) => i !== index));
+    };
+
+    const handleAdd = (predicate: TemplatePredicate) => {
+        onChange([...predicates, { ...predicate }]);
+    };
+
+    return (
+        <div className="builder-section">
+            <div className="builder-section-header">
+                <h3>Filters</h3>
+                <span className="builder-hint">All filters must match. Durations are in microseconds.</span>
+            </div>
+            <div className="predicate-quick-add">
+                {QUICK_FILTERS.map(filter => (
+                    <button
+                        key={filter.label}
+                        className="toolbar-button secondary"
+                        onClick={() => handleAdd(filter.predicate)}
+                    >
+                        + {filter.label}
+                    </button>
+                ))}
+                <button
+                    className="toolbar-button secondary"
+                    onClick={() => handleAdd({ field: '', operator: '=', value: '' })}
+                >
+                    + Custom
+                </button>
+            </div>
+            {predicates.map((predicate, index) => (
+                <div key={index} className="predicate-row">
+                    <select
+                        className="builder-input"
+                        value={predicate.field}
+                        onChange={(e) => handleChange(index, { field: e.target.value })}
+                    >
+                        <option value="">Select a field...</option>
+                        <optgroup label="Event fields">
+                            {eventFields.map(([name, typeName]) => (
+                                <option key={name} value={name}>{name} ({typeName})</option>
+                            ))}
+                        </optgroup>
+                        <optgroup label="Global fields">
+                            {predicateSources.map(([name, typeName]) => (
+                                <option key={name} value={name}>{name} ({typeName})</option>
+                            ))}
+                        </optgroup>
+                    </select>
+                    <select
+                        className="builder-input predicate-operator"
+                        value={predicate.operator}
+                        onChange={(e) => handleChange(index, { operator: e.target.value as PredicateOperator })}
+                    >
+                        {OPERATORS.map(op => (
+                            <option key={op} value={op}>{op}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        className="builder-input"
+                        placeholder="Value"
+                        value={predicate.value}
+                        onChange={(e) => handleChange(index, { value: e.target.value })}
+                    />
+                    <button
+                        className="close-details"
+                        onClick={() => handleRemove(index)}
+                        title="Remove filter"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
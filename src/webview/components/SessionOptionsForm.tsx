@@ -0,0 +1,137 @@
+import * as React from 'react';
+import { TemplateDefinition } from '../../models/profilerTypes';
+
+interface SessionOptionsFormProps {
+    definition: TemplateDefinition;
+    isAzure: boolean;
+    onChange: (definition: TemplateDefinition) => void;
+}
+
+/**
+ * Targets and WITH (...) options of the generated session
+ */
+export const SessionOptionsForm: React.FC<SessionOptionsFormProps> = ({
+    definition,
+    isAzure,
+    onChange
+}) => {
+    const options = definition.options;
+
+    const handleOptionChange = (change: Partial<TemplateDefinition['options']>) => {
+        onChange({ ...definition, options: { ...options, ...change } });
+    };
+
+    const handleEventFileToggle = (enabled: boolean) => {
+        onChange({
+            ...definition,
+            eventFile: enabled
+                ? { fileName: isAzure ? 'https://' : definition.name || 'profiler', maxFileSizeMb: 100, maxRolloverFiles: 5 }
+                : undefined
+        });
+    };
+
+    const handleEventFileChange = (change: Partial<NonNullable<TemplateDefinition['eventFile']>>) => {
+        if (definition.eventFile) {
+            onChange({ ...definition, eventFile: { ...definition.eventFile, ...change } });
+        }
+    };
+
+    return (
+        <div className="builder-section">
+            <div className="builder-section-header">
+                <h3>Targets and Options</h3>
+            </div>
+            <div className="builder-form">
+                <label className="builder-checkbox">
+                    <input
+                        type="checkbox"
+                        checked={definition.ringBuffer}
+                        onChange={(e) => onChange({ ...definition, ringBuffer: e.target.checked })}
+                    />
+                    Ring buffer (in memory)
+                </label>
+                <label className="builder-checkbox">
+                    <input
+                        type="checkbox"
+                        checked={!!definition.eventFile}
+                        onChange={(e) => handleEventFileToggle(e.target.checked)}
+                    />
+                    Event file (.xel)
+                </label>
+                {definition.eventFile && (
+                    <div className="builder-form-group">
+                        <label className="builder-field">
+                            <span>{isAzure ? 'Blob URL' : 'File name'}</span>
+                            <input
+                                type="text"
+                                className="builder-input"
+                                value={definition.eventFile.fileName}
+                                onChange={(e) => handleEventFileChange({ fileName: e.target.value })}
+                            />
+                        </label>
+                        <label className="builder-field">
+                            <span>Max file size (MB)</span>
+                            <input
+                                type="number"
+                                min={1}
+                                className="builder-input"
+                                value={definition.eventFile.maxFileSizeMb}
+                                onChange={(e) => handleEventFileChange({ maxFileSizeMb: Number(e.target.value) })}
+                            />
+                        </label>
+                        <label className="builder-field">
+                            <span>Rollover files</span>
+                            <input
+                                type="number"
+                                min={1}
+                                className="builder-input"
+                                value={definition.eventFile.maxRolloverFiles}
+                                onChange={(e) => handleEventFileChange({ maxRolloverFiles: Number(e.target.value) })}
+                            />
+                        </label>
+                    </div>
+                )}
+                <label className="builder-field">
+                    <span>Max memory (KB)</span>
+                    <input
+                        type="number"
+                        min={1}
+                        className="builder-input"
+                        value={options.maxMemoryKb}
+                        onChange={(e) => handleOptionChange({ maxMemoryKb: Number(e.target.value) })}
+                    />
+                </label>
+                <label className="builder-field">
+                    <span>Event retention</span>
+                    <select
+                        className="builder-input"
+                        value={options.eventRetentionMode}
+                        onChange={(e) => handleOptionChange({ eventRetentionMode: e.target.value as TemplateDefinition['options']['eventRetentionMode'] })}
+                    >
+                        <option value="ALLOW_SINGLE_EVENT_LOSS">Allow single event loss</option>
+                        <option value="ALLOW_MULTIPLE_EVENT_LOSS">Allow multiple event loss</option>
+                        <option value="NO_EVENT_LOSS">No event loss</option>
+                    </select>
+                </label>
+                <label className="builder-field">
+                    <span>Max dispatch latency (seconds)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        className="builder-input"
+                        value={options.maxDispatchLatencySeconds}
+                        onChange={(e) => handleOptionChange({ maxDispatchLatencySeconds: Number(e.target.value) })}
+                    />
+                </label>
+                <label className="builder-checkbox">
+                    <input
+                        type="checkbox"
+                        checked={options.trackCausality}
+                        onChange={(e) => handleOptionChange({ trackCausality: e.target.checked })}
+                    />
+                    Track causality
+                </label>
+            </div>
+        </div>
+    );
+};
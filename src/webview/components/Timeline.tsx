@@ -0,0 +1,296 @@
+import * as React from 'react';
+import { EventQuery, TimelineData, TimelinePoint } from '../../models/profilerTypes';
+
+type TimeRange = EventQuery['timeRange'];
+
+interface TimelineProps {
+    /** Chart data; undefined until the extension has built it */
+    data: TimelineData | undefined;
+    visible: boolean;
+    onVisibleChange: (visible: boolean) => void;
+    /** Time range the grid is limited to */
+    timeRange: TimeRange;
+    onTimeRangeChange: (timeRange: TimeRange) => void;
+}
+
+/** Chart layout in px */
+const MARGIN_LEFT = 64;
+const MARGIN_RIGHT = 12;
+const RATE_HEIGHT = 70;
+const METRIC_TOP = RATE_HEIGHT + 12;
+const METRIC_HEIGHT = 50;
+const AXIS_TOP = METRIC_TOP + METRIC_HEIGHT;
+const CHART_HEIGHT = AXIS_TOP + 18;
+
+/** Drags shorter than this are clicks */
+const MIN_BRUSH_WIDTH = 3;
+
+const X_TICKS = 6;
+
+/** Colors assigned to event classes in name order */
+const EVENT_COLORS = [
+    'var(--vscode-charts-blue)',
+    'var(--vscode-charts-orange)',
+    'var(--vscode-charts-green)',
+    'var(--vscode-charts-purple)',
+    'var(--vscode-charts-red)',
+    'var(--vscode-charts-yellow)'
+];
+
+const METRICS: { key: keyof Pick<TimelinePoint, 'duration' | 'cpuTime'>; label: string }[] = [
+    { key: 'duration', label: 'Duration' },
+    { key: 'cpuTime', label: 'CPU' }
+];
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+const formatMs = (microseconds: number) => `${(microseconds / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })} ms`;
+
+/**
+ * Events per second (stacked by event class) and duration or CPU time per event over the capture
+ * Drag across the chart to limit the grid to a time range, or click a bar to limit it to that bar's events
+ */
+export const Timeline: React.FC<TimelineProps> = ({ data, visible, onVisibleChange, timeRange, onTimeRangeChange }) => {
+    const [width, setWidth] = React.useState(0);
+    const [metricKey, setMetricKey] = React.useState<'duration' | 'cpuTime'>('duration');
+    const [brush, setBrush] = React.useState<{ start: number; end: number } | null>(null);
+    const containerRef = React.useRef<HTMLDivElement>(null);
+    const svgRef = React.useRef<SVGSVGElement>(null);
+
+    // Track the chart width so the time axis fills it
+    React.useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        setWidth(container.clientWidth);
+        const observer = new ResizeObserver(() => setWidth(container.clientWidth));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [visible]);
+
+    const buckets = data?.buckets || [];
+    const eventNames = data?.eventNames || [];
+    const bucketMs = (data?.bucketSeconds || 1) * 1000;
+    const plotWidth = Math.max(0, width - MARGIN_LEFT - MARGIN_RIGHT);
+
+    const startTime = buckets.length > 0 ? buckets[0].time : 0;
+    const endTime = buckets.length > 0 ? buckets[buckets.length - 1].time + bucketMs : 1;
+
+    const toX = (time: number) => MARGIN_LEFT + (time - startTime) / (endTime - startTime) * plotWidth;
+    const toTime = (x: number) => startTime + (Math.min(Math.max(x, MARGIN_LEFT), MARGIN_LEFT + plotWidth) - MARGIN_LEFT) / plotWidth * (endTime - startTime);
+
+    const getColor = (eventName: string) => EVENT_COLORS[Math.max(0, eventNames.indexOf(eventName)) % EVENT_COLORS.length];
+
+    const maxRate = React.useMemo(() => {
+        let max = 0;
+        for (const bucket of buckets) {
+            const total = Object.values(bucket.counts).reduce((sum, count) => sum + count, 0);
+            max = Math.max(max, total / (data?.bucketSeconds || 1));
+        }
+        return max;
+    }, [data]);
+
+    const maxMetric = React.useMemo(() => {
+        return (data?.points || []).reduce((max, point) => Math.max(max, point[metricKey] ?? 0), 0);
+    }, [data, metricKey]);
+
+    // Log scale keeps ordinary events visible next to outliers
+    const toMetricY = (value: number) => {
+        const scale = maxMetric > 0 ? Math.log10(1 + value) / Math.log10(1 + maxMetric) : 0;
+        return METRIC_TOP + METRIC_HEIGHT - scale * METRIC_HEIGHT;
+    };
+
+    const getSvgX = (clientX: number) => clientX - (svgRef.current?.getBoundingClientRect().left || 0);
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        if (e.button !== 0 || buckets.length === 0) {
+            return;
+        }
+        e.preventDefault();
+
+        const startX = getSvgX(e.clientX);
+        let endX = startX;
+        setBrush({ start: startX, end: startX });
+
+        const handleMouseMove = (moveEvent: MouseEvent) => {
+            endX = getSvgX(moveEvent.clientX);
+            setBrush({ start: startX, end: endX });
+        };
+
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove);
+            document.removeEventListener('mouseup', handleMouseUp);
+            setBrush(null);
+
+            if (Math.abs(endX - startX) >= MIN_BRUSH_WIDTH) {
+                onTimeRangeChange({ start: toTime(Math.min(startX, endX)), end: toTime(Math.max(startX, endX)) });
+                return;
+            }
+
+            // A click selects the events of the bar under the pointer
+            const time = toTime(startX);
+            const bucket = buckets.find(b => time >= b.time && time < b.time + bucketMs);
+            if (bucket) {
+                onTimeRangeChange({ start: bucket.time, end: bucket.time + bucketMs });
+            }
+        };
+
+        document.addEventListener('mousemove', handleMouseMove);
+        document.addEventListener('mouseup', handleMouseUp);
+    };
+
+    const renderBars = () => {
+        const barWidth = Math.max(1, bucketMs / (endTime - startTime) * plotWidth - 1);
+        const rects: React.ReactElement[] = [];
+
+        for (const bucket of buckets) {
+            const x = toX(bucket.time);
+            let y = RATE_HEIGHT;
+            for (const eventName of eventNames) {
+                const count = bucket.counts[eventName];
+                if (!count) {
+                    continue;
+                }
+                const height = maxRate > 0 ? count / data!.bucketSeconds / maxRate * RATE_HEIGHT : 0;
+                y -= height;
+                rects.push(
+                    <rect key={`${bucket.time}-${eventName}`} x={x} y={y} width={barWidth} height={height} style={{ fill: getColor(eventName) }}>
+                        <title>{`${formatTime(bucket.time)} - ${eventName}: ${count.toLocaleString()} event(s)`}</title>
+                    </rect>
+                );
+            }
+        }
+
+        return rects;
+    };
+
+    const renderPoints = () => {
+        return (data?.points || []).map((point, index) => {
+            const value = point[metricKey];
+            if (value === undefined) {
+                return null;
+            }
+            return (
+                <circle key={index} cx={toX(point.time)} cy={toMetricY(value)} r={2} style={{ fill: getColor(point.eventName) }}>
+                    <title>{`${formatTime(point.time)} - ${point.eventName}: ${formatMs(value)}`}</title>
+                </circle>
+            );
+        });
+    };
+
+    const renderAxis = () => {
+        const ticks: React.ReactElement[] = [];
+        for (let i = 0; i < X_TICKS; i++) {
+            const time = startTime + (endTime - startTime) * i / (X_TICKS - 1);
+            const anchor = i === 0 ? 'start' : i === X_TICKS - 1 ? 'end' : 'middle';
+            ticks.push(
+                <text key={i} x={toX(time)} y={AXIS_TOP + 13} textAnchor={anchor} className="timeline-label">
+                    {formatTime(time)}
+                </text>
+            );
+        }
+        return ticks;
+    };
+
+    const renderSelection = () => {
+        const range = brush
+            ? { start: toTime(Math.min(brush.start, brush.end)), end: toTime(Math.max(brush.start, brush.end)) }
+            : timeRange;
+        if (!range || range.end <= startTime || range.start >= endTime) {
+            return null;
+        }
+
+        const x1 = toX(Math.max(range.start, startTime));
+        const x2 = toX(Math.min(range.end, endTime));
+        return <rect className="timeline-selection" x={x1} y={0} width={Math.max(1, x2 - x1)} height={AXIS_TOP} />;
+    };
+
+    const metric = METRICS.find(m => m.key === metricKey)!;
+
+    return (
+        <div className="timeline">
+            <div className="timeline-header">
+                <button
+                    className="filter-toggle"
+                    onClick={() => onVisibleChange(!visible)}
+                    title={visible ? 'Hide timeline' : 'Show timeline'}
+                >
+                    <span className={`codicon ${visible ? 'codicon-chevron-down' : 'codicon-chevron-right'}`}></span>
+                    Timeline
+                </button>
+                {visible && (
+                    <div className="timeline-legend">
+                        {eventNames.map(eventName => (
+                            <span key={eventName} className="timeline-legend-item">
+                                <span className="timeline-swatch" style={{ background: getColor(eventName) }}></span>
+                                {eventName}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <div className="filter-bar-actions">
+                    {visible && (
+                        <select
+                            className="filter-select"
+                            value={metricKey}
+                            onChange={(e) => setMetricKey(e.target.value as 'duration' | 'cpuTime')}
+                            title="Value plotted per event"
+                        >
+                            {METRICS.map(m => (
+                                <option key={m.key} value={m.key}>{m.label}</option>
+                            ))}
+                        </select>
+                    )}
+                    {timeRange && (
+                        <>
+                            <span className="timeline-range">
+                                {formatTime(timeRange.start)} - {formatTime(timeRange.end)}
+                            </span>
+                            <button
+                                className="filter-clear"
+                                onClick={() => onTimeRangeChange(undefined)}
+                                title="Show events from the whole capture"
+                            >
+                                Clear
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+            {visible && (
+                <div className="timeline-chart" ref={containerRef}>
+                    {!data ? (
+                        <div className="timeline-empty">Loading...</div>
+                    ) : buckets.length === 0 ? (
+                        <div className="timeline-empty">No events to plot.</div>
+                    ) : width > 0 && (
+                        <svg
+                            ref={svgRef}
+                            width={width}
+                            height={CHART_HEIGHT}
+                            onMouseDown={handleMouseDown}
+                        >
+                            <text x={MARGIN_LEFT - 6} y={10} textAnchor="end" className="timeline-label">
+                                {`${maxRate.toLocaleString(undefined, { maximumFractionDigits: 1 })}/s`}
+                            </text>
+                            <text x={MARGIN_LEFT - 6} y={RATE_HEIGHT} textAnchor="end" className="timeline-label">0</text>
+                            <text x={MARGIN_LEFT - 6} y={METRIC_TOP + 10} textAnchor="end" className="timeline-label">
+                                {formatMs(maxMetric)}
+                            </text>
+                            <text x={MARGIN_LEFT - 6} y={AXIS_TOP} textAnchor="end" className="timeline-label">
+                                <title>{data.sampled ? `Highest ${metric.label.toLowerCase()} per event class and bar` : `${metric.label} of each event`}</title>
+                                {metric.label}
+                            </text>
+                            <line className="timeline-axis" x1={MARGIN_LEFT} x2={MARGIN_LEFT + plotWidth} y1={RATE_HEIGHT} y2={RATE_HEIGHT} />
+                            <line className="timeline-axis" x1={MARGIN_LEFT} x2={MARGIN_LEFT + plotWidth} y1={AXIS_TOP} y2={AXIS_TOP} />
+                            {renderBars()}
+                            {renderPoints()}
+                            {renderAxis()}
+                            {renderSelection()}
+                        </svg>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
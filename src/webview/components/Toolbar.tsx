@@ -1,8 +1,19 @@
 import * as React from 'react';
-import { SessionState } from '../../models/profilerTypes';
+import { ConnectionStatus, ProfilerViewColumn, SessionState } from '../../models/profilerTypes';
+import { ColumnChooser } from './ColumnChooser';
 
 interface ToolbarProps {
     sessionState: SessionState;
+    connectionStatus?: ConnectionStatus;
+    readOnly: boolean;
+    views: string[];
+    currentView: string;
+    onViewChange: (view: string) => void;
+    availableColumnKeys: string[];
+    columns: ProfilerViewColumn[];
+    columnsCustomized: boolean;
+    onColumnsChange: (columns: ProfilerViewColumn[]) => void;
+    onResetColumns: () => void;
     onStart: () => void;
     onStop: () => void;
     onPause: () => void;
@@ -13,6 +24,16 @@ interface ToolbarProps {
 
 export const Toolbar: React.FC<ToolbarProps> = ({
     sessionState,
+    connectionStatus,
+    readOnly,
+    views,
+    currentView,
+    onViewChange,
+    availableColumnKeys,
+    columns,
+    columnsCustomized,
+    onColumnsChange,
+    onResetColumns,
     onStart,
     onStop,
     onPause,
@@ -26,37 +47,41 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     return (
         <div className="toolbar">
-            <div className="toolbar-group">
-                <button
-                    className="toolbar-button"
-                    onClick={onStart}
-                    disabled={isRunning}
-                    title="Start profiling"
-                >
-                    <span className="codicon codicon-play"></span>
-                    Start
-                </button>
-                <button
-                    className="toolbar-button"
-                    onClick={onStop}
-                    disabled={isStopped}
-                    title="Stop profiling"
-                >
-                    <span className="codicon codicon-debug-stop"></span>
-                    Stop
-                </button>
-                <button
-                    className="toolbar-button"
-                    onClick={onPause}
-                    disabled={isStopped}
-                    title={isPaused ? "Resume profiling" : "Pause profiling"}
-                >
-                    <span className={isPaused ? "codicon codicon-play" : "codicon codicon-debug-pause"}></span>
-                    {isPaused ? 'Resume' : 'Pause'}
-                </button>
-            </div>
+            {!readOnly && (
+                <>
+                    <div className="toolbar-group">
+                        <button
+                            className="toolbar-button"
+                            onClick={onStart}
+                            disabled={isRunning}
+                            title="Start profiling"
+                        >
+                            <span className="codicon codicon-play"></span>
+                            Start
+                        </button>
+                        <button
+                            className="toolbar-button"
+                            onClick={onStop}
+                            disabled={isStopped}
+                            title="Stop profiling"
+                        >
+                            <span className="codicon codicon-debug-stop"></span>
+                            Stop
+                        </button>
+                        <button
+                            className="toolbar-button"
+                            onClick={onPause}
+                            disabled={isStopped}
+                            title={isPaused ? "Resume profiling" : "Pause profiling"}
+                        >
+                            <span className={isPaused ? "codicon codicon-play" : "codicon codicon-debug-pause"}></span>
+                            {isPaused ? 'Resume' : 'Pause'}
+                        </button>
+                    </div>
 
-            <div className="toolbar-separator"></div>
+                    <div className="toolbar-separator"></div>
+                </>
+            )}
 
             <div className="toolbar-group">
                 <button
@@ -77,25 +102,82 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 </button>
             </div>
 
+            {!readOnly && (
+                <>
+                    <div className="toolbar-separator"></div>
+
+                    <div className="toolbar-group">
+                        <button
+                            className="toolbar-button"
+                            onClick={onReconnect}
+                            title="Reconnect to database"
+                        >
+                            <span className="codicon codicon-debug-disconnect"></span>
+                            Reconnect
+                        </button>
+                    </div>
+                </>
+            )}
+
             <div className="toolbar-separator"></div>
 
             <div className="toolbar-group">
-                <button
-                    className="toolbar-button"
-                    onClick={onReconnect}
-                    title="Reconnect to database"
-                >
-                    <span className="codicon codicon-debug-disconnect"></span>
-                    Reconnect
-                </button>
+                {views.length > 0 && (
+                    <select
+                        className="filter-select view-select"
+                        value={currentView}
+                        onChange={(e) => onViewChange(e.target.value)}
+                        title="Column layout"
+                    >
+                        {views.map(view => (
+                            <option key={view} value={view}>{view}</option>
+                        ))}
+                    </select>
+                )}
+                <ColumnChooser
+                    availableKeys={availableColumnKeys}
+                    columns={columns}
+                    customized={columnsCustomized}
+                    onColumnsChange={onColumnsChange}
+                    onReset={onResetColumns}
+                />
             </div>
 
             <div className="toolbar-spacer"></div>
 
-            <div className="status-indicator">
-                <span className={`status-dot status-${sessionState.toLowerCase()}`}></span>
-                <span className="status-text">{sessionState}</span>
-            </div>
+            {readOnly ? (
+                <div className="status-indicator">
+                    <span className="codicon codicon-file"></span>
+                    <span className="status-text">Offline capture</span>
+                </div>
+            ) : connectionStatus && connectionStatus.health !== 'connected' ? (
+                <div className="status-indicator" title={describeConnectionStatus(connectionStatus)}>
+                    <span className={`status-dot status-${connectionStatus.health}`}></span>
+                    <span className="status-text">
+                        {connectionStatus.health === 'reconnecting'
+                            ? `reconnecting (${connectionStatus.attempt}/${connectionStatus.maxAttempts})`
+                            : 'disconnected'}
+                    </span>
+                </div>
+            ) : (
+                <div className="status-indicator">
+                    <span className={`status-dot status-${sessionState.toLowerCase()}`}></span>
+                    <span className="status-text">{sessionState}</span>
+                </div>
+            )}
         </div>
     );
 };
+
+/**
+ * Tooltip of the status indicator while the connection is lost
+ */
+function describeConnectionStatus(status: ConnectionStatus): string {
+    const lines = [status.error ? `Connection lost: ${status.error}` : 'Connection lost'];
+    if (status.health === 'reconnecting' && status.nextAttemptAt) {
+        lines.push(`Attempt ${status.attempt} of ${status.maxAttempts} at ${new Date(status.nextAttemptAt).toLocaleTimeString()}`);
+    } else {
+        lines.push('Click Reconnect to try again');
+    }
+    return lines.join('\n');
+}
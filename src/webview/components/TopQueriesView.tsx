@@ -0,0 +1,144 @@
+import * as React from 'react';
+import { QueryStats } from '../../models/profilerTypes';
+
+interface TopQueriesViewProps {
+    /** Queries grouped by fingerprint; undefined while they are being aggregated */
+    queries: QueryStats[] | undefined;
+    /** Number of distinct queries, including those not sent */
+    totalQueries: number;
+    onRefresh: () => void;
+    /** Show the events of a query in the event grid */
+    onShowEvents: (query: QueryStats) => void;
+}
+
+type StatKey = 'count' | 'total' | 'avg' | 'max' | 'p95';
+
+const METRICS = [
+    { key: 'duration', label: 'Duration (ms)', microseconds: true },
+    { key: 'cpu_time', label: 'CPU (ms)', microseconds: true },
+    { key: 'logical_reads', label: 'Logical Reads', microseconds: false },
+    { key: 'writes', label: 'Writes', microseconds: false }
+];
+
+const STAT_COLUMNS: { key: StatKey; label: string }[] = [
+    { key: 'count', label: 'Count' },
+    { key: 'total', label: 'Total' },
+    { key: 'avg', label: 'Avg' },
+    { key: 'max', label: 'Max' },
+    { key: 'p95', label: 'P95' }
+];
+
+/**
+ * Captured statements grouped by fingerprint, with count and total/avg/max/p95 of a chosen metric
+ */
+export const TopQueriesView: React.FC<TopQueriesViewProps> = ({ queries, totalQueries, onRefresh, onShowEvents }) => {
+    const [metricKey, setMetricKey] = React.useState('duration');
+    const [sort, setSort] = React.useState<{ key: StatKey; direction: 'asc' | 'desc' }>({ key: 'total', direction: 'desc' });
+
+    const metric = METRICS.find(m => m.key === metricKey) || METRICS[0];
+
+    const getStat = (query: QueryStats, key: StatKey): number => {
+        return key === 'count' ? query.count : query.metrics[metric.key]?.[key] ?? -1;
+    };
+
+    const sortedQueries = React.useMemo(() => {
+        const direction = sort.direction === 'asc' ? 1 : -1;
+        return [...(queries || [])].sort((a, b) => (getStat(a, sort.key) - getStat(b, sort.key)) * direction);
+    }, [queries, sort, metricKey]);
+
+    const formatStat = (query: QueryStats, key: StatKey): string => {
+        const value = getStat(query, key);
+        if (value < 0) {
+            return '';
+        }
+        if (key === 'count') {
+            return value.toLocaleString();
+        }
+        return metric.microseconds
+            ? (value / 1000).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+            : Math.round(value).toLocaleString();
+    };
+
+    const handleSort = (key: StatKey) => {
+        setSort(sort.key === key
+            ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+            : { key, direction: 'desc' });
+    };
+
+    return (
+        <div className="top-queries">
+            <div className="top-queries-toolbar">
+                <label>
+                    Metric:
+                    <select
+                        className="filter-select"
+                        value={metricKey}
+                        onChange={(e) => setMetricKey(e.target.value)}
+                    >
+                        {METRICS.map(m => (
+                            <option key={m.key} value={m.key}>{m.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <span className="top-queries-count">
+                    {queries && (totalQueries > queries.length
+                        ? `Top ${queries.length.toLocaleString()} of ${totalQueries.toLocaleString()} queries`
+                        : `${totalQueries.toLocaleString()} queries`)}
+                </span>
+                <button className="filter-clear" onClick={onRefresh} disabled={!queries}>
+                    Refresh
+                </button>
+            </div>
+            <div className="event-grid-wrapper">
+                <table className="event-grid top-queries-grid">
+                    <thead>
+                        <tr>
+                            <th className="top-queries-text-column">Query</th>
+                            {STAT_COLUMNS.map(col => (
+                                <th
+                                    key={col.key}
+                                    className={`top-queries-stat-column ${sort.key === col.key ? 'sorted' : ''}`}
+                                    onClick={() => handleSort(col.key)}
+                                    title={col.key === 'count' ? 'Executions' : `${col.label} ${metric.label}`}
+                                >
+                                    {col.label}
+                                    {sort.key === col.key && (
+                                        <span className="sort-indicator">
+                                            {sort.direction === 'asc' ? ' ▲' : ' ▼'}
+                                        </span>
+                                    )}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {!queries ? (
+                            <tr className="loading-row">
+                                <td colSpan={STAT_COLUMNS.length + 1}>Aggregating queries...</td>
+                            </tr>
+                        ) : sortedQueries.length === 0 ? (
+                            <tr className="empty-row">
+                                <td colSpan={STAT_COLUMNS.length + 1} className="empty-message">
+                                    No events with statement text or query_hash match the current filters.
+                                </td>
+                            </tr>
+                        ) : sortedQueries.map(query => (
+                            <tr
+                                key={query.fingerprint}
+                                onClick={() => onShowEvents(query)}
+                                title="Show the events of this query"
+                            >
+                                <td className="top-queries-text-column">{query.text}</td>
+                                {STAT_COLUMNS.map(col => (
+                                    <td key={col.key} className="top-queries-stat-column">
+                                        {formatStat(query, col.key)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
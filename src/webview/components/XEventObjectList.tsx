@@ -0,0 +1,98 @@
+import * as React from 'react';
+import { XEventObjectInfo } from '../../models/profilerTypes';
+
+interface XEventObjectListProps {
+    title: string;
+    objects: XEventObjectInfo[];
+    packages: string[];
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}
+
+/**
+ * Searchable checklist of catalog objects, keyed by package-qualified name
+ */
+export const XEventObjectList: React.FC<XEventObjectListProps> = ({
+    title,
+    objects,
+    packages,
+    selected,
+    onChange
+}) => {
+    const [search, setSearch] = React.useState('');
+    const [packageFilter, setPackageFilter] = React.useState('');
+    const [showSelectedOnly, setShowSelectedOnly] = React.useState(false);
+
+    const visibleObjects = React.useMemo(() => {
+        const searchLower = search.toLowerCase();
+        return objects.filter(obj => {
+            const key = `${obj.package}.${obj.name}`;
+            if (showSelectedOnly && !selected.includes(key)) return false;
+            if (packageFilter && obj.package !== packageFilter) return false;
+            if (!searchLower) return true;
+            return key.toLowerCase().includes(searchLower) || obj.description.toLowerCase().includes(searchLower);
+        });
+    }, [objects, search, packageFilter, showSelectedOnly, selected]);
+
+    const handleToggle = (key: string) => {
+        onChange(selected.includes(key)
+            ? selected.filter(s => s !== key)
+            : [...selected, key]);
+    };
+
+    return (
+        <div className="builder-section object-list">
+            <div className="builder-section-header">
+                <h3>{title}</h3>
+                <span className="builder-count">{selected.length} selected</span>
+            </div>
+            <div className="object-list-filters">
+                <input
+                    type="text"
+                    className="builder-input"
+                    placeholder={`Search ${title.toLowerCase()}...`}
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                <select
+                    className="builder-input"
+                    value={packageFilter}
+                    onChange={(e) => setPackageFilter(e.target.value)}
+                >
+                    <option value="">All packages</option>
+                    {packages.map(name => (
+                        <option key={name} value={name}>{name}</option>
+                    ))}
+                </select>
+                <label className="builder-checkbox">
+                    <input
+                        type="checkbox"
+                        checked={showSelectedOnly}
+                        onChange={(e) => setShowSelectedOnly(e.target.checked)}
+                    />
+                    Selected only
+                </label>
+            </div>
+            <div className="object-list-items">
+                {visibleObjects.length === 0 ? (
+                    <div className="builder-empty">No matches</div>
+                ) : (
+                    visibleObjects.map(obj => {
+                        const key = `${obj.package}.${obj.name}`;
+                        return (
+                            <label key={key} className="object-list-item" title={obj.description}>
+                                <input
+                                    type="checkbox"
+                                    checked={selected.includes(key)}
+                                    onChange={() => handleToggle(key)}
+                                />
+                                <span className="object-name">{obj.name}</span>
+                                <span className="object-package">{obj.package}</span>
+                            </label>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,8 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom/client';
+import { TemplateBuilderApp } from './TemplateBuilderApp';
+import './styles/profiler.css';
+import './styles/templateBuilder.css';
+
+const root = ReactDOM.createRoot(document.getElementById('root')!);
+root.render(<TemplateBuilderApp />);
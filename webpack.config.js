@@ -3,10 +3,13 @@ const path = require('path');
 module.exports = {
     target: 'web',
     mode: 'production',
-    entry: './src/webview/index.tsx',
+    entry: {
+        webview: './src/webview/index.tsx',
+        templateBuilder: './src/webview/templateBuilder.tsx',
+    },
     output: {
         path: path.resolve(__dirname, 'out/webview'),
-        filename: 'webview.js',
+        filename: '[name].js',
     },
     resolve: {
         extensions: ['.ts', '.tsx', '.js', '.jsx'],